@@ -9,6 +9,7 @@ const config = {
     '^@cw-rag-core/shared/(.*)$': '<rootDir>/../../packages/shared/src/$1',
     '^@cw-rag-core/retrieval$': '<rootDir>/../../packages/retrieval/src/index.ts',
     '^@cw-rag-core/retrieval/(.*)$': '<rootDir>/../../packages/retrieval/src/$1',
+    '^@cw-rag-core/ingestion-sdk$': '<rootDir>/../../packages/ingestion-sdk/src/index.ts',
     '^(\\.{1,2}/.*)\\.js$': '$1',
   },
   transform: {
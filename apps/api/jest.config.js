@@ -6,6 +6,7 @@ const config = {
   moduleNameMapper: {
     '^@cw-rag-core/shared(.*)$': '<rootDir>/../../packages/shared/src/$1',
     '^@cw-rag-core/retrieval(.*)$': '<rootDir>/../../packages/retrieval/src/$1',
+    '^@cw-rag-core/ingestion-sdk(.*)$': '<rootDir>/../../packages/ingestion-sdk/src/$1',
   },
   collectCoverage: true,
   coverageDirectory: "coverage",
@@ -0,0 +1,140 @@
+import { describe, beforeEach, it, expect } from '@jest/globals';
+import { AskResponse } from '@cw-rag-core/shared';
+import { SemanticAnswerCache, getAnswerCacheConfig, toCachedAskResponse } from '../services/answer-cache.js';
+
+function createResponse(docs: Array<{ docId: string; acl: string[] }>): AskResponse {
+  return {
+    answer: 'Employees get 25 vacation days [^1]',
+    queryId: 'qid-original',
+    conversationId: 'conversation-1',
+    metrics: { totalDuration: 1200 },
+    retrievedDocuments: docs.map(({ docId, acl }) => ({
+      document: {
+        id: `${docId}-chunk-0`,
+        content: 'Employees get 25 vacation days.',
+        metadata: { tenantId: 'acme', docId, acl }
+      },
+      score: 0.9
+    })),
+    citations: docs.map(({ docId }, index) => ({ id: `${docId}-chunk-0`, number: index + 1, source: docId, docId }))
+  };
+}
+
+describe('SemanticAnswerCache', () => {
+  const staff = { id: 'alice', tenantId: 'acme', groupIds: ['staff'] };
+  const options = { k: 10 };
+  const question = [0.6, 0.8, 0];
+  const paraphrase = [0.62, 0.78, 0.05];
+  const unrelated = [0, 0.2, 0.98];
+
+  let cache: SemanticAnswerCache;
+
+  beforeEach(() => {
+    cache = new SemanticAnswerCache({
+      enabled: true,
+      similarityThreshold: 0.95,
+      tenantThresholds: {},
+      ttlMs: 60_000,
+      maxEntries: 10
+    });
+  });
+
+  it('should only be enabled with ANSWER_CACHE_ENABLED=on', () => {
+    const previous = process.env.ANSWER_CACHE_ENABLED;
+    try {
+      delete process.env.ANSWER_CACHE_ENABLED;
+      expect(getAnswerCacheConfig().enabled).toBe(false);
+      process.env.ANSWER_CACHE_ENABLED = 'true';
+      expect(getAnswerCacheConfig().enabled).toBe(false);
+      process.env.ANSWER_CACHE_ENABLED = 'on';
+      expect(getAnswerCacheConfig().enabled).toBe(true);
+    } finally {
+      if (previous === undefined) {
+        delete process.env.ANSWER_CACHE_ENABLED;
+      } else {
+        process.env.ANSWER_CACHE_ENABLED = previous;
+      }
+    }
+  });
+
+  it('should reuse answers for near-duplicate questions only', () => {
+    cache.store(staff, question, options, 'qid-1', toCachedAskResponse(createResponse([{ docId: 'handbook', acl: ['staff'] }])));
+
+    const hit = cache.lookup({ ...staff, id: 'bob' }, paraphrase, options);
+    expect(hit?.queryId).toBe('qid-1');
+    expect(hit?.similarity).toBeGreaterThan(0.95);
+    expect(hit?.response.answer).toBe('Employees get 25 vacation days [^1]');
+    expect(hit?.response).not.toHaveProperty('queryId');
+    expect(hit?.response).not.toHaveProperty('conversationId');
+    expect(hit?.response).not.toHaveProperty('metrics');
+
+    expect(cache.lookup(staff, unrelated, options)).toBeNull();
+  });
+
+  it('should partition answers by effective ACL and request options', () => {
+    cache.store(staff, question, options, 'qid-1', toCachedAskResponse(createResponse([{ docId: 'handbook', acl: ['staff'] }])));
+
+    expect(cache.lookup({ ...staff, groupIds: ['contractors'] }, question, options)).toBeNull();
+    expect(cache.lookup({ ...staff, groupIds: ['staff', 'hr'] }, question, options)).toBeNull();
+    expect(cache.lookup({ ...staff, tenantId: 'globex' }, question, options)).toBeNull();
+    expect(cache.lookup(staff, question, { k: 3 })).toBeNull();
+    expect(cache.lookup(staff, question, options)).not.toBeNull();
+  });
+
+  it('should only reuse answers from personally shared documents for the same user', () => {
+    cache.store(staff, question, options, 'qid-1', toCachedAskResponse(createResponse([{ docId: 'review', acl: ['alice'] }])));
+
+    expect(cache.lookup({ ...staff, id: 'bob' }, question, options)).toBeNull();
+    expect(cache.lookup(staff, question, options)?.queryId).toBe('qid-1');
+  });
+
+  it('should not reuse answers across deny entries or access rule attributes', () => {
+    const cleared = {
+      ...staff,
+      attributes: { clearance: 2 },
+      accessRules: [{ field: 'classification', op: 'lte' as const, userAttribute: 'clearance' }]
+    };
+    cache.store(staff, question, options, 'qid-1', toCachedAskResponse(createResponse([{ docId: 'plan', acl: ['staff', '!bob'] }])));
+    cache.store(cleared, question, options, 'qid-2', toCachedAskResponse(createResponse([{ docId: 'handbook', acl: ['staff'] }])));
+
+    expect(cache.lookup({ ...staff, id: 'bob' }, question, options)).toBeNull();
+    expect(cache.lookup({ ...cleared, id: 'carol', attributes: { clearance: 1 } }, question, options)).toBeNull();
+    expect(cache.lookup({ ...cleared, id: 'carol' }, question, options)?.queryId).toBe('qid-2');
+  });
+
+  it('should apply tenant similarity thresholds', () => {
+    cache.store(staff, question, options, 'qid-1', toCachedAskResponse(createResponse([{ docId: 'handbook', acl: ['staff'] }])));
+    cache.updateTenantConfig('acme', { similarityThreshold: 0.999 });
+
+    expect(cache.lookup(staff, paraphrase, options)).toBeNull();
+    expect(cache.lookup(staff, question, options)).not.toBeNull();
+  });
+
+  it('should drop answers generated from republished or deleted documents', () => {
+    cache.store(staff, question, options, 'qid-1', toCachedAskResponse(createResponse([{ docId: 'handbook', acl: ['staff'] }])));
+    cache.store(staff, unrelated, options, 'qid-2', toCachedAskResponse(createResponse([{ docId: 'faq', acl: ['public'] }])));
+
+    expect(cache.invalidateDocuments(['handbook'], 'globex')).toBe(0);
+    expect(cache.invalidateDocuments(['handbook'], 'acme')).toBe(1);
+    expect(cache.lookup(staff, question, options)).toBeNull();
+    expect(cache.lookup(staff, unrelated, options)).not.toBeNull();
+
+    expect(cache.invalidateDocuments(['faq'])).toBe(1);
+    expect(cache.size()).toBe(0);
+  });
+
+  it('should evict the least recently used answers', () => {
+    const small = new SemanticAnswerCache({
+      enabled: true, similarityThreshold: 0.95, tenantThresholds: {}, ttlMs: 60_000, maxEntries: 2
+    });
+    const response = toCachedAskResponse(createResponse([{ docId: 'handbook', acl: ['staff'] }]));
+
+    small.store(staff, question, options, 'qid-1', response);
+    small.store(staff, unrelated, options, 'qid-2', response);
+    small.lookup(staff, question, options);
+    small.store(staff, [1, 0, 0], options, 'qid-3', response);
+
+    expect(small.lookup(staff, question, options)?.queryId).toBe('qid-1');
+    expect(small.lookup(staff, unrelated, options)).toBeNull();
+  });
+});
@@ -34,6 +34,14 @@ class MockLLMClient implements LLMClient {
     };
   }
 
+  async generateTaskCompletion(instructions: string, input: string, maxTokens?: number) {
+    return {
+      text: input,
+      tokensUsed: 10,
+      model: this.config.model
+    };
+  }
+
   supportsStreaming(): boolean {
     return this.config.streaming || false;
   }
@@ -0,0 +1,311 @@
+import Fastify from 'fastify';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals';
+import { ConversationStore } from '../services/conversations.js';
+import { conversationsRoute } from '../routes/conversations.js';
+import { QueryCondenser } from '../services/query-condenser.js';
+import { LLMClient, LLMClientFactory } from '../services/llm-client.js';
+
+function createFactory(generate: (instructions: string, input: string) => Promise<string>): LLMClientFactory {
+  const client = {
+    generateTaskCompletion: async (instructions: string, input: string) => ({
+      text: await generate(instructions, input),
+      tokensUsed: 10,
+      model: 'test-model'
+    })
+  } as unknown as LLMClient;
+
+  return {
+    createClientForTenant: async () => client,
+    createClient: () => client,
+    getTenantConfig: async () => ({} as any),
+    updateTenantConfig: async () => undefined
+  };
+}
+
+describe('ConversationStore', () => {
+  let dir: string;
+  let store: ConversationStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'conversations-'));
+    store = new ConversationStore({ dir, maxHistoryTurns: 2 });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should persist turns and use the first question as title', async () => {
+    const conversation = await store.create('acme', 'alice');
+    const createdAt = new Date().toISOString();
+
+    await store.appendTurns('acme', conversation.id, [
+      { role: 'user', content: 'What is the leave policy?', queryId: 'q1', createdAt },
+      { role: 'assistant', content: 'Employees get 25 days.', queryId: 'q1', createdAt }
+    ]);
+    await store.appendTurns('acme', conversation.id, [
+      { role: 'user', content: 'And for contractors?', queryId: 'q2', createdAt },
+      { role: 'assistant', content: 'Contractors get none.', queryId: 'q2', createdAt }
+    ]);
+
+    const reopened = new ConversationStore({ dir, maxHistoryTurns: 2 });
+    const stored = await reopened.get('acme', conversation.id);
+
+    expect(stored?.title).toBe('What is the leave policy?');
+    expect(stored?.turns).toHaveLength(4);
+    expect(reopened.recentTurns(stored!)).toEqual([
+      { role: 'user', content: 'And for contractors?' },
+      { role: 'assistant', content: 'Contractors get none.' }
+    ]);
+  });
+
+  it('should keep concurrent appends', async () => {
+    const conversation = await store.create('acme', 'alice');
+    const createdAt = new Date().toISOString();
+
+    await Promise.all(['q1', 'q2', 'q3'].map(queryId =>
+      store.appendTurns('acme', conversation.id, [{ role: 'user', content: queryId, queryId, createdAt }])
+    ));
+
+    expect((await store.get('acme', conversation.id))?.turns).toHaveLength(3);
+  });
+
+  it('should only return conversations to their owner and tenant', async () => {
+    const conversation = await store.create('acme', 'alice');
+
+    expect(await store.getForUser('acme', 'alice', conversation.id)).not.toBeNull();
+    expect(await store.getForUser('acme', 'bob', conversation.id)).toBeNull();
+    expect(await store.get('globex', conversation.id)).toBeNull();
+    expect(await store.get('acme', '../acme/other')).toBeNull();
+  });
+
+  it('should list a user\'s conversations, most recently updated first', async () => {
+    const first = await store.create('acme', 'alice');
+    const second = await store.create('acme', 'alice');
+    await store.create('acme', 'bob');
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await store.appendTurns('acme', first.id, [
+      { role: 'user', content: 'Latest question', queryId: 'q1', createdAt: new Date().toISOString() }
+    ]);
+
+    const { conversations, total } = await store.list('acme', 'alice');
+
+    expect(total).toBe(2);
+    expect(conversations.map(c => c.id)).toEqual([first.id, second.id]);
+    expect(conversations[0]).toMatchObject({ title: 'Latest question', turnCount: 1, shared: false });
+    expect((await store.list('acme', 'alice', { page: 2, limit: 1 })).conversations.map(c => c.id)).toEqual([second.id]);
+    expect(await store.list('globex', 'alice')).toEqual({ conversations: [], total: 0 });
+  });
+
+  it('should resolve share links until they are revoked or the conversation is deleted', async () => {
+    const conversation = await store.create('acme', 'alice');
+
+    const token = await store.share('acme', conversation.id, 'alice');
+    expect(token).toBeTruthy();
+    expect(await store.share('acme', conversation.id, 'alice')).toBe(token);
+    expect((await store.getShared(token!))?.id).toBe(conversation.id);
+
+    await store.unshare('acme', conversation.id);
+    expect(await store.getShared(token!)).toBeNull();
+
+    const newToken = await store.share('acme', conversation.id, 'alice');
+    expect(await store.delete('acme', conversation.id)).toBe(true);
+    expect(await store.getShared(newToken!)).toBeNull();
+    expect(await store.get('acme', conversation.id)).toBeNull();
+    expect(await store.delete('acme', conversation.id)).toBe(false);
+  });
+});
+
+describe('Conversations API', () => {
+  let dir: string;
+  let store: ConversationStore;
+  let server: ReturnType<typeof Fastify>;
+  let readableDocIds: string[];
+  const scroll = jest.fn(async (_collection: string, request: any) => {
+    const requested: string[] = request.filter.must.find((condition: any) => condition.key === 'docId').match.any;
+    return {
+      points: requested.filter(docId => readableDocIds.includes(docId)).map(docId => ({ id: docId, payload: { docId } })),
+      next_page_offset: null
+    };
+  });
+
+  const alice = { 'x-user-id': 'alice', 'x-tenant': 'acme', 'x-user-groups': 'hr,staff' };
+  const bob = { 'x-user-id': 'bob', 'x-tenant': 'acme', 'x-user-groups': 'staff' };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'conversations-api-'));
+    store = new ConversationStore({ dir, maxHistoryTurns: 6 });
+    readableDocIds = [];
+    scroll.mockClear();
+
+    server = Fastify();
+    server.register(conversationsRoute, {
+      conversationStore: store,
+      qdrantClient: { scroll } as any,
+      collectionName: 'docs'
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function createSharedConversation(): Promise<string> {
+    const conversation = await store.create('acme', 'alice');
+    const createdAt = new Date().toISOString();
+    await store.appendTurns('acme', conversation.id, [
+      { role: 'user', content: 'What is the office address?', queryId: 'q1', createdAt },
+      { role: 'assistant', content: 'Main Street 1 [^1]', queryId: 'q1', createdAt, sourceDocIds: ['handbook'] },
+      { role: 'user', content: 'What are the salary bands?', queryId: 'q2', createdAt },
+      { role: 'assistant', content: 'Band A is 50k [^1]', queryId: 'q2', createdAt, sourceDocIds: ['salaries'] }
+    ]);
+
+    const response = await server.inject({
+      method: 'POST',
+      url: `/conversations/${conversation.id}/share`,
+      headers: alice
+    });
+    expect(response.statusCode).toBe(200);
+    return response.json().token;
+  }
+
+  it('should require a user', async () => {
+    const response = await server.inject({ method: 'GET', url: '/conversations' });
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('should create, list, get and delete conversations of the user only', async () => {
+    const created = await server.inject({ method: 'POST', url: '/conversations', headers: alice });
+    expect(created.statusCode).toBe(201);
+    const { id } = created.json();
+
+    const listed = await server.inject({ method: 'GET', url: '/conversations', headers: alice });
+    expect(listed.json()).toMatchObject({ total: 1, conversations: [{ id, turnCount: 0 }] });
+
+    expect((await server.inject({ method: 'GET', url: `/conversations/${id}`, headers: alice })).statusCode).toBe(200);
+    expect((await server.inject({ method: 'GET', url: `/conversations/${id}`, headers: bob })).statusCode).toBe(404);
+    expect((await server.inject({ method: 'DELETE', url: `/conversations/${id}`, headers: bob })).statusCode).toBe(404);
+
+    const deleted = await server.inject({ method: 'DELETE', url: `/conversations/${id}`, headers: alice });
+    expect(deleted.json()).toEqual({ deleted: true, conversationId: id });
+    expect((await server.inject({ method: 'GET', url: '/conversations', headers: alice })).json().total).toBe(0);
+  });
+
+  it('should withhold shared answers whose sources the viewer cannot read', async () => {
+    const token = await createSharedConversation();
+    readableDocIds = ['handbook'];
+
+    const response = await server.inject({ method: 'GET', url: `/shared/${token}`, headers: bob });
+
+    expect(response.statusCode).toBe(200);
+    const body = response.json();
+    expect(body.withheldAnswers).toBe(1);
+    expect(body.turns.map((turn: any) => turn.content)).toEqual([
+      'What is the office address?', 'Main Street 1 [^1]', '', ''
+    ]);
+    expect(body.turns[3].withheld).toBe(true);
+
+    const filter = scroll.mock.calls[0][1].filter;
+    expect(filter.must).toContainEqual({ key: 'tenant', match: { value: 'acme' } });
+    expect(filter.must).toContainEqual({ key: 'docId', match: { any: ['handbook', 'salaries'] } });
+  });
+
+  it('should check shared answers with the viewer\'s tenant groups and access rules', async () => {
+    const tenantsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tenants-'));
+    await fs.mkdir(path.join(tenantsDir, 'acme'));
+    await fs.writeFile(path.join(tenantsDir, 'acme', 'group-hierarchy.json'), JSON.stringify({
+      staff: { level: 1, inherits: ['handbook-readers'] }
+    }));
+    await fs.writeFile(path.join(tenantsDir, 'acme', 'access-rules.json'), JSON.stringify([
+      { field: 'classification', op: 'lte', userAttribute: 'clearance' }
+    ]));
+    process.env.TENANTS_DIR = tenantsDir;
+
+    try {
+      const token = await createSharedConversation();
+      const response = await server.inject({ method: 'GET', url: `/shared/${token}`, headers: bob });
+      expect(response.statusCode).toBe(200);
+
+      const filter = scroll.mock.calls[0][1].filter;
+      expect(filter.must).toContainEqual({ key: 'acl', match: { any: ['bob', 'staff', 'handbook-readers', 'public'] } });
+      // Bob has no clearance attribute, so only unclassified sources are readable
+      expect(filter.must).toContainEqual({ should: [{ is_empty: { key: 'classification' } }] });
+    } finally {
+      delete process.env.TENANTS_DIR;
+      await fs.rm(tenantsDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should not resolve share links for other tenants or after revocation', async () => {
+    const token = await createSharedConversation();
+
+    const otherTenant = await server.inject({
+      method: 'GET',
+      url: `/shared/${token}`,
+      headers: { ...bob, 'x-tenant': 'globex' }
+    });
+    expect(otherTenant.statusCode).toBe(404);
+
+    const conversationId = (await store.list('acme', 'alice')).conversations[0].id;
+    await server.inject({ method: 'DELETE', url: `/conversations/${conversationId}/share`, headers: alice });
+
+    expect((await server.inject({ method: 'GET', url: `/shared/${token}`, headers: bob })).statusCode).toBe(404);
+  });
+});
+
+describe('QueryCondenser', () => {
+  const history = [
+    { role: 'user' as const, content: 'How many vacation days do employees get?' },
+    { role: 'assistant' as const, content: 'Employees get 25 vacation days per year.' }
+  ];
+
+  it('should leave first questions untouched', async () => {
+    const condenser = new QueryCondenser(
+      createFactory(async () => { throw new Error('should not be called'); }),
+      { enabled: true, maxAnswerChars: 100 }
+    );
+
+    expect(await condenser.condense('How many vacation days?', [], 'acme'))
+      .toEqual({ query: 'How many vacation days?', rewritten: false });
+  });
+
+  it('should rewrite follow-ups with the LLM', async () => {
+    let prompt = '';
+    const condenser = new QueryCondenser(
+      createFactory(async (_instructions, input) => {
+        prompt = input;
+        return 'Standalone question: "How many vacation days do contractors get?"';
+      }),
+      { enabled: true, maxAnswerChars: 100 }
+    );
+
+    const result = await condenser.condense('and what about for contractors?', history, 'acme');
+
+    expect(result).toEqual({
+      query: 'How many vacation days do contractors get?',
+      rewritten: true,
+      method: 'llm'
+    });
+    expect(prompt).toContain('User: How many vacation days do employees get?');
+    expect(prompt).toContain('Follow-up question: and what about for contractors?');
+  });
+
+  it('should fall back to the previous question when the LLM fails', async () => {
+    const condenser = new QueryCondenser(
+      createFactory(async () => { throw new Error('LLM unavailable'); }),
+      { enabled: true, maxAnswerChars: 100 }
+    );
+
+    const result = await condenser.condense('and for contractors?', history, 'acme');
+
+    expect(result).toEqual({
+      query: 'How many vacation days do employees get? and for contractors?',
+      rewritten: true,
+      method: 'fallback'
+    });
+  });
+});
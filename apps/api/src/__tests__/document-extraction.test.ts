@@ -0,0 +1,180 @@
+import {
+  convertHtmlToBlocks,
+  convertMarkdownToBlocks,
+  convertPdfPagesToBlocks,
+  getOutlineHeadingLevels,
+  tableRowsToMarkdown
+} from '../services/document-extraction.js';
+
+describe('Document Extraction', () => {
+  describe('tableRowsToMarkdown', () => {
+    it('should render rows as a pipe table with the first row as header', () => {
+      const markdown = tableRowsToMarkdown([
+        ['Tier', 'Level Range'],
+        ['Novice', '1–3'],
+        ['Apprentice', '4–6']
+      ]);
+
+      expect(markdown).toBe(
+        '| Tier | Level Range |\n|---|---|\n| Novice | 1–3 |\n| Apprentice | 4–6 |'
+      );
+    });
+
+    it('should pad ragged rows and escape pipes in cells', () => {
+      const markdown = tableRowsToMarkdown([
+        ['A', 'B', 'C'],
+        ['x|y']
+      ]);
+
+      expect(markdown.split('\n')[2]).toBe('| x\\|y |  |  |');
+    });
+
+    it('should return an empty string for tables without content', () => {
+      expect(tableRowsToMarkdown([])).toBe('');
+      expect(tableRowsToMarkdown([['', ' ']])).toBe('');
+    });
+  });
+
+  describe('convertHtmlToBlocks', () => {
+    it('should emit headings as separate blocks with their level and path', () => {
+      const blocks = convertHtmlToBlocks(
+        '<h1>Policy</h1><p>First paragraph.</p><h2>Scope</h2><p>Applies to all staff.</p>'
+      );
+
+      expect(blocks).toHaveLength(4);
+      expect(blocks[0]).toMatchObject({
+        type: 'text',
+        text: 'Policy',
+        metadata: { headingLevel: 1, headingPath: ['Policy'] }
+      });
+      expect(blocks[2].metadata).toEqual({ headingLevel: 2, headingPath: ['Policy', 'Scope'] });
+      expect(blocks[3].metadata).toEqual({ headingPath: ['Policy', 'Scope'] });
+    });
+
+    it('should reset deeper headings when a shallower heading starts', () => {
+      const blocks = convertHtmlToBlocks(
+        '<h1>A</h1><h2>A.1</h2><h3>A.1.a</h3><h2>A.2</h2><p>Body</p>'
+      );
+
+      expect(blocks[blocks.length - 1].metadata?.headingPath).toEqual(['A', 'A.2']);
+    });
+
+    it('should merge consecutive paragraphs and lists into one text block', () => {
+      const blocks = convertHtmlToBlocks(
+        '<p>Intro.</p><ul><li>One<ul><li>Nested</li></ul></li><li>Two</li></ul><p>Outro.</p>'
+      );
+
+      expect(blocks).toHaveLength(1);
+      expect(blocks[0].text).toBe('Intro.\n\n- One\n  - Nested\n- Two\n\nOutro.');
+      expect(blocks[0].html).toContain('<ul>');
+    });
+
+    it('should convert tables into table blocks and keep the html', () => {
+      const blocks = convertHtmlToBlocks(
+        '<p>Before</p><table><tr><th>Name</th><th>Role</th></tr>' +
+        '<tr><td><p>Alice</p></td><td><p>Admin</p></td></tr></table><p>After</p>'
+      );
+
+      expect(blocks.map(block => block.type)).toEqual(['text', 'table', 'text']);
+      expect(blocks[1].text).toBe('| Name | Role |\n|---|---|\n| Alice | Admin |');
+      expect(blocks[1].html).toContain('<table>');
+    });
+
+    it('should convert pre elements into code blocks preserving whitespace', () => {
+      const blocks = convertHtmlToBlocks('<pre><code>if (a &lt; b) {\n  run();\n}</code></pre>');
+
+      expect(blocks).toEqual([{
+        type: 'code',
+        text: 'if (a < b) {\n  run();\n}',
+        html: '<pre><code>if (a &lt; b) {\n  run();\n}</code></pre>'
+      }]);
+    });
+
+    it('should descend into containers and skip scripts and styles', () => {
+      const blocks = convertHtmlToBlocks(
+        '<html><head><title>T</title><style>p{}</style></head><body>' +
+        '<div><section><h2>Inside</h2><div>Plain div text</div></section></div>' +
+        '<script>alert(1)</script></body></html>'
+      );
+
+      expect(blocks.map(block => block.text)).toEqual(['Inside', 'Plain div text']);
+    });
+
+    it('should skip empty elements', () => {
+      expect(convertHtmlToBlocks('<p> </p><h3></h3>')).toEqual([]);
+    });
+  });
+
+  describe('PDF headings', () => {
+    const outline = [
+      { title: 'Leave Policy', items: [{ title: 'Vacation  Days', items: [] }, { title: 'Sick Leave' }] },
+      { title: 'Expenses' }
+    ];
+
+    it('should take heading levels from the outline depth', () => {
+      expect(getOutlineHeadingLevels(outline)).toEqual(new Map([
+        ['Leave Policy', 1],
+        ['Vacation Days', 2],
+        ['Sick Leave', 2],
+        ['Expenses', 1]
+      ]));
+      expect(getOutlineHeadingLevels(null).size).toBe(0);
+    });
+
+    it('should split outline titles into heading blocks and carry the path across pages', () => {
+      const blocks = convertPdfPagesToBlocks([
+        { num: 1, paragraphs: ['Leave Policy\nVacation Days\nStaff get 25 days.'], tables: [] },
+        { num: 2, paragraphs: ['Unused days expire.', 'Expenses\nKeep receipts.'], tables: ['| A |\n|---|\n| 1 |'] }
+      ], getOutlineHeadingLevels(outline));
+
+      expect(blocks.map(block => block.text)).toEqual([
+        'Leave Policy', 'Vacation Days', 'Staff get 25 days.', 'Unused days expire.', 'Expenses', 'Keep receipts.', '| A |\n|---|\n| 1 |'
+      ]);
+      expect(blocks[1].metadata).toEqual({ page: 1, headingLevel: 2, headingPath: ['Leave Policy', 'Vacation Days'] });
+      expect(blocks[3].metadata).toEqual({ page: 2, headingPath: ['Leave Policy', 'Vacation Days'] });
+      expect(blocks[6]).toMatchObject({ type: 'table', metadata: { page: 2, headingPath: ['Expenses'] } });
+    });
+
+    it('should only tag pages without an outline', () => {
+      const blocks = convertPdfPagesToBlocks([{ num: 1, paragraphs: ['Leave Policy\nText'], tables: [] }], new Map());
+
+      expect(blocks).toEqual([{ type: 'text', text: 'Leave Policy\nText', metadata: { page: 1 } }]);
+    });
+  });
+
+  describe('convertMarkdownToBlocks', () => {
+    it('should preserve headings, code fences and tables', () => {
+      const markdown = [
+        '# Guide',
+        '',
+        'Some **bold** intro.',
+        '',
+        '## Install',
+        '',
+        '```bash',
+        'npm install',
+        '```',
+        '',
+        '| Tier | Unlock |',
+        '|---|---|',
+        '| Novice | Stunts |'
+      ].join('\n');
+
+      const blocks = convertMarkdownToBlocks(markdown);
+
+      expect(blocks.map(block => block.type)).toEqual(['text', 'text', 'text', 'code', 'table']);
+      expect(blocks[1]).toMatchObject({ text: 'Some bold intro.', metadata: { headingPath: ['Guide'] } });
+      expect(blocks[2].metadata).toEqual({ headingLevel: 2, headingPath: ['Guide', 'Install'] });
+      expect(blocks[3]).toMatchObject({ text: 'npm install', metadata: { headingPath: ['Guide', 'Install'] } });
+      expect(blocks[3].html).toContain('language-bash');
+      expect(blocks[4].text).toBe('| Tier | Unlock |\n|---|---|\n| Novice | Stunts |');
+    });
+
+    it('should keep list structure in text blocks', () => {
+      const blocks = convertMarkdownToBlocks('1. First\n2. Second\n\nDone.');
+
+      expect(blocks).toHaveLength(1);
+      expect(blocks[0].text).toBe('1. First\n2. Second\n\nDone.');
+    });
+  });
+});
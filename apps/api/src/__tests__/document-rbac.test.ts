@@ -0,0 +1,257 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, beforeAll, afterAll, beforeEach, afterEach, it, expect, jest } from '@jest/globals';
+import { documentFetchRoute } from '../routes/document-fetch.js';
+import { loadTenantGroupHierarchy } from '../services/group-hierarchy.js';
+import { AuditLogEntry, AuditLogger } from '../utils/audit.js';
+
+// Chunks of three tenants; `scroll` applies the access and docId conditions like Qdrant
+const points = [
+  { id: 'p1', payload: { docId: 'handbook', tenant: 'acme', acl: ['public'], spaceId: 'general', content: 'Welcome' } },
+  { id: 'p2', payload: { docId: 'salaries', tenant: 'acme', acl: ['hr'], spaceId: 'hr', content: 'Pay bands' } },
+  { id: 'p3', payload: { docId: 'roadmap', tenant: 'globex', acl: ['public'], content: 'Next year' } },
+  { id: 'p4', payload: { docId: 'plans', tenant: 'initech', acl: ['staff', '!contractors'], content: 'Reorg' } },
+  { id: 'p5', payload: { docId: 'merger', tenant: 'initech', acl: ['staff'], classification: 3, content: 'Offer' } }
+];
+
+function matches(payload: Record<string, any>, condition: any): boolean {
+  if (condition.must_not) {
+    return !condition.must_not.some((nested: any) => matches(payload, nested));
+  }
+  if (condition.should) {
+    return condition.should.some((nested: any) => matches(payload, nested));
+  }
+  if (condition.is_empty) {
+    return payload[condition.is_empty.key] === undefined;
+  }
+  if (condition.range) {
+    return typeof payload[condition.key] === 'number' && payload[condition.key] <= condition.range.lte;
+  }
+  if (condition.match?.value !== undefined) {
+    return payload[condition.key] === condition.match.value;
+  }
+  if (condition.match?.any) {
+    const values = Array.isArray(payload[condition.key]) ? payload[condition.key] : [payload[condition.key]];
+    return values.some((value: unknown) => condition.match.any.includes(value));
+  }
+  return true;
+}
+
+describe('Document access control', () => {
+  let tenantsDir: string;
+  let server: FastifyInstance;
+  let qdrantClient: { scroll: jest.Mock<any>; delete: jest.Mock<any>; setPayload: jest.Mock<any> };
+  let auditEntries: AuditLogEntry[];
+
+  beforeAll(async () => {
+    tenantsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tenants-'));
+    await fs.mkdir(path.join(tenantsDir, 'acme'));
+    await fs.writeFile(path.join(tenantsDir, 'acme', 'group-hierarchy.json'), JSON.stringify({
+      admins: { level: 3, inherits: ['hr'] },
+      editors: { level: 2 },
+      staff: { level: 1 }
+    }));
+    await fs.mkdir(path.join(tenantsDir, 'initech'));
+    await fs.writeFile(path.join(tenantsDir, 'initech', 'access-rules.json'), JSON.stringify([
+      { field: 'classification', op: 'lte', userAttribute: 'clearance' }
+    ]));
+    process.env.TENANTS_DIR = tenantsDir;
+  });
+
+  afterAll(async () => {
+    delete process.env.TENANTS_DIR;
+    await fs.rm(tenantsDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    qdrantClient = {
+      scroll: jest.fn(async (_collection: string, request: any) => ({
+        points: points.filter(point => request.filter.must.every((condition: any) => matches(point.payload, condition)))
+      })),
+      delete: jest.fn(async () => ({})),
+      setPayload: jest.fn(async () => ({}))
+    };
+    auditEntries = [];
+    jest.spyOn(AuditLogger.prototype, 'logEntry').mockImplementation(entry => {
+      auditEntries.push(entry);
+    });
+
+    server = Fastify();
+    await server.register(documentFetchRoute, { qdrantClient: qdrantClient as any, collectionName: 'docs' });
+    await server.ready();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await server.close();
+  });
+
+  const user = (id: string, groups: string) => ({ 'x-user-id': id, 'x-tenant': 'acme', 'x-user-groups': groups });
+
+  it('should list only documents of the user\'s tenant and effective groups', async () => {
+    const staff = await server.inject({ method: 'GET', url: '/documents', headers: user('bob', 'staff') });
+    const admin = await server.inject({ method: 'GET', url: '/documents', headers: user('carol', 'admins') });
+    const anonymous = await server.inject({ method: 'GET', url: '/documents' });
+
+    expect(staff.json().map((doc: any) => doc.docId)).toEqual(['handbook']);
+    expect(admin.json().map((doc: any) => doc.docId).sort()).toEqual(['handbook', 'salaries']);
+    expect(anonymous.statusCode).toBe(401);
+  });
+
+  it('should answer documents outside the user\'s access as not found and audit the attempt', async () => {
+    const restricted = await server.inject({ method: 'GET', url: '/documents/salaries', headers: user('bob', 'staff') });
+    const foreign = await server.inject({ method: 'GET', url: '/documents/roadmap', headers: user('bob', 'staff') });
+    const missing = await server.inject({ method: 'GET', url: '/documents/unknown', headers: user('bob', 'staff') });
+    const inherited = await server.inject({ method: 'GET', url: '/documents/salaries', headers: user('carol', 'admins') });
+
+    expect(restricted.statusCode).toBe(404);
+    expect(foreign.statusCode).toBe(404);
+    expect(missing.statusCode).toBe(404);
+    expect(inherited.json().content).toBe('Pay bands');
+    expect(auditEntries).toHaveLength(2);
+    expect(auditEntries[0]).toMatchObject({
+      route: '/documents/:docId',
+      tenant: 'acme',
+      docId: 'salaries',
+      action: 'access_denied',
+      status: 'blocked',
+      userId: 'bob'
+    });
+  });
+
+  it('should require an editor privilege level to delete documents', async () => {
+    const viewer = await server.inject({ method: 'DELETE', url: '/documents/handbook', headers: user('bob', 'staff') });
+    const editor = await server.inject({ method: 'DELETE', url: '/documents/handbook', headers: user('dave', 'editors') });
+
+    expect(viewer.statusCode).toBe(403);
+    expect(auditEntries).toHaveLength(1);
+    expect(auditEntries[0].error).toBe('Insufficient privilege level to delete documents');
+    expect(editor.statusCode).toBe(200);
+    expect(qdrantClient.delete).toHaveBeenCalledTimes(1);
+    expect(qdrantClient.delete.mock.calls[0][1]).toEqual({ wait: true, points: ['p1'] });
+  });
+
+  it('should report the document actions the user\'s level allows', async () => {
+    const viewer = await server.inject({ method: 'GET', url: '/capabilities', headers: user('bob', 'staff') });
+    const editor = await server.inject({ method: 'GET', url: '/capabilities', headers: user('dave', 'editors') });
+    const admin = await server.inject({ method: 'GET', url: '/capabilities', headers: user('carol', 'admins') });
+
+    expect(viewer.json()).toEqual({ privilegeLevel: 1, documents: { delete: false, manageAcl: false } });
+    expect(editor.json()).toEqual({ privilegeLevel: 2, documents: { delete: true, manageAcl: false } });
+    expect(admin.json()).toEqual({ privilegeLevel: 3, documents: { delete: true, manageAcl: true } });
+    expect((await server.inject({ method: 'GET', url: '/capabilities' })).statusCode).toBe(401);
+  });
+
+  it('should not let editors delete documents outside their access', async () => {
+    const response = await server.inject({ method: 'DELETE', url: '/documents/salaries', headers: user('dave', 'editors') });
+
+    expect(response.statusCode).toBe(404);
+    expect(qdrantClient.delete).not.toHaveBeenCalled();
+    expect(auditEntries).toHaveLength(1);
+  });
+
+  it('should apply deny entries and tenant access rules in the query', async () => {
+    const initech = (id: string, groups: string) => ({ ...user(id, groups), 'x-tenant': 'initech' });
+    const staff = await server.inject({ method: 'GET', url: '/documents', headers: initech('bob', 'staff') });
+    const contractor = await server.inject({ method: 'GET', url: '/documents', headers: initech('eve', 'staff,contractors') });
+    const classified = await server.inject({ method: 'GET', url: '/documents/merger', headers: initech('bob', 'staff') });
+
+    expect(staff.json().map((doc: any) => doc.docId)).toEqual(['plans']);
+    expect(contractor.json()).toEqual([]);
+    expect(classified.statusCode).toBe(404);
+    expect(auditEntries).toEqual([expect.objectContaining({ tenant: 'initech', docId: 'merger', action: 'access_denied' })]);
+  });
+
+  describe('ACL management', () => {
+    const admin = user('carol', 'admins');
+
+    it('should let admins read and change the ACL of a document in place', async () => {
+      const read = await server.inject({ method: 'GET', url: '/documents/salaries/acl', headers: admin });
+      const patched = await server.inject({
+        method: 'PATCH',
+        url: '/documents/salaries/acl',
+        headers: admin,
+        payload: { add: ['finance'], remove: ['hr'] }
+      });
+
+      expect(read.json()).toEqual({ docId: 'salaries', acl: ['hr'] });
+      expect(patched.json()).toEqual({ docId: 'salaries', acl: ['finance'] });
+      expect(qdrantClient.setPayload).toHaveBeenCalledWith('docs', {
+        wait: true,
+        filter: { must: [{ key: 'docId', match: { value: 'salaries' } }, { key: 'tenant', match: { value: 'acme' } }] },
+        payload: { acl: ['finance'] }
+      });
+      expect(auditEntries).toEqual([expect.objectContaining({
+        action: 'acl_update',
+        docId: 'salaries',
+        userId: 'carol',
+        acl: { before: ['hr'], after: ['finance'] }
+      })]);
+    });
+
+    it('should reject users below the admin level and ACLs without entries', async () => {
+      const editor = await server.inject({ method: 'GET', url: '/documents/handbook/acl', headers: user('dave', 'editors') });
+      const emptied = await server.inject({
+        method: 'PATCH',
+        url: '/documents/handbook/acl',
+        headers: admin,
+        payload: { remove: ['public'] }
+      });
+
+      expect(editor.statusCode).toBe(403);
+      expect(emptied.statusCode).toBe(400);
+      expect(qdrantClient.setPayload).not.toHaveBeenCalled();
+    });
+
+    it('should re-permission every accessible document matching a filter', async () => {
+      const payload = { filter: { field: 'spaceId', op: 'in', values: ['general', 'hr'] }, set: ['staff'], add: ['admins'] };
+      const preview = await server.inject({ method: 'PATCH', url: '/documents/acl', headers: admin, payload: { ...payload, dryRun: true } });
+
+      expect(preview.json()).toEqual({
+        dryRun: true,
+        matched: 2,
+        updated: [
+          { docId: 'handbook', before: ['public'], acl: ['staff', 'admins'] },
+          { docId: 'salaries', before: ['hr'], acl: ['staff', 'admins'] }
+        ]
+      });
+      expect(qdrantClient.setPayload).not.toHaveBeenCalled();
+
+      const applied = await server.inject({ method: 'PATCH', url: '/documents/acl', headers: admin, payload });
+
+      expect(applied.json().updated).toHaveLength(2);
+      expect(qdrantClient.setPayload).toHaveBeenCalledTimes(2);
+      expect(auditEntries.map(entry => entry.docId)).toEqual(['handbook', 'salaries']);
+    });
+  });
+
+  it('should read and delete documents spread over several scroll pages', async () => {
+    // One point per page, with a second chunk of the handbook
+    const paged = [...points, { id: 'p6', payload: { ...points[0].payload, content: 'Office hours' } }];
+    qdrantClient.scroll.mockImplementation(async (_collection: string, request: any) => {
+      const matching = paged.filter(point => request.filter.must.every((condition: any) => matches(point.payload, condition)));
+      const index = request.offset ?? 0;
+      return { points: matching.slice(index, index + 1), next_page_offset: index + 1 < matching.length ? index + 1 : null };
+    });
+
+    const preview = await server.inject({
+      method: 'PATCH',
+      url: '/documents/acl',
+      headers: user('carol', 'admins'),
+      payload: { filter: { field: 'spaceId', op: 'in', values: ['general', 'hr'] }, add: ['admins'], dryRun: true }
+    });
+    const deleted = await server.inject({ method: 'DELETE', url: '/documents/handbook', headers: user('dave', 'editors') });
+
+    expect(preview.json().updated.map((doc: any) => doc.docId)).toEqual(['handbook', 'salaries']);
+    expect(deleted.json().deletedCount).toBe(2);
+    expect(qdrantClient.delete.mock.calls[0][1]).toEqual({ wait: true, points: ['p1', 'p6'] });
+  });
+
+  it('should not read hierarchies outside the tenants directory', async () => {
+    expect(await loadTenantGroupHierarchy('acme', tenantsDir)).toHaveProperty('editors');
+    expect(await loadTenantGroupHierarchy('../acme', tenantsDir)).toBeUndefined();
+    expect(await loadTenantGroupHierarchy('globex', tenantsDir)).toBeUndefined();
+  });
+});
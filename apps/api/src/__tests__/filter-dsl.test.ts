@@ -0,0 +1,93 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { describe, beforeEach, afterEach, it, expect, jest } from '@jest/globals';
+import { compileFilterToQdrant } from '../services/qdrant.js';
+import { documentFetchRoute } from '../routes/document-fetch.js';
+
+describe('Filter DSL', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  it('should compile nested expressions to Qdrant conditions', () => {
+    expect(compileFilterToQdrant({
+      and: [
+        { field: 'authors', op: 'in', values: ['Alice Johnson', 'Bob Smith'] },
+        { field: 'modifiedAt', op: 'within', last: '30d' },
+        { or: [
+          { field: 'lang', op: 'eq', value: 'en' },
+          { field: 'pageCount', op: 'range', gte: 1, lt: 10 }
+        ] },
+        { not: { field: 'tags', op: 'eq', value: 'draft' } },
+        { field: 'url', op: 'exists' }
+      ]
+    }, now)).toEqual({
+      must: [
+        { key: 'authors', match: { any: ['Alice Johnson', 'Bob Smith'] } },
+        { key: 'modifiedAt', range: { gte: '2026-09-19T12:00:00.000Z' } },
+        { should: [
+          { key: 'lang', match: { value: 'en' } },
+          { key: 'pageCount', range: { gte: 1, lt: 10 } }
+        ] },
+        { must_not: [{ key: 'tags', match: { value: 'draft' } }] },
+        { must_not: [{ is_empty: { key: 'url' } }] }
+      ]
+    });
+  });
+
+  it('should only produce must clauses at the top level', () => {
+    expect(compileFilterToQdrant({
+      or: [{ field: 'spaceId', op: 'eq', value: 'hr' }, { field: 'spaceId', op: 'eq', value: 'legal' }]
+    }, now)).toEqual({
+      must: [{ should: [{ key: 'spaceId', match: { value: 'hr' } }, { key: 'spaceId', match: { value: 'legal' } }] }]
+    });
+    expect(compileFilterToQdrant({ field: 'createdAt', op: 'within', last: '1y' }, now)).toEqual({
+      must: [{ key: 'createdAt', range: { gte: '2025-10-19T12:00:00.000Z' } }]
+    });
+  });
+
+  describe('GET /documents', () => {
+    let server: FastifyInstance;
+    let scroll: jest.Mock<(collection: string, request: any) => Promise<any>>;
+    const headers = { 'x-user-id': 'alice', 'x-tenant': 'acme' };
+
+    beforeEach(async () => {
+      scroll = jest.fn(async () => ({
+        points: [{ id: '1', payload: { docId: 'handbook', spaceId: 'hr', modifiedAt: '2026-10-01T00:00:00Z' } }]
+      }));
+      server = Fastify();
+      await server.register(documentFetchRoute, { qdrantClient: { scroll } as any, collectionName: 'docs' });
+      await server.ready();
+    });
+
+    afterEach(async () => {
+      await server.close();
+    });
+
+    it('should list only documents matching the filter', async () => {
+      const filter = JSON.stringify({ field: 'spaceId', op: 'eq', value: 'hr' });
+      const response = await server.inject({ method: 'GET', url: `/documents?filter=${encodeURIComponent(filter)}`, headers });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().map((doc: any) => doc.docId)).toEqual(['handbook']);
+      expect(scroll.mock.calls[0][1].filter).toEqual({
+        must: [
+          { key: 'spaceId', match: { value: 'hr' } },
+          { key: 'tenant', match: { value: 'acme' } },
+          { key: 'acl', match: { any: ['alice', 'public'] } },
+          { must_not: [{ key: 'acl', match: { any: ['!alice'] } }] }
+        ],
+        must_not: [{ key: 'superseded', match: { value: true } }]
+      });
+    });
+
+    it('should reject invalid filters and filters on reserved fields', async () => {
+      const reserved = JSON.stringify({ not: { field: 'tenantId', op: 'eq', value: 'other' } });
+      const response = await server.inject({ method: 'GET', url: `/documents?filter=${encodeURIComponent(reserved)}`, headers });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().message).toBe('Invalid filter: Filtering on reserved field "tenantId" is not allowed');
+
+      const malformed = await server.inject({ method: 'GET', url: '/documents?filter=%7Bnot-json', headers });
+      expect(malformed.statusCode).toBe(400);
+      expect(scroll).not.toHaveBeenCalled();
+    });
+  });
+});
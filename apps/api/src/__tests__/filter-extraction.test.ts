@@ -0,0 +1,101 @@
+import { describe, beforeEach, it, expect, jest } from '@jest/globals';
+import { FilterExtractor, toFilterExpression } from '../services/filter-extraction.js';
+
+describe('FilterExtractor', () => {
+  const alice = { id: 'alice', tenantId: 'acme', groupIds: ['staff'] };
+  const now = new Date('2026-10-19T12:00:00Z');
+  const vocabulary: Record<string, string[]> = {
+    authors: ['Alice Johnson', 'Bob Smith'],
+    tags: ['onboarding', 'security'],
+    spaceId: ['hr', 'engineering']
+  };
+
+  let facet: jest.Mock<(collection: string, request: any) => Promise<any>>;
+  let extractor: FilterExtractor;
+
+  beforeEach(() => {
+    facet = jest.fn(async (_collection: string, request: any) => ({
+      hits: vocabulary[request.key].map(value => ({ value, count: 1 }))
+    }));
+    extractor = new FilterExtractor({ facet } as any, 'docs', {
+      enabled: true,
+      vocabularyTtlMs: 60_000,
+      vocabularyLimit: 100
+    });
+  });
+
+  it('should infer author and date filters and remove their phrases from the search query', async () => {
+    const filter = await extractor.extract('onboarding docs by Alice updated since June', alice, [], now);
+
+    expect(filter).toEqual({
+      clauses: [
+        { field: 'modifiedAt', gte: '2026-06-01T00:00:00.000Z', phrase: 'updated since June' },
+        { field: 'authors', values: ['Alice Johnson'], phrase: 'by Alice' }
+      ],
+      searchQuery: 'onboarding docs'
+    });
+  });
+
+  it('should only resolve authors, tags and spaces to values of documents the user can access', async () => {
+    const filter = await extractor.extract('policies by Carol tagged security in the HR space', alice, [], now);
+
+    expect(filter?.clauses).toEqual([
+      { field: 'tags', values: ['security'], phrase: 'tagged security' },
+      { field: 'spaceId', values: ['hr'], phrase: 'in the HR space' }
+    ]);
+    expect(filter?.searchQuery).toBe('policies by Carol');
+
+    const facetFilter = facet.mock.calls[0][1].filter;
+    expect(facetFilter.must).toEqual(expect.arrayContaining([
+      { key: 'tenant', match: { value: 'acme' } },
+      { key: 'acl', match: { any: expect.arrayContaining(['alice', 'staff', 'public']) } }
+    ]));
+
+    await extractor.extract('anything by Bob', alice, [], now);
+    expect(facet).toHaveBeenCalledTimes(3);
+  });
+
+  it('should resolve relative dates and languages', async () => {
+    const filter = await extractor.extract(
+      'release notes in German modified in the last 2 weeks before 2026-10-10',
+      alice, [], now
+    );
+
+    expect(filter?.clauses).toEqual([
+      {
+        field: 'modifiedAt',
+        gte: '2026-10-05T12:00:00.000Z',
+        lt: '2026-10-10T00:00:00.000Z',
+        phrase: 'before 2026-10-10, modified in the last 2 weeks'
+      },
+      { field: 'lang', values: ['de'], phrase: 'in German' }
+    ]);
+    expect(facet).not.toHaveBeenCalled();
+
+    const lastYear = await extractor.extract('reports since November', alice, [], now);
+    expect(lastYear?.clauses[0].gte).toBe('2025-11-01T00:00:00.000Z');
+  });
+
+  it('should skip filters removed by the user and questions without filter phrases', async () => {
+    const filter = await extractor.extract('onboarding docs by Alice updated since June', alice, ['modifiedAt'], now);
+    expect(filter?.clauses.map(clause => clause.field)).toEqual(['authors']);
+    expect(filter?.searchQuery).toBe('onboarding docs updated since June');
+
+    expect(await extractor.extract('How many vacation days do I get?', alice, [], now)).toBeNull();
+  });
+
+  it('should convert inferred filters to filter expressions', () => {
+    expect(toFilterExpression({
+      clauses: [
+        { field: 'authors', values: ['Alice Johnson'], phrase: 'by Alice' },
+        { field: 'modifiedAt', gte: '2026-06-01T00:00:00.000Z', phrase: 'since June' }
+      ],
+      searchQuery: 'onboarding docs'
+    })).toEqual({
+      and: [
+        { field: 'authors', op: 'in', values: ['Alice Johnson'] },
+        { field: 'modifiedAt', op: 'range', gte: '2026-06-01T00:00:00.000Z' }
+      ]
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import Fastify from 'fastify';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, beforeEach, afterEach, it, expect } from '@jest/globals';
+import { buildQdrantRBACFilter, getUserPrivilegeLevel } from '@cw-rag-core/shared';
+import { parseLdifGroups, parseScimGroups, resolveGroupDirectory } from '../services/group-directory.js';
+import { importTenantGroupDirectory, withTenantGroupHierarchy } from '../services/group-hierarchy.js';
+import { createUserContextHook } from '../middleware/user-context.js';
+
+const scimGroups = {
+  schemas: ['urn:ietf:params:scim:api:messages:2.0:ListResponse'],
+  Resources: [
+    {
+      id: 'g-1',
+      displayName: 'engineering',
+      members: [{ value: 'alice', type: 'User' }, { value: 'g-2' }]
+    },
+    { id: 'g-2', displayName: 'platform', members: [{ value: 'bob', display: 'Bob' }] },
+    { id: 'g-3', displayName: 'staff', members: [{ value: 'g-1', type: 'Group' }] }
+  ]
+};
+
+const ldif = `version: 1
+
+# Groups
+dn: cn=staff,ou=groups,dc=acme,dc=com
+objectClass: groupOfNames
+cn: staff
+member: cn=engineering, ou=groups, dc=acme, dc=com
+
+dn: cn=engineering,ou=groups,dc=acme,dc=com
+objectClass: groupOfUniqueNames
+cn: engineering
+uniqueMember: uid=alice,ou=people,dc=acme,
+ dc=com
+uniqueMember: uid=bob,ou=people,dc=acme,dc=com#'0101'B
+
+dn: cn=ops,ou=groups,dc=acme,dc=com
+objectClass: posixGroup
+cn:: b3Bz
+memberUid: carol
+
+dn: uid=alice,ou=people,dc=acme,dc=com
+objectClass: inetOrgPerson
+uid: alice
+`;
+
+describe('Group directory', () => {
+  it('should read groups and nested groups from SCIM', () => {
+    expect(parseScimGroups(scimGroups)).toEqual({
+      engineering: { users: ['alice'], groups: ['platform'] },
+      platform: { users: ['bob'], groups: [] },
+      staff: { users: [], groups: ['engineering'] }
+    });
+    expect(() => parseScimGroups({ totalResults: 0 })).toThrow('Expected a SCIM ListResponse');
+  });
+
+  it('should read groups and nested groups from LDIF', () => {
+    expect(parseLdifGroups(ldif)).toEqual({
+      staff: { users: [], groups: ['engineering'] },
+      engineering: { users: ['alice', 'bob'], groups: [] },
+      ops: { users: ['carol'], groups: [] }
+    });
+  });
+
+  it('should resolve nested membership, including cycles', () => {
+    const resolved = resolveGroupDirectory({
+      source: 'scim',
+      importedAt: '2026-10-19T00:00:00Z',
+      groups: {
+        a: { users: ['alice'], groups: ['c'] },
+        b: { users: [], groups: ['a'] },
+        c: { users: ['carol'], groups: ['b'] }
+      }
+    });
+
+    expect(resolved.userGroups.get('alice')!.sort()).toEqual(['a', 'b', 'c']);
+    expect(resolved.userGroups.get('carol')!.sort()).toEqual(['a', 'b', 'c']);
+    expect(resolved.groupHierarchy).toEqual({
+      a: { level: 0, inherits: ['b'] },
+      b: { level: 0, inherits: ['c'] },
+      c: { level: 0, inherits: ['a'] }
+    });
+  });
+
+  describe('tenant groups', () => {
+    let tenantsDir: string;
+
+    beforeEach(async () => {
+      tenantsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tenants-'));
+      process.env.TENANTS_DIR = tenantsDir;
+    });
+
+    afterEach(async () => {
+      delete process.env.TENANTS_DIR;
+      await fs.rm(tenantsDir, { recursive: true, force: true });
+    });
+
+    it('should add directory groups and configured levels to the user context', async () => {
+      await importTenantGroupDirectory('acme', JSON.stringify(scimGroups), 'scim');
+      await fs.writeFile(path.join(tenantsDir, 'acme', 'group-hierarchy.json'), JSON.stringify({
+        staff: { level: 1 },
+        engineering: { level: 2, inherits: ['readers'] }
+      }));
+
+      const bob = await withTenantGroupHierarchy({ id: 'bob', tenantId: 'acme', groupIds: ['contractors'] });
+
+      expect(bob.groupIds.sort()).toEqual(['contractors', 'engineering', 'platform', 'staff']);
+      expect(getUserPrivilegeLevel(bob)).toBe(2);
+      expect(buildQdrantRBACFilter(bob).must[1].match.any).toContain('readers');
+      expect(bob.groupHierarchy!.engineering).toEqual({ level: 2, inherits: ['staff', 'readers'] });
+    });
+
+    it('should pick up a changed directory', async () => {
+      await importTenantGroupDirectory('acme', JSON.stringify(scimGroups), 'scim');
+      expect((await withTenantGroupHierarchy({ id: 'alice', tenantId: 'acme', groupIds: [] })).groupIds)
+        .toContain('engineering');
+
+      await importTenantGroupDirectory('acme', ldif.replace('uid=alice', 'uid=dave'), 'ldif');
+      expect((await withTenantGroupHierarchy({ id: 'alice', tenantId: 'acme', groupIds: [] })).groupIds).toEqual([]);
+    });
+
+    it('should set the tenant\'s access rules in place of those sent by the client', async () => {
+      const rules = [{ field: 'region', op: 'in', userAttribute: 'regions' }];
+      const clientRules = [{ field: 'classification', op: 'lte' as const, userAttribute: 'clearance' }];
+      await fs.mkdir(path.join(tenantsDir, 'acme'));
+      await fs.writeFile(path.join(tenantsDir, 'acme', 'access-rules.json'), JSON.stringify(rules));
+
+      const alice = await withTenantGroupHierarchy({ id: 'alice', tenantId: 'acme', groupIds: [], accessRules: clientRules });
+      const bob = await withTenantGroupHierarchy({ id: 'bob', tenantId: 'globex', groupIds: [], accessRules: clientRules });
+
+      expect(alice.accessRules).toEqual(rules);
+      expect(bob.accessRules).toBeUndefined();
+
+      await fs.writeFile(path.join(tenantsDir, 'acme', 'access-rules.json'), JSON.stringify([{ field: 'region', op: 'eq' }]));
+      await expect(withTenantGroupHierarchy({ id: 'alice', tenantId: 'acme', groupIds: [] }))
+        .rejects.toThrow('access-rules.json of tenant acme is invalid');
+    });
+
+    it('should drop hierarchies sent by the client', async () => {
+      const clientHierarchy = { viewers: { level: 3 } };
+      await fs.mkdir(path.join(tenantsDir, 'acme'));
+      await fs.writeFile(path.join(tenantsDir, 'acme', 'group-directory.json'), '{not json');
+
+      const withoutFiles = await withTenantGroupHierarchy({ id: 'bob', tenantId: 'globex', groupIds: ['viewers'], groupHierarchy: clientHierarchy });
+      const unreadable = await withTenantGroupHierarchy({ id: 'bob', tenantId: 'acme', groupIds: ['viewers'], groupHierarchy: clientHierarchy });
+
+      expect(withoutFiles.groupHierarchy).toBeUndefined();
+      expect(unreadable.groupHierarchy).toBeUndefined();
+      expect(unreadable.groupIds).toEqual(['viewers']);
+      expect(getUserPrivilegeLevel(withoutFiles)).toBe(1);
+    });
+
+    it('should reject invalid tenant ids and exports', async () => {
+      await expect(importTenantGroupDirectory('../acme', JSON.stringify(scimGroups), 'scim')).rejects.toThrow('Invalid tenant id');
+      await expect(importTenantGroupDirectory('acme', '{not json', 'scim')).rejects.toThrow('Invalid SCIM JSON');
+    });
+
+    it('should complete the user context of requests', async () => {
+      await importTenantGroupDirectory('acme', ldif, 'ldif');
+      const server = Fastify();
+      server.register(async instance => {
+        instance.addHook('preValidation', createUserContextHook({ config: { jwtEnabled: false } as any }));
+        instance.post('/echo', async request => ({ userContext: (request.body as any).userContext }));
+      });
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/echo',
+        payload: { userContext: { id: 'alice', tenantId: 'acme', groupIds: [] } }
+      });
+
+      expect(response.json().userContext.groupIds.sort()).toEqual(['engineering', 'staff']);
+      await server.close();
+    });
+  });
+});
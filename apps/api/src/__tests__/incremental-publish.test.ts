@@ -0,0 +1,116 @@
+import { planChunkUpdates, StoredChunkRef } from '../routes/ingest/publish.js';
+
+describe('Incremental publishing', () => {
+  const chunk = (id: string, text: string) => ({ id, text });
+
+  const V1_AT = '2024-01-01T00:00:00.000Z';
+  const V2_AT = '2024-02-01T00:00:00.000Z';
+  const V3_AT = '2024-03-01T00:00:00.000Z';
+
+  // What fetchCurrentChunks would return after publishing a plan
+  const stored = (plan: ReturnType<typeof planChunkUpdates>): StoredChunkRef[] =>
+    plan.chunks.map(c => ({
+      id: c.pointId,
+      chunkHash: c.chunkHash,
+      chunkOccurrence: c.chunkOccurrence,
+      validFrom: c.validFrom,
+      introducedInVersion: c.introducedInVersion
+    }));
+
+  describe('planChunkUpdates', () => {
+    it('should treat every chunk as added for a new document', () => {
+      const plan = planChunkUpdates(
+        [chunk('chunk_0', 'Alpha'), chunk('chunk_1', 'Beta')],
+        'tenant', 'doc-1', [], V1_AT, '1'
+      );
+
+      expect(plan.added).toHaveLength(2);
+      expect(plan.unchanged).toHaveLength(0);
+      expect(plan.supersededPointIds).toEqual([]);
+      expect(plan.chunks.map(c => c.id)).toEqual(['chunk_0', 'chunk_1']);
+      expect(plan.chunks.every(c => c.validFrom === V1_AT && c.introducedInVersion === '1')).toBe(true);
+    });
+
+    it('should reuse points for unchanged chunks even when their position moves', () => {
+      const first = planChunkUpdates(
+        [chunk('chunk_0', 'Alpha'), chunk('chunk_1', 'Beta')],
+        'tenant', 'doc-1', [], V1_AT, '1'
+      );
+
+      const second = planChunkUpdates(
+        [chunk('chunk_0', 'Inserted'), chunk('chunk_1', 'Alpha'), chunk('chunk_2', 'Beta')],
+        'tenant', 'doc-1', stored(first), V2_AT, '2'
+      );
+
+      expect(second.unchanged.map(c => c.text)).toEqual(['Alpha', 'Beta']);
+      expect(second.unchanged.map(c => c.pointId)).toEqual(first.chunks.map(c => c.pointId));
+      expect(second.unchanged.map(c => c.validFrom)).toEqual([V1_AT, V1_AT]);
+      expect(second.unchanged.map(c => c.introducedInVersion)).toEqual(['1', '1']);
+      expect(second.added.map(c => c.text)).toEqual(['Inserted']);
+      expect(second.added[0]).toMatchObject({ validFrom: V2_AT, introducedInVersion: '2' });
+      expect(second.supersededPointIds).toEqual([]);
+    });
+
+    it('should supersede points whose chunks changed or disappeared', () => {
+      const first = planChunkUpdates(
+        [chunk('chunk_0', 'Alpha'), chunk('chunk_1', 'Beta'), chunk('chunk_2', 'Gamma')],
+        'tenant', 'doc-1', [], V1_AT, '1'
+      );
+      const [alpha, beta, gamma] = first.chunks.map(c => c.pointId);
+
+      const second = planChunkUpdates(
+        [chunk('chunk_0', 'Alpha'), chunk('chunk_1', 'Beta (edited)')],
+        'tenant', 'doc-1', stored(first), V2_AT, '2'
+      );
+
+      expect(second.unchanged.map(c => c.pointId)).toEqual([alpha]);
+      expect(second.added.map(c => c.text)).toEqual(['Beta (edited)']);
+      expect(second.supersededPointIds).toEqual([beta, gamma]);
+    });
+
+    it('should not reuse superseded point ids when content comes back', () => {
+      const first = planChunkUpdates([chunk('chunk_0', 'Alpha')], 'tenant', 'doc-1', [], V1_AT, '1');
+      const second = planChunkUpdates([chunk('chunk_0', 'Beta')], 'tenant', 'doc-1', stored(first), V2_AT, '2');
+      const third = planChunkUpdates([chunk('chunk_0', 'Alpha')], 'tenant', 'doc-1', stored(second), V3_AT, '3');
+
+      expect(third.added).toHaveLength(1);
+      expect(third.added[0].pointId).not.toBe(first.chunks[0].pointId);
+      expect(third.supersededPointIds).toEqual([second.chunks[0].pointId]);
+    });
+
+    it('should supersede legacy points without a chunk hash', () => {
+      const plan = planChunkUpdates(
+        [chunk('chunk_0', 'Alpha')],
+        'tenant', 'doc-1', [{ id: 'legacy-point' }], V1_AT, '1'
+      );
+
+      expect(plan.added).toHaveLength(1);
+      expect(plan.supersededPointIds).toEqual(['legacy-point']);
+    });
+
+    it('should match repeated content by occurrence', () => {
+      const first = planChunkUpdates(
+        [chunk('chunk_0', 'Same'), chunk('chunk_1', 'Same')],
+        'tenant', 'doc-1', [], V1_AT, '1'
+      );
+
+      expect(first.chunks[0].chunkHash).toBe(first.chunks[1].chunkHash);
+      expect(first.chunks[0].pointId).not.toBe(first.chunks[1].pointId);
+
+      const second = planChunkUpdates(
+        [chunk('chunk_0', 'Same')],
+        'tenant', 'doc-1', stored(first), V2_AT, '2'
+      );
+
+      expect(second.unchanged.map(c => c.pointId)).toEqual([first.chunks[0].pointId]);
+      expect(second.supersededPointIds).toEqual([first.chunks[1].pointId]);
+    });
+
+    it('should scope point ids to the tenant and document', () => {
+      const a = planChunkUpdates([chunk('chunk_0', 'Alpha')], 'tenant', 'doc-1', [], V1_AT, '1');
+      const b = planChunkUpdates([chunk('chunk_0', 'Alpha')], 'tenant', 'doc-2', [], V1_AT, '1');
+
+      expect(a.chunks[0].pointId).not.toBe(b.chunks[0].pointId);
+    });
+  });
+});
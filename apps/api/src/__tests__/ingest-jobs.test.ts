@@ -0,0 +1,257 @@
+import Fastify from 'fastify';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { NormalizedDoc } from '@cw-rag-core/shared';
+import {
+  IngestDocumentProcessor,
+  IngestJobQueue,
+  IngestJobQueueOptions
+} from '../services/ingest-jobs.js';
+import { publishRoute } from '../routes/ingest/publish.js';
+
+describe('IngestJobQueue', () => {
+  let jobsDir: string;
+
+  const requestInfo = { ip: '127.0.0.1', userAgent: 'jest' };
+
+  const logger = {
+    info: () => undefined,
+    warn: () => undefined,
+    error: () => undefined,
+    debug: () => undefined
+  } as unknown as IngestJobQueueOptions['logger'];
+
+  const createDoc = (docId: string): NormalizedDoc => ({
+    meta: {
+      tenant: 'test-tenant',
+      docId,
+      source: 'test',
+      sha256: 'abcd1234567890abcd1234567890abcd1234567890abcd1234567890abcd1234',
+      acl: ['public'],
+      timestamp: new Date().toISOString()
+    },
+    blocks: [{ type: 'text', text: `Content of ${docId}` }]
+  });
+
+  const createQueue = (processor: IngestDocumentProcessor, options: Partial<IngestJobQueueOptions> = {}) =>
+    new IngestJobQueue(processor, { jobsDir, maxAttempts: 3, retryDelayMs: 1, logger, ...options });
+
+  beforeEach(async () => {
+    jobsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ingest-jobs-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(jobsDir, { recursive: true, force: true });
+  });
+
+  it('should process every document and report per-document status', async () => {
+    const queue = createQueue(async doc => ({
+      docId: doc.meta.docId,
+      status: 'published',
+      pointsUpserted: 1
+    }));
+
+    const queued = await queue.enqueue([createDoc('doc-1'), createDoc('doc-2')], requestInfo);
+    expect(queued.status).toBe('queued');
+    expect(queued.summary.pending).toBe(2);
+
+    await queue.idle();
+
+    const job = queue.getJob(queued.id)!;
+    expect(job.status).toBe('completed');
+    expect(job.summary).toMatchObject({ total: 2, pending: 0, published: 2, errors: 0 });
+    expect(job.documents.map(document => document.status)).toEqual(['published', 'published']);
+    expect(job.completedAt).toBeDefined();
+  });
+
+  it('should retry documents that throw and record the attempts', async () => {
+    let calls = 0;
+    const queue = createQueue(async doc => {
+      calls++;
+      if (calls < 3) {
+        throw new Error('Qdrant unavailable');
+      }
+      return { docId: doc.meta.docId, status: 'published', pointsUpserted: 2 };
+    });
+
+    const queued = await queue.enqueue([createDoc('doc-1')], requestInfo);
+    await queue.idle();
+
+    const job = queue.getJob(queued.id)!;
+    expect(job.status).toBe('completed');
+    expect(job.documents[0]).toMatchObject({ status: 'published', attempts: 3, pointsUpserted: 2 });
+  });
+
+  it('should mark documents as errors once retries are exhausted', async () => {
+    const queue = createQueue(async doc => {
+      if (doc.meta.docId === 'bad-doc') {
+        throw new Error('Embedding service down');
+      }
+      return { docId: doc.meta.docId, status: 'published' };
+    });
+
+    const queued = await queue.enqueue([createDoc('bad-doc'), createDoc('good-doc')], requestInfo);
+    await queue.idle();
+
+    const job = queue.getJob(queued.id)!;
+    expect(job.status).toBe('completed_with_errors');
+    expect(job.summary).toMatchObject({ published: 1, errors: 1 });
+    expect(job.documents[0].attempts).toBe(3);
+    expect(job.documents[0].message).toContain('Embedding service down');
+  });
+
+  it('should not retry documents the processor rejects', async () => {
+    let calls = 0;
+    const queue = createQueue(async doc => {
+      calls++;
+      return { docId: doc.meta.docId, status: 'error', message: 'Invalid document' };
+    });
+
+    const queued = await queue.enqueue([createDoc('doc-1')], requestInfo);
+    await queue.idle();
+
+    expect(calls).toBe(1);
+    expect(queue.getJob(queued.id)!.status).toBe('completed_with_errors');
+  });
+
+  it('should list jobs newest first and filter by tenant', async () => {
+    const queue = createQueue(async doc => ({ docId: doc.meta.docId, status: 'published' }));
+
+    const first = await queue.enqueue([createDoc('doc-1')], requestInfo);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const otherTenantDoc = createDoc('doc-2');
+    otherTenantDoc.meta.tenant = 'other-tenant';
+    const second = await queue.enqueue([otherTenantDoc], requestInfo);
+    await queue.idle();
+
+    const all = queue.listJobs();
+    expect(all.total).toBe(2);
+    expect(all.jobs.map(job => job.id)).toEqual([second.id, first.id]);
+
+    const filtered = queue.listJobs({ tenant: 'test-tenant' });
+    expect(filtered.jobs.map(job => job.id)).toEqual([first.id]);
+  });
+
+  it('should list batches spanning several tenants under each of them', async () => {
+    const queue = createQueue(async doc => ({ docId: doc.meta.docId, status: 'published' }));
+    const otherTenantDoc = createDoc('doc-2');
+    otherTenantDoc.meta.tenant = 'other-tenant';
+
+    const queued = await queue.enqueue([createDoc('doc-1'), otherTenantDoc], requestInfo);
+    await queue.idle();
+
+    expect(queued.tenant).toBe('multiple');
+    expect(queued.tenants).toEqual(['test-tenant', 'other-tenant']);
+    expect(queue.listJobs({ tenant: 'other-tenant' }).jobs.map(job => job.id)).toEqual([queued.id]);
+    expect(queue.listJobs({ tenant: 'test-tenant' }).jobs.map(job => job.id)).toEqual([queued.id]);
+  });
+
+  it('should resume unfinished jobs from persisted state', async () => {
+    const jobId = 'interrupted-job';
+    const now = new Date().toISOString();
+    await fs.writeFile(path.join(jobsDir, `${jobId}.json`), JSON.stringify({
+      id: jobId,
+      tenant: 'test-tenant',
+      status: 'running',
+      createdAt: now,
+      startedAt: now,
+      documents: [
+        { docId: 'doc-1', status: 'published', attempts: 1, updatedAt: now },
+        { docId: 'doc-2', status: 'processing', attempts: 1, updatedAt: now }
+      ],
+      summary: { total: 2, pending: 1, published: 1, updated: 0, blocked: 0, deleted: 0, errors: 0 },
+      requestInfo,
+      payloads: [createDoc('doc-1'), createDoc('doc-2')]
+    }));
+
+    const processed: string[] = [];
+    const queue = createQueue(async doc => {
+      processed.push(doc.meta.docId);
+      return { docId: doc.meta.docId, status: 'updated' };
+    });
+
+    await queue.resume();
+    await queue.idle();
+
+    expect(processed).toEqual(['doc-2']);
+    const job = queue.getJob(jobId)!;
+    expect(job.status).toBe('completed');
+    expect(job.documents[1]).toMatchObject({ status: 'updated', attempts: 1 });
+
+    // Persisted state is removed once the job finishes
+    expect(await fs.readdir(jobsDir)).toEqual([]);
+  });
+
+  it('should only persist payloads encrypted and resume them with the key', async () => {
+    const payloadSecret = 'test-jobs-secret-0123456789abcdef';
+    let release: () => void = () => undefined;
+    const blocked = new Promise<void>(resolve => { release = resolve; });
+    const first = createQueue(async doc => {
+      await blocked;
+      return { docId: doc.meta.docId, status: 'published' };
+    }, { payloadSecret });
+
+    const queued = await first.enqueue([createDoc('doc-1')], requestInfo);
+    const content = await fs.readFile(path.join(jobsDir, `${queued.id}.json`), 'utf-8');
+    expect(content).not.toContain('Content of doc-1');
+    expect(JSON.parse(content).encryptedPayloads).toBeDefined();
+
+    const processed: string[] = [];
+    const second = createQueue(async doc => {
+      processed.push(doc.meta.docId);
+      return { docId: doc.meta.docId, status: 'published' };
+    }, { payloadSecret });
+    await second.resume();
+    await second.idle();
+    release();
+    await first.idle();
+
+    expect(processed).toEqual(['doc-1']);
+    expect(await fs.readdir(jobsDir)).toEqual([]);
+  });
+
+  it('should not write payloads without a key', async () => {
+    let release: () => void = () => undefined;
+    const blocked = new Promise<void>(resolve => { release = resolve; });
+    const queue = createQueue(async doc => {
+      await blocked;
+      return { docId: doc.meta.docId, status: 'published' };
+    });
+
+    const queued = await queue.enqueue([createDoc('doc-1')], requestInfo);
+    const stored = JSON.parse(await fs.readFile(path.join(jobsDir, `${queued.id}.json`), 'utf-8'));
+    release();
+    await queue.idle();
+
+    expect(stored.payloads).toBeUndefined();
+    expect(stored.encryptedPayloads).toBeUndefined();
+  });
+
+  it('should drop finished jobs beyond the retention limits', async () => {
+    const queue = createQueue(async doc => ({ docId: doc.meta.docId, status: 'published' }), { maxFinishedJobs: 1 });
+
+    const first = await queue.enqueue([createDoc('doc-1')], requestInfo);
+    await queue.idle();
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const second = await queue.enqueue([createDoc('doc-2')], requestInfo);
+    await queue.idle();
+
+    expect(queue.getJob(first.id)).toBeNull();
+    expect(queue.getJob(second.id)!.status).toBe('completed');
+    expect(queue.listJobs().total).toBe(1);
+  });
+
+  it('should queue publish requests unless ?wait=true', async () => {
+    const queue = createQueue(async doc => ({ docId: doc.meta.docId, status: 'published' }));
+    const server = Fastify();
+    await server.register(publishRoute, { jobQueue: queue, qdrantClient: {} as any, collectionName: 'docs', auditLogger: {} as any });
+
+    const response = await server.inject({ method: 'POST', url: '/publish?wait=false', payload: createDoc('doc-1') });
+    await queue.idle();
+    await server.close();
+
+    expect(response.statusCode).toBe(202);
+    expect(response.json().jobId).toBeDefined();
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { DEFAULT_RERANKER_CONFIG, RERANKER_MODELS, RerankerRequest, RerankerService } from '@cw-rag-core/retrieval';
+import { LLMRerankerService, parseRanking } from '../services/llm-reranker.js';
+import { ModelRoutingRerankerService } from '../services/reranker.js';
+import { LLMClient, LLMClientFactory } from '../services/llm-client.js';
+
+function createFactory(generate: (instructions: string, input: string) => Promise<string>): LLMClientFactory {
+  const client = {
+    generateTaskCompletion: async (instructions: string, input: string) => ({
+      text: await generate(instructions, input),
+      tokensUsed: 10,
+      model: 'test-model'
+    })
+  } as unknown as LLMClient;
+
+  return {
+    createClientForTenant: async () => client,
+    createClient: () => client,
+    getTenantConfig: async () => ({} as any),
+    updateTenantConfig: async () => undefined
+  };
+}
+
+const config = { ...DEFAULT_RERANKER_CONFIG, enabled: true, model: RERANKER_MODELS.LLM_LISTWISE, topK: 10 };
+const llmConfig = { promptTokenBudget: 3000, maxPassageTokens: 200, timeoutMs: 200 };
+
+const request: RerankerRequest = {
+  query: 'How many vacation days do employees get?',
+  tenantId: 'acme',
+  documents: [
+    { id: 'a', content: 'Office address and parking', originalScore: 0.9 },
+    { id: 'b', content: 'Vacation policy overview', originalScore: 0.8 },
+    { id: 'c', content: 'Employees get 25 vacation days per year', originalScore: 0.7 },
+    { id: 'd', content: 'Expense policy', originalScore: 0.6 }
+  ]
+};
+
+describe('parseRanking', () => {
+  it('should return zero-based indexes in listed order without duplicates or unknown numbers', () => {
+    expect(parseRanking('[3] > [1], 3, 7, 2', 4)).toEqual([2, 0, 1]);
+    expect(parseRanking('None of the passages are relevant.', 4)).toEqual([]);
+  });
+});
+
+describe('LLMRerankerService', () => {
+  it('should order passages by the LLM ranking and append the ones it left out', async () => {
+    const generate = jest.fn(async (_instructions: string, _input: string) => '3, 2');
+    const reranker = new LLMRerankerService(config, createFactory(generate), llmConfig);
+
+    const results = await reranker.rerank(request);
+
+    expect(results.map(result => [result.id, result.rank])).toEqual([['c', 1], ['b', 2], ['a', 3], ['d', 4]]);
+    expect(results[0].rerankerScore).toBeGreaterThan(results[1].rerankerScore);
+    expect(results[0].originalScore).toBe(0.7);
+    expect(generate.mock.calls[0][1]).toContain('[3] Employees get 25 vacation days per year');
+  });
+
+  it('should only number passages that fit the prompt budget', async () => {
+    const generate = jest.fn(async (_instructions: string, _input: string) => '2, 1');
+    const reranker = new LLMRerankerService(config, createFactory(generate), {
+      ...llmConfig,
+      promptTokenBudget: 30
+    });
+
+    const results = await reranker.rerank(request);
+    const prompt = generate.mock.calls[0][1];
+
+    expect(prompt).toContain('[2] Vacation policy overview');
+    expect(prompt).not.toContain('Expense policy');
+    expect(results.map(result => result.id)).toEqual(['b', 'a', 'c', 'd']);
+  });
+
+  it('should keep the original order when the LLM fails or returns no ranking', async () => {
+    const failing = new LLMRerankerService(config, createFactory(async () => {
+      throw new Error('rate limited');
+    }), llmConfig);
+    const unparseable = new LLMRerankerService(config, createFactory(async () => 'All passages look relevant.'), llmConfig);
+    const slow = new LLMRerankerService(config, createFactory(
+      () => new Promise(resolve => setTimeout(() => resolve('4, 3'), 1000))
+    ), { ...llmConfig, timeoutMs: 20 });
+
+    for (const reranker of [failing, unparseable, slow]) {
+      const results = await reranker.rerank(request);
+      expect(results.map(result => result.id)).toEqual(['a', 'b', 'c', 'd']);
+      expect(results[0].rerankerScore).toBe(0.9);
+    }
+  });
+});
+
+describe('ModelRoutingRerankerService', () => {
+  it('should send requests to the reranker of the requested model', async () => {
+    const crossEncoder = {
+      rerank: jest.fn(async () => []),
+      getConfig: () => ({ ...DEFAULT_RERANKER_CONFIG, enabled: true }),
+      getSupportedModels: () => ['BAAI/bge-reranker-large']
+    } as unknown as RerankerService;
+    const llmReranker = new LLMRerankerService(config, createFactory(async () => '3'), llmConfig);
+    const router = new ModelRoutingRerankerService(crossEncoder, { 'llm-listwise': llmReranker });
+
+    const results = await router.rerank({ ...request, model: 'llm-listwise' });
+    await router.rerank(request);
+
+    expect(results[0].id).toBe('c');
+    expect(crossEncoder.rerank).toHaveBeenCalledTimes(1);
+    expect(router.getSupportedModels()).toEqual(['BAAI/bge-reranker-large', 'llm-listwise']);
+  });
+});
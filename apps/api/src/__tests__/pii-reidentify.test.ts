@@ -0,0 +1,102 @@
+import Fastify from 'fastify';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { piiRoute } from '../routes/pii.js';
+import { getPseudonymVault } from '../services/pii.js';
+
+describe('PII re-identification - /pii/reidentify', () => {
+  const server = Fastify();
+  server.register(piiRoute);
+
+  let vaultDir: string;
+  let tenantsDir: string;
+
+  const adminContext = {
+    id: 'admin-1',
+    groupIds: ['admins'],
+    tenantId: 'acme'
+  };
+
+  beforeAll(async () => {
+    tenantsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tenants-'));
+    await fs.mkdir(path.join(tenantsDir, 'acme'));
+    await fs.writeFile(path.join(tenantsDir, 'acme', 'group-hierarchy.json'), JSON.stringify({
+      admins: { level: 3 },
+      viewers: { level: 1 }
+    }));
+    process.env.TENANTS_DIR = tenantsDir;
+    vaultDir = await fs.mkdtemp(path.join(os.tmpdir(), 'pii-vault-'));
+    process.env.PII_VAULT_DIR = vaultDir;
+    process.env.PII_VAULT_KEY = 'test-vault-secret-0123456789abcdef';
+  });
+
+  afterAll(async () => {
+    await server.close();
+    await fs.rm(vaultDir, { recursive: true, force: true });
+    await fs.rm(tenantsDir, { recursive: true, force: true });
+    delete process.env.TENANTS_DIR;
+    delete process.env.PII_VAULT_DIR;
+    delete process.env.PII_VAULT_KEY;
+  });
+
+  it('should restore pseudonymized values for privileged users', async () => {
+    const token = getPseudonymVault()!.pseudonymize('acme', 'email', 'jane@example.com');
+
+    const response = await server.inject({
+      method: 'POST',
+      url: '/pii/reidentify',
+      payload: { text: `Contact ${token} for details`, userContext: adminContext }
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({
+      text: 'Contact jane@example.com for details',
+      restored: [{ type: 'email', count: 1 }]
+    });
+  });
+
+  it('should reject users below the required privilege level', async () => {
+    const token = getPseudonymVault()!.pseudonymize('acme', 'email', 'jane@example.com');
+
+    const response = await server.inject({
+      method: 'POST',
+      url: '/pii/reidentify',
+      payload: { text: token, userContext: { ...adminContext, groupIds: ['viewers'] } }
+    });
+
+    expect(response.statusCode).toBe(403);
+  });
+
+  it('should ignore privilege levels sent by the client', async () => {
+    const token = getPseudonymVault()!.pseudonymize('globex', 'email', 'jane@example.com');
+    const groupHierarchy = { admins: { level: 99 }, viewers: { level: 99 } };
+
+    const raised = await server.inject({
+      method: 'POST',
+      url: '/pii/reidentify',
+      payload: { text: token, userContext: { ...adminContext, groupIds: ['viewers'], groupHierarchy } }
+    });
+    const withoutHierarchy = await server.inject({
+      method: 'POST',
+      url: '/pii/reidentify',
+      payload: { text: token, userContext: { ...adminContext, tenantId: 'globex', groupHierarchy } }
+    });
+
+    expect(raised.statusCode).toBe(403);
+    expect(withoutHierarchy.statusCode).toBe(403);
+  });
+
+  it('should not restore tokens of another tenant', async () => {
+    const token = getPseudonymVault()!.pseudonymize('globex', 'email', 'jane@example.com');
+
+    const response = await server.inject({
+      method: 'POST',
+      url: '/pii/reidentify',
+      payload: { text: token, userContext: adminContext }
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().text).toBe(token);
+  });
+});
@@ -0,0 +1,60 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, beforeAll, afterAll, it, expect, jest } from '@jest/globals';
+import { BgeSmallEnV15EmbeddingService } from '@cw-rag-core/retrieval';
+import { processPublishDocument } from '../routes/ingest/publish.js';
+import { getPseudonymVault } from '../services/pii.js';
+import { AuditLogger } from '../utils/audit.js';
+
+describe('Publishing with a PII policy', () => {
+  let vaultDir: string;
+
+  beforeAll(async () => {
+    vaultDir = await fs.mkdtemp(path.join(os.tmpdir(), 'pii-vault-'));
+    process.env.PII_POLICY = 'pseudonymize';
+    process.env.PII_VAULT_DIR = vaultDir;
+    process.env.PII_VAULT_KEY = 'test-vault-secret-0123456789abcdef';
+  });
+
+  afterAll(async () => {
+    await fs.rm(vaultDir, { recursive: true, force: true });
+    delete process.env.PII_POLICY;
+    delete process.env.PII_VAULT_DIR;
+    delete process.env.PII_VAULT_KEY;
+  });
+
+  it('should index and embed pseudonyms instead of the original values', async () => {
+    const embedded: string[] = [];
+    jest.spyOn(BgeSmallEnV15EmbeddingService.prototype, 'embed').mockImplementation(async (text: string) => {
+      embedded.push(text);
+      return new Array(384).fill(0.1);
+    });
+    const qdrantClient = {
+      search: jest.fn(async () => []),
+      scroll: jest.fn(async () => ({ points: [] })),
+      upsert: jest.fn(async () => ({})),
+      setPayload: jest.fn(async () => ({}))
+    };
+    const auditLogger = new AuditLogger({ info: () => {} } as any);
+
+    const result = await processPublishDocument({
+      meta: {
+        tenant: 'acme',
+        docId: 'contacts',
+        source: 'upload',
+        acl: ['staff'],
+        timestamp: '2026-10-19T00:00:00.000Z'
+      },
+      blocks: [{ type: 'text', text: 'Questions go to jane.doe@example.com during office hours.' }]
+    }, { qdrantClient: qdrantClient as any, collectionName: 'docs', auditLogger }, { ip: '127.0.0.1' });
+
+    const token = getPseudonymVault()!.pseudonymize('acme', 'email', 'jane.doe@example.com');
+    const payloads = (qdrantClient.upsert.mock.calls[0] as any[])[1].batch.payloads;
+
+    expect(result.status).toBe('published');
+    expect(payloads[0].content).toContain(token);
+    expect(JSON.stringify(payloads)).not.toContain('jane.doe@example.com');
+    expect(embedded.join('\n')).not.toContain('jane.doe@example.com');
+  });
+});
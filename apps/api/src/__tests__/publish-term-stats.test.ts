@@ -0,0 +1,76 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { describe, beforeAll, afterAll, it, expect, jest } from '@jest/globals';
+import { BgeSmallEnV15EmbeddingService, cachedStats, loadCorpusStats, updateTermStats } from '@cw-rag-core/retrieval';
+import { processPublishDocument } from '../routes/ingest/publish.js';
+import { QDRANT_COLLECTION_NAME, bootstrapQdrant } from '../services/qdrant.js';
+import { AuditLogger } from '../utils/audit.js';
+
+describe('Publishing with BM25 sparse vectors', () => {
+  const tenant = 'term-stats-test';
+  const statsFile = path.join(process.cwd(), 'data', `corpus-stats-${tenant}.json`);
+
+  beforeAll(() => {
+    process.env.SPARSE_VECTORS_ENABLED = 'on';
+  });
+
+  afterAll(async () => {
+    delete process.env.SPARSE_VECTORS_ENABLED;
+    cachedStats.delete(tenant);
+    await fs.rm(statsFile, { force: true });
+    // Only removed when no other stats were saved there
+    await fs.rmdir(path.dirname(statsFile)).catch(() => undefined);
+  });
+
+  it('should remove superseded chunks from the term statistics', async () => {
+    jest.spyOn(BgeSmallEnV15EmbeddingService.prototype, 'embed').mockResolvedValue(new Array(384).fill(0.1));
+    const previous = 'Vacation policy grants twenty days';
+    updateTermStats([{ id: 'old-chunk', content: previous }], tenant);
+
+    const qdrantClient = {
+      search: jest.fn(async () => []),
+      scroll: jest.fn(async () => ({ points: [{ id: 'old-chunk', payload: { chunkHash: 'previous-hash' } }] })),
+      retrieve: jest.fn(async () => [{ id: 'old-chunk', payload: { content: previous } }]),
+      upsert: jest.fn(async () => ({})),
+      setPayload: jest.fn(async (_collection: string, _request: any) => ({}))
+    };
+
+    const result = await processPublishDocument({
+      meta: { tenant, docId: 'handbook', source: 'upload', acl: ['staff'], timestamp: '2026-10-19T00:00:00.000Z' },
+      blocks: [{ type: 'text', text: 'Vacation policy grants thirty days' }]
+    }, { qdrantClient: qdrantClient as any, collectionName: 'docs', auditLogger: new AuditLogger({ info: () => {} } as any) }, { ip: '127.0.0.1' });
+
+    const stats = loadCorpusStats(tenant);
+    expect(result.status).toBe('published');
+    expect(qdrantClient.setPayload).toHaveBeenCalledWith('docs', expect.objectContaining({ points: ['old-chunk'] }));
+    expect(stats.totalDocs).toBe(1);
+    expect(stats.docFreq!.get('vacation')).toBe(1);
+    expect(stats.docFreq!.has('twenty')).toBe(false);
+    expect(stats.docFreq!.get('thirty')).toBe(1);
+  });
+
+  it('should not write sparse vectors to a collection created without them', async () => {
+    jest.spyOn(BgeSmallEnV15EmbeddingService.prototype, 'embed').mockResolvedValue(new Array(384).fill(0.1));
+    const logger = { info: () => {}, warn: jest.fn(), error: () => {} };
+    await bootstrapQdrant({
+      getCollections: async () => ({ collections: [{ name: QDRANT_COLLECTION_NAME }] }),
+      getCollection: async () => ({ config: { params: { vectors: { size: 384, distance: 'Cosine' } } } })
+    } as any, logger as any, 1, 0);
+
+    const qdrantClient = {
+      search: jest.fn(async () => []),
+      scroll: jest.fn(async () => ({ points: [] })),
+      upsert: jest.fn(async (_collection: string, _request: any) => ({})),
+      setPayload: jest.fn(async () => ({}))
+    };
+
+    const result = await processPublishDocument({
+      meta: { tenant, docId: 'faq', source: 'upload', acl: ['staff'], timestamp: '2026-10-19T00:00:00.000Z' },
+      blocks: [{ type: 'text', text: 'Expenses are reimbursed monthly' }]
+    }, { qdrantClient: qdrantClient as any, collectionName: QDRANT_COLLECTION_NAME, auditLogger: new AuditLogger({ info: () => {} } as any) }, { ip: '127.0.0.1' });
+
+    expect(result.status).toBe('published');
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('publishing skips them'));
+    expect(Array.isArray(qdrantClient.upsert.mock.calls[0][1].batch.vectors)).toBe(true);
+  });
+});
@@ -0,0 +1,62 @@
+// This file contains fake PII data for testing purposes only
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createAnswerRedactor, getTenantQueryPIIPolicy, scrubAnswer, scrubQuery } from '../services/pii.js';
+
+describe('Query-time PII scrubbing', () => {
+  let tenantsDir: string;
+
+  beforeAll(async () => {
+    tenantsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tenants-'));
+    await fs.mkdir(path.join(tenantsDir, 'strict'));
+    await fs.writeFile(
+      path.join(tenantsDir, 'strict', 'pii-detectors.json'),
+      JSON.stringify({
+        detectors: [{ kind: 'dictionary', name: 'codename', terms: ['Falcon'] }],
+        queryPolicy: { mode: 'block' }
+      })
+    );
+    process.env.TENANTS_DIR = tenantsDir;
+  });
+
+  afterAll(async () => {
+    await fs.rm(tenantsDir, { recursive: true, force: true });
+    delete process.env.TENANTS_DIR;
+  });
+
+  it('should mask questions by default', async () => {
+    const result = await scrubQuery('acme', 'Who owns jane@example.com?');
+
+    expect(result.blocked).toBe(false);
+    expect(result.maskedText).toBe('Who owns [EMAIL_REDACTED]?');
+    expect(result.redactions).toEqual([{ type: 'email', count: 1 }]);
+  });
+
+  it('should apply the tenant query policy and detectors', async () => {
+    expect(await getTenantQueryPIIPolicy('strict')).toEqual({ mode: 'block', tenantId: 'strict' });
+
+    const result = await scrubQuery('strict', 'What is the status of Falcon?');
+    expect(result.blocked).toBe(true);
+    expect(result.redactions).toEqual([{ type: 'custom:codename', count: 1 }]);
+  });
+
+  it('should mask answers instead of blocking them', async () => {
+    const result = await scrubAnswer('strict', 'Falcon is led by jane@example.com.');
+
+    expect(result.blocked).toBe(false);
+    expect(result.maskedText).toBe('[CODENAME_REDACTED] is led by [EMAIL_REDACTED].');
+  });
+
+  it('should redact streamed answers without leaking split values', async () => {
+    const redactor = await createAnswerRedactor('acme');
+    const chunks = ['Contact jane', '.doe@exa', 'mple.com for access to the ', 'reporting workspace and dashboards.'];
+
+    const released = chunks.map(chunk => redactor.push(chunk));
+    released.push(redactor.flush());
+
+    expect(released.join('')).toBe('Contact [EMAIL_REDACTED] for access to the reporting workspace and dashboards.');
+    expect(released.some(part => part.includes('jane'))).toBe(false);
+    expect(redactor.getRedactions()).toEqual([{ type: 'email', count: 1 }]);
+  });
+});
@@ -0,0 +1,236 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, beforeAll, afterAll, it, expect } from '@jest/globals';
+import { AuthConfig, JwtVerifier } from '../services/jwt-verifier.js';
+import { createUserContextHook, getRequestUserContext } from '../middleware/user-context.js';
+import { documentFetchRoute } from '../routes/document-fetch.js';
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+function sign(claims: Record<string, unknown>, key: crypto.KeyObject = privateKey, kid = 'key-1', alg = 'RS256'): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const signingInput = `${encode({ alg, typ: 'JWT', kid })}.${encode(claims)}`;
+  const signature = alg.startsWith('ES')
+    ? crypto.sign('sha256', Buffer.from(signingInput), { key, dsaEncoding: 'ieee-p1363' })
+    : crypto.sign('sha256', Buffer.from(signingInput), key);
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+const now = Math.floor(Date.now() / 1000);
+const aliceClaims = {
+  sub: 'alice',
+  iss: 'https://idp.example.com',
+  aud: ['rag-api'],
+  exp: now + 300,
+  org: { tenant: 'acme' },
+  groups: 'staff hr'
+};
+
+describe('Bearer token authentication', () => {
+  let dir: string;
+  let config: AuthConfig;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'jwks-'));
+    const jwksFile = path.join(dir, 'jwks.json');
+    await fs.writeFile(jwksFile, JSON.stringify({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig' }] }));
+
+    config = {
+      jwtEnabled: true,
+      jwksFile,
+      jwksCacheTtlMs: 600000,
+      issuer: 'https://idp.example.com',
+      audience: 'rag-api',
+      clockToleranceSec: 60,
+      claims: { userId: 'sub', groupIds: 'groups', tenantId: 'org.tenant' },
+      serviceTokens: ['service-secret']
+    };
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('JwtVerifier', () => {
+    it('should build the user context from mapped claims', async () => {
+      const userContext = await new JwtVerifier(config).verifyUserContext(sign(aliceClaims));
+
+      expect(userContext).toEqual({ id: 'alice', tenantId: 'acme', groupIds: ['staff', 'hr'] });
+    });
+
+    it('should map attribute claims for access rules', async () => {
+      const verifier = new JwtVerifier({ ...config, attributeClaims: { clearance: 'clearance', regions: 'org.regions' } });
+      const token = sign({ ...aliceClaims, clearance: 2, org: { tenant: 'acme', regions: ['eu', 'uk'] } });
+
+      expect((await verifier.verifyUserContext(token)).attributes).toEqual({ clearance: 2, regions: ['eu', 'uk'] });
+      expect((await verifier.verifyUserContext(sign(aliceClaims))).attributes).toBeUndefined();
+    });
+
+    it('should reject forged, expired and foreign tokens', async () => {
+      const verifier = new JwtVerifier(config);
+      const otherKey = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+
+      await expect(verifier.verify(sign(aliceClaims, otherKey))).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+      await expect(verifier.verify(sign({ ...aliceClaims, exp: now - 120 }))).rejects.toMatchObject({ code: 'TOKEN_EXPIRED' });
+      await expect(verifier.verify(sign({ ...aliceClaims, aud: 'other-api' }))).rejects.toThrow('Unexpected token audience');
+      await expect(verifier.verify(sign(aliceClaims, privateKey, 'rotated'))).rejects.toThrow('Unknown signing key rotated');
+    });
+
+    it('should only verify with keys of the token\'s algorithm', async () => {
+      const ecKeys = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      const jwksFile = path.join(dir, 'jwks-mixed.json');
+      await fs.writeFile(jwksFile, JSON.stringify({ keys: [
+        { ...publicKey.export({ format: 'jwk' }), kid: 'rsa', alg: 'RS256' },
+        { ...ecKeys.publicKey.export({ format: 'jwk' }), kid: 'ec' }
+      ] }));
+      const verifier = new JwtVerifier({ ...config, jwksFile });
+
+      await expect(verifier.verify(sign(aliceClaims, ecKeys.privateKey, 'ec', 'ES256'))).resolves.toMatchObject({ sub: 'alice' });
+      await expect(verifier.verify(sign(aliceClaims, ecKeys.privateKey, 'rsa', 'ES256'))).rejects.toThrow('Unknown signing key rsa');
+      await expect(verifier.verify(sign(aliceClaims, privateKey, 'ec'))).rejects.toThrow('Unknown signing key ec');
+      await expect(verifier.verify(sign(aliceClaims, privateKey, 'rsa', 'PS256'))).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+      await expect(verifier.verify(sign(aliceClaims, privateKey, 'rsa'))).resolves.toMatchObject({ sub: 'alice' });
+    });
+
+    it('should report unavailable signing keys instead of invalid tokens', async () => {
+      const verifier = new JwtVerifier({ ...config, jwksFile: path.join(dir, 'missing.json') });
+
+      await expect(verifier.verify(sign(aliceClaims))).rejects.toMatchObject({ name: 'JwksUnavailableError' });
+    });
+
+    it('should reject tokens without a tenant unless a default tenant is configured', async () => {
+      const token = sign({ ...aliceClaims, org: undefined });
+
+      await expect(new JwtVerifier(config).verifyUserContext(token)).rejects.toMatchObject({ code: 'MISSING_CLAIM' });
+      expect((await new JwtVerifier({ ...config, defaultTenantId: 'acme' }).verifyUserContext(token)).tenantId).toBe('acme');
+    });
+  });
+
+  describe('user context hook', () => {
+    let server: FastifyInstance;
+
+    beforeAll(async () => {
+      server = Fastify();
+      server.register(async instance => {
+        instance.addHook('preValidation', createUserContextHook({ config, verifier: new JwtVerifier(config) }));
+        instance.post('/echo', async request => ({ userContext: (request.body as any).userContext }));
+        instance.get('/whoami', async request => ({ userContext: request.authenticatedUser || null }));
+      });
+      await server.ready();
+    });
+
+    afterAll(async () => {
+      await server.close();
+    });
+
+    it('should replace the user context of the body with the verified identity', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/echo',
+        headers: { authorization: `Bearer ${sign(aliceClaims)}` },
+        payload: { userContext: { id: 'mallory', tenantId: 'other', groupIds: ['admins'], language: 'de' } }
+      });
+
+      expect(response.json().userContext).toEqual({ id: 'alice', tenantId: 'acme', groupIds: ['staff', 'hr'], language: 'de' });
+    });
+
+    it('should reject requests without a valid bearer token', async () => {
+      const missing = await server.inject({ method: 'GET', url: '/whoami', headers: { 'x-user-id': 'mallory', 'x-tenant': 'acme' } });
+      const invalid = await server.inject({ method: 'GET', url: '/whoami', headers: { authorization: 'Bearer not-a-token' } });
+
+      expect(missing.statusCode).toBe(401);
+      expect(missing.json().code).toBe('MISSING_TOKEN');
+      expect(invalid.statusCode).toBe(401);
+      expect(invalid.json().code).toBe('INVALID_TOKEN');
+    });
+
+    it('should answer 503 when the signing keys cannot be loaded', async () => {
+      const unavailable = Fastify();
+      const brokenConfig = { ...config, jwksFile: path.join(dir, 'missing.json') };
+      unavailable.register(async instance => {
+        instance.addHook('preValidation', createUserContextHook({ config: brokenConfig, verifier: new JwtVerifier(brokenConfig) }));
+        instance.get('/whoami', async request => ({ userContext: request.authenticatedUser || null }));
+      });
+
+      const response = await unavailable.inject({ method: 'GET', url: '/whoami', headers: { authorization: `Bearer ${sign(aliceClaims)}` } });
+
+      expect(response.statusCode).toBe(503);
+      expect(response.json().code).toBe('JWKS_UNAVAILABLE');
+      await unavailable.close();
+    });
+
+    it('should let trusted service tokens act for the user in the request', async () => {
+      const userContext = { id: 'bob', tenantId: 'acme', groupIds: ['finance'] };
+
+      const body = await server.inject({
+        method: 'POST',
+        url: '/echo',
+        headers: { authorization: 'Bearer service-secret' },
+        payload: { userContext }
+      });
+      const headers = await server.inject({
+        method: 'GET',
+        url: '/whoami',
+        headers: { authorization: 'Bearer service-secret', 'x-user-id': 'bob', 'x-tenant': 'acme', 'x-user-groups': 'finance' }
+      });
+
+      expect(body.json().userContext).toEqual(userContext);
+      expect(headers.json().userContext).toEqual(userContext);
+    });
+
+    it('should trust the request when token authentication is off', async () => {
+      const legacy = Fastify();
+      legacy.register(async instance => {
+        instance.addHook('preValidation', createUserContextHook({ config: { ...config, jwtEnabled: false } }));
+        instance.get('/whoami', async request => ({ userContext: getRequestUserContext(request) }));
+      });
+
+      const response = await legacy.inject({ method: 'GET', url: '/whoami', headers: { 'x-user-id': 'bob', 'x-tenant': 'acme' } });
+
+      expect(response.json().userContext).toEqual({ id: 'bob', tenantId: 'acme', groupIds: [] });
+      await legacy.close();
+    });
+  });
+
+  describe('/documents', () => {
+    it('should only list documents of the verified user\'s tenant and groups', async () => {
+      const scrollFilters: any[] = [];
+      const qdrantClient = {
+        scroll: async (_collection: string, params: any) => {
+          scrollFilters.push(params.filter);
+          return { points: [] };
+        }
+      };
+      process.env.AUTH_JWT_ENABLED = 'on';
+      process.env.AUTH_JWKS_FILE = config.jwksFile;
+      process.env.AUTH_CLAIM_TENANT = 'org.tenant';
+
+      const server = Fastify();
+      server.register(documentFetchRoute, { qdrantClient: qdrantClient as any, collectionName: 'docs' });
+      try {
+        const unauthenticated = await server.inject({ method: 'GET', url: '/documents' });
+        const response = await server.inject({
+          method: 'GET',
+          url: '/documents',
+          headers: { authorization: `Bearer ${sign(aliceClaims)}` }
+        });
+
+        expect(unauthenticated.statusCode).toBe(401);
+        expect(response.statusCode).toBe(200);
+        expect(scrollFilters).toHaveLength(1);
+        expect(scrollFilters[0].must).toEqual(expect.arrayContaining([
+          { key: 'tenant', match: { value: 'acme' } },
+          { key: 'acl', match: { any: expect.arrayContaining(['alice', 'staff', 'hr', 'public']) } }
+        ]));
+      } finally {
+        await server.close();
+        delete process.env.AUTH_JWT_ENABLED;
+        delete process.env.AUTH_JWKS_FILE;
+        delete process.env.AUTH_CLAIM_TENANT;
+      }
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { UserContext } from '@cw-rag-core/shared';
+import {
+  AuthConfig,
+  AuthenticationError,
+  JwksUnavailableError,
+  JwtVerifier,
+  getAuthConfig,
+  getJwtVerifier,
+  isServiceToken
+} from '../services/jwt-verifier.js';
+import { withTenantGroupHierarchy } from '../services/group-hierarchy.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    /** User context derived from a verified bearer token (AUTH_JWT_ENABLED=on) */
+    authenticatedUser?: UserContext;
+  }
+}
+
+/**
+ * User context for requests without a body (GET/DELETE). With AUTH_JWT_ENABLED=on
+ * this is the identity verified by the user context hook; otherwise it is taken
+ * from the `x-user-id`, `x-tenant` and `x-user-groups` (comma-separated) headers.
+ * Returns null when the user or tenant is missing.
+ */
+export function getRequestUserContext(request: FastifyRequest): UserContext | null {
+  if (request.authenticatedUser) {
+    return request.authenticatedUser;
+  }
+  if (getAuthConfig().jwtEnabled) {
+    return null;
+  }
+  return getHeaderUserContext(request);
+}
+
+/**
+ * Message of the 401 reply for requests without a user context
+ */
+export function getMissingUserMessage(): string {
+  return getAuthConfig().jwtEnabled
+    ? 'Missing or invalid bearer token'
+    : 'Missing x-user-id or x-tenant header';
+}
+
+function getHeaderUserContext(request: FastifyRequest): UserContext | null {
+  const headers = request.headers as Record<string, string | string[] | undefined>;
+  const header = (name: string): string | undefined => {
+    const value = headers[name];
+    return (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+  };
+
+  const id = header('x-user-id');
+  const tenantId = header('x-tenant');
+  if (!id || !tenantId) {
+    return null;
+  }
+
+  const groupIds = (header('x-user-groups') || '')
+    .split(',')
+    .map(groupId => groupId.trim())
+    .filter(Boolean);
+
+  return { id, tenantId, groupIds };
+}
+
+// Incomplete user contexts are left to schema validation
+function isCompleteUserContext(userContext: UserContext | null | undefined): userContext is UserContext {
+  return !!userContext?.id && !!userContext.tenantId && Array.isArray(userContext.groupIds);
+}
+
+function getBearerToken(request: FastifyRequest): string | undefined {
+  const authorization = request.headers.authorization;
+  const match = typeof authorization === 'string' ? /^Bearer\s+(.+)$/i.exec(authorization.trim()) : null;
+  return match?.[1];
+}
+
+export interface UserContextHookOptions {
+  config?: AuthConfig;
+  verifier?: JwtVerifier;
+  logger?: any;
+}
+
+/**
+ * preValidation hook deriving the user context on the server. With AUTH_JWT_ENABLED=on
+ * every request needs a bearer token:
+ * - a user token is verified and its claims replace the `userContext` of the request
+ *   body (only the preferred `language` is kept) and the identity headers;
+ * - a trusted service token (AUTH_SERVICE_TOKENS) may act for the user in the body
+ *   or the identity headers.
+ * Without it the user context of the request is trusted.
+ * In both modes the user's groups are completed from the tenant's group directory and
+ * hierarchy, and the tenant's attribute access rules are set (see withTenantGroupHierarchy).
+ * User attributes come from the token claims (AUTH_CLAIM_ATTRIBUTES) or, for service
+ * tokens and without AUTH_JWT_ENABLED, from the user context of the request.
+ */
+export function createUserContextHook(options: UserContextHookOptions = {}) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const config = options.config || getAuthConfig();
+    const body = request.body && typeof request.body === 'object'
+      ? request.body as { userContext?: UserContext }
+      : undefined;
+
+    if (!config.jwtEnabled) {
+      if (body && isCompleteUserContext(body.userContext)) {
+        body.userContext = await withTenantGroupHierarchy(body.userContext);
+      }
+      return;
+    }
+
+    try {
+      const token = getBearerToken(request);
+      if (!token) {
+        throw new AuthenticationError('Missing bearer token', 'MISSING_TOKEN');
+      }
+
+      if (isServiceToken(token, config)) {
+        const userContext = body?.userContext || getHeaderUserContext(request);
+        if (isCompleteUserContext(userContext)) {
+          request.authenticatedUser = await withTenantGroupHierarchy(userContext);
+          if (body?.userContext) {
+            body.userContext = request.authenticatedUser;
+          }
+        }
+        return;
+      }
+
+      const userContext = await withTenantGroupHierarchy(
+        await (options.verifier || getJwtVerifier()).verifyUserContext(token)
+      );
+      request.authenticatedUser = userContext;
+      if (body) {
+        const language = body.userContext?.language;
+        body.userContext = { ...userContext, ...(language && { language }) };
+      }
+    } catch (error) {
+      if (error instanceof JwksUnavailableError) {
+        options.logger?.error({
+          event: 'auth_jwks_unavailable',
+          error: error.message,
+          endpoint: request.url
+        }, 'Signing keys of the identity provider could not be loaded');
+
+        return reply.status(503).send({
+          error: 'Service Unavailable',
+          message: 'Signing keys of the identity provider could not be loaded; try again later',
+          code: 'JWKS_UNAVAILABLE'
+        });
+      }
+
+      if (!(error instanceof AuthenticationError)) {
+        options.logger?.error({
+          event: 'auth_error',
+          error: (error as Error).message,
+          endpoint: request.url
+        }, 'User authentication error occurred');
+
+        return reply.status(500).send({
+          error: 'Internal Server Error',
+          message: 'Authentication processing failed',
+          code: 'AUTH_ERROR'
+        });
+      }
+
+      options.logger?.warn({
+        event: 'auth_failure',
+        reason: error.code,
+        endpoint: request.url,
+        clientIp: request.ip
+      }, `User authentication failed: ${error.message}`);
+
+      return reply.status(401).send({
+        error: 'Unauthorized',
+        message: error.message,
+        code: error.code
+      });
+    }
+  };
+}
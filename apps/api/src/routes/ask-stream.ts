@@ -1,6 +1,8 @@
 import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import {
   AskRequestSchema,
+  FilterExpression,
+  FilterExpressionSchema,
   validateUserAuthorization
 } from '@cw-rag-core/shared';
 import {
@@ -13,10 +15,15 @@ import {
   GuardedRetrievalService,
   createGuardedRetrievalService,
   QdrantKeywordSearchService,
+  SparseKeywordSearchService,
+  SparseVector,
+  SPARSE_VECTOR_NAME,
+  getSparseVectorConfig,
   ReciprocalRankFusionService,
   HttpRerankerService,
   SentenceTransformersRerankerService,
   DEFAULT_RERANKER_CONFIG,
+  RERANKER_CONFIG,
   RERANKER_MODELS,
   HybridSearchResult,
   StructuredHybridSearchResult, // Added import
@@ -27,15 +34,23 @@ import {
 } from '@cw-rag-core/retrieval';
 import { createAnswerSynthesisService } from '../services/answer-synthesis.js';
 import { createCitationService } from '../services/citation.js';
-import { createAuditLogger } from '../utils/audit.js';
-import { QdrantClient } from '../services/qdrant.js';
+import { createAuditLogger, RedactionSummary } from '../utils/audit.js';
+import { QdrantClient, compileFilterToQdrant, createQdrantMultiVectorStore, createQdrantParentRecordStore, getDenseVector } from '../services/qdrant.js';
+import { createAnswerRedactor, scrubAnswer, scrubConversation, scrubQuery } from '../services/pii.js';
+import { Conversation, ConversationStore, StoredConversationTurn, toSourceDocIds } from '../services/conversations.js';
+import { createQueryCondenser } from '../services/query-condenser.js';
+import { configureQueryExpansion } from '../services/query-variants.js';
+import { getOnnxRerankerService, withModelRouting } from '../services/reranker.js';
+import { createFilterExtractor, toFilterExpression } from '../services/filter-extraction.js';
 import { timeoutManager } from '../config/timeouts.js';
 import { createAskRateLimitMiddleware } from '../middleware/rate-limit.js';
+import { createUserContextHook } from '../middleware/user-context.js';
 
 interface AskStreamRouteOptions {
   qdrantClient: QdrantClient;
   collectionName: string;
   embeddingService: { embed(text: string): Promise<number[]> };
+  conversationStore: ConversationStore;
 }
 
 // Enhanced QdrantClient adapter (same as in ask.ts)
@@ -50,14 +65,32 @@ class EnhancedQdrantService implements VectorSearchService {
       vector: params.queryVector,
       limit: params.limit,
       filter: params.filter,
-      with_payload: true
+      with_payload: true,
+      with_vector: params.withVector === true
     });
 
     return results.map(result => ({
       id: result.id,
       score: result.score,
       payload: result.payload,
-      content: result.payload?.content
+      content: result.payload?.content,
+      vector: getDenseVector(result.vector)
+    }));
+  }
+
+  // BM25 keyword search over the sparse vectors of the collection
+  async searchSparse(collectionName: string, params: { sparseVector: SparseVector; limit: number; filter?: any }): Promise<any[]> {
+    const results = await this.qdrantClient.search(this.collectionName, {
+      vector: { name: SPARSE_VECTOR_NAME, vector: params.sparseVector },
+      limit: params.limit,
+      filter: params.filter,
+      with_payload: true
+    });
+
+    return results.map(result => ({
+      id: result.id,
+      score: result.score,
+      payload: result.payload
     }));
   }
 
@@ -78,6 +111,9 @@ class EnhancedQdrantService implements VectorSearchService {
 }
 
 export async function askStreamRoute(fastify: FastifyInstance, options: AskStreamRouteOptions) {
+  // Identity from verified bearer tokens (AUTH_JWT_ENABLED)
+  fastify.addHook('preValidation', createUserContextHook({ logger: fastify.log }));
+
   const auditLogger = createAuditLogger(fastify.log);
 
   // Create enhanced Qdrant service
@@ -86,10 +122,11 @@ export async function askStreamRoute(fastify: FastifyInstance, options: AskStrea
     options.collectionName
   );
 
-  // Create keyword search service
-  const keywordSearchService: KeywordSearchService = new QdrantKeywordSearchService(
-    enhancedQdrantService as any
-  );
+  // Create keyword search service: BM25 over sparse vectors when enabled, else full-text matching
+  const fullTextKeywordSearchService = new QdrantKeywordSearchService(enhancedQdrantService as any);
+  const keywordSearchService: KeywordSearchService = getSparseVectorConfig().enabled
+    ? new SparseKeywordSearchService(enhancedQdrantService, fullTextKeywordSearchService)
+    : fullTextKeywordSearchService;
 
   // Create RRF fusion service
   const rrfFusionService = new ReciprocalRankFusionService();
@@ -97,6 +134,7 @@ export async function askStreamRoute(fastify: FastifyInstance, options: AskStrea
   // Create reranker service
   const createRerankerService = (enabled: boolean = false): RerankerService | undefined => {
     if (!enabled) return undefined;
+    if (RERANKER_CONFIG.BACKEND === 'onnx') return withModelRouting(getOnnxRerankerService());
 
     try {
       const httpReranker = new HttpRerankerService({
@@ -105,7 +143,7 @@ export async function askStreamRoute(fastify: FastifyInstance, options: AskStrea
         model: RERANKER_MODELS.BGE_RERANKER_LARGE
       });
 
-      return httpReranker;
+      return withModelRouting(httpReranker);
     } catch (error) {
       fastify.log.warn({ error }, 'Failed to initialize reranker service');
       return undefined;
@@ -132,6 +170,15 @@ export async function askStreamRoute(fastify: FastifyInstance, options: AskStrea
     }
   );
 
+  // Multi-query / HyDE retrieval for tenants that enable query expansion
+  await configureQueryExpansion(hybridSearchService);
+
+  // Sentence vectors for late-interaction scoring (LATE_INTERACTION_ENABLED)
+  hybridSearchService.setMultiVectorStore(createQdrantMultiVectorStore(options.qdrantClient));
+
+  // Parent sections or pages packed in place of matched child chunks (PARENT_RETRIEVAL_ENABLED)
+  hybridSearchService.setParentRecordStore(createQdrantParentRecordStore(options.qdrantClient));
+
   // Create guarded retrieval service
   const guardedRetrievalService: GuardedRetrievalService = createGuardedRetrievalService(
     hybridSearchService,
@@ -145,9 +192,16 @@ export async function askStreamRoute(fastify: FastifyInstance, options: AskStrea
   // Create citation service
   const citationService = createCitationService(true);
 
+  // Rewrites follow-up questions into standalone questions
+  const queryCondenser = createQueryCondenser();
+
+  // Infers metadata filters ("by Alice", "updated since June") from questions
+  const filterExtractor = createFilterExtractor(options.qdrantClient, options.collectionName);
+
   // Apply rate limiting middleware
   const rateLimitMiddleware = createAskRateLimitMiddleware(fastify);
 
+  // Streamed answers are always generated: the semantic answer cache only serves /ask
   fastify.post('/ask/stream', {
     preHandler: rateLimitMiddleware,
     schema: {
@@ -164,9 +218,28 @@ export async function askStreamRoute(fastify: FastifyInstance, options: AskStrea
             },
             required: ['id', 'groupIds', 'tenantId'],
           },
+          conversationId: { type: 'string' },
+          history: {
+            type: 'array',
+            maxItems: 50,
+            items: {
+              type: 'object',
+              properties: {
+                role: { type: 'string', enum: ['user', 'assistant'] },
+                content: { type: 'string' },
+              },
+              required: ['role', 'content'],
+            },
+          },
           k: { type: 'integer', minimum: 1 },
           filter: { type: 'object' },
           docId: { type: 'string' },
+          asOf: { type: 'string', format: 'date-time' },
+          inferFilters: { type: 'boolean' },
+          ignoreInferredFilters: {
+            type: 'array',
+            items: { type: 'string', enum: ['authors', 'tags', 'spaceId', 'modifiedAt', 'lang'] },
+          },
           hybridSearch: {
             type: 'object',
             properties: {
@@ -201,11 +274,16 @@ export async function askStreamRoute(fastify: FastifyInstance, options: AskStrea
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       const startTime = performance.now();
       const {
-        query,
+        query: rawQuery,
         userContext,
+        conversationId,
+        history,
         k,
         filter,
         docId,
+        asOf,
+        inferFilters,
+        ignoreInferredFilters,
         hybridSearch,
         reranker,
         synthesis,
@@ -214,7 +292,7 @@ export async function askStreamRoute(fastify: FastifyInstance, options: AskStrea
       } = request.body as any;
 
       const queryId = `qid-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      const qHash = Buffer.from(query).toString('base64').slice(0, 16);
+      const qHash = Buffer.from(rawQuery).toString('base64').slice(0, 16);
 
       // Validate user authorization
       if (!validateUserAuthorization(userContext)) {
@@ -237,6 +315,84 @@ export async function askStreamRoute(fastify: FastifyInstance, options: AskStrea
         });
       }
 
+      if (filter !== undefined) {
+        const parsedFilter = FilterExpressionSchema.safeParse(filter);
+        if (!parsedFilter.success) {
+          return reply.status(400).send({
+            error: 'Bad Request',
+            message: `Invalid filter: ${parsedFilter.error.issues.map(issue => issue.message).join('; ')}`
+          });
+        }
+      }
+
+      const logScrub = (target: 'query' | 'answer', findings: RedactionSummary[], blocked: boolean) => {
+        if (findings.length > 0) {
+          auditLogger.logQueryScrub('/ask/stream', userContext.tenantId, userContext.id, queryId, target, findings,
+            blocked, (request as any).ip, (request as any).headers?.['user-agent']);
+        }
+      };
+
+      // Scrub PII from the question so it never reaches retrieval or the LLM
+      const queryScrub = await scrubQuery(userContext.tenantId, rawQuery);
+      logScrub('query', queryScrub.redactions, queryScrub.blocked);
+      if (queryScrub.blocked) {
+        return reply.status(400).send({
+          error: 'Bad Request',
+          message: 'The question contains personal data that is not allowed by the PII policy'
+        });
+      }
+      const question: string = queryScrub.maskedText;
+
+      // Continue a stored conversation, or start one unless the client keeps the history itself
+      let conversation: Conversation | null = null;
+      if (conversationId) {
+        conversation = await options.conversationStore.getForUser(userContext.tenantId, userContext.id, conversationId);
+        if (!conversation) {
+          return reply.status(404).send({
+            error: 'Not Found',
+            message: `Conversation ${conversationId} not found`
+          });
+        }
+      } else if (!history) {
+        conversation = await options.conversationStore.create(userContext.tenantId, userContext.id);
+      }
+
+      // Rewrite follow-ups into standalone questions before retrieval
+      const conversationHistory = conversation
+        ? options.conversationStore.recentTurns(conversation)
+        : await scrubConversation(userContext.tenantId, history);
+      const condensed = await queryCondenser.condense(question, conversationHistory, userContext.tenantId);
+      const query = condensed.query;
+
+      // Narrow the search with metadata filters named in the question; they are ANDed with the RBAC filter
+      const inferredFilter = inferFilters === false
+        ? null
+        : await filterExtractor.extract(query, userContext, ignoreInferredFilters);
+
+      const conversationFields = {
+        ...(conversation && { conversationId: conversation.id }),
+        ...(condensed.rewritten && { standaloneQuery: query }),
+        ...(inferredFilter && { inferredFilter })
+      };
+
+      const recordTurns = async (
+        answer: string,
+        sources: Pick<StoredConversationTurn, 'citations' | 'sourceDocIds'> = {}
+      ) => {
+        if (!conversation) {
+          return;
+        }
+        const createdAt = new Date().toISOString();
+        try {
+          await options.conversationStore.appendTurns(userContext.tenantId, conversation.id, [
+            { role: 'user', content: question, queryId, createdAt },
+            { role: 'assistant', content: answer, queryId, createdAt, ...sources }
+          ]);
+        } catch (error) {
+          fastify.log.error({ error, conversationId: conversation.id }, 'Failed to store conversation turns');
+        }
+      };
+
       // Set up Server-Sent Events
       reply.raw.setHeader('Content-Type', 'text/event-stream');
       reply.raw.setHeader('Cache-Control', 'no-cache');
@@ -251,39 +407,28 @@ export async function askStreamRoute(fastify: FastifyInstance, options: AskStrea
 
       try {
         // Send connection opened event
-        sendEvent('connection_opened', { queryId, timestamp: new Date().toISOString() });
+        sendEvent('connection_opened', { queryId, ...conversationFields, timestamp: new Date().toISOString() });
 
         // Prepare hybrid search request
-        let enhancedFilter = filter ? { ...filter } : undefined;
-
-        if (docId) {
-          const docIdFilter = {
-            key: "docId",
-            match: { value: docId }
-          };
-
-          if (enhancedFilter) {
-            if (enhancedFilter.must) {
-              enhancedFilter.must.push(docIdFilter);
-            } else {
-              enhancedFilter.must = [docIdFilter];
-            }
-          } else {
-            enhancedFilter = {
-              must: [docIdFilter]
-            };
-          }
-        }
+        const filterExpressions: FilterExpression[] = [
+          ...(filter ? [filter] : []),
+          ...(docId ? [{ field: 'docId', op: 'eq' as const, value: docId }] : []),
+          ...(inferredFilter ? [toFilterExpression(inferredFilter)] : [])
+        ];
+        const enhancedFilter = filterExpressions.length > 0
+          ? compileFilterToQdrant({ and: filterExpressions })
+          : undefined;
 
         const hybridSearchRequest: HybridSearchRequest = {
-          query,
+          query: inferredFilter?.searchQuery || query,
           limit: k || 10, // Use same limit as non-streaming endpoint
           vectorWeight: hybridSearch?.vectorWeight ?? 0.7,
           keywordWeight: hybridSearch?.keywordWeight ?? 0.3,
           rrfK: hybridSearch?.rrfK ?? 60,
           enableKeywordSearch: hybridSearch?.enableKeywordSearch ?? true,
           filter: enhancedFilter,
-          tenantId: userContext.tenantId
+          tenantId: userContext.tenantId,
+          asOf
         };
 
         // Perform guarded retrieval
@@ -296,11 +441,13 @@ export async function askStreamRoute(fastify: FastifyInstance, options: AskStrea
 
         // Handle "I don't know" case
         if (!retrievalResult.isAnswerable) {
+          const idkAnswer = retrievalResult.idkResponse?.message ||
+            "I don't have enough confidence in the available information to provide a reliable answer to your question.";
           sendEvent('response_completed', {
-            answer: retrievalResult.idkResponse?.message ||
-                   "I don't have enough confidence in the available information to provide a reliable answer to your question.",
+            answer: idkAnswer,
             retrievedDocuments: [],
             queryId,
+            ...conversationFields,
             guardrailDecision: {
               isAnswerable: false,
               confidence: retrievalResult.guardrailDecision.score?.confidence || 0, // Corrected access
@@ -309,13 +456,16 @@ export async function askStreamRoute(fastify: FastifyInstance, options: AskStrea
             },
             isIDontKnow: true
           });
+          await recordTurns(idkAnswer);
 
           sendEvent('done', { queryId, timestamp: new Date().toISOString() });
           reply.raw.end();
           return;
         }
 
-        // Start streaming synthesis
+        // Start streaming synthesis; chunks are redacted before they are sent,
+        // holding back text that may be the start of a value split across chunks
+        const answerRedactor = await createAnswerRedactor(userContext.tenantId);
         let answer = '';
         let formattedAnswer = '';
         let citations: any = {};
@@ -337,9 +487,11 @@ export async function askStreamRoute(fastify: FastifyInstance, options: AskStrea
              }
            })) {
              if (chunk.type === 'chunk' && typeof chunk.data === 'string') {
-               answer += chunk.data;
-               process.stdout.write(chunk.data);
-               sendEvent('chunk', { text: chunk.data, accumulated: answer });
+               const text = answerRedactor.push(chunk.data);
+               if (text) {
+                 answer += text;
+                 sendEvent('chunk', { text, accumulated: answer });
+               }
              } else if (chunk.type === 'citations') {
                citations = chunk.data;
                sendEvent('citations', chunk.data);
@@ -357,6 +509,18 @@ export async function askStreamRoute(fastify: FastifyInstance, options: AskStrea
              }
            }
 
+           const remainder = answerRedactor.flush();
+           if (remainder) {
+             answer += remainder;
+             sendEvent('chunk', { text: remainder, accumulated: answer });
+           }
+           logScrub('answer', answerRedactor.getRedactions(), false);
+
+           // The formatted answer is redacted on its own; it repeats the streamed text
+           if (formattedAnswer) {
+             formattedAnswer = (await scrubAnswer(userContext.tenantId, formattedAnswer)).maskedText;
+           }
+
            // Convert results for final response
            const retrievedDocuments = (retrievalResult.results || [])
              .map((result: HybridSearchResult) => ({
@@ -394,7 +558,8 @@ export async function askStreamRoute(fastify: FastifyInstance, options: AskStrea
              version: citation.version,
              url: citation.url,
              filepath: citation.filepath,
-             authors: citation.authors
+             authors: citation.authors,
+             headingPath: citation.headingPath
            }));
 
            const totalTime = performance.now() - startTime;
@@ -404,6 +569,7 @@ export async function askStreamRoute(fastify: FastifyInstance, options: AskStrea
              answer: formattedAnswer || answer, // Use formatted answer with bibliography if available
              retrievedDocuments,
              queryId,
+             ...conversationFields,
              guardrailDecision: {
                isAnswerable: retrievalResult.isAnswerable,
                confidence: retrievalResult.guardrailDecision.score?.confidence || 0,
@@ -442,6 +608,10 @@ export async function askStreamRoute(fastify: FastifyInstance, options: AskStrea
                llmProvider: metadata.llmProvider
              }
            });
+           await recordTurns(formattedAnswer || answer, {
+             citations: responseCitations,
+             sourceDocIds: toSourceDocIds(retrievedDocuments)
+           });
 
         } catch (error) {
           sendEvent('error', { message: `Streaming synthesis failed: ${(error as Error).message}` });
@@ -4,6 +4,8 @@ import {
   RetrievedDocument,
   AskRequestSchema,
   // AskResponseSchema, // Removed as it's defined inline now for clarity and direct control
+  FilterExpression,
+  FilterExpressionSchema,
   validateUserAuthorization,
   detectLanguage
 } from '@cw-rag-core/shared';
@@ -17,10 +19,15 @@ import {
   GuardedRetrievalService,
   createGuardedRetrievalService,
   QdrantKeywordSearchService,
+  SparseKeywordSearchService,
+  SparseVector,
+  SPARSE_VECTOR_NAME,
+  getSparseVectorConfig,
   ReciprocalRankFusionService,
   HttpRerankerService,
   SentenceTransformersRerankerService,
   DEFAULT_RERANKER_CONFIG,
+  RERANKER_CONFIG,
   RERANKER_MODELS,
   HybridSearchResult,
   StructuredHybridSearchResult,
@@ -30,15 +37,25 @@ import {
 } from '@cw-rag-core/retrieval';
 import { createAnswerSynthesisService } from '../services/answer-synthesis.js';
 import { createCitationService } from '../services/citation.js';
-import { createAuditLogger } from '../utils/audit.js';
-import { QdrantClient } from '../services/qdrant.js';
+import { createAuditLogger, RedactionSummary } from '../utils/audit.js';
+import { QdrantClient, compileFilterToQdrant, createQdrantMultiVectorStore, createQdrantParentRecordStore, getDenseVector } from '../services/qdrant.js';
+import { scrubAnswer, scrubConversation, scrubQuery } from '../services/pii.js';
+import { Conversation, ConversationStore, StoredConversationTurn, toSourceDocIds } from '../services/conversations.js';
+import { SemanticAnswerCache, toCachedAskResponse } from '../services/answer-cache.js';
+import { createQueryCondenser } from '../services/query-condenser.js';
+import { configureQueryExpansion } from '../services/query-variants.js';
+import { getOnnxRerankerService, withModelRouting } from '../services/reranker.js';
+import { createFilterExtractor, toFilterExpression } from '../services/filter-extraction.js';
 import { timeoutManager, DEFAULT_TIMEOUTS } from '../config/timeouts.js';
 import { createAskRateLimitMiddleware } from '../middleware/rate-limit.js';
+import { createUserContextHook } from '../middleware/user-context.js';
 
 interface AskRouteOptions {
   qdrantClient: QdrantClient;
   collectionName: string;
   embeddingService: { embed(text: string): Promise<number[]> };
+  conversationStore: ConversationStore;
+  answerCache: SemanticAnswerCache;
 }
 
 
@@ -57,7 +74,8 @@ class EnhancedQdrantService implements VectorSearchService {
       vector: params.queryVector,
       limit: params.limit,
       filter: params.filter,
-      with_payload: true
+      with_payload: true,
+      with_vector: params.withVector === true
     });
 
     console.log('Vector search results count:', results.length);
@@ -84,7 +102,24 @@ class EnhancedQdrantService implements VectorSearchService {
       id: result.id,
       score: result.score,
       payload: result.payload,
-      content: result.payload?.content
+      content: result.payload?.content,
+      vector: getDenseVector(result.vector)
+    }));
+  }
+
+  // BM25 keyword search over the sparse vectors of the collection
+  async searchSparse(collectionName: string, params: { sparseVector: SparseVector; limit: number; filter?: any }): Promise<any[]> {
+    const results = await this.qdrantClient.search(this.collectionName, {
+      vector: { name: SPARSE_VECTOR_NAME, vector: params.sparseVector },
+      limit: params.limit,
+      filter: params.filter,
+      with_payload: true
+    });
+
+    return results.map(result => ({
+      id: result.id,
+      score: result.score,
+      payload: result.payload
     }));
   }
 
@@ -109,6 +144,9 @@ class EnhancedQdrantService implements VectorSearchService {
 }
 
 export async function askRoute(fastify: FastifyInstance, options: AskRouteOptions) {
+  // Identity from verified bearer tokens (AUTH_JWT_ENABLED)
+  fastify.addHook('preValidation', createUserContextHook({ logger: fastify.log }));
+
   const auditLogger = createAuditLogger(fastify.log);
 
   // Create enhanced Qdrant service that supports both vector and keyword search
@@ -117,10 +155,11 @@ export async function askRoute(fastify: FastifyInstance, options: AskRouteOption
     options.collectionName
   );
 
-  // Create keyword search service
-  const keywordSearchService: KeywordSearchService = new QdrantKeywordSearchService(
-    enhancedQdrantService as any
-  );
+  // Create keyword search service: BM25 over sparse vectors when enabled, else full-text matching
+  const fullTextKeywordSearchService = new QdrantKeywordSearchService(enhancedQdrantService as any);
+  const keywordSearchService: KeywordSearchService = getSparseVectorConfig().enabled
+    ? new SparseKeywordSearchService(enhancedQdrantService, fullTextKeywordSearchService)
+    : fullTextKeywordSearchService;
 
   // Create RRF fusion service
   const rrfFusionService = new ReciprocalRankFusionService();
@@ -128,6 +167,7 @@ export async function askRoute(fastify: FastifyInstance, options: AskRouteOption
   // Create reranker service (with fallback)
   const createRerankerService = (enabled: boolean = false): RerankerService | undefined => {
     if (!enabled) return undefined;
+    if (RERANKER_CONFIG.BACKEND === 'onnx') return withModelRouting(getOnnxRerankerService());
 
     try {
       // Try HTTP reranker service first
@@ -145,7 +185,7 @@ export async function askRoute(fastify: FastifyInstance, options: AskRouteOption
       });
 
       // Return HTTP service with fallback
-      return httpReranker;
+      return withModelRouting(httpReranker);
     } catch (error) {
       fastify.log.warn({ error }, 'Failed to initialize reranker service');
       return undefined;
@@ -173,6 +213,15 @@ export async function askRoute(fastify: FastifyInstance, options: AskRouteOption
     }
   );
 
+  // Multi-query / HyDE retrieval for tenants that enable query expansion
+  await configureQueryExpansion(hybridSearchService);
+
+  // Sentence vectors for late-interaction scoring (LATE_INTERACTION_ENABLED)
+  hybridSearchService.setMultiVectorStore(createQdrantMultiVectorStore(options.qdrantClient));
+
+  // Parent sections or pages packed in place of matched child chunks (PARENT_RETRIEVAL_ENABLED)
+  hybridSearchService.setParentRecordStore(createQdrantParentRecordStore(options.qdrantClient));
+
   // Create guarded retrieval service
   const guardedRetrievalService: GuardedRetrievalService = createGuardedRetrievalService(
     hybridSearchService,
@@ -186,6 +235,12 @@ export async function askRoute(fastify: FastifyInstance, options: AskRouteOption
   // Create citation service
   const citationService = createCitationService(true);
 
+  // Rewrites follow-up questions into standalone questions
+  const queryCondenser = createQueryCondenser();
+
+  // Infers metadata filters ("by Alice", "updated since June") from questions
+  const filterExtractor = createFilterExtractor(options.qdrantClient, options.collectionName);
+
   // Apply rate limiting middleware to /ask endpoint
   const rateLimitMiddleware = createAskRateLimitMiddleware(fastify);
 
@@ -205,9 +260,28 @@ export async function askRoute(fastify: FastifyInstance, options: AskRouteOption
             },
             required: ['id', 'groupIds', 'tenantId'],
           },
+          conversationId: { type: 'string' },
+          history: {
+            type: 'array',
+            maxItems: 50,
+            items: {
+              type: 'object',
+              properties: {
+                role: { type: 'string', enum: ['user', 'assistant'] },
+                content: { type: 'string' },
+              },
+              required: ['role', 'content'],
+            },
+          },
           k: { type: 'integer', minimum: 1 },
           filter: { type: 'object' },
           docId: { type: 'string' },
+          asOf: { type: 'string', format: 'date-time' },
+          inferFilters: { type: 'boolean' },
+          ignoreInferredFilters: {
+            type: 'array',
+            items: { type: 'string', enum: ['authors', 'tags', 'spaceId', 'modifiedAt', 'lang'] },
+          },
           hybridSearch: {
             type: 'object',
             properties: {
@@ -292,6 +366,35 @@ export async function askRoute(fastify: FastifyInstance, options: AskRouteOption
               },
             },
             queryId: { type: 'string' },
+            conversationId: { type: 'string' },
+            standaloneQuery: { type: 'string' },
+            inferredFilter: {
+              type: 'object',
+              properties: {
+                clauses: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      field: { type: 'string' },
+                      values: { type: 'array', items: { type: 'string' } },
+                      gte: { type: 'string' },
+                      lt: { type: 'string' },
+                      phrase: { type: 'string' }
+                    }
+                  }
+                },
+                searchQuery: { type: 'string' }
+              }
+            },
+            cached: {
+              type: 'object',
+              properties: {
+                queryId: { type: 'string' },
+                similarity: { type: 'number' },
+                cachedAt: { type: 'string' }
+              }
+            },
             guardrailDecision: {
               type: 'object',
               properties: {
@@ -454,6 +557,7 @@ export async function askRoute(fastify: FastifyInstance, options: AskRouteOption
                   url: { type: 'string', format: 'uri' },
                   filepath: { type: 'string' },
                   authors: { type: 'array', items: { type: 'string' } },
+                  headingPath: { type: 'array', items: { type: 'string' } },
                 },
                 required: ['id', 'number', 'source'],
               },
@@ -505,6 +609,36 @@ export async function askRoute(fastify: FastifyInstance, options: AskRouteOption
                 hybridSearchConfig: { type: 'object' },
                 rerankerConfig: { type: 'object' },
                 guardrailConfig: { type: 'object' },
+                queryVariants: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      kind: { type: 'string', enum: ['original', 'paraphrase', 'hyde'] },
+                      text: { type: 'string' },
+                    },
+                  },
+                },
+                diversity: {
+                  type: 'object',
+                  properties: {
+                    lambda: { type: 'number' },
+                    candidateCount: { type: 'number' },
+                    selectedCount: { type: 'number' },
+                    droppedNearDuplicates: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          id: { type: 'string' },
+                          duplicateOf: { type: 'string' },
+                          similarity: { type: 'number' },
+                        },
+                      },
+                    },
+                    cappedByDocument: { type: 'array', items: { type: 'string' } },
+                  },
+                },
                 retrievalSteps: { type: 'array', items: { type: 'string' } },
               },
             },
@@ -516,11 +650,16 @@ export async function askRoute(fastify: FastifyInstance, options: AskRouteOption
     handler: async (request: any, reply: FastifyReply) => {
       const startTime = performance.now();
       const {
-        query,
+        query: rawQuery,
         userContext,
+        conversationId,
+        history,
         k,
         filter,
         docId,
+        asOf,
+        inferFilters,
+        ignoreInferredFilters,
         hybridSearch,
         reranker,
         synthesis,
@@ -529,7 +668,7 @@ export async function askRoute(fastify: FastifyInstance, options: AskRouteOption
       } = request.body;
 
       const queryId = `qid-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      const qHash = Buffer.from(query).toString('base64').slice(0, 16); // Hash query for audit
+      const qHash = Buffer.from(rawQuery).toString('base64').slice(0, 16); // Hash query for audit
 
       // Get timeout configuration
       const timeouts = timeoutManager.getTimeoutConfig(userContext.tenantId);
@@ -556,6 +695,135 @@ export async function askRoute(fastify: FastifyInstance, options: AskRouteOption
         });
       }
 
+      if (filter !== undefined) {
+        const parsedFilter = FilterExpressionSchema.safeParse(filter);
+        if (!parsedFilter.success) {
+          return reply.status(400).send({
+            error: 'Bad Request',
+            message: `Invalid filter: ${parsedFilter.error.issues.map(issue => issue.message).join('; ')}`
+          });
+        }
+      }
+
+      const logScrub = (target: 'query' | 'answer', findings: RedactionSummary[], blocked: boolean) => {
+        if (findings.length > 0) {
+          auditLogger.logQueryScrub('/ask', userContext.tenantId, userContext.id, queryId, target, findings, blocked,
+            request.ip, request.headers?.['user-agent']);
+        }
+      };
+
+      // Scrub PII from the question so it never reaches retrieval or the LLM
+      const queryScrub = await scrubQuery(userContext.tenantId, rawQuery);
+      logScrub('query', queryScrub.redactions, queryScrub.blocked);
+      if (queryScrub.blocked) {
+        return reply.status(400).send({
+          error: 'Bad Request',
+          message: 'The question contains personal data that is not allowed by the PII policy'
+        });
+      }
+      const question: string = queryScrub.maskedText;
+
+      // Continue a stored conversation, or start one unless the client keeps the history itself
+      let conversation: Conversation | null = null;
+      if (conversationId) {
+        conversation = await options.conversationStore.getForUser(userContext.tenantId, userContext.id, conversationId);
+        if (!conversation) {
+          return reply.status(404).send({
+            error: 'Not Found',
+            message: `Conversation ${conversationId} not found`
+          });
+        }
+      } else if (!history) {
+        conversation = await options.conversationStore.create(userContext.tenantId, userContext.id);
+      }
+
+      // Rewrite follow-ups into standalone questions before retrieval
+      const conversationHistory = conversation
+        ? options.conversationStore.recentTurns(conversation)
+        : await scrubConversation(userContext.tenantId, history);
+      const condensed = await queryCondenser.condense(question, conversationHistory, userContext.tenantId);
+      const query = condensed.query;
+
+      // Narrow the search with metadata filters named in the question; they are ANDed with the RBAC filter
+      const inferredFilter = inferFilters === false
+        ? null
+        : await filterExtractor.extract(query, userContext, ignoreInferredFilters);
+
+      const conversationFields = {
+        ...(conversation && { conversationId: conversation.id }),
+        ...(condensed.rewritten && { standaloneQuery: query }),
+        ...(inferredFilter && { inferredFilter })
+      };
+
+      const recordTurns = async (
+        answer: string,
+        sources: Pick<StoredConversationTurn, 'citations' | 'sourceDocIds'> = {}
+      ) => {
+        if (!conversation) {
+          return;
+        }
+        const createdAt = new Date().toISOString();
+        try {
+          await options.conversationStore.appendTurns(userContext.tenantId, conversation.id, [
+            { role: 'user', content: question, queryId, createdAt },
+            { role: 'assistant', content: answer, queryId, createdAt, ...sources }
+          ]);
+        } catch (error) {
+          fastify.log.error({ error, conversationId: conversation.id }, 'Failed to store conversation turns');
+        }
+      };
+
+      // Reuse the answer to a near-duplicate question asked by a user who can see the same documents.
+      // Point-in-time and debug requests always run the full pipeline.
+      const answerCacheOptions = { k, filter, docId, inferredFilter: inferredFilter?.clauses, hybridSearch, reranker, synthesis };
+      let queryEmbedding: number[] | null = null;
+      if (options.answerCache.enabled && !asOf && !includeDebugInfo) {
+        try {
+          queryEmbedding = await options.embeddingService.embed(query);
+        } catch (error) {
+          fastify.log.warn({ error, queryId }, 'Failed to embed question for the answer cache');
+        }
+      }
+
+      const cacheHit = queryEmbedding && options.answerCache.lookup(userContext, queryEmbedding, answerCacheOptions);
+      if (cacheHit) {
+        const requestDuration = performance.now() - startTime;
+        fastify.log.info({
+          audit: true,
+          tenant: userContext.tenantId || 'default',
+          qHash,
+          cachedQueryId: cacheHit.queryId,
+          similarity: cacheHit.similarity,
+          latencyMs: Math.round(requestDuration),
+          route: '/ask',
+          timestamp: new Date().toISOString()
+        }, 'Ask request completed - Answer cache hit');
+
+        const cachedResponse: AskResponse = {
+          ...cacheHit.response,
+          queryId,
+          ...conversationFields,
+          cached: {
+            queryId: cacheHit.queryId,
+            similarity: cacheHit.similarity,
+            cachedAt: cacheHit.cachedAt
+          },
+          ...(includeMetrics && { metrics: { totalDuration: requestDuration } })
+        };
+
+        await recordTurns(cachedResponse.answer, {
+          citations: cachedResponse.citations,
+          sourceDocIds: toSourceDocIds(cachedResponse.retrievedDocuments)
+        });
+        return reply.send(cachedResponse);
+      }
+
+      const cacheAnswer = (response: AskResponse) => {
+        if (queryEmbedding) {
+          options.answerCache.store(userContext, queryEmbedding, answerCacheOptions, queryId, toCachedAskResponse(response));
+        }
+      };
+
       const debugSteps: string[] = [];
       let hybridSearchConfig: Record<string, any> = {};
       let rerankerConfig: Record<string, any> = {};
@@ -571,39 +839,25 @@ export async function askRoute(fastify: FastifyInstance, options: AskRouteOption
 
         const processRequest = async () => {
           // Prepare hybrid search request with enhanced configuration
-          let enhancedFilter = filter ? { ...filter } : undefined;
-
-          // Add docId filter in Qdrant format if provided
-          if (docId) {
-            const docIdFilter = {
-              key: "docId",
-              match: { value: docId }
-            };
-
-            if (enhancedFilter) {
-              // If there's already a filter, add docId to existing must conditions
-              if (enhancedFilter.must) {
-                enhancedFilter.must.push(docIdFilter);
-              } else {
-                enhancedFilter.must = [docIdFilter];
-              }
-            } else {
-              // If no existing filter, create new filter with just docId
-              enhancedFilter = {
-                must: [docIdFilter]
-              };
-            }
-          }
+          const filterExpressions: FilterExpression[] = [
+            ...(filter ? [filter] : []),
+            ...(docId ? [{ field: 'docId', op: 'eq' as const, value: docId }] : []),
+            ...(inferredFilter ? [toFilterExpression(inferredFilter)] : [])
+          ];
+          const enhancedFilter = filterExpressions.length > 0
+            ? compileFilterToQdrant({ and: filterExpressions })
+            : undefined;
 
           const hybridSearchRequest: HybridSearchRequest = {
-            query,
+            query: inferredFilter?.searchQuery || query,
             limit: k || 10,
             vectorWeight: hybridSearch?.vectorWeight ?? 0.7,
             keywordWeight: hybridSearch?.keywordWeight ?? 0.3,
             rrfK: hybridSearch?.rrfK ?? 60,
             enableKeywordSearch: hybridSearch?.enableKeywordSearch ?? true,
             filter: enhancedFilter,
-            tenantId: userContext.tenantId
+            tenantId: userContext.tenantId,
+            asOf
           };
 
           if (includeDebugInfo) {
@@ -706,6 +960,7 @@ export async function askRoute(fastify: FastifyInstance, options: AskRouteOption
                    "I don't have enough confidence in the available information to provide a reliable answer to your question.",
             retrievedDocuments: [],
             queryId,
+            ...conversationFields,
             guardrailDecision: {
               isAnswerable: false,
               confidence: retrievalResult.guardrailDecision.score?.confidence || 0,
@@ -746,11 +1001,14 @@ export async function askRoute(fastify: FastifyInstance, options: AskRouteOption
                 hybridSearchConfig,
                 rerankerConfig,
                 guardrailConfig,
+                queryVariants: retrievalResult.queryVariants,
+                diversity: retrievalResult.metrics.diversity,
                 retrievalSteps: [...debugSteps, 'Returned IDK response']
               }
             })
           };
 
+          await recordTurns(idkResponse.answer);
           return reply.send(idkResponse);
         }
 
@@ -839,15 +1097,21 @@ export async function askRoute(fastify: FastifyInstance, options: AskRouteOption
               version: citation.version,
               url: citation.url,
               filepath: citation.filepath,
-              authors: citation.authors
+              authors: citation.authors,
+              headingPath: citation.headingPath
             }));
 
             const totalTime = performance.now() - startTime;
 
+            // Use formatted answer with bibliography if available
+            const answerScrub = await scrubAnswer(userContext.tenantId, formattedAnswer || answer);
+            logScrub('answer', answerScrub.redactions, false);
+
             const streamingResponse: AskResponse = {
-              answer: formattedAnswer || answer, // Use formatted answer with bibliography if available
+              answer: answerScrub.maskedText,
               retrievedDocuments,
               queryId,
+              ...conversationFields,
               guardrailDecision: {
                 isAnswerable: retrievalResult.isAnswerable,
                 confidence: retrievalResult.guardrailDecision.score?.confidence || 0,
@@ -895,11 +1159,18 @@ export async function askRoute(fastify: FastifyInstance, options: AskRouteOption
                   hybridSearchConfig,
                   rerankerConfig,
                   guardrailConfig,
+                  queryVariants: retrievalResult.queryVariants,
+                  diversity: retrievalResult.metrics.diversity,
                   retrievalSteps: [...debugSteps, 'Completed streaming synthesis']
                 }
               })
             };
 
+            cacheAnswer(streamingResponse);
+            await recordTurns(streamingResponse.answer, {
+              citations: responseCitations,
+              sourceDocIds: toSourceDocIds(retrievedDocuments)
+            });
             return reply.send(streamingResponse);
 
           } catch (error) {
@@ -932,6 +1203,9 @@ export async function askRoute(fastify: FastifyInstance, options: AskRouteOption
         const synthesisResponse = synthesisResult;
         const synthesisTime = performance.now() - synthesisStartTime;
 
+        const answerScrub = await scrubAnswer(userContext.tenantId, synthesisResponse.answer);
+        logScrub('answer', answerScrub.redactions, false);
+
         if (includeDebugInfo) {
           debugSteps.push('Completed answer synthesis');
         }
@@ -989,7 +1263,8 @@ export async function askRoute(fastify: FastifyInstance, options: AskRouteOption
           version: citation.version,
           url: citation.url,
           filepath: citation.filepath,
-          authors: citation.authors
+          authors: citation.authors,
+          headingPath: citation.headingPath
         }));
 
         const requestDuration = performance.now() - startTime;
@@ -1009,9 +1284,10 @@ export async function askRoute(fastify: FastifyInstance, options: AskRouteOption
         }, 'Ask request completed - Success');
 
         const response: AskResponse = {
-          answer: synthesisResponse.answer,
+          answer: answerScrub.maskedText,
           retrievedDocuments,
           queryId,
+          ...conversationFields,
           guardrailDecision: {
             isAnswerable: retrievalResult.isAnswerable,
             confidence: retrievalResult.guardrailDecision.score?.confidence || 0,
@@ -1060,11 +1336,18 @@ export async function askRoute(fastify: FastifyInstance, options: AskRouteOption
               hybridSearchConfig,
               rerankerConfig,
               guardrailConfig,
+              queryVariants: retrievalResult.queryVariants,
+              diversity: retrievalResult.metrics.diversity,
               retrievalSteps: [...debugSteps, 'Completed full pipeline']
             }
           })
         };
 
+        cacheAnswer(response);
+        await recordTurns(response.answer, {
+          citations: responseCitations,
+          sourceDocIds: toSourceDocIds(retrievedDocuments)
+        });
         return reply.send(response);
 
       } catch (error) {
@@ -0,0 +1,381 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { UserContext, buildQdrantRBACFilter } from '@cw-rag-core/shared';
+import { QdrantClient } from '../services/qdrant.js';
+import { Conversation, ConversationStore, toConversationSummary } from '../services/conversations.js';
+import { createUserContextHook, getMissingUserMessage, getRequestUserContext } from '../middleware/user-context.js';
+import { withTenantGroupHierarchy } from '../services/group-hierarchy.js';
+import { createAuditLogger } from '../utils/audit.js';
+
+interface ConversationsRouteOptions {
+  conversationStore: ConversationStore;
+  qdrantClient: QdrantClient;
+  collectionName: string;
+}
+
+interface SharedConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  citations?: unknown[];
+  withheld?: boolean;
+}
+
+const errorSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' }
+  }
+};
+
+const summaryProperties = {
+  id: { type: 'string' },
+  title: { type: 'string' },
+  createdAt: { type: 'string' },
+  updatedAt: { type: 'string' },
+  turnCount: { type: 'number' },
+  shared: { type: 'boolean' }
+};
+
+const turnSchema = {
+  type: 'object',
+  properties: {
+    role: { type: 'string' },
+    content: { type: 'string' },
+    queryId: { type: 'string' },
+    createdAt: { type: 'string' },
+    citations: { type: 'array', items: { type: 'object', additionalProperties: true } },
+    withheld: { type: 'boolean' }
+  }
+};
+
+const conversationIdParams = {
+  type: 'object',
+  properties: {
+    conversationId: { type: 'string' }
+  },
+  required: ['conversationId']
+};
+
+// Documents among docIds the viewer can read under the current ACLs
+async function findAccessibleDocIds(
+  options: ConversationsRouteOptions,
+  viewer: UserContext,
+  docIds: string[]
+): Promise<Set<string>> {
+  const accessible = new Set<string>();
+  if (docIds.length === 0) {
+    return accessible;
+  }
+
+  const rbacFilter = buildQdrantRBACFilter(viewer);
+  let offset: string | number | undefined;
+
+  do {
+    const page = await options.qdrantClient.scroll(options.collectionName, {
+      filter: {
+        must: [...rbacFilter.must, { key: 'docId', match: { any: docIds } }],
+        must_not: rbacFilter.must_not
+      },
+      limit: 1000,
+      offset,
+      with_payload: ['docId'],
+      with_vector: false
+    });
+
+    for (const point of page.points) {
+      const docId = point.payload?.docId;
+      if (typeof docId === 'string') {
+        accessible.add(docId);
+      }
+    }
+    offset = (page.next_page_offset as string | number | null | undefined) ?? undefined;
+  } while (offset !== undefined && accessible.size < docIds.length);
+
+  return accessible;
+}
+
+// Hide questions and answers whose sources the viewer cannot read (anymore)
+async function toSharedTurns(
+  options: ConversationsRouteOptions,
+  conversation: Conversation,
+  viewer: UserContext
+): Promise<{ turns: SharedConversationTurn[]; withheldAnswers: number }> {
+  const docIds = Array.from(new Set(conversation.turns.flatMap(turn => turn.sourceDocIds || [])));
+  const accessible = await findAccessibleDocIds(options, viewer, docIds);
+
+  const withheldQueryIds = new Set(
+    conversation.turns
+      .filter(turn => turn.role === 'assistant')
+      .filter(turn => (turn.sourceDocIds || []).some(docId => !accessible.has(docId)))
+      .map(turn => turn.queryId)
+  );
+
+  const turns = conversation.turns.map(turn => withheldQueryIds.has(turn.queryId)
+    ? { role: turn.role, content: '', createdAt: turn.createdAt, withheld: true }
+    : { role: turn.role, content: turn.content, createdAt: turn.createdAt, citations: turn.citations });
+
+  return { turns, withheldAnswers: withheldQueryIds.size };
+}
+
+export async function conversationsRoute(fastify: FastifyInstance, options: ConversationsRouteOptions) {
+  // Identity from verified bearer tokens (AUTH_JWT_ENABLED)
+  fastify.addHook('preValidation', createUserContextHook({ logger: fastify.log }));
+
+  const store = options.conversationStore;
+  const auditLogger = createAuditLogger(fastify.log);
+
+  // The requesting user, with the group levels, inheritance and access rules of their
+  // tenant. Replies 401 when the request carries no identity.
+  const requireUser = async (request: FastifyRequest, reply: FastifyReply): Promise<UserContext | null> => {
+    const userContext = getRequestUserContext(request);
+    if (!userContext) {
+      reply.status(401).send({
+        error: 'Unauthorized',
+        message: getMissingUserMessage()
+      });
+      return null;
+    }
+    return withTenantGroupHierarchy(userContext);
+  };
+
+  const notFound = (reply: FastifyReply, conversationId: string) => reply.status(404).send({
+    error: 'Not Found',
+    message: `Conversation ${conversationId} not found`
+  });
+
+  // GET /conversations - List the user's conversations
+  fastify.get('/conversations', {
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'integer', minimum: 1 },
+          limit: { type: 'integer', minimum: 1, maximum: 100 }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            conversations: { type: 'array', items: { type: 'object', properties: summaryProperties } },
+            total: { type: 'number' }
+          }
+        },
+        401: errorSchema
+      }
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const userContext = await requireUser(request, reply);
+      if (!userContext) return reply;
+
+      const { page, limit } = request.query as { page?: number; limit?: number };
+      return reply.send(await store.list(userContext.tenantId, userContext.id, { page, limit }));
+    }
+  });
+
+  // POST /conversations - Start an empty conversation
+  fastify.post('/conversations', {
+    schema: {
+      response: {
+        201: { type: 'object', properties: summaryProperties },
+        401: errorSchema
+      }
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const userContext = await requireUser(request, reply);
+      if (!userContext) return reply;
+
+      const conversation = await store.create(userContext.tenantId, userContext.id);
+      return reply.status(201).send(toConversationSummary(conversation));
+    }
+  });
+
+  // GET /conversations/:conversationId - Get a conversation with all turns
+  fastify.get('/conversations/:conversationId', {
+    schema: {
+      params: conversationIdParams,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            ...summaryProperties,
+            shareToken: { type: 'string' },
+            turns: { type: 'array', items: turnSchema }
+          }
+        },
+        401: errorSchema,
+        404: errorSchema
+      }
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const userContext = await requireUser(request, reply);
+      if (!userContext) return reply;
+
+      const { conversationId } = request.params as { conversationId: string };
+      const conversation = await store.getForUser(userContext.tenantId, userContext.id, conversationId);
+      if (!conversation) {
+        return notFound(reply, conversationId);
+      }
+
+      return reply.send({ ...toConversationSummary(conversation), ...conversation });
+    }
+  });
+
+  // DELETE /conversations/:conversationId - Delete a conversation and its share link
+  fastify.delete('/conversations/:conversationId', {
+    schema: {
+      params: conversationIdParams,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            deleted: { type: 'boolean' },
+            conversationId: { type: 'string' }
+          }
+        },
+        401: errorSchema,
+        404: errorSchema
+      }
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const userContext = await requireUser(request, reply);
+      if (!userContext) return reply;
+
+      const { conversationId } = request.params as { conversationId: string };
+      if (!(await store.getForUser(userContext.tenantId, userContext.id, conversationId))) {
+        return notFound(reply, conversationId);
+      }
+
+      await store.delete(userContext.tenantId, conversationId);
+      return reply.send({ deleted: true, conversationId });
+    }
+  });
+
+  // POST /conversations/:conversationId/share - Create a read-only share link
+  fastify.post('/conversations/:conversationId/share', {
+    schema: {
+      params: conversationIdParams,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            token: { type: 'string' },
+            path: { type: 'string' }
+          }
+        },
+        401: errorSchema,
+        404: errorSchema
+      }
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const userContext = await requireUser(request, reply);
+      if (!userContext) return reply;
+
+      const { conversationId } = request.params as { conversationId: string };
+      if (!(await store.getForUser(userContext.tenantId, userContext.id, conversationId))) {
+        return notFound(reply, conversationId);
+      }
+
+      const token = await store.share(userContext.tenantId, conversationId, userContext.id);
+      if (!token) {
+        return notFound(reply, conversationId);
+      }
+
+      auditLogger.logConversationShare(
+        'share', userContext.tenantId, userContext.id, conversationId, 0, request.ip, request.headers['user-agent']
+      );
+      return reply.send({ token, path: `/shared/${token}` });
+    }
+  });
+
+  // DELETE /conversations/:conversationId/share - Revoke the share link
+  fastify.delete('/conversations/:conversationId/share', {
+    schema: {
+      params: conversationIdParams,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            shared: { type: 'boolean' },
+            conversationId: { type: 'string' }
+          }
+        },
+        401: errorSchema,
+        404: errorSchema
+      }
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const userContext = await requireUser(request, reply);
+      if (!userContext) return reply;
+
+      const { conversationId } = request.params as { conversationId: string };
+      if (!(await store.getForUser(userContext.tenantId, userContext.id, conversationId))) {
+        return notFound(reply, conversationId);
+      }
+
+      await store.unshare(userContext.tenantId, conversationId);
+      return reply.send({ shared: false, conversationId });
+    }
+  });
+
+  // GET /shared/:token - Read-only view of a shared conversation.
+  // Answers are withheld when the viewer cannot read all documents they were generated from.
+  fastify.get('/shared/:token', {
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          token: { type: 'string' }
+        },
+        required: ['token']
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            title: { type: 'string' },
+            sharedBy: { type: 'string' },
+            createdAt: { type: 'string' },
+            updatedAt: { type: 'string' },
+            withheldAnswers: { type: 'number' },
+            turns: { type: 'array', items: turnSchema }
+          }
+        },
+        401: errorSchema,
+        404: errorSchema
+      }
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const viewer = await requireUser(request, reply);
+      if (!viewer) return reply;
+
+      const { token } = request.params as { token: string };
+      const conversation = await store.getShared(token);
+
+      // Links never cross tenants; do not reveal that the link exists
+      if (!conversation || conversation.tenantId !== viewer.tenantId) {
+        return reply.status(404).send({
+          error: 'Not Found',
+          message: 'Shared conversation not found'
+        });
+      }
+
+      const { turns, withheldAnswers } = await toSharedTurns(options, conversation, viewer);
+      auditLogger.logConversationShare(
+        'view_shared', viewer.tenantId, viewer.id, conversation.id, withheldAnswers, request.ip, request.headers['user-agent']
+      );
+
+      return reply.send({
+        id: conversation.id,
+        title: conversation.title,
+        sharedBy: conversation.userId,
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt,
+        withheldAnswers,
+        turns
+      });
+    }
+  });
+}
@@ -1,11 +1,31 @@
 import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
-import { QdrantClient } from '../services/qdrant.js';
-import { DocumentMetadata } from '@cw-rag-core/shared';
+import {
+  getLateInteractionConfig,
+  getMultiVectorCollectionName,
+  getParentCollectionName,
+  getParentRetrievalConfig,
+  updateTermStats
+} from '@cw-rag-core/retrieval';
+import { QdrantClient, collectionHasSparseVectors, compileFilterToQdrant } from '../services/qdrant.js';
+import { SemanticAnswerCache } from '../services/answer-cache.js';
+import { withTenantGroupHierarchy } from '../services/group-hierarchy.js';
+import { createUserContextHook, getMissingUserMessage, getRequestUserContext } from '../middleware/user-context.js';
+import { createAuditLogger } from '../utils/audit.js';
+import {
+  ChunkValidity,
+  DocumentMetadata,
+  FilterExpressionSchema,
+  UserContext,
+  applyQdrantVersionFilter,
+  buildQdrantRBACFilter,
+  getUserPrivilegeLevel,
+  isChunkValidAt
+} from '@cw-rag-core/shared';
 // import { PointStruct } from '@qdrant/js-client-rest'; // PointStruct is not exported
 
 // Define an interface for the chunk payload. This extends DocumentMetadata
 // to ensure consistency while adding chunk-specific properties.
-interface ChunkPayload extends DocumentMetadata {
+interface ChunkPayload extends DocumentMetadata, ChunkValidity {
   content: string;
   position?: number; // Assuming chunks might have a numerical position for ordering
   chunkIndex?: number; // Chunk index for proper document ordering
@@ -22,6 +42,7 @@ interface ChunkPayload extends DocumentMetadata {
 interface DocumentFetchRouteOptions {
   qdrantClient: QdrantClient;
   collectionName: string;
+  answerCache?: SemanticAnswerCache;
 }
 
 // Helper to ensure valid ISO date string
@@ -34,10 +55,328 @@ function safeGetDate(timestamp: string | undefined): string {
   }
 }
 
+interface DocumentVersion {
+  version?: string;
+  publishedAt: string;
+  supersededAt?: string;
+  current: boolean;
+  chunkCount: number;
+}
+
+const errorSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' }
+  }
+};
+
+// Minimum privilege level (see getUserPrivilegeLevel) allowed to delete documents
+function getDocumentDeleteMinLevel(): number {
+  return parseInt(process.env.DOCUMENT_DELETE_MIN_LEVEL || '2', 10);
+}
+
+// Minimum privilege level allowed to read and change document ACLs
+function getDocumentAclMinLevel(): number {
+  return parseInt(process.env.DOCUMENT_ACL_MIN_LEVEL || '3', 10);
+}
+
+interface AclPatch {
+  set?: string[];
+  add?: string[];
+  remove?: string[];
+}
+
+const aclEntriesSchema = { type: 'array', items: { type: 'string', minLength: 1 }, maxItems: 100 };
+
+const aclPatchProperties = {
+  set: aclEntriesSchema,
+  add: aclEntriesSchema,
+  remove: aclEntriesSchema
+};
+
+// New ACL of a document: `set` replaces the entries, then `add` and `remove` change single ones
+function applyAclPatch(acl: string[], patch: AclPatch): string[] {
+  const entries = new Set(patch.set || acl);
+  patch.add?.forEach(entry => entries.add(entry));
+  patch.remove?.forEach(entry => entries.delete(entry));
+  return Array.from(entries);
+}
+
+function isEmptyAclPatch(patch: AclPatch): boolean {
+  return !patch.set && !patch.add?.length && !patch.remove?.length;
+}
+
+function isSameAcl(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every(entry => b.includes(entry));
+}
+
+// The requesting user, with the group levels and inheritance configured for their
+// tenant. Replies 401 when the request carries no identity.
+async function requireUser(request: FastifyRequest, reply: FastifyReply): Promise<UserContext | null> {
+  const userContext = getRequestUserContext(request);
+  if (!userContext) {
+    reply.status(401).send({
+      error: 'Unauthorized',
+      message: getMissingUserMessage()
+    });
+    return null;
+  }
+  return withTenantGroupHierarchy(userContext);
+}
+
+// Tenant, ACL (over the user's effective groups) and attribute rule conditions for the user;
+// deny entries are a nested must_not so the conditions can be added to any "must" clause
+function getAccessConditions(userContext: UserContext): Record<string, any>[] {
+  const { must, must_not } = buildQdrantRBACFilter(userContext);
+  return [...must, { must_not }];
+}
+
+// Fetch every point of a document, including chunks of superseded versions
+async function fetchAllDocumentPoints(
+  options: DocumentFetchRouteOptions,
+  docId: string,
+  accessConditions: Record<string, any>[]
+): Promise<Array<{ id: string | number; payload: ChunkPayload }>> {
+  const points: Array<{ id: string | number; payload: ChunkPayload }> = [];
+  let offset: string | number | undefined;
+
+  do {
+    const page = await options.qdrantClient.scroll(options.collectionName, {
+      filter: {
+        must: [{ key: 'docId', match: { value: docId } }, ...accessConditions],
+      },
+      limit: 1000,
+      offset,
+      with_payload: true,
+      with_vector: false,
+    });
+
+    for (const point of page.points) {
+      if (point.payload) {
+        points.push({ id: point.id, payload: point.payload as ChunkPayload });
+      }
+    }
+    offset = (page.next_page_offset ?? undefined) as string | number | undefined;
+  } while (offset !== undefined);
+
+  return points;
+}
+
+// Reconstruct the publish history from the validity intervals on the chunks.
+// Every publish that changed the document left its timestamp as a validFrom or
+// validTo; the latest publish is also recorded on current chunks.
+function buildVersionHistory(points: Array<{ payload: ChunkPayload }>): DocumentVersion[] {
+  const publishes = new Map<string, string | undefined>();
+  const record = (publishedAt: unknown, version: unknown) => {
+    if (typeof publishedAt !== 'string') return;
+    const label = typeof version === 'string' ? version : undefined;
+    if (!publishes.has(publishedAt) || (label && !publishes.get(publishedAt))) {
+      publishes.set(publishedAt, label);
+    }
+  };
+
+  for (const { payload } of points) {
+    record(payload.validFrom, payload.introducedInVersion);
+    record(payload.validTo, payload.supersededInVersion);
+    if (payload.superseded !== true) {
+      record(payload.versionPublishedAt, payload.version);
+    }
+  }
+
+  const timestamps = Array.from(publishes.keys())
+    .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+
+  return timestamps.map((publishedAt, index) => {
+    const supersededAt = timestamps[index + 1];
+    return {
+      version: publishes.get(publishedAt),
+      publishedAt,
+      supersededAt,
+      current: supersededAt === undefined,
+      chunkCount: points.filter(point => isChunkValidAt(point.payload, publishedAt)).length,
+    };
+  });
+}
+
+function compareChunkOrder(a: { payload: ChunkPayload }, b: { payload: ChunkPayload }): number {
+  return (a.payload.chunkIndex ?? a.payload.position ?? 0) - (b.payload.chunkIndex ?? b.payload.position ?? 0);
+}
+
 export async function documentFetchRoute(fastify: FastifyInstance, options: DocumentFetchRouteOptions) {
+  const auditLogger = createAuditLogger(fastify.log);
+
+  // Identity from verified bearer tokens (AUTH_JWT_ENABLED)
+  fastify.addHook('preValidation', createUserContextHook({ logger: fastify.log }));
+
+  async function hasDocumentPoints(docId: string, conditions: Record<string, any>[]): Promise<boolean> {
+    const result = await options.qdrantClient.scroll(options.collectionName, {
+      filter: { must: [{ key: 'docId', match: { value: docId } }, ...conditions] },
+      limit: 1,
+      with_payload: false,
+      with_vector: false,
+    });
+    return (result?.points.length ?? 0) > 0;
+  }
+
+  // Whether the user has the privilege level for an action; replies 403 and audits the attempt otherwise
+  function requireLevel(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    route: string,
+    userContext: UserContext,
+    docId: string,
+    minLevel: number,
+    action: string
+  ): boolean {
+    if (getUserPrivilegeLevel(userContext) >= minLevel) {
+      return true;
+    }
+    auditLogger.logAccessDenied(
+      route,
+      userContext.tenantId,
+      userContext.id,
+      docId,
+      `Insufficient privilege level to ${action}`,
+      request.ip,
+      request.headers['user-agent']
+    );
+    reply.status(403).send({
+      error: 'Forbidden',
+      message: `User is not authorized to ${action}.`
+    });
+    return false;
+  }
+
+  // Current ACL of each document the user can access among the points matching `conditions`
+  async function getDocumentAcls(
+    userContext: UserContext,
+    conditions: Record<string, any>[]
+  ): Promise<Map<string, string[]>> {
+    const filter = applyQdrantVersionFilter({ must: [...conditions, ...getAccessConditions(userContext)] });
+    const acls = new Map<string, string[]>();
+    let offset: string | number | undefined;
+
+    do {
+      const page = await options.qdrantClient.scroll(options.collectionName, {
+        filter,
+        limit: 1000,
+        offset,
+        with_payload: ['docId', 'acl'],
+        with_vector: false,
+      });
+
+      for (const point of page?.points || []) {
+        const docId = point.payload?.docId;
+        if (typeof docId === 'string' && !acls.has(docId)) {
+          acls.set(docId, Array.isArray(point.payload?.acl) ? point.payload!.acl as string[] : []);
+        }
+      }
+      offset = (page?.next_page_offset ?? undefined) as string | number | undefined;
+    } while (offset !== undefined);
+
+    return acls;
+  }
+
+  // Write a document's new ACL to all of its chunks, including those of superseded
+  // versions, so that retrieval applies it immediately
+  async function updateDocumentAcl(
+    request: FastifyRequest,
+    route: string,
+    userContext: UserContext,
+    docId: string,
+    before: string[],
+    after: string[]
+  ): Promise<void> {
+    await options.qdrantClient.setPayload(options.collectionName, {
+      wait: true,
+      filter: {
+        must: [
+          { key: 'docId', match: { value: docId } },
+          { key: 'tenant', match: { value: userContext.tenantId } },
+        ],
+      },
+      payload: { acl: after },
+    });
+    auditLogger.logAclUpdate(
+      route,
+      userContext.tenantId,
+      userContext.id,
+      docId,
+      before,
+      after,
+      request.ip,
+      request.headers['user-agent']
+    );
+  }
+
+  // Documents outside the user's tenant or ACL are answered as not found, so their
+  // existence is not revealed; the attempt is audited when the document exists.
+  async function auditIfDenied(
+    request: FastifyRequest,
+    route: string,
+    userContext: UserContext,
+    docId: string
+  ): Promise<void> {
+    if (await hasDocumentPoints(docId, getAccessConditions(userContext)) || !await hasDocumentPoints(docId, [])) {
+      return;
+    }
+    auditLogger.logAccessDenied(
+      route,
+      userContext.tenantId,
+      userContext.id,
+      docId,
+      'Document is not accessible to the user',
+      request.ip,
+      request.headers['user-agent']
+    );
+  }
+
+  // GET /capabilities - Document actions the user's privilege level allows, so clients
+  // only offer what the API would accept
+  fastify.get('/capabilities', {
+    schema: {
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            privilegeLevel: { type: 'number' },
+            documents: {
+              type: 'object',
+              properties: {
+                delete: { type: 'boolean' },
+                manageAcl: { type: 'boolean' }
+              }
+            }
+          }
+        },
+        401: errorSchema
+      }
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const userContext = await requireUser(request, reply);
+      if (!userContext) return;
+
+      const privilegeLevel = getUserPrivilegeLevel(userContext);
+      return reply.send({
+        privilegeLevel,
+        documents: {
+          delete: privilegeLevel >= getDocumentDeleteMinLevel(),
+          manageAcl: privilegeLevel >= getDocumentAclMinLevel()
+        }
+      });
+    }
+  });
+
   // GET /documents - List all documents grouped by docId
   fastify.get('/documents', {
     schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          filter: { type: 'string' } // JSON-encoded filter expression, as accepted by /ask
+        }
+      },
       response: {
         200: {
           type: 'array',
@@ -62,6 +401,14 @@ export async function documentFetchRoute(fastify: FastifyInstance, options: Docu
             }
           }
         },
+        400: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            message: { type: 'string' }
+          }
+        },
+        401: errorSchema,
         500: {
           type: 'object',
           properties: {
@@ -72,9 +419,32 @@ export async function documentFetchRoute(fastify: FastifyInstance, options: Docu
       }
     },
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const userContext = await requireUser(request, reply);
+      if (!userContext) return;
+
+      const { filter } = request.query as { filter?: string };
+      let listFilter: Record<string, any> = {};
+      if (filter) {
+        let parsedFilter;
+        try {
+          parsedFilter = FilterExpressionSchema.safeParse(JSON.parse(filter));
+        } catch {
+          return reply.status(400).send({ error: 'Bad Request', message: 'Invalid filter: not valid JSON' });
+        }
+        if (!parsedFilter.success) {
+          return reply.status(400).send({
+            error: 'Bad Request',
+            message: `Invalid filter: ${parsedFilter.error.issues.map(issue => issue.message).join('; ')}`
+          });
+        }
+        listFilter = compileFilterToQdrant(parsedFilter.data);
+      }
+      listFilter = { ...listFilter, must: [...(listFilter.must || []), ...getAccessConditions(userContext)] };
+
       try {
-        // Fetch all points from the collection
+        // Fetch all matching current points from the collection (superseded versions are excluded)
         const scrollResult = await options.qdrantClient.scroll(options.collectionName, {
+          filter: applyQdrantVersionFilter(listFilter),
           limit: 10000, // Adjust based on expected scale
           with_payload: true,
           with_vector: false,
@@ -206,12 +576,19 @@ export async function documentFetchRoute(fastify: FastifyInstance, options: Docu
         },
         required: ['docId']
       },
+      querystring: {
+        type: 'object',
+        properties: {
+          asOf: { type: 'string', format: 'date-time' }
+        }
+      },
       response: {
         200: {
           type: 'object',
           properties: {
             success: { type: 'boolean' },
             docId: { type: 'string' },
+            asOf: { type: 'string' },
             content: { type: 'string' },
             metadata: {
               type: 'object',
@@ -249,6 +626,7 @@ export async function documentFetchRoute(fastify: FastifyInstance, options: Docu
             }
           }
         },
+        401: errorSchema,
         404: {
           type: 'object',
           properties: {
@@ -266,12 +644,16 @@ export async function documentFetchRoute(fastify: FastifyInstance, options: Docu
       }
     },
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const userContext = await requireUser(request, reply);
+      if (!userContext) return;
+
       const { docId } = request.params as { docId: string };
+      const { asOf } = request.query as { asOf?: string };
 
       try {
-        // Fetch all chunks for the given docId
+        // Fetch the chunks making up the document now, or as of the requested time
         const scrollResult = await options.qdrantClient.scroll(options.collectionName, {
-          filter: {
+          filter: applyQdrantVersionFilter({
             must: [
               {
                 key: 'docId',
@@ -279,17 +661,21 @@ export async function documentFetchRoute(fastify: FastifyInstance, options: Docu
                   value: docId,
                 },
               },
+              ...getAccessConditions(userContext),
             ],
-          },
+          }, asOf),
           limit: 1000, // Assuming a document won't have more than 1000 chunks
           with_payload: true,
           with_vector: false, // Corrected from with_vectors
         });
 
         if (!scrollResult || scrollResult.points.length === 0) {
+          await auditIfDenied(request, '/documents/:docId', userContext, docId);
           return reply.status(404).send({
             error: 'Not Found',
-            message: `Document with docId ${docId} not found or has no chunks.`,
+            message: asOf
+              ? `Document with docId ${docId} has no chunks as of ${asOf}.`
+              : `Document with docId ${docId} not found or has no chunks.`,
           });
         }
 
@@ -386,6 +772,7 @@ export async function documentFetchRoute(fastify: FastifyInstance, options: Docu
         return reply.status(200).send({
           success: true,
           docId,
+          asOf,
           content: reconstructedContent,
           metadata: documentMetadata,
           chunks: chunkData
@@ -401,6 +788,209 @@ export async function documentFetchRoute(fastify: FastifyInstance, options: Docu
     },
   });
 
+  // GET /documents/:docId/versions - List published versions of a document
+  fastify.get('/documents/:docId/versions', {
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          docId: { type: 'string' }
+        },
+        required: ['docId']
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            docId: { type: 'string' },
+            versions: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  version: { type: 'string' },
+                  publishedAt: { type: 'string' },
+                  supersededAt: { type: 'string' },
+                  current: { type: 'boolean' },
+                  chunkCount: { type: 'number' }
+                }
+              }
+            }
+          }
+        },
+        401: errorSchema,
+        404: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            message: { type: 'string' }
+          }
+        },
+        500: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            message: { type: 'string' }
+          }
+        }
+      }
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const userContext = await requireUser(request, reply);
+      if (!userContext) return;
+
+      const { docId } = request.params as { docId: string };
+
+      try {
+        const points = await fetchAllDocumentPoints(options, docId, getAccessConditions(userContext));
+
+        if (points.length === 0) {
+          await auditIfDenied(request, '/documents/:docId/versions', userContext, docId);
+          return reply.status(404).send({
+            error: 'Not Found',
+            message: `Document with docId ${docId} not found or has no chunks.`,
+          });
+        }
+
+        // Newest first, matching the documents list
+        const versions = buildVersionHistory(points).reverse();
+
+        return reply.status(200).send({ docId, versions });
+
+      } catch (error) {
+        fastify.log.error(error, `Failed to fetch versions of document ${docId}`);
+        return reply.status(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to retrieve document versions.',
+        });
+      }
+    },
+  });
+
+  // GET /documents/:docId/versions/diff - Compare the document at two points in time
+  fastify.get('/documents/:docId/versions/diff', {
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          docId: { type: 'string' }
+        },
+        required: ['docId']
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          from: { type: 'string', format: 'date-time' },
+          to: { type: 'string', format: 'date-time' }
+        },
+        required: ['from']
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            docId: { type: 'string' },
+            from: { type: 'string' },
+            to: { type: 'string' },
+            unchanged: { type: 'number' },
+            added: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  content: { type: 'string' },
+                  chunkIndex: { type: 'number' }
+                }
+              }
+            },
+            removed: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  content: { type: 'string' },
+                  chunkIndex: { type: 'number' }
+                }
+              }
+            }
+          }
+        },
+        401: errorSchema,
+        404: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            message: { type: 'string' }
+          }
+        },
+        500: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            message: { type: 'string' }
+          }
+        }
+      }
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const userContext = await requireUser(request, reply);
+      if (!userContext) return;
+
+      const { docId } = request.params as { docId: string };
+      const { from, to } = request.query as { from: string; to?: string };
+      const toTime = to || new Date().toISOString();
+
+      try {
+        const points = await fetchAllDocumentPoints(options, docId, getAccessConditions(userContext));
+
+        if (points.length === 0) {
+          await auditIfDenied(request, '/documents/:docId/versions/diff', userContext, docId);
+          return reply.status(404).send({
+            error: 'Not Found',
+            message: `Document with docId ${docId} not found or has no chunks.`,
+          });
+        }
+
+        // Unchanged chunks share a point across versions, so comparing the
+        // points valid at each timestamp yields the chunk-level diff
+        const before = points.filter(point => isChunkValidAt(point.payload, from));
+        const after = points.filter(point => isChunkValidAt(point.payload, toTime));
+        const beforeIds = new Set(before.map(point => String(point.id)));
+        const afterIds = new Set(after.map(point => String(point.id)));
+
+        const toDiffChunk = (point: { id: string | number; payload: ChunkPayload }) => ({
+          id: String(point.id),
+          content: point.payload.content,
+          chunkIndex: point.payload.chunkIndex,
+        });
+
+        return reply.status(200).send({
+          docId,
+          from,
+          to: toTime,
+          unchanged: before.filter(point => afterIds.has(String(point.id))).length,
+          added: after
+            .filter(point => !beforeIds.has(String(point.id)))
+            .sort(compareChunkOrder)
+            .map(toDiffChunk),
+          removed: before
+            .filter(point => !afterIds.has(String(point.id)))
+            .sort(compareChunkOrder)
+            .map(toDiffChunk),
+        });
+
+      } catch (error) {
+        fastify.log.error(error, `Failed to diff versions of document ${docId}`);
+        return reply.status(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to compare document versions.',
+        });
+      }
+    },
+  });
+
   // DELETE /documents/:docId - Delete all chunks for a document
   fastify.delete('/documents/:docId', {
     schema: {
@@ -421,6 +1011,8 @@ export async function documentFetchRoute(fastify: FastifyInstance, options: Docu
             deletedCount: { type: 'number' }
           }
         },
+        401: errorSchema,
+        403: errorSchema,
         404: {
           type: 'object',
           properties: {
@@ -438,27 +1030,21 @@ export async function documentFetchRoute(fastify: FastifyInstance, options: Docu
       }
     },
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const userContext = await requireUser(request, reply);
+      if (!userContext) return;
+
       const { docId } = request.params as { docId: string };
 
+      if (!requireLevel(request, reply, '/documents/:docId', userContext, docId, getDocumentDeleteMinLevel(), 'delete documents')) {
+        return;
+      }
+
       try {
-        // First, check if document exists by finding chunks
-        const scrollResult = await options.qdrantClient.scroll(options.collectionName, {
-          filter: {
-            must: [
-              {
-                key: 'docId',
-                match: {
-                  value: docId,
-                },
-              },
-            ],
-          },
-          limit: 10000, // Get all chunks for the document
-          with_payload: false,
-          with_vector: false,
-        });
+        // First, check if document exists by finding all of its chunks
+        const points = await fetchAllDocumentPoints(options, docId, getAccessConditions(userContext));
 
-        if (!scrollResult || scrollResult.points.length === 0) {
+        if (points.length === 0) {
+          await auditIfDenied(request, '/documents/:docId', userContext, docId);
           return reply.status(404).send({
             error: 'Not Found',
             message: `Document with docId ${docId} not found or has no chunks.`,
@@ -466,15 +1052,40 @@ export async function documentFetchRoute(fastify: FastifyInstance, options: Docu
         }
 
         // Extract point IDs for deletion
-        const pointIds = scrollResult.points.map((point: { id: any; }) => point.id);
+        const pointIds = points.map(point => point.id);
 
         // Delete all chunks for this document
         await options.qdrantClient.delete(options.collectionName, {
           wait: true,
           points: pointIds,
         });
+        if (getLateInteractionConfig().enabled) {
+          await options.qdrantClient.delete(getMultiVectorCollectionName(options.collectionName), {
+            wait: true,
+            points: pointIds,
+          });
+        }
+        if (getParentRetrievalConfig().enabled) {
+          await options.qdrantClient.delete(getParentCollectionName(options.collectionName), {
+            wait: true,
+            filter: {
+              must: [
+                { key: 'docId', match: { value: docId } },
+                { key: 'tenant', match: { value: userContext.tenantId } },
+              ],
+            },
+          });
+        }
+
+        // Superseded chunks already left the BM25 term statistics when they were replaced
+        if (collectionHasSparseVectors(options.collectionName)) {
+          updateTermStats([], userContext.tenantId, points
+            .filter(point => isChunkValidAt(point.payload) && typeof point.payload.content === 'string')
+            .map(point => ({ id: String(point.id), content: point.payload.content })));
+        }
 
         fastify.log.info(`Successfully deleted ${pointIds.length} chunks for document ${docId}`);
+        options.answerCache?.invalidateDocuments([docId]);
 
         return reply.status(200).send({
           success: true,
@@ -492,4 +1103,225 @@ export async function documentFetchRoute(fastify: FastifyInstance, options: Docu
       }
     },
   });
+
+  // GET /documents/:docId/acl - Read the ACL of a document
+  fastify.get('/documents/:docId/acl', {
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          docId: { type: 'string' }
+        },
+        required: ['docId']
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            docId: { type: 'string' },
+            acl: { type: 'array', items: { type: 'string' } }
+          }
+        },
+        401: errorSchema,
+        403: errorSchema,
+        404: errorSchema,
+        500: errorSchema
+      }
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const userContext = await requireUser(request, reply);
+      if (!userContext) return;
+
+      const { docId } = request.params as { docId: string };
+      const route = '/documents/:docId/acl';
+      if (!requireLevel(request, reply, route, userContext, docId, getDocumentAclMinLevel(), 'manage document permissions')) {
+        return;
+      }
+
+      try {
+        const acl = (await getDocumentAcls(userContext, [{ key: 'docId', match: { value: docId } }])).get(docId);
+        if (!acl) {
+          await auditIfDenied(request, route, userContext, docId);
+          return reply.status(404).send({
+            error: 'Not Found',
+            message: `Document with docId ${docId} not found or has no chunks.`,
+          });
+        }
+
+        return reply.status(200).send({ docId, acl });
+
+      } catch (error) {
+        fastify.log.error(error, `Failed to fetch the ACL of document ${docId}`);
+        return reply.status(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to retrieve document permissions.',
+        });
+      }
+    },
+  });
+
+  // PATCH /documents/:docId/acl - Change the ACL of a document in place
+  fastify.patch('/documents/:docId/acl', {
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          docId: { type: 'string' }
+        },
+        required: ['docId']
+      },
+      body: {
+        type: 'object',
+        properties: aclPatchProperties
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            docId: { type: 'string' },
+            acl: { type: 'array', items: { type: 'string' } }
+          }
+        },
+        400: errorSchema,
+        401: errorSchema,
+        403: errorSchema,
+        404: errorSchema,
+        500: errorSchema
+      }
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const userContext = await requireUser(request, reply);
+      if (!userContext) return;
+
+      const { docId } = request.params as { docId: string };
+      const patch = request.body as AclPatch;
+      const route = '/documents/:docId/acl';
+      if (!requireLevel(request, reply, route, userContext, docId, getDocumentAclMinLevel(), 'manage document permissions')) {
+        return;
+      }
+      if (isEmptyAclPatch(patch)) {
+        return reply.status(400).send({ error: 'Bad Request', message: 'Provide ACL entries to set, add or remove.' });
+      }
+
+      try {
+        const before = (await getDocumentAcls(userContext, [{ key: 'docId', match: { value: docId } }])).get(docId);
+        if (!before) {
+          await auditIfDenied(request, route, userContext, docId);
+          return reply.status(404).send({
+            error: 'Not Found',
+            message: `Document with docId ${docId} not found or has no chunks.`,
+          });
+        }
+
+        const after = applyAclPatch(before, patch);
+        if (after.length === 0) {
+          return reply.status(400).send({ error: 'Bad Request', message: 'A document ACL must keep at least one entry.' });
+        }
+        if (!isSameAcl(before, after)) {
+          await updateDocumentAcl(request, route, userContext, docId, before, after);
+          options.answerCache?.invalidateDocuments([docId], userContext.tenantId);
+        }
+
+        return reply.status(200).send({ docId, acl: after });
+
+      } catch (error) {
+        fastify.log.error(error, `Failed to update the ACL of document ${docId}`);
+        return reply.status(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to update document permissions.',
+        });
+      }
+    },
+  });
+
+  // PATCH /documents/acl - Change the ACLs of all documents matching a filter
+  fastify.patch('/documents/acl', {
+    schema: {
+      body: {
+        type: 'object',
+        properties: {
+          filter: { type: 'object' }, // Filter expression, as accepted by /ask
+          dryRun: { type: 'boolean' },
+          ...aclPatchProperties
+        },
+        required: ['filter']
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            dryRun: { type: 'boolean' },
+            matched: { type: 'number' },
+            updated: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  docId: { type: 'string' },
+                  before: { type: 'array', items: { type: 'string' } },
+                  acl: { type: 'array', items: { type: 'string' } }
+                }
+              }
+            }
+          }
+        },
+        400: errorSchema,
+        401: errorSchema,
+        403: errorSchema,
+        500: errorSchema
+      }
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const userContext = await requireUser(request, reply);
+      if (!userContext) return;
+
+      const { filter, dryRun = false, ...patch } = request.body as AclPatch & { filter: unknown; dryRun?: boolean };
+      const route = '/documents/acl';
+      if (!requireLevel(request, reply, route, userContext, '*', getDocumentAclMinLevel(), 'manage document permissions')) {
+        return;
+      }
+      if (isEmptyAclPatch(patch)) {
+        return reply.status(400).send({ error: 'Bad Request', message: 'Provide ACL entries to set, add or remove.' });
+      }
+
+      const parsedFilter = FilterExpressionSchema.safeParse(filter);
+      if (!parsedFilter.success) {
+        return reply.status(400).send({
+          error: 'Bad Request',
+          message: `Invalid filter: ${parsedFilter.error.issues.map(issue => issue.message).join('; ')}`
+        });
+      }
+
+      try {
+        const acls = await getDocumentAcls(userContext, compileFilterToQdrant(parsedFilter.data).must);
+        const updated = Array.from(acls, ([docId, before]) => ({ docId, before, acl: applyAclPatch(before, patch) }))
+          .filter(({ before, acl }) => !isSameAcl(before, acl));
+
+        // Validate every document before changing any, so a bulk change is never left half applied
+        const emptied = updated.find(({ acl }) => acl.length === 0);
+        if (emptied) {
+          return reply.status(400).send({
+            error: 'Bad Request',
+            message: `A document ACL must keep at least one entry (document ${emptied.docId}).`
+          });
+        }
+
+        if (!dryRun) {
+          for (const { docId, before, acl } of updated) {
+            await updateDocumentAcl(request, route, userContext, docId, before, acl);
+          }
+          options.answerCache?.invalidateDocuments(updated.map(({ docId }) => docId), userContext.tenantId);
+        }
+
+        return reply.status(200).send({ dryRun, matched: acls.size, updated });
+
+      } catch (error) {
+        fastify.log.error(error, 'Failed to update document ACLs');
+        return reply.status(500).send({
+          error: 'Internal Server Error',
+          message: 'Failed to update document permissions.',
+        });
+      }
+    },
+  });
 }
\ No newline at end of file
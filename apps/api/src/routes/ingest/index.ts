@@ -4,14 +4,18 @@ import { QdrantClient } from '@qdrant/js-client-rest';
 import { createAuditLogger } from '../../utils/audit.js';
 import { createAuthMiddleware } from '../../middleware/auth.js';
 import { previewRoute } from './preview.js';
-import { publishRoute } from './publish.js';
+import { publishRoute, processPublishDocument } from './publish.js';
 import { uploadRoute } from './upload.js';
+import { jobsRoute } from './jobs.js';
+import { IngestJobQueue, getIngestJobQueueConfig } from '../../services/ingest-jobs.js';
+import { SemanticAnswerCache } from '../../services/answer-cache.js';
 import fastifyRateLimit, { RateLimitPluginOptions } from '@fastify/rate-limit';
 
 interface IngestRouteOptions {
   qdrantClient: QdrantClient;
   collectionName: string;
   ingestToken: string;
+  answerCache?: SemanticAnswerCache;
 }
 
 export async function ingestRoutes(fastify: FastifyInstance, options: IngestRouteOptions) {
@@ -94,6 +98,19 @@ export async function ingestRoutes(fastify: FastifyInstance, options: IngestRout
     }
   } as RateLimitPluginOptions); // Explicitly cast to guide TypeScript
 
+  // Background queue for publish requests; unfinished jobs from a previous run are resumed
+  const publishOptions = {
+    qdrantClient: options.qdrantClient,
+    collectionName: options.collectionName,
+    auditLogger,
+    answerCache: options.answerCache
+  };
+  const jobQueue = new IngestJobQueue(
+    (doc, requestInfo) => processPublishDocument(doc, publishOptions, requestInfo),
+    { ...getIngestJobQueueConfig(), logger: fastify.log }
+  );
+  await jobQueue.resume();
+
   // Apply authentication to all ingest routes
   fastify.addHook('preValidation', authMiddleware);
 
@@ -151,12 +168,15 @@ export async function ingestRoutes(fastify: FastifyInstance, options: IngestRout
 
   await fastify.register(async function(fastify: FastifyInstance) {
     await publishRoute(fastify, {
-      qdrantClient: options.qdrantClient,
-      collectionName: options.collectionName,
-      auditLogger
+      ...publishOptions,
+      jobQueue
     });
   }, { prefix: '/ingest' });
 
+  await fastify.register(async function(fastify: FastifyInstance) {
+    await jobsRoute(fastify, { jobQueue });
+  }, { prefix: '/ingest' });
+
   await fastify.register(async function(fastify: FastifyInstance) {
     await uploadRoute(fastify, {
       auditLogger,
@@ -188,7 +208,19 @@ export async function ingestRoutes(fastify: FastifyInstance, options: IngestRout
         {
           path: '/ingest/publish',
           method: 'POST',
-          description: 'Publish documents to the vector database',
+          description: 'Queue documents for publishing to the vector database (?wait=true publishes synchronously)',
+          rateLimit: '10000 requests per minute per IP (local traffic bypassed)'
+        },
+        {
+          path: '/ingest/jobs',
+          method: 'GET',
+          description: 'List ingestion jobs with per-document progress',
+          rateLimit: '10000 requests per minute per IP (local traffic bypassed)'
+        },
+        {
+          path: '/ingest/jobs/:jobId',
+          method: 'GET',
+          description: 'Get the status of an ingestion job',
           rateLimit: '10000 requests per minute per IP (local traffic bypassed)'
         },
         {
@@ -221,6 +253,6 @@ export async function ingestRoutes(fastify: FastifyInstance, options: IngestRout
       'Structured logging',
       'Security monitoring'
     ],
-    endpoints: ['/ingest', '/ingest/preview', '/ingest/publish', '/ingest/upload']
+    endpoints: ['/ingest', '/ingest/preview', '/ingest/publish', '/ingest/jobs', '/ingest/jobs/:jobId', '/ingest/upload']
   }, 'Ingest routes registered with enhanced security');
 }
\ No newline at end of file
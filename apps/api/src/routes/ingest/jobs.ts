@@ -0,0 +1,156 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { IngestJobQueue, IngestJobStatus } from '../../services/ingest-jobs.js';
+
+interface JobsRouteOptions {
+  jobQueue: IngestJobQueue;
+}
+
+const JOB_STATUSES = ['queued', 'running', 'completed', 'completed_with_errors', 'failed'];
+
+const chunkDiffSchema = {
+  type: 'object',
+  properties: {
+    unchanged: { type: 'number' },
+    added: { type: 'number' },
+    removed: { type: 'number' }
+  }
+};
+
+const jobSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    tenant: { type: 'string' },
+    tenants: { type: 'array', items: { type: 'string' } },
+    status: { type: 'string', enum: JOB_STATUSES },
+    createdAt: { type: 'string' },
+    startedAt: { type: 'string' },
+    completedAt: { type: 'string' },
+    documents: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          docId: { type: 'string' },
+          status: { type: 'string' },
+          attempts: { type: 'number' },
+          pointsUpserted: { type: 'number' },
+          chunks: chunkDiffSchema,
+          message: { type: 'string' },
+          findings: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                type: { type: 'string' },
+                count: { type: 'number' }
+              }
+            }
+          },
+          updatedAt: { type: 'string' }
+        }
+      }
+    },
+    summary: {
+      type: 'object',
+      properties: {
+        total: { type: 'number' },
+        pending: { type: 'number' },
+        published: { type: 'number' },
+        updated: { type: 'number' },
+        blocked: { type: 'number' },
+        deleted: { type: 'number' },
+        errors: { type: 'number' },
+        chunks: chunkDiffSchema
+      }
+    }
+  },
+  required: ['id', 'tenant', 'tenants', 'status', 'createdAt', 'documents', 'summary']
+};
+
+export async function jobsRoute(fastify: FastifyInstance, options: JobsRouteOptions) {
+  fastify.get('/jobs', {
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          tenant: { type: 'string' },
+          status: { type: 'string', enum: JOB_STATUSES },
+          page: { type: 'integer', minimum: 1, default: 1 },
+          limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            jobs: { type: 'array', items: jobSchema },
+            pagination: {
+              type: 'object',
+              properties: {
+                page: { type: 'number' },
+                limit: { type: 'number' },
+                total: { type: 'number' },
+                totalPages: { type: 'number' },
+                hasNext: { type: 'boolean' },
+                hasPrev: { type: 'boolean' }
+              }
+            }
+          },
+          required: ['jobs', 'pagination']
+        }
+      }
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const { tenant, status, page, limit } = request.query as {
+        tenant?: string;
+        status?: IngestJobStatus;
+        page: number;
+        limit: number;
+      };
+
+      const { jobs, total } = options.jobQueue.listJobs({ tenant, status, page, limit });
+      const totalPages = Math.ceil(total / limit);
+
+      return reply.send({
+        jobs,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1
+        }
+      });
+    }
+  });
+
+  fastify.get('/jobs/:jobId', {
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          jobId: { type: 'string' }
+        },
+        required: ['jobId']
+      },
+      response: {
+        200: jobSchema
+      }
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const { jobId } = request.params as { jobId: string };
+      const job = options.jobQueue.getJob(jobId);
+
+      if (!job) {
+        return reply.status(404).send({
+          error: 'Not Found',
+          message: `Ingest job ${jobId} not found`
+        });
+      }
+
+      return reply.send(job);
+    }
+  });
+}
@@ -9,107 +9,7 @@ import {
   validateDocumentMetadata
 } from '../../utils/document.js';
 import { AuditLogger, RedactionSummary } from '../../utils/audit.js';
-
-// Import PII policy types (inline for now due to import issues)
-interface PIIPolicy {
-  mode: 'off' | 'mask' | 'block' | 'allowlist';
-  allowedTypes?: string[];
-  tenantId?: string;
-  sourceOverrides?: Record<string, Partial<PIIPolicy>>;
-}
-
-interface PIIDetection {
-  type: string;
-  start: number;
-  end: number;
-  confidence: number;
-}
-
-interface RedactionResult {
-  maskedText: string;
-  redactions: RedactionSummary[];
-  blocked: boolean;
-  originalLength: number;
-}
-
-// Temporary PII policy engine (simplified version)
-class SimplePIIPolicyEngine {
-  applyRedaction(text: string, policy: PIIPolicy, sourcePath?: string): RedactionResult {
-    // Simplified implementation - in real scenario would import from ingestion-sdk
-    const mockDetections: PIIDetection[] = [];
-
-    // Simple email detection
-    const emailRegex = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g;
-    let match;
-    while ((match = emailRegex.exec(text)) !== null) {
-      mockDetections.push({
-        type: 'email',
-        start: match.index,
-        end: match.index + match[0].length,
-        confidence: 0.9
-      });
-    }
-
-    // Simple phone detection
-    const phoneRegex = /(\+?1[-.\s]?)?\(?[0-9]{3}\)?[-.\s]?[0-9]{3}[-.\s]?[0-9]{4}/g;
-    while ((match = phoneRegex.exec(text)) !== null) {
-      mockDetections.push({
-        type: 'phone',
-        start: match.index,
-        end: match.index + match[0].length,
-        confidence: 0.8
-      });
-    }
-
-    const redactions: RedactionSummary[] = [];
-    const typeCount = new Map<string, number>();
-
-    for (const detection of mockDetections) {
-      const count = typeCount.get(detection.type) || 0;
-      typeCount.set(detection.type, count + 1);
-    }
-
-    for (const [type, count] of typeCount) {
-      redactions.push({ type, count });
-    }
-
-    if (policy.mode === 'off') {
-      return {
-        maskedText: text,
-        redactions: [],
-        blocked: false,
-        originalLength: text.length
-      };
-    }
-
-    if (policy.mode === 'block' && mockDetections.length > 0) {
-      return {
-        maskedText: '[CONTENT_BLOCKED_DUE_TO_PII]',
-        redactions,
-        blocked: true,
-        originalLength: text.length
-      };
-    }
-
-    // Apply masking
-    let maskedText = text;
-    const sortedDetections = [...mockDetections].sort((a, b) => b.start - a.start);
-
-    for (const detection of sortedDetections) {
-      const mask = detection.type === 'email' ? '[EMAIL_REDACTED]' : '[PII_REDACTED]';
-      maskedText = maskedText.slice(0, detection.start) + mask + maskedText.slice(detection.end);
-    }
-
-    return {
-      maskedText,
-      redactions,
-      blocked: false,
-      originalLength: text.length
-    };
-  }
-}
-
-const policyEngine = new SimplePIIPolicyEngine();
+import { getTenantPIIPolicy, getTenantPolicyEngine } from '../../services/pii.js';
 
 // Request/Response schemas
 const PreviewRequestSchema = z.union([
@@ -256,12 +156,6 @@ export async function previewRoute(fastify: FastifyInstance, options: PreviewRou
         const allFindings: RedactionSummary[] = [];
         const errors: string[] = [];
 
-        // Get default policy (in production, this would be tenant-specific)
-        const defaultPolicy: PIIPolicy = {
-          mode: 'mask', // Default to masking
-          tenantId: undefined
-        };
-
         for (const doc of docs) {
           try {
             // Validate document metadata
@@ -278,10 +172,13 @@ export async function previewRoute(fastify: FastifyInstance, options: PreviewRou
             // Extract text for PII detection
             const combinedText = extractCombinedText(doc);
 
-            // Run PII detection
+            // Run PII detection with the tenant's policy. Pseudonymizing reports
+            // the same findings as masking, so preview masks to keep the vault untouched.
+            const policy = getTenantPIIPolicy(doc.meta.tenant);
+            const policyEngine = await getTenantPolicyEngine(doc.meta.tenant);
             const redactionResult = policyEngine.applyRedaction(
               combinedText,
-              defaultPolicy,
+              policy.mode === 'pseudonymize' ? { ...policy, mode: 'mask' } : policy,
               doc.meta.path
             );
 
@@ -1,109 +1,25 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
-import { NormalizedDocSchema } from '@cw-rag-core/shared';
+import { NormalizedDocSchema, computeSha256, applyQdrantVersionFilter } from '@cw-rag-core/shared';
 import { QdrantClient } from '@qdrant/js-client-rest';
 import {
   calculateDocumentHash,
   extractCombinedText,
+  redactDocumentBlocks,
   validateDocumentMetadata,
   generatePointId,
   createChunkPayload
 } from '../../utils/document.js';
-import { AuditLogger, RedactionSummary } from '../../utils/audit.js';
-
-// Import PII policy types (inline for now due to import issues)
-interface PIIPolicy {
-  mode: 'off' | 'mask' | 'block' | 'allowlist';
-  allowedTypes?: string[];
-  tenantId?: string;
-  sourceOverrides?: Record<string, Partial<PIIPolicy>>;
-}
-
-interface RedactionResult {
-  maskedText: string;
-  redactions: RedactionSummary[];
-  blocked: boolean;
-  originalLength: number;
-}
-
-// Temporary PII policy engine (simplified version)
-class SimplePIIPolicyEngine {
-  applyRedaction(text: string, policy: PIIPolicy, sourcePath?: string): RedactionResult {
-    // Simplified implementation - in real scenario would import from ingestion-sdk
-    const mockDetections: any[] = [];
-
-    // Simple email detection
-    const emailRegex = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g;
-    let match;
-    while ((match = emailRegex.exec(text)) !== null) {
-      mockDetections.push({
-        type: 'email',
-        start: match.index,
-        end: match.index + match[0].length,
-        confidence: 0.9
-      });
-    }
-
-    // Simple phone detection
-    const phoneRegex = /(\+?1[-.\s]?)?\(?[0-9]{3}\)?[-.\s]?[0-9]{3}[-.\s]?[0-9]{4}/g;
-    while ((match = phoneRegex.exec(text)) !== null) {
-      mockDetections.push({
-        type: 'phone',
-        start: match.index,
-        end: match.index + match[0].length,
-        confidence: 0.8
-      });
-    }
-
-    const redactions: RedactionSummary[] = [];
-    const typeCount = new Map<string, number>();
-
-    for (const detection of mockDetections) {
-      const count = typeCount.get(detection.type) || 0;
-      typeCount.set(detection.type, count + 1);
-    }
-
-    for (const [type, count] of typeCount) {
-      redactions.push({ type, count });
-    }
-
-    if (policy.mode === 'off') {
-      return {
-        maskedText: text,
-        redactions: [],
-        blocked: false,
-        originalLength: text.length
-      };
-    }
-
-    if (policy.mode === 'block' && mockDetections.length > 0) {
-      return {
-        maskedText: '[CONTENT_BLOCKED_DUE_TO_PII]',
-        redactions,
-        blocked: true,
-        originalLength: text.length
-      };
-    }
-
-    // Apply masking
-    let maskedText = text;
-    const sortedDetections = [...mockDetections].sort((a, b) => b.start - a.start);
-
-    for (const detection of sortedDetections) {
-      const mask = detection.type === 'email' ? '[EMAIL_REDACTED]' : '[PII_REDACTED]';
-      maskedText = maskedText.slice(0, detection.start) + mask + maskedText.slice(detection.end);
-    }
-
-    return {
-      maskedText,
-      redactions,
-      blocked: false,
-      originalLength: text.length
-    };
-  }
-}
-
-const policyEngine = new SimplePIIPolicyEngine();
+import { AuditLogger } from '../../utils/audit.js';
+import { getTenantPIIPolicy, getTenantPolicyEngine } from '../../services/pii.js';
+import { SemanticAnswerCache } from '../../services/answer-cache.js';
+import { collectionHasSparseVectors, getDenseVector } from '../../services/qdrant.js';
+import {
+  IngestJobQueue,
+  IngestRequestInfo,
+  DocumentProcessingResult,
+  ChunkDiffSummary
+} from '../../services/ingest-jobs.js';
 
 // Request/Response schemas
 const PublishRequestSchema = z.union([
@@ -111,11 +27,18 @@ const PublishRequestSchema = z.union([
   z.array(NormalizedDocSchema)
 ]);
 
+const ChunkDiffSummarySchema = z.object({
+  unchanged: z.number(),
+  added: z.number(),
+  removed: z.number()
+});
+
 const PublishResponseSchema = z.object({
   results: z.array(z.object({
     docId: z.string(),
     status: z.enum(['published', 'updated', 'blocked', 'deleted', 'error']),
     pointsUpserted: z.number().optional(),
+    chunks: ChunkDiffSummarySchema.optional(),
     message: z.string().optional(),
     findings: z.array(z.object({
       type: z.string(),
@@ -128,19 +51,46 @@ const PublishResponseSchema = z.object({
     updated: z.number(),
     blocked: z.number(),
     deleted: z.number(),
-    errors: z.number()
+    errors: z.number(),
+    chunks: ChunkDiffSummarySchema
   })
 });
 
-interface PublishRouteOptions {
+interface PublishProcessorOptions {
   qdrantClient: QdrantClient;
   collectionName: string;
   auditLogger: AuditLogger;
+  /** Cached answers generated from a republished or deleted document are dropped */
+  answerCache?: SemanticAnswerCache;
+}
+
+interface PublishRouteOptions extends PublishProcessorOptions {
+  jobQueue: IngestJobQueue;
+}
+
+const chunkDiffSchema = {
+  type: 'object',
+  properties: {
+    unchanged: { type: 'number' },
+    added: { type: 'number' },
+    removed: { type: 'number' }
+  }
+};
+
+interface PublishQuerystring {
+  /** Publish synchronously and return the results instead of a job */
+  wait?: boolean;
 }
 
 export async function publishRoute(fastify: FastifyInstance, options: PublishRouteOptions) {
-  fastify.post('/publish', {
+  fastify.post<{ Querystring: PublishQuerystring }>('/publish', {
     schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          wait: { type: 'boolean' }
+        }
+      },
       body: {
         anyOf: [
           {
@@ -174,6 +124,14 @@ export async function publishRoute(fastify: FastifyInstance, options: PublishRou
                     type: { type: 'string', enum: ['text', 'table', 'code', 'image-ref'] },
                     text: { type: 'string' },
                     html: { type: 'string' },
+                    metadata: {
+                      type: 'object',
+                      properties: {
+                        page: { type: 'integer', minimum: 1 },
+                        headingLevel: { type: 'integer', minimum: 1, maximum: 6 },
+                        headingPath: { type: 'array', items: { type: 'string' } },
+                      },
+                    },
                   },
                   required: ['type'],
                 },
@@ -214,6 +172,14 @@ export async function publishRoute(fastify: FastifyInstance, options: PublishRou
                       type: { type: 'string', enum: ['text', 'table', 'code', 'image-ref'] },
                       text: { type: 'string' },
                       html: { type: 'string' },
+                      metadata: {
+                        type: 'object',
+                        properties: {
+                          page: { type: 'integer', minimum: 1 },
+                          headingLevel: { type: 'integer', minimum: 1, maximum: 6 },
+                          headingPath: { type: 'array', items: { type: 'string' } },
+                        },
+                      },
                     },
                     required: ['type'],
                   },
@@ -225,6 +191,16 @@ export async function publishRoute(fastify: FastifyInstance, options: PublishRou
         ],
       },
       response: {
+        202: {
+          type: 'object',
+          properties: {
+            jobId: { type: 'string' },
+            status: { type: 'string' },
+            total: { type: 'number' },
+            statusUrl: { type: 'string' }
+          },
+          required: ['jobId', 'status', 'total', 'statusUrl'],
+        },
         200: {
           type: 'object',
           properties: {
@@ -236,6 +212,7 @@ export async function publishRoute(fastify: FastifyInstance, options: PublishRou
                   docId: { type: 'string' },
                   status: { type: 'string', enum: ['published', 'updated', 'blocked', 'deleted', 'error'] },
                   pointsUpserted: { type: 'number' },
+                  chunks: chunkDiffSchema,
                   message: { type: 'string' },
                   findings: {
                     type: 'array',
@@ -258,7 +235,8 @@ export async function publishRoute(fastify: FastifyInstance, options: PublishRou
                 updated: { type: 'number' },
                 blocked: { type: 'number' },
                 deleted: { type: 'number' },
-                errors: { type: 'number' }
+                errors: { type: 'number' },
+                chunks: chunkDiffSchema
               }
             }
           },
@@ -266,11 +244,26 @@ export async function publishRoute(fastify: FastifyInstance, options: PublishRou
         },
       },
     },
-    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+    handler: async (request: FastifyRequest<{ Querystring: PublishQuerystring }>, reply: FastifyReply) => {
       // Authentication is handled by parent route middleware
       try {
         const body = request.body as any;
         const docs = Array.isArray(body) ? body : [body];
+        const requestInfo: IngestRequestInfo = {
+          ip: (request as any).ip || 'unknown',
+          userAgent: (request.headers as any)['user-agent']
+        };
+
+        // Background processing is the default; ?wait=true keeps the synchronous contract
+        if (!request.query.wait) {
+          const job = await options.jobQueue.enqueue(docs, requestInfo);
+          return reply.status(202).send({
+            jobId: job.id,
+            status: job.status,
+            total: job.summary.total,
+            statusUrl: `/ingest/jobs/${job.id}`
+          });
+        }
 
         const results: any[] = [];
         const summary = {
@@ -279,155 +272,33 @@ export async function publishRoute(fastify: FastifyInstance, options: PublishRou
           updated: 0,
           blocked: 0,
           deleted: 0,
-          errors: 0
-        };
-
-        // Get default policy (in production, this would be tenant-specific)
-        const defaultPolicy: PIIPolicy = {
-          mode: 'mask', // Default to masking
-          tenantId: undefined
+          errors: 0,
+          chunks: { unchanged: 0, added: 0, removed: 0 }
         };
 
         for (const doc of docs) {
+          let result: DocumentProcessingResult;
           try {
-            // Validate document metadata
-            const validationErrors = validateDocumentMetadata(doc);
-            if (validationErrors.length > 0) {
-              const errorMsg = `Validation failed: ${validationErrors.join(', ')}`;
-              results.push({
-                docId: doc.meta?.docId || 'unknown',
-                status: 'error',
-                message: errorMsg
-              });
-              summary.errors++;
-
-              options.auditLogger.logError(
-                '/ingest/publish',
-                doc.meta?.tenant || 'unknown',
-                doc.meta?.docId || 'unknown',
-                doc.meta?.source || 'unknown',
-                errorMsg,
-                (request as any).ip || 'unknown',
-                (request.headers as any)['user-agent']
-              );
-              continue;
-            }
-
-            // Check if this is a deletion
-            if (doc.meta.deleted) {
-              await handleDocumentDeletion(doc, options, request);
-              results.push({
-                docId: doc.meta.docId,
-                status: 'deleted',
-                message: 'Document marked for deletion'
-              });
-              summary.deleted++;
-              continue;
-            }
-
-            // Calculate hash and update document
-            const calculatedHash = calculateDocumentHash(doc);
-            doc.meta.sha256 = calculatedHash;
-
-            // Check for duplicates by (tenant, docId, sha256)
-            // Use search with a dummy vector to check for existing documents
-            const dummyVector = new Array(384).fill(0);
-            const existingPoints = await options.qdrantClient.search(options.collectionName, {
-              vector: dummyVector,
-              limit: 1,
-              filter: {
-                must: [
-                  { key: 'tenant', match: { value: doc.meta.tenant } },
-                  { key: 'docId', match: { value: doc.meta.docId } },
-                  { key: 'sha256', match: { value: doc.meta.sha256 } }
-                ]
-              }
-            });
-
-            if (existingPoints && existingPoints.length > 0) {
-              results.push({
-                docId: doc.meta.docId,
-                status: 'updated',
-                message: 'Document already exists with same content hash'
-              });
-              summary.updated++;
-              continue;
-            }
-
-            // Extract text for PII detection
-            const combinedText = extractCombinedText(doc);
-
-            // Apply PII policy
-            const redactionResult = policyEngine.applyRedaction(
-              combinedText,
-              defaultPolicy,
-              doc.meta.path
-            );
-
-            // Check if document should be blocked
-            if (redactionResult.blocked) {
-              results.push({
-                docId: doc.meta.docId,
-                status: 'blocked',
-                message: 'Document blocked due to PII policy',
-                findings: redactionResult.redactions
-              });
-              summary.blocked++;
-
-              options.auditLogger.logBlock(
-                doc.meta.tenant,
-                doc.meta.docId,
-                doc.meta.version,
-                doc.meta.source,
-                redactionResult.redactions,
-                (request as any).ip || 'unknown',
-                (request.headers as any)['user-agent']
-              );
-              continue;
-            }
-
-            // Process document for publication
-            const pointsUpserted = await publishDocument(doc, redactionResult.maskedText, options);
-
-            results.push({
-              docId: doc.meta.docId,
-              status: 'published',
-              pointsUpserted,
-              findings: redactionResult.redactions
-            });
-            summary.published++;
-
-            // Log successful publication
-            options.auditLogger.logPublish(
-              doc.meta.tenant,
-              doc.meta.docId,
-              doc.meta.version,
-              doc.meta.source,
-              redactionResult.redactions,
-              (request as any).ip || 'unknown',
-              (request.headers as any)['user-agent']
-            );
-
+            result = await processPublishDocument(doc, options, requestInfo);
           } catch (docError) {
-            const errorMsg = `Error processing document: ${(docError as Error).message}`;
-            results.push({
+            result = {
               docId: doc.meta?.docId || 'unknown',
               status: 'error',
-              message: errorMsg
-            });
-            summary.errors++;
+              message: `Error processing document: ${(docError as Error).message}`
+            };
+            fastify.log.error({ error: docError }, result.message);
+          }
 
-            options.auditLogger.logError(
-              '/ingest/publish',
-              doc.meta?.tenant || 'unknown',
-              doc.meta?.docId || 'unknown',
-              doc.meta?.source || 'unknown',
-              errorMsg,
-              (request as any).ip || 'unknown',
-              (request.headers as any)['user-agent']
-            );
-
-            fastify.log.error({ error: docError }, errorMsg);
+          results.push(result);
+          if (result.chunks) {
+            summary.chunks.unchanged += result.chunks.unchanged;
+            summary.chunks.added += result.chunks.added;
+            summary.chunks.removed += result.chunks.removed;
+          }
+          if (result.status === 'error') {
+            summary.errors++;
+          } else {
+            summary[result.status]++;
           }
         }
 
@@ -444,7 +315,148 @@ export async function publishRoute(fastify: FastifyInstance, options: PublishRou
   });
 }
 
-async function handleDocumentDeletion(doc: any, options: PublishRouteOptions, request: FastifyRequest) {
+/**
+ * Validate, redact and publish a single document.
+ * Returns an `error` result for permanent failures; unexpected failures
+ * (Qdrant, embeddings) are audited and rethrown so the job queue can retry them.
+ */
+export async function processPublishDocument(
+  doc: any,
+  options: PublishProcessorOptions,
+  requestInfo: IngestRequestInfo
+): Promise<DocumentProcessingResult> {
+  // Validate document metadata
+  const validationErrors = validateDocumentMetadata(doc);
+  if (validationErrors.length > 0) {
+    const errorMsg = `Validation failed: ${validationErrors.join(', ')}`;
+
+    options.auditLogger.logError(
+      '/ingest/publish',
+      doc.meta?.tenant || 'unknown',
+      doc.meta?.docId || 'unknown',
+      doc.meta?.source || 'unknown',
+      errorMsg,
+      requestInfo.ip,
+      requestInfo.userAgent
+    );
+
+    return {
+      docId: doc.meta?.docId || 'unknown',
+      status: 'error',
+      message: errorMsg
+    };
+  }
+
+  try {
+    // Check if this is a deletion
+    if (doc.meta.deleted) {
+      await handleDocumentDeletion(doc, options, requestInfo);
+      options.answerCache?.invalidateDocuments([doc.meta.docId], doc.meta.tenant);
+      return {
+        docId: doc.meta.docId,
+        status: 'deleted',
+        message: 'Document marked for deletion'
+      };
+    }
+
+    // Calculate hash and update document
+    const calculatedHash = calculateDocumentHash(doc);
+    doc.meta.sha256 = calculatedHash;
+
+    // Check for duplicates by (tenant, docId, sha256) against the current version only,
+    // so reverting to the content of a superseded version publishes it again
+    // Use search with a dummy vector to check for existing documents
+    const dummyVector = new Array(384).fill(0);
+    const existingPoints = await options.qdrantClient.search(options.collectionName, {
+      vector: dummyVector,
+      limit: 1,
+      filter: applyQdrantVersionFilter({
+        must: [
+          { key: 'tenant', match: { value: doc.meta.tenant } },
+          { key: 'docId', match: { value: doc.meta.docId } },
+          { key: 'sha256', match: { value: doc.meta.sha256 } }
+        ]
+      })
+    });
+
+    if (existingPoints && existingPoints.length > 0) {
+      return {
+        docId: doc.meta.docId,
+        status: 'updated',
+        message: 'Document already exists with same content hash'
+      };
+    }
+
+    // Extract text for PII detection
+    const combinedText = extractCombinedText(doc);
+
+    // Apply the tenant's PII policy
+    const policyEngine = await getTenantPolicyEngine(doc.meta.tenant);
+    const policy = getTenantPIIPolicy(doc.meta.tenant);
+    const redactionResult = policyEngine.applyRedaction(combinedText, policy, doc.meta.path);
+
+    // Check if document should be blocked
+    if (redactionResult.blocked) {
+      options.auditLogger.logBlock(
+        doc.meta.tenant,
+        doc.meta.docId,
+        doc.meta.version,
+        doc.meta.source,
+        redactionResult.redactions,
+        requestInfo.ip,
+        requestInfo.userAgent
+      );
+
+      return {
+        docId: doc.meta.docId,
+        status: 'blocked',
+        message: 'Document blocked due to PII policy',
+        findings: redactionResult.redactions
+      };
+    }
+
+    // Chunks are built, embedded and stored from the redacted blocks only
+    const redactedDoc = redactDocumentBlocks(
+      doc,
+      text => policyEngine.applyRedaction(text, policy, doc.meta.path).maskedText
+    );
+    const { pointsUpserted, chunks } = await publishDocument(redactedDoc, options);
+    options.answerCache?.invalidateDocuments([doc.meta.docId], doc.meta.tenant);
+
+    // Log successful publication
+    options.auditLogger.logPublish(
+      doc.meta.tenant,
+      doc.meta.docId,
+      doc.meta.version,
+      doc.meta.source,
+      redactionResult.redactions,
+      requestInfo.ip,
+      requestInfo.userAgent
+    );
+
+    return {
+      docId: doc.meta.docId,
+      status: 'published',
+      pointsUpserted,
+      chunks,
+      findings: redactionResult.redactions
+    };
+
+  } catch (docError) {
+    options.auditLogger.logError(
+      '/ingest/publish',
+      doc.meta?.tenant || 'unknown',
+      doc.meta?.docId || 'unknown',
+      doc.meta?.source || 'unknown',
+      `Error processing document: ${(docError as Error).message}`,
+      requestInfo.ip,
+      requestInfo.userAgent
+    );
+    throw docError;
+  }
+}
+
+async function handleDocumentDeletion(doc: any, options: PublishProcessorOptions, requestInfo: IngestRequestInfo) {
   // Delete all points for this document by searching first, then deleting by IDs
   const dummyVector = new Array(384).fill(0);
   const existingPoints = await options.qdrantClient.search(options.collectionName, {
@@ -481,28 +493,259 @@ async function handleDocumentDeletion(doc: any, options: PublishRouteOptions, re
     doc.meta.tenant,
     doc.meta.docId,
     doc.meta.source,
-    (request as any).ip || 'unknown',
-    (request.headers as any)['user-agent']
+    requestInfo.ip,
+    requestInfo.userAgent
   );
 }
 
-async function publishDocument(doc: any, maskedText: string, options: PublishRouteOptions): Promise<number> {
+/**
+ * A chunk of the current version as stored in Qdrant.
+ */
+export interface StoredChunkRef {
+  id: string;
+  chunkHash?: string;
+  chunkOccurrence?: number;
+  validFrom?: string;
+  introducedInVersion?: string;
+}
+
+type PlannedChunk<T> = T & {
+  chunkHash: string;
+  chunkOccurrence: number;
+  pointId: string;
+  validFrom: string;
+  introducedInVersion: string;
+};
+
+export interface ChunkUpdatePlan<T> {
+  /** Every chunk in document order */
+  chunks: PlannedChunk<T>[];
+  unchanged: PlannedChunk<T>[];
+  added: PlannedChunk<T>[];
+  /** Current points that are not part of the new version */
+  supersededPointIds: string[];
+}
+
+/**
+ * Work out which chunks of a republished document need new embeddings.
+ * Chunks are matched to the current version by content hash (plus an
+ * occurrence counter for repeated content), so a chunk whose text did not
+ * change keeps its point even when the chunks around it moved. New chunks get
+ * point IDs scoped to this publish so they never overwrite superseded history.
+ */
+export function planChunkUpdates<T extends { text: string }>(
+  chunks: T[],
+  tenant: string,
+  docId: string,
+  existing: StoredChunkRef[],
+  publishedAt: string,
+  version: string
+): ChunkUpdatePlan<T> {
+  const existingByKey = new Map<string, StoredChunkRef>();
+  for (const ref of existing) {
+    if (ref.chunkHash) {
+      existingByKey.set(`${ref.chunkHash}:${ref.chunkOccurrence || 0}`, ref);
+    }
+  }
+
+  const occurrences = new Map<string, number>();
+  const plan: ChunkUpdatePlan<T> = { chunks: [], unchanged: [], added: [], supersededPointIds: [] };
+  const keptPointIds = new Set<string>();
+
+  for (const chunk of chunks) {
+    const chunkHash = computeSha256(chunk.text);
+    const chunkOccurrence = occurrences.get(chunkHash) || 0;
+    occurrences.set(chunkHash, chunkOccurrence + 1);
+
+    const key = `${chunkHash}:${chunkOccurrence}`;
+    const match = existingByKey.get(key);
+
+    if (match) {
+      keptPointIds.add(match.id);
+      const planned = {
+        ...chunk,
+        chunkHash,
+        chunkOccurrence,
+        pointId: match.id,
+        validFrom: match.validFrom || publishedAt,
+        introducedInVersion: match.introducedInVersion || version
+      };
+      plan.chunks.push(planned);
+      plan.unchanged.push(planned);
+    } else {
+      const planned = {
+        ...chunk,
+        chunkHash,
+        chunkOccurrence,
+        pointId: generatePointId(tenant, docId, `${key}:${publishedAt}`),
+        validFrom: publishedAt,
+        introducedInVersion: version
+      };
+      plan.chunks.push(planned);
+      plan.added.push(planned);
+    }
+  }
+
+  plan.supersededPointIds = existing.map(ref => ref.id).filter(id => !keptPointIds.has(id));
+  return plan;
+}
+
+async function fetchCurrentChunks(doc: any, options: PublishProcessorOptions): Promise<StoredChunkRef[]> {
+  const refs: StoredChunkRef[] = [];
+  let offset: string | number | undefined;
+
+  do {
+    const scrollResult = await options.qdrantClient.scroll(options.collectionName, {
+      filter: applyQdrantVersionFilter({
+        must: [
+          { key: 'tenant', match: { value: doc.meta.tenant } },
+          { key: 'docId', match: { value: doc.meta.docId } }
+        ]
+      }),
+      limit: 1000,
+      offset,
+      with_payload: ['chunkHash', 'chunkOccurrence', 'validFrom', 'introducedInVersion'],
+      with_vector: false
+    });
+
+    for (const point of scrollResult.points) {
+      const payload = point.payload || {};
+      refs.push({
+        id: String(point.id),
+        chunkHash: payload.chunkHash as string | undefined,
+        chunkOccurrence: payload.chunkOccurrence as number | undefined,
+        validFrom: payload.validFrom as string | undefined,
+        introducedInVersion: payload.introducedInVersion as string | undefined
+      });
+    }
+    offset = scrollResult.next_page_offset as string | number | undefined;
+  } while (offset !== undefined && offset !== null);
+
+  return refs;
+}
+
+async function fetchChunkContents(pointIds: string[], options: PublishProcessorOptions): Promise<Array<{ id: string; content: string }>> {
+  if (pointIds.length === 0) return [];
+
+  const points = await options.qdrantClient.retrieve(options.collectionName, {
+    ids: pointIds,
+    with_payload: ['content'],
+    with_vector: false
+  });
+
+  return points
+    .filter(point => typeof point.payload?.content === 'string')
+    .map(point => ({ id: String(point.id), content: point.payload!.content as string }));
+}
+
+async function fetchStoredVectors(pointIds: string[], options: PublishProcessorOptions): Promise<Map<string, number[]>> {
+  const vectors = new Map<string, number[]>();
+  if (pointIds.length === 0) return vectors;
+
+  const points = await options.qdrantClient.retrieve(options.collectionName, {
+    ids: pointIds,
+    with_payload: false,
+    with_vector: true
+  });
+
+  for (const point of points) {
+    const vector = getDenseVector(point.vector);
+    if (vector) {
+      vectors.set(String(point.id), vector);
+    }
+  }
+
+  return vectors;
+}
+
+async function publishDocument(
+  doc: any,
+  options: PublishProcessorOptions
+): Promise<{ pointsUpserted: number; chunks: ChunkDiffSummary }> {
+  const {
+    BgeSmallEnV15EmbeddingService,
+    embedMultiVector,
+    getLateInteractionConfig,
+    getMultiVectorCollectionName,
+    encodeBM25Document,
+    getSparseVectorConfig,
+    updateTermStats,
+    SPARSE_VECTOR_NAME,
+    buildParentUnits,
+    getParentKey,
+    getParentCollectionName,
+    getParentRetrievalConfig
+  } = await import('@cw-rag-core/retrieval');
+  const parentRetrieval = getParentRetrievalConfig();
+
   // TOKEN-AWARE CHUNKING - VERY CONSERVATIVE for structured content (tables, etc.)
-  const maxTokensPerChunk = 350; // Extra conservative limit for structured content like tables
+  // With parent retrieval, small child chunks are indexed and their parents carry the context.
+  const maxTokensPerChunk = parentRetrieval.enabled
+    ? parentRetrieval.childMaxTokens
+    : 350; // Extra conservative limit for structured content like tables
   const chunks = await createTokenAwareChunks(doc, maxTokensPerChunk);
 
+  // Diff against the current version of this document and reuse its vectors.
+  // Chunks that are no longer part of the document are kept as superseded history.
+  const publishedAt = new Date().toISOString();
+  const version = doc.meta.version || '1';
+  const currentChunks = await fetchCurrentChunks(doc, options);
+  const plan = planChunkUpdates(chunks, doc.meta.tenant, doc.meta.docId, currentChunks, publishedAt, version);
+  const storedVectors = await fetchStoredVectors(plan.unchanged.map(chunk => chunk.pointId), options);
+  const reusable = new Set(
+    plan.unchanged.filter(chunk => storedVectors.has(chunk.pointId)).map(chunk => chunk.pointId)
+  );
+
   const points = [];
+  const multiVectorPoints = [];
+
+  // Parent records of the sections or pages of this version. Their ids include the content
+  // hash, so superseded chunks keep pointing to the parent text they were published with.
+  const parentPoints = parentRetrieval.enabled
+    ? buildParentUnits(plan.chunks, parentRetrieval.unit).map(unit => ({
+      id: generatePointId(doc.meta.tenant, doc.meta.docId, `parent:${unit.key}:${computeSha256(unit.content)}`),
+      key: unit.key,
+      vector: [0],
+      payload: {
+        tenant: doc.meta.tenant,
+        docId: doc.meta.docId,
+        unit: parentRetrieval.unit,
+        content: unit.content,
+        ...(unit.page !== undefined && { page: unit.page }),
+        ...(unit.headingPath && { headingPath: unit.headingPath })
+      }
+    }))
+    : [];
+  const parentIdByKey = new Map(parentPoints.map(point => [point.key, point.id]));
 
   // Initialize embedding service once (optimization)
-  const { BgeSmallEnV15EmbeddingService } = await import('@cw-rag-core/retrieval');
   const embeddingService = new BgeSmallEnV15EmbeddingService();
-  console.log(`📄 Processing document ${doc.meta.docId} with ${chunks.length} chunks`);
+  const lateInteraction = getLateInteractionConfig();
+  const sparseVectors = getSparseVectorConfig();
+  console.log(
+    `📄 Processing document ${doc.meta.docId} with ${chunks.length} chunks ` +
+    `(${reusable.size} unchanged, ${chunks.length - reusable.size} to embed, ${plan.supersededPointIds.length} superseded)`
+  );
+
+  const hashedChunks = plan.chunks;
 
   // Process chunks sequentially to avoid rate limits
-  for (let i = 0; i < chunks.length; i++) {
-    const chunk = chunks[i];
-    const pointId = generatePointId(doc.meta.tenant, doc.meta.docId, chunk.id);
+  for (let i = 0; i < hashedChunks.length; i++) {
+    const chunk = hashedChunks[i];
+    const pointId = chunk.pointId;
     const payload = createChunkPayload(doc, chunk.id, chunk.sectionPath);
+    const parentId = parentIdByKey.get(getParentKey(chunk, parentRetrieval.unit));
+
+    // Unchanged content keeps its vector; only the payload is refreshed
+    const storedVector = storedVectors.get(pointId);
+    if (storedVector) {
+      points.push({
+        id: pointId,
+        vector: storedVector,
+        payload: buildChunkPayload(payload, chunk, i, hashedChunks.length, publishedAt, parentId)
+      });
+      continue;
+    }
 
     // Generate embedding with token validation
     console.log(`🔄 Generating embedding for chunk ${chunk.id} (${chunk.text.length} chars, ~${chunk.estimatedTokens} tokens)`);
@@ -548,27 +791,116 @@ async function publishDocument(doc: any, maskedText: string, options: PublishRou
     points.push({
       id: pointId,
       vector,
-      payload: {
-        ...payload,
-        content: chunk.text,
-        chunkIndex: i,
-        totalChunks: chunks.length,
-        isTable: chunk.isTable || false
+      payload: buildChunkPayload(payload, chunk, i, hashedChunks.length, publishedAt, parentId)
+    });
+
+    // Sentence vectors for late-interaction scoring; a chunk without them is still searchable
+    if (lateInteraction.enabled) {
+      try {
+        multiVectorPoints.push({
+          id: pointId,
+          vector: await embedMultiVector(chunk.text, text => embeddingService.embed(text), lateInteraction.maxVectorsPerChunk),
+          payload: { tenant: doc.meta.tenant, docId: doc.meta.docId }
+        });
+      } catch (error) {
+        console.warn(`⚠️  Failed to generate sentence vectors for chunk ${chunk.id}: ${(error as Error).message}`);
       }
+    }
+  }
+
+  // Parents go in first so no child points to a missing parent
+  if (parentPoints.length > 0) {
+    await options.qdrantClient.upsert(getParentCollectionName(options.collectionName), {
+      wait: true,
+      points: parentPoints.map(({ id, vector, payload }) => ({ id, vector, payload }))
     });
   }
 
+  // New chunks are added to the tenant's term statistics first so they count towards the
+  // average length; chunks this version supersedes no longer count
+  const termStats = collectionHasSparseVectors(options.collectionName)
+    ? updateTermStats(
+      plan.added.map(chunk => ({ id: chunk.pointId, content: chunk.text })),
+      doc.meta.tenant,
+      await fetchChunkContents(plan.supersededPointIds, options)
+    )
+    : undefined;
+
   // Upsert points to Qdrant using the correct batch format
-  await options.qdrantClient.upsert(options.collectionName, {
-    wait: true,
-    batch: {
-      ids: points.map((p: any) => p.id),
-      vectors: points.map((p: any) => p.vector),
-      payloads: points.map((p: any) => p.payload)
+  if (points.length > 0) {
+    let vectors: any = points.map((p: any) => p.vector);
+
+    // BM25 sparse vectors are rebuilt for every point, since an upsert replaces all of its vectors
+    if (termStats) {
+      vectors = {
+        '': vectors,
+        [SPARSE_VECTOR_NAME]: points.map((p: any) => encodeBM25Document(p.payload.content, termStats, sparseVectors))
+      };
     }
-  });
 
-  return points.length;
+    await options.qdrantClient.upsert(options.collectionName, {
+      wait: true,
+      batch: {
+        ids: points.map((p: any) => p.id),
+        vectors,
+        payloads: points.map((p: any) => p.payload)
+      }
+    });
+  }
+
+  if (multiVectorPoints.length > 0) {
+    await options.qdrantClient.upsert(getMultiVectorCollectionName(options.collectionName), {
+      wait: true,
+      points: multiVectorPoints
+    });
+  }
+
+  // Close the validity of replaced chunks only after the new ones are in place
+  if (plan.supersededPointIds.length > 0) {
+    await options.qdrantClient.setPayload(options.collectionName, {
+      wait: true,
+      points: plan.supersededPointIds,
+      payload: {
+        superseded: true,
+        validTo: publishedAt,
+        supersededInVersion: version
+      }
+    });
+  }
+
+  return {
+    pointsUpserted: points.length,
+    chunks: {
+      unchanged: reusable.size,
+      added: points.length - reusable.size,
+      removed: plan.supersededPointIds.length
+    }
+  };
+}
+
+function buildChunkPayload(
+  payload: ReturnType<typeof createChunkPayload>,
+  chunk: any,
+  chunkIndex: number,
+  totalChunks: number,
+  publishedAt: string,
+  parentId?: string
+) {
+  return {
+    ...payload,
+    content: chunk.text,
+    chunkHash: chunk.chunkHash,
+    chunkOccurrence: chunk.chunkOccurrence,
+    validFrom: chunk.validFrom,
+    introducedInVersion: chunk.introducedInVersion,
+    versionPublishedAt: publishedAt,
+    chunkIndex,
+    totalChunks,
+    isTable: chunk.isTable || false,
+    ...(chunk.page !== undefined && { page: chunk.page }),
+    ...(chunk.headingPath?.length && { headingPath: chunk.headingPath }),
+    ...(parentId && { parentId })
+  };
 }
 
 // TOKEN-AWARE chunking function that respects embedding service limits
@@ -581,6 +913,10 @@ export async function createTokenAwareChunks(doc: any, maxTokensPerChunk: number
 
     if (!text.trim()) continue; // Skip empty blocks
 
+    // Page number and heading path from extraction, carried through to every chunk of the block
+    const page = block.metadata?.page;
+    const headingPath = block.metadata?.headingPath;
+
     // SPECIAL HANDLING: Detect pathological patterns (repeated characters like dashes)
     text = preprocessPathologicalContent(text);
 
@@ -600,14 +936,16 @@ export async function createTokenAwareChunks(doc: any, maxTokensPerChunk: number
         sectionPath: `block_${blockIndex}`,
         index: chunks.length,
         estimatedTokens,
-        isTable
+        isTable,
+        page,
+        headingPath
       });
     } else {
       // Split large block using table-aware strategy
       const blockChunks = isTable
         ? await createTableAwareBlockChunks(text, blockIndex, maxTokensPerChunk)
         : await createTokenAwareBlockChunks(text, blockIndex, maxTokensPerChunk);
-      chunks.push(...blockChunks);
+      chunks.push(...blockChunks.map(chunk => ({ ...chunk, page, headingPath })));
     }
   }
 
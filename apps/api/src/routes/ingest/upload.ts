@@ -3,6 +3,12 @@ import { z } from 'zod';
 import { NormalizedDoc, NormalizedMeta, Block } from '@cw-rag-core/shared';
 import crypto from 'crypto';
 import { AuditLogger } from '../../utils/audit.js';
+import {
+  extractPdfBlocks,
+  extractDocxBlocks,
+  convertHtmlToBlocks,
+  convertMarkdownToBlocks
+} from '../../services/document-extraction.js';
 
 // File upload schema
 const UploadRequestSchema = z.object({
@@ -37,7 +43,8 @@ const UploadResponseSchema = z.object({
         count: z.number()
       })),
       bytes: z.number(),
-      blocksCount: z.number()
+      blocksCount: z.number(),
+      warnings: z.array(z.string()).optional()
     }).optional()
   })),
   summary: z.object({
@@ -51,6 +58,11 @@ const UploadResponseSchema = z.object({
 const ALLOWED_FILE_TYPES = ['pdf', 'docx', 'md', 'html', 'txt'];
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
+interface ConvertedFile {
+  normalizedDoc: NormalizedDoc;
+  warnings: string[];
+}
+
 interface UploadRouteOptions {
   auditLogger: AuditLogger;
   previewHandler: (docs: NormalizedDoc[], request: FastifyRequest) => Promise<any>;
@@ -101,6 +113,7 @@ export async function uploadRoute(fastify: FastifyInstance, options: UploadRoute
                       },
                       bytes: { type: 'number' },
                       blocksCount: { type: 'number' },
+                      warnings: { type: 'array', items: { type: 'string' } },
                     },
                     required: ['wouldPublish', 'findings', 'bytes', 'blocksCount'],
                   },
@@ -138,13 +151,14 @@ export async function uploadRoute(fastify: FastifyInstance, options: UploadRoute
         // Get form fields
         const files: any[] = [];
 
-        // Process the uploaded file
+        // Process the uploaded file (keep the raw buffer for binary formats)
         const buffer = await data.toBuffer();
         const fileContent = buffer.toString('utf-8');
 
         files.push({
           filename: data.filename,
           content: fileContent,
+          buffer,
           mimetype: data.mimetype,
           size: buffer.length
         });
@@ -194,7 +208,7 @@ export async function uploadRoute(fastify: FastifyInstance, options: UploadRoute
             }
 
             // Convert file to NormalizedDoc
-            const normalizedDoc = await convertFileToNormalizedDoc(
+            const { normalizedDoc, warnings } = await convertFileToNormalizedDoc(
               file,
               tenant,
               source,
@@ -235,7 +249,8 @@ export async function uploadRoute(fastify: FastifyInstance, options: UploadRoute
                   wouldPublish: previewResult.wouldPublish,
                   findings: previewResult.findings,
                   bytes: previewResult.bytes,
-                  blocksCount: previewResult.blocksCount
+                  blocksCount: previewResult.blocksCount,
+                  warnings
                 }
               });
             }
@@ -278,21 +293,20 @@ async function convertFileToNormalizedDoc(
   title?: string,
   tags?: string[],
   authors?: string[]
-): Promise<NormalizedDoc> {
+): Promise<ConvertedFile> {
   const extension = getFileExtension(file.filename);
   const docId = generateDocId(file.filename, tenant);
   const timestamp = new Date().toISOString();
 
   let blocks: Block[] = [];
+  let warnings: string[] = [];
 
   switch (extension) {
     case 'md':
-      // Simple markdown parsing - convert to text blocks
       blocks = convertMarkdownToBlocks(file.content);
       break;
 
     case 'html':
-      // Simple HTML parsing - strip tags for now
       blocks = convertHtmlToBlocks(file.content);
       break;
 
@@ -301,13 +315,11 @@ async function convertFileToNormalizedDoc(
       break;
 
     case 'pdf':
+      ({ blocks, warnings } = await extractPdfBlocks(file.buffer));
+      break;
+
     case 'docx':
-      // For PDF/DOCX, we'd need specialized libraries
-      // For now, treat as plain text (in production, use pdf-parse, mammoth, etc.)
-      blocks = [{
-        type: 'text',
-        text: `[${extension.toUpperCase()} content - specialized parsing required]\n${file.content.substring(0, 1000)}...`
-      }];
+      ({ blocks, warnings } = await extractDocxBlocks(file.buffer));
       break;
 
     default:
@@ -332,43 +344,7 @@ async function convertFileToNormalizedDoc(
     timestamp,
   };
 
-  return { meta, blocks };
-}
-
-function convertHtmlToBlocks(html: string): Block[] {
-  // Simple HTML to blocks conversion - strip HTML tags for now
-  const text = html.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim();
-
-  // Split by double newlines to create separate blocks
-  const paragraphs = text.split('\n\n').filter((p: string) => p.trim());
-
-  return paragraphs.map((paragraph: string) => ({
-    type: 'text' as const,
-    text: paragraph.trim(),
-    html: undefined
-  }));
-}
-
-function convertMarkdownToBlocks(markdown: string): Block[] {
-  // Simple markdown to blocks conversion
-  // Split by double newlines and clean up markdown syntax
-  const paragraphs = markdown.split('\n\n').filter((p: string) => p.trim());
-
-  return paragraphs.map((paragraph: string) => {
-    // Basic markdown cleanup - remove simple formatting
-    const cleanText = paragraph
-      .replace(/^#+\s+/gm, '') // Remove headers
-      .replace(/\*\*(.*?)\*\*/g, '$1') // Remove bold
-      .replace(/\*(.*?)\*/g, '$1') // Remove italic
-      .replace(/`(.*?)`/g, '$1') // Remove code
-      .trim();
-
-    return {
-      type: 'text' as const,
-      text: cleanText,
-      html: undefined
-    };
-  });
+  return { normalizedDoc: { meta, blocks }, warnings };
 }
 
 function generateDocId(filename: string, tenant: string): string {
@@ -0,0 +1,119 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { UserContext, getUserPrivilegeLevel } from '@cw-rag-core/shared';
+import { PseudonymVaultError } from '@cw-rag-core/ingestion-sdk';
+import { createAuditLogger } from '../utils/audit.js';
+import { getPIIServiceConfig, getPseudonymVault } from '../services/pii.js';
+import { createUserContextHook } from '../middleware/user-context.js';
+import { withTenantGroupHierarchy } from '../services/group-hierarchy.js';
+
+interface ReidentifyRequestBody {
+  text: string;
+  userContext: UserContext;
+  /** Optional reference (e.g. answer or document id) recorded in the audit log */
+  reference?: string;
+}
+
+const errorSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' }
+  }
+};
+
+export async function piiRoute(fastify: FastifyInstance) {
+  // Identity from verified bearer tokens (AUTH_JWT_ENABLED)
+  fastify.addHook('preValidation', createUserContextHook({ logger: fastify.log }));
+
+  const auditLogger = createAuditLogger(fastify.log);
+
+  // POST /pii/reidentify - Restore pseudonymized values for privileged users
+  fastify.post('/pii/reidentify', {
+    schema: {
+      body: {
+        type: 'object',
+        properties: {
+          text: { type: 'string', maxLength: 100000 },
+          userContext: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              groupIds: { type: 'array', items: { type: 'string' } },
+              tenantId: { type: 'string' }
+            },
+            required: ['id', 'groupIds', 'tenantId']
+          },
+          reference: { type: 'string' }
+        },
+        required: ['text', 'userContext']
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            text: { type: 'string' },
+            restored: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  type: { type: 'string' },
+                  count: { type: 'number' }
+                }
+              }
+            }
+          }
+        },
+        403: errorSchema,
+        500: errorSchema,
+        503: errorSchema
+      }
+    },
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      const { text, reference } = request.body as ReidentifyRequestBody;
+      const { id, tenantId, groupIds } = request.authenticatedUser || (request.body as ReidentifyRequestBody).userContext;
+      // Privilege levels only come from the tenant's hierarchy, never from a hierarchy in the request
+      const userContext = await withTenantGroupHierarchy({ id, tenantId, groupIds });
+      const userAgent = request.headers['user-agent'];
+
+      const vault = getPseudonymVault();
+      if (!vault) {
+        return reply.status(503).send({
+          error: 'Service Unavailable',
+          message: 'Pseudonymization vault is not configured.'
+        });
+      }
+
+      const { reidentifyMinLevel } = getPIIServiceConfig();
+      if (!userContext.groupHierarchy || getUserPrivilegeLevel(userContext) < reidentifyMinLevel) {
+        auditLogger.logReidentify(userContext.tenantId, userContext.id, reference, [], false, request.ip, userAgent);
+        return reply.status(403).send({
+          error: 'Forbidden',
+          message: 'User is not authorized to re-identify pseudonymized values.'
+        });
+      }
+
+      try {
+        const result = vault.reidentify(userContext.tenantId, text);
+        auditLogger.logReidentify(
+          userContext.tenantId,
+          userContext.id,
+          reference,
+          result.restored,
+          true,
+          request.ip,
+          userAgent
+        );
+        return reply.status(200).send(result);
+      } catch (error) {
+        fastify.log.error(error, 'Failed to re-identify pseudonymized values');
+        return reply.status(500).send({
+          error: 'Internal Server Error',
+          message: error instanceof PseudonymVaultError
+            ? error.message
+            : 'Failed to re-identify pseudonymized values.'
+        });
+      }
+    }
+  });
+}
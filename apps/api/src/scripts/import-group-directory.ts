@@ -0,0 +1,34 @@
+import * as fs from 'fs/promises';
+import { GroupDirectoryFormat } from '../services/group-directory.js';
+import { importTenantGroupDirectory } from '../services/group-hierarchy.js';
+
+/**
+ * Import a tenant's group directory from a SCIM JSON or LDIF export:
+ *
+ *   npx tsx src/scripts/import-group-directory.ts <tenantId> <file> [scim|ldif]
+ *
+ * The format defaults to the file extension (.json is SCIM). Running servers pick
+ * up the new directory on the next request.
+ */
+async function main() {
+  const [tenantId, file, formatArg] = process.argv.slice(2);
+  if (!tenantId || !file) {
+    console.error('Usage: import-group-directory <tenantId> <file> [scim|ldif]');
+    process.exit(1);
+  }
+
+  const format: GroupDirectoryFormat = formatArg === 'scim' || formatArg === 'ldif'
+    ? formatArg
+    : file.toLowerCase().endsWith('.json') ? 'scim' : 'ldif';
+
+  const directory = await importTenantGroupDirectory(tenantId, await fs.readFile(file, 'utf-8'), format);
+  const groups = Object.values(directory.groups);
+  const users = new Set(groups.flatMap(group => group.users));
+
+  console.log(`Imported ${groups.length} groups with ${users.size} users for tenant ${tenantId} (${format})`);
+}
+
+main().catch(error => {
+  console.error(`Import failed: ${error.message}`);
+  process.exit(1);
+});
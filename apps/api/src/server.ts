@@ -11,8 +11,13 @@ import { ingestNormalizeRoute } from './routes/ingestNormalize.js';
 import { askRoute } from './routes/ask.js';
 import { askStreamRoute } from './routes/ask-stream.js';
 import { documentFetchRoute } from './routes/document-fetch.js'; // Added import for new route
+import { piiRoute } from './routes/pii.js';
 import { spacesRoute } from './routes/spaces.js';
+import { conversationsRoute } from './routes/conversations.js';
 import { ingestRoutes } from './routes/ingest/index.js';
+import { ConversationStore, getConversationStoreConfig } from './services/conversations.js';
+import { SemanticAnswerCache } from './services/answer-cache.js';
+import { warmUpReranker } from './services/reranker.js';
 import { DOCUMENT_VECTOR_DIMENSION } from '@cw-rag-core/shared';
 import { BgeSmallEnV15EmbeddingService } from '@cw-rag-core/retrieval';
 import { bootstrapQdrant as comprehensiveBootstrapQdrant, QDRANT_COLLECTION_NAME } from './services/qdrant.js';
@@ -150,25 +155,32 @@ async function startServer() {
       callback(new Error('CORS: Origin not allowed'), false);
     },
     credentials: true,
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'x-ingest-token', 'x-tenant']
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'x-ingest-token', 'x-tenant', 'x-user-id', 'x-user-groups']
   });
 
   // Note: Rate limiting is handled per-route to avoid conflicts
   // Ingest routes: 60 req/min, Ask routes: have their own limits
 
+  const conversationStore = new ConversationStore(getConversationStoreConfig());
+  // Shared by /ask and the routes that change documents, which invalidate cached answers
+  const answerCache = new SemanticAnswerCache();
+
   // Register routes
   server.register(healthzRoute);
   server.register(readyzRoute, { qdrantClient, collectionName: QDRANT_COLLECTION_NAME });
   server.register(ingestNormalizeRoute, { qdrantClient, collectionName: QDRANT_COLLECTION_NAME, embeddingService });
-  server.register(askRoute, { qdrantClient, collectionName: QDRANT_COLLECTION_NAME, embeddingService });
-  server.register(askStreamRoute, { qdrantClient, collectionName: QDRANT_COLLECTION_NAME, embeddingService });
-  server.register(documentFetchRoute, { qdrantClient, collectionName: QDRANT_COLLECTION_NAME }); // Register new document fetch route
+  server.register(askRoute, { qdrantClient, collectionName: QDRANT_COLLECTION_NAME, embeddingService, conversationStore, answerCache });
+  server.register(askStreamRoute, { qdrantClient, collectionName: QDRANT_COLLECTION_NAME, embeddingService, conversationStore });
+  server.register(documentFetchRoute, { qdrantClient, collectionName: QDRANT_COLLECTION_NAME, answerCache }); // Register new document fetch route
+  server.register(conversationsRoute, { conversationStore, qdrantClient, collectionName: QDRANT_COLLECTION_NAME });
   server.register(spacesRoute);
+  server.register(piiRoute);
   server.register(ingestRoutes, {
     qdrantClient,
     collectionName: QDRANT_COLLECTION_NAME,
-    ingestToken: INGEST_TOKEN
+    ingestToken: INGEST_TOKEN,
+    answerCache
   });
 
   // Security event logging
@@ -220,6 +232,7 @@ async function startServer() {
     server.log.info('Starting comprehensive Qdrant bootstrap process...');
     await comprehensiveBootstrapQdrant(qdrantClient, server.log);
     server.log.info('Comprehensive Qdrant bootstrap completed successfully.');
+    await warmUpReranker(server.log);
     await server.listen({ port: PORT, host: '0.0.0.0' });
     logger.info(`Secure server listening on http://0.0.0.0:${PORT}`, {
       event: 'server_started',
@@ -0,0 +1,241 @@
+import crypto from 'crypto';
+import { ACL_DENY_PREFIX, AskResponse, UserContext, getEffectiveGroupIds } from '@cw-rag-core/shared';
+
+export interface AnswerCacheConfig {
+  /** Off unless ANSWER_CACHE_ENABLED=on */
+  enabled: boolean;
+  /** Minimum cosine similarity between question embeddings to reuse an answer */
+  similarityThreshold: number;
+  /** Per-tenant overrides of the similarity threshold */
+  tenantThresholds: Record<string, number>;
+  ttlMs: number;
+  maxEntries: number;
+}
+
+export function getAnswerCacheConfig(): AnswerCacheConfig {
+  let tenantThresholds: Record<string, number> = {};
+  try {
+    tenantThresholds = JSON.parse(process.env.ANSWER_CACHE_TENANT_THRESHOLDS || '{}');
+  } catch {
+    console.warn('Ignoring invalid ANSWER_CACHE_TENANT_THRESHOLDS, expected a JSON object of tenant to threshold');
+  }
+
+  return {
+    enabled: process.env.ANSWER_CACHE_ENABLED === 'on',
+    similarityThreshold: parseFloat(process.env.ANSWER_CACHE_SIMILARITY_THRESHOLD || '0.95'),
+    tenantThresholds,
+    ttlMs: parseInt(process.env.ANSWER_CACHE_TTL_MS || '3600000', 10),
+    maxEntries: parseInt(process.env.ANSWER_CACHE_MAX_ENTRIES || '1000', 10)
+  };
+}
+
+const REQUEST_FIELDS = ['queryId', 'conversationId', 'standaloneQuery', 'inferredFilter', 'metrics', 'debug', 'cached'] as const;
+
+/**
+ * Answer as cached; request-specific fields (queryId, conversation, metrics, debug) are set per hit
+ */
+export type CachedAskResponse = Omit<AskResponse, typeof REQUEST_FIELDS[number]>;
+
+export function toCachedAskResponse(response: AskResponse): CachedAskResponse {
+  const cached: Partial<AskResponse> = { ...response };
+  for (const field of REQUEST_FIELDS) {
+    delete cached[field];
+  }
+  return cached as CachedAskResponse;
+}
+
+export interface AnswerCacheHit {
+  response: CachedAskResponse;
+  similarity: number;
+  queryId: string;
+  cachedAt: string;
+}
+
+interface AnswerCacheEntry {
+  queryId: string;
+  tenantId: string;
+  partition: string;
+  embedding: number[];
+  response: CachedAskResponse;
+  /** Documents the answer was generated from; republishing or deleting one drops the entry */
+  docIds: Set<string>;
+  cachedAt: number;
+}
+
+/**
+ * Reuses full /ask answers for near-duplicate questions. /ask/stream always generates
+ * its answer and neither reads nor fills the cache.
+ *
+ * Entries are partitioned by tenant, the effective ACL entries and access rule
+ * attributes of the user and the request options that change the answer, so an answer
+ * is only reused for users who could retrieve exactly the same documents. Answers that
+ * rely on documents shared with the user personally, or with deny entries, are only
+ * reused for that user.
+ */
+export class SemanticAnswerCache {
+  // Insertion order doubles as LRU order; hits are moved to the end
+  private entries = new Map<string, AnswerCacheEntry>();
+
+  constructor(private config: AnswerCacheConfig = getAnswerCacheConfig()) {}
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  getTenantThreshold(tenantId: string): number {
+    return this.config.tenantThresholds[tenantId] ?? this.config.similarityThreshold;
+  }
+
+  updateTenantConfig(tenantId: string, config: { similarityThreshold: number }): void {
+    this.config.tenantThresholds[tenantId] = config.similarityThreshold;
+  }
+
+  /**
+   * Find the most similar cached answer above the tenant's threshold
+   */
+  lookup(userContext: UserContext, embedding: number[], requestOptions: Record<string, unknown>): AnswerCacheHit | null {
+    if (!this.config.enabled) {
+      return null;
+    }
+
+    const partitions = new Set([
+      this.partitionKey(userContext, requestOptions, false),
+      this.partitionKey(userContext, requestOptions, true)
+    ]);
+    const threshold = this.getTenantThreshold(userContext.tenantId);
+    const now = Date.now();
+
+    let best: { entry: AnswerCacheEntry; similarity: number } | null = null;
+    for (const entry of Array.from(this.entries.values())) {
+      if (now - entry.cachedAt >= this.config.ttlMs) {
+        this.entries.delete(entry.queryId);
+        continue;
+      }
+      if (!partitions.has(entry.partition)) {
+        continue;
+      }
+
+      const similarity = cosineSimilarity(embedding, entry.embedding);
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = { entry, similarity };
+      }
+    }
+
+    if (!best) {
+      return null;
+    }
+
+    this.entries.delete(best.entry.queryId);
+    this.entries.set(best.entry.queryId, best.entry);
+
+    return {
+      response: best.entry.response,
+      similarity: best.similarity,
+      queryId: best.entry.queryId,
+      cachedAt: new Date(best.entry.cachedAt).toISOString()
+    };
+  }
+
+  /**
+   * Cache an answer. Only answerable responses should be cached.
+   */
+  store(
+    userContext: UserContext,
+    embedding: number[],
+    requestOptions: Record<string, unknown>,
+    queryId: string,
+    response: CachedAskResponse
+  ): void {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    const groupAcl = new Set([...getEffectiveGroupIds(userContext), 'public']);
+    const documents = response.retrievedDocuments;
+    // Deny entries may name users, which other users with the same groups are not
+    const userScoped = documents.some(doc => {
+      const acl = doc.document.metadata.acl || [];
+      return !acl.some(entry => groupAcl.has(entry)) || acl.some(entry => entry.startsWith(ACL_DENY_PREFIX));
+    });
+
+    const docIds = new Set([
+      ...documents.map(doc => doc.document.metadata.docId),
+      ...(response.citations || []).map(citation => citation.docId)
+    ].filter((docId): docId is string => Boolean(docId)));
+
+    while (this.entries.size >= this.config.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+
+    this.entries.set(queryId, {
+      queryId,
+      tenantId: userContext.tenantId,
+      partition: this.partitionKey(userContext, requestOptions, userScoped),
+      embedding,
+      response,
+      docIds,
+      cachedAt: Date.now()
+    });
+  }
+
+  /**
+   * Drop answers generated from any of the documents, e.g. after they were republished or deleted
+   * @param tenantId limit to one tenant; all tenants when omitted
+   * @returns number of dropped answers
+   */
+  invalidateDocuments(docIds: string[], tenantId?: string): number {
+    let dropped = 0;
+    for (const entry of Array.from(this.entries.values())) {
+      if (tenantId && entry.tenantId !== tenantId) {
+        continue;
+      }
+      if (docIds.some(docId => entry.docIds.has(docId))) {
+        this.entries.delete(entry.queryId);
+        dropped++;
+      }
+    }
+    return dropped;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  private partitionKey(userContext: UserContext, requestOptions: Record<string, unknown>, userScoped: boolean): string {
+    const acl = Array.from(new Set(getEffectiveGroupIds(userContext))).sort();
+    const accessRules = (userContext.accessRules || []).map(rule => ({
+      ...rule,
+      value: userContext.attributes?.[rule.userAttribute]
+    }));
+    const key = JSON.stringify({
+      acl,
+      accessRules,
+      user: userScoped ? userContext.id : undefined,
+      language: userContext.language,
+      options: requestOptions
+    });
+    return `${userContext.tenantId}:${crypto.createHash('sha256').update(key).digest('hex')}`;
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -61,6 +61,7 @@ export class CitationServiceImpl implements CitationService {
           url: payload.url,
           filepath: payload.filepath,
           authors: Array.isArray(payload.authors) ? payload.authors : undefined,
+          headingPath: Array.isArray(payload.headingPath) ? payload.headingPath : undefined,
           freshness
         };
 
@@ -0,0 +1,362 @@
+import crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ConversationTurn } from '@cw-rag-core/shared';
+
+/**
+ * A stored turn; questions and answers are kept as returned to the user,
+ * i.e. after PII scrubbing.
+ */
+export interface StoredConversationTurn extends ConversationTurn {
+  queryId: string;
+  createdAt: string;
+  /** Citations of an answer, as returned with it */
+  citations?: Array<Record<string, unknown>>;
+  /** Documents the answer was generated from; access is re-checked when shared */
+  sourceDocIds?: string[];
+}
+
+export interface Conversation {
+  id: string;
+  tenantId: string;
+  userId: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  turns: StoredConversationTurn[];
+  /** Token of the read-only share link, while the conversation is shared */
+  shareToken?: string;
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  turnCount: number;
+  shared: boolean;
+}
+
+export interface ConversationListOptions {
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Share link record, stored by token so a link resolves without knowing the tenant
+ */
+interface ConversationShare {
+  token: string;
+  tenantId: string;
+  conversationId: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface ConversationStoreOptions {
+  /** Directory where conversations are stored (`<dir>/<tenantId>/<conversationId>.json`) */
+  dir: string;
+  /** Number of most recent turns used as history for a new question */
+  maxHistoryTurns: number;
+}
+
+const SAFE_ID = /^[A-Za-z0-9_-]+$/;
+const TITLE_LENGTH = 80;
+// Not a valid tenant id, so it cannot collide with a tenant directory
+const SHARES_DIR = '.shares';
+
+export function getConversationStoreConfig(): ConversationStoreOptions {
+  return {
+    dir: process.env.CONVERSATIONS_DIR || './data/conversations',
+    maxHistoryTurns: parseInt(process.env.CONVERSATION_HISTORY_TURNS || '6', 10)
+  };
+}
+
+/**
+ * File-backed store of conversations with the assistant, one file per conversation.
+ */
+export class ConversationStore {
+  private writes = new Map<string, Promise<unknown>>();
+
+  constructor(private options: ConversationStoreOptions) {}
+
+  /**
+   * Start a conversation for a user
+   */
+  async create(tenantId: string, userId: string): Promise<Conversation> {
+    const now = new Date().toISOString();
+    const conversation: Conversation = {
+      id: crypto.randomUUID(),
+      tenantId,
+      userId,
+      title: '',
+      createdAt: now,
+      updatedAt: now,
+      turns: []
+    };
+
+    await this.save(conversation);
+    return conversation;
+  }
+
+  /**
+   * Get a conversation of a tenant, or null if it does not exist
+   */
+  async get(tenantId: string, conversationId: string): Promise<Conversation | null> {
+    const filePath = this.filePath(tenantId, conversationId);
+    if (!filePath) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8')) as Conversation;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get a conversation owned by a user, or null if it does not exist or belongs to someone else
+   */
+  async getForUser(tenantId: string, userId: string, conversationId: string): Promise<Conversation | null> {
+    const conversation = await this.get(tenantId, conversationId);
+    return conversation && conversation.userId === userId ? conversation : null;
+  }
+
+  /**
+   * List a user's conversations, most recently updated first
+   */
+  async list(
+    tenantId: string,
+    userId: string,
+    options: ConversationListOptions = {}
+  ): Promise<{ conversations: ConversationSummary[]; total: number }> {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(100, Math.max(1, options.limit || 20));
+
+    if (!SAFE_ID.test(tenantId)) {
+      return { conversations: [], total: 0 };
+    }
+
+    let files: string[];
+    try {
+      files = await fs.readdir(path.join(this.options.dir, tenantId));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { conversations: [], total: 0 };
+      }
+      throw error;
+    }
+
+    const conversations: Conversation[] = [];
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      const conversation = await this.get(tenantId, path.basename(file, '.json'));
+      if (conversation && conversation.userId === userId) {
+        conversations.push(conversation);
+      }
+    }
+    conversations.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+    return {
+      conversations: conversations.slice((page - 1) * limit, page * limit).map(toConversationSummary),
+      total: conversations.length
+    };
+  }
+
+  /**
+   * Delete a conversation and its share link
+   * @returns false if the conversation does not exist
+   */
+  async delete(tenantId: string, conversationId: string): Promise<boolean> {
+    return this.serialize(conversationId, async () => {
+      const conversation = await this.get(tenantId, conversationId);
+      if (!conversation) {
+        return false;
+      }
+
+      if (conversation.shareToken) {
+        await this.removeShare(conversation.shareToken);
+      }
+      await fs.rm(this.filePath(tenantId, conversationId)!, { force: true });
+      return true;
+    });
+  }
+
+  /**
+   * Create a read-only share link for a conversation, or return the existing one
+   * @returns the share token, or null if the conversation does not exist
+   */
+  async share(tenantId: string, conversationId: string, userId: string): Promise<string | null> {
+    return this.serialize(conversationId, async () => {
+      const conversation = await this.get(tenantId, conversationId);
+      if (!conversation) {
+        return null;
+      }
+      if (conversation.shareToken) {
+        return conversation.shareToken;
+      }
+
+      const share: ConversationShare = {
+        token: crypto.randomBytes(24).toString('base64url'),
+        tenantId,
+        conversationId,
+        createdBy: userId,
+        createdAt: new Date().toISOString()
+      };
+      await fs.mkdir(path.join(this.options.dir, SHARES_DIR), { recursive: true });
+      await fs.writeFile(this.sharePath(share.token)!, JSON.stringify(share), 'utf-8');
+
+      conversation.shareToken = share.token;
+      await this.save(conversation);
+      return share.token;
+    });
+  }
+
+  /**
+   * Revoke the share link of a conversation
+   * @returns false if the conversation does not exist
+   */
+  async unshare(tenantId: string, conversationId: string): Promise<boolean> {
+    return this.serialize(conversationId, async () => {
+      const conversation = await this.get(tenantId, conversationId);
+      if (!conversation) {
+        return false;
+      }
+      if (conversation.shareToken) {
+        await this.removeShare(conversation.shareToken);
+        delete conversation.shareToken;
+        await this.save(conversation);
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Resolve a share link to its conversation, or null if the link is unknown or revoked
+   */
+  async getShared(token: string): Promise<Conversation | null> {
+    const sharePath = this.sharePath(token);
+    if (!sharePath) {
+      return null;
+    }
+
+    let share: ConversationShare;
+    try {
+      share = JSON.parse(await fs.readFile(sharePath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    const conversation = await this.get(share.tenantId, share.conversationId);
+    return conversation && conversation.shareToken === token ? conversation : null;
+  }
+
+  /**
+   * Append turns to a conversation. The first question becomes the title.
+   */
+  async appendTurns(
+    tenantId: string,
+    conversationId: string,
+    turns: StoredConversationTurn[]
+  ): Promise<Conversation | null> {
+    return this.serialize(conversationId, async () => {
+      const conversation = await this.get(tenantId, conversationId);
+      if (!conversation) {
+        return null;
+      }
+
+      conversation.turns.push(...turns);
+      conversation.updatedAt = new Date().toISOString();
+      if (!conversation.title) {
+        const question = turns.find(turn => turn.role === 'user');
+        conversation.title = question ? toTitle(question.content) : '';
+      }
+
+      await this.save(conversation);
+      return conversation;
+    });
+  }
+
+  /**
+   * Most recent turns of a conversation, used as history for the next question
+   */
+  recentTurns(conversation: Conversation): ConversationTurn[] {
+    return conversation.turns
+      .slice(-this.options.maxHistoryTurns)
+      .map(({ role, content }) => ({ role, content }));
+  }
+
+  private async save(conversation: Conversation): Promise<void> {
+    const filePath = this.filePath(conversation.tenantId, conversation.id);
+    if (!filePath) {
+      throw new Error(`Invalid tenant id: ${conversation.tenantId}`);
+    }
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(conversation), 'utf-8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  /**
+   * Run updates of the same conversation one after another
+   */
+  private serialize<T>(conversationId: string, update: () => Promise<T>): Promise<T> {
+    const previous = this.writes.get(conversationId) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(update);
+    this.writes.set(conversationId, next);
+    next.finally(() => {
+      if (this.writes.get(conversationId) === next) {
+        this.writes.delete(conversationId);
+      }
+    }).catch(() => undefined);
+    return next;
+  }
+
+  private async removeShare(token: string): Promise<void> {
+    const sharePath = this.sharePath(token);
+    if (sharePath) {
+      await fs.rm(sharePath, { force: true });
+    }
+  }
+
+  private sharePath(token: string): string | null {
+    return SAFE_ID.test(token) ? path.join(this.options.dir, SHARES_DIR, `${token}.json`) : null;
+  }
+
+  private filePath(tenantId: string, conversationId: string): string | null {
+    if (!SAFE_ID.test(tenantId) || !SAFE_ID.test(conversationId)) {
+      return null;
+    }
+    return path.join(this.options.dir, tenantId, `${conversationId}.json`);
+  }
+}
+
+export function toConversationSummary(conversation: Conversation): ConversationSummary {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    turnCount: conversation.turns.length,
+    shared: Boolean(conversation.shareToken)
+  };
+}
+
+/**
+ * Unique ids of the documents an answer was generated from
+ */
+export function toSourceDocIds(documents: Array<{ document: { metadata: { docId: string } } }>): string[] {
+  return Array.from(new Set(documents.map(doc => doc.document.metadata.docId).filter(Boolean)));
+}
+
+function toTitle(question: string): string {
+  const title = question.replace(/\s+/g, ' ').trim();
+  return title.length > TITLE_LENGTH ? `${title.slice(0, TITLE_LENGTH - 1)}…` : title;
+}
@@ -0,0 +1,412 @@
+import { Block } from '@cw-rag-core/shared';
+import { parse, HTMLElement, Node, NodeType } from 'node-html-parser';
+import { marked } from 'marked';
+
+export interface ExtractionResult {
+  blocks: Block[];
+  warnings: string[];
+}
+
+export class DocumentExtractionError extends Error {
+  constructor(
+    message: string,
+    public format: 'pdf' | 'docx',
+    public originalError?: Error
+  ) {
+    super(message);
+    this.name = 'DocumentExtractionError';
+  }
+}
+
+/**
+ * Extract text and table blocks from a PDF buffer.
+ * Every block carries the 1-based page number it was found on. Lines matching an
+ * entry of the PDF outline (bookmarks) become heading blocks with the entry's depth
+ * as level; PDFs without an outline get no headings.
+ */
+export async function extractPdfBlocks(buffer: Buffer): Promise<ExtractionResult> {
+  const { PDFParse } = await import('pdf-parse');
+  const parser = new PDFParse({ data: buffer });
+  const warnings: string[] = [];
+
+  try {
+    let textResult;
+    try {
+      textResult = await parser.getText({ cellSeparator: '\t' });
+    } catch (error) {
+      throw new DocumentExtractionError(
+        `Failed to parse PDF: ${(error as Error).message}`,
+        'pdf',
+        error as Error
+      );
+    }
+
+    // Table detection is best-effort; the page text is still usable without it
+    const tablesByPage = new Map<number, string[][][]>();
+    try {
+      const tableResult = await parser.getTable();
+      for (const page of tableResult.pages) {
+        if (page.tables.length > 0) {
+          tablesByPage.set(page.num, page.tables);
+        }
+      }
+    } catch (error) {
+      warnings.push(`Table detection failed: ${(error as Error).message}`);
+    }
+
+    // Headings are only known from the outline; the text itself carries no structure
+    let outline: PdfOutlineItem[] | null | undefined;
+    try {
+      outline = (await parser.getInfo()).outline;
+    } catch (error) {
+      warnings.push(`Outline detection failed: ${(error as Error).message}`);
+    }
+    const headingLevels = getOutlineHeadingLevels(outline);
+    if (outline !== undefined && headingLevels.size === 0) {
+      warnings.push('PDF has no outline (bookmarks), so headings are not detected');
+    }
+
+    const pages: PdfPageContent[] = [];
+    const emptyPages: number[] = [];
+
+    for (const page of textResult.pages) {
+      const tables = tablesByPage.get(page.num) || [];
+      const tableRowKeys = new Set(
+        tables.flatMap(table => table.map(row => rowKey(row))).filter(Boolean)
+      );
+
+      // Drop lines that are already represented by a detected table
+      const lines = page.text
+        .split('\n')
+        .filter(line => {
+          const key = rowKey(line.split('\t'));
+          return !key || !tableRowKeys.has(key);
+        });
+
+      const paragraphs = splitParagraphs(lines.join('\n').replace(/\t/g, ' '));
+
+      if (paragraphs.length === 0 && tables.length === 0) {
+        emptyPages.push(page.num);
+        continue;
+      }
+
+      pages.push({
+        num: page.num,
+        paragraphs,
+        tables: tables.map(table => tableRowsToMarkdown(table)).filter(Boolean)
+      });
+    }
+
+    const blocks = convertPdfPagesToBlocks(pages, headingLevels);
+
+    if (blocks.length === 0) {
+      warnings.push('No extractable text found in PDF (the file may be scanned or image-only)');
+    } else if (emptyPages.length > 0) {
+      warnings.push(`No extractable text on page(s) ${emptyPages.join(', ')}`);
+    }
+
+    return { blocks, warnings };
+  } finally {
+    await parser.destroy();
+  }
+}
+
+/** Entry of a PDF outline, as returned by pdf-parse's getInfo() */
+export interface PdfOutlineItem {
+  title: string;
+  items?: PdfOutlineItem[];
+}
+
+/** Paragraphs and markdown tables of one PDF page */
+export interface PdfPageContent {
+  num: number;
+  paragraphs: string[];
+  tables: string[];
+}
+
+/**
+ * Heading level of each outline title (normalized): top-level entries are level 1,
+ * nested entries one level deeper, up to 6. A title listed twice keeps its first level.
+ */
+export function getOutlineHeadingLevels(outline: PdfOutlineItem[] | null | undefined, level = 1): Map<string, number> {
+  const levels = new Map<string, number>();
+  for (const item of outline || []) {
+    const title = normalizeWhitespace(item.title || '');
+    if (title && !levels.has(title)) {
+      levels.set(title, Math.min(level, 6));
+    }
+    for (const [nestedTitle, nestedLevel] of getOutlineHeadingLevels(item.items, level + 1)) {
+      if (!levels.has(nestedTitle)) {
+        levels.set(nestedTitle, nestedLevel);
+      }
+    }
+  }
+  return levels;
+}
+
+/**
+ * Convert PDF pages into blocks. Lines that are outline titles become heading blocks,
+ * splitting the paragraph they are in; the heading path carries across pages.
+ */
+export function convertPdfPagesToBlocks(pages: PdfPageContent[], headingLevels: Map<string, number>): Block[] {
+  const blocks: Block[] = [];
+  let headings: string[] = [];
+
+  const pageMetadata = (page: number) => ({
+    metadata: { page, ...(headings.length > 0 && { headingPath: [...headings] }) }
+  });
+
+  for (const page of pages) {
+    for (const paragraph of page.paragraphs) {
+      let lines: string[] = [];
+      const flush = () => {
+        if (lines.length > 0) {
+          blocks.push({ type: 'text', text: lines.join('\n'), ...pageMetadata(page.num) });
+          lines = [];
+        }
+      };
+
+      for (const line of paragraph.split('\n')) {
+        const level = headingLevels.get(normalizeWhitespace(line));
+        if (level === undefined) {
+          lines.push(line);
+          continue;
+        }
+        flush();
+        headings = [...headings.slice(0, level - 1), line];
+        blocks.push({
+          type: 'text',
+          text: line,
+          metadata: { page: page.num, headingLevel: level, headingPath: [...headings] }
+        });
+      }
+      flush();
+    }
+
+    for (const table of page.tables) {
+      blocks.push({ type: 'table', text: table, ...pageMetadata(page.num) });
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Extract text and table blocks from a DOCX buffer.
+ * The document is rendered to HTML by mammoth and then converted like any
+ * other HTML, so headings and tables are preserved.
+ */
+export async function extractDocxBlocks(buffer: Buffer): Promise<ExtractionResult> {
+  const mammoth = (await import('mammoth')).default;
+
+  let result;
+  try {
+    result = await mammoth.convertToHtml({ buffer });
+  } catch (error) {
+    throw new DocumentExtractionError(
+      `Failed to parse DOCX: ${(error as Error).message}`,
+      'docx',
+      error as Error
+    );
+  }
+
+  const warnings = result.messages.map(message => message.message);
+  const blocks = convertHtmlToBlocks(result.value);
+
+  if (blocks.length === 0) {
+    warnings.push('No extractable text found in DOCX');
+  }
+
+  return { blocks, warnings };
+}
+
+/**
+ * Convert HTML into structure-preserving blocks.
+ * Headings become their own blocks tagged with their level, tables and <pre>
+ * elements become table and code blocks, and consecutive paragraphs and lists
+ * are merged until the next structural element. Every block carries the path
+ * of headings it appears under.
+ */
+export function convertHtmlToBlocks(html: string): Block[] {
+  const root = parse(html, {
+    blockTextElements: { script: true, style: true, noscript: true }
+  });
+  const builder = new BlockBuilder();
+  visitNode(root, builder);
+  return builder.finish();
+}
+
+/**
+ * Convert Markdown into structure-preserving blocks by rendering it to HTML
+ * (GitHub-flavored, so pipe tables and fenced code are recognised) first.
+ */
+export function convertMarkdownToBlocks(markdown: string): Block[] {
+  const html = marked.parse(markdown, { async: false, gfm: true }) as string;
+  return convertHtmlToBlocks(html);
+}
+
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'noscript', 'template', 'svg', 'iframe', 'hr', 'br']);
+const BLOCK_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, table, pre, ul, ol, div, section, article, blockquote';
+
+function visitNode(node: Node, builder: BlockBuilder): void {
+  if (node.nodeType === NodeType.TEXT_NODE) {
+    const text = normalizeWhitespace(node.text);
+    if (text) builder.paragraph(text, node.toString().trim());
+    return;
+  }
+
+  if (node.nodeType !== NodeType.ELEMENT_NODE) return;
+
+  const element = node as HTMLElement;
+  const tag = (element.tagName || '').toLowerCase();
+
+  if (SKIPPED_TAGS.has(tag)) return;
+
+  const headingMatch = tag.match(/^h([1-6])$/);
+  if (headingMatch) {
+    builder.heading(Number(headingMatch[1]), normalizeWhitespace(element.text), element.outerHTML);
+  } else if (tag === 'table') {
+    const rows = element.querySelectorAll('tr').map(row =>
+      row.querySelectorAll('th, td').map(cell => normalizeWhitespace(cell.text))
+    );
+    builder.table(rows, element.outerHTML);
+  } else if (tag === 'pre') {
+    builder.code(element.text.replace(/\n+$/, ''), element.outerHTML);
+  } else if (tag === 'ul' || tag === 'ol') {
+    builder.paragraph(listLines(element, 0).join('\n'), element.outerHTML);
+  } else if (!tag || element.querySelector(BLOCK_SELECTOR)) {
+    // Root or container element: descend into its children
+    for (const child of element.childNodes) {
+      visitNode(child, builder);
+    }
+  } else {
+    builder.paragraph(normalizeWhitespace(element.text), element.outerHTML);
+  }
+}
+
+function listLines(list: HTMLElement, depth: number): string[] {
+  const ordered = list.tagName.toLowerCase() === 'ol';
+  const items = list.childNodes.filter(
+    (child): child is HTMLElement =>
+      child.nodeType === NodeType.ELEMENT_NODE && (child as HTMLElement).tagName.toLowerCase() === 'li'
+  );
+  const lines: string[] = [];
+
+  items.forEach((item, index) => {
+    const nested = item.childNodes.filter(
+      (child): child is HTMLElement =>
+        child.nodeType === NodeType.ELEMENT_NODE && ['ul', 'ol'].includes((child as HTMLElement).tagName.toLowerCase())
+    );
+    const ownText = normalizeWhitespace(
+      item.childNodes.filter(child => !nested.includes(child as HTMLElement)).map(child => child.text).join(' ')
+    );
+
+    if (ownText) {
+      lines.push(`${'  '.repeat(depth)}${ordered ? `${index + 1}.` : '-'} ${ownText}`);
+    }
+    for (const child of nested) {
+      lines.push(...listLines(child, depth + 1));
+    }
+  });
+
+  return lines;
+}
+
+/**
+ * Accumulates blocks while tracking the current heading path.
+ */
+class BlockBuilder {
+  private blocks: Block[] = [];
+  private headings: string[] = [];
+  private pendingText: string[] = [];
+  private pendingHtml: string[] = [];
+
+  heading(level: number, text: string, html: string): void {
+    if (!text) return;
+    this.flush();
+    this.headings = [...this.headings.slice(0, level - 1), text];
+    this.blocks.push({
+      type: 'text',
+      text,
+      html,
+      metadata: { headingLevel: level, headingPath: [...this.headings] }
+    });
+  }
+
+  paragraph(text: string, html: string): void {
+    if (!text) return;
+    this.pendingText.push(text);
+    this.pendingHtml.push(html);
+  }
+
+  table(rows: string[][], html: string): void {
+    const markdown = tableRowsToMarkdown(rows);
+    if (!markdown) return;
+    this.flush();
+    this.blocks.push({ type: 'table', text: markdown, html, ...this.headingMetadata() });
+  }
+
+  code(text: string, html: string): void {
+    if (!text.trim()) return;
+    this.flush();
+    this.blocks.push({ type: 'code', text, html, ...this.headingMetadata() });
+  }
+
+  finish(): Block[] {
+    this.flush();
+    return this.blocks;
+  }
+
+  private flush(): void {
+    if (this.pendingText.length === 0) return;
+    this.blocks.push({
+      type: 'text',
+      text: this.pendingText.join('\n\n'),
+      html: this.pendingHtml.join('\n'),
+      ...this.headingMetadata()
+    });
+    this.pendingText = [];
+    this.pendingHtml = [];
+  }
+
+  private headingMetadata(): Pick<Block, 'metadata'> {
+    return this.headings.length > 0 ? { metadata: { headingPath: [...this.headings] } } : {};
+  }
+}
+
+/**
+ * Render table rows as a markdown pipe table, using the first row as header.
+ */
+export function tableRowsToMarkdown(rows: string[][]): string {
+  const cleanRows = rows
+    .map(row => row.map(cell => normalizeWhitespace(cell).replace(/\|/g, '\\|')))
+    .filter(row => row.some(cell => cell.length > 0));
+
+  if (cleanRows.length === 0) return '';
+
+  const columnCount = Math.max(...cleanRows.map(row => row.length));
+  const pad = (row: string[]) => [...row, ...new Array(columnCount - row.length).fill('')];
+  const formatRow = (row: string[]) => `| ${pad(row).join(' | ')} |`;
+
+  const [header, ...body] = cleanRows;
+  return [
+    formatRow(header),
+    `|${new Array(columnCount).fill('---').join('|')}|`,
+    ...body.map(formatRow)
+  ].join('\n');
+}
+
+function splitParagraphs(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.split('\n').map(line => line.trim()).filter(Boolean).join('\n'))
+    .filter(paragraph => paragraph.length > 0);
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function rowKey(cells: string[]): string {
+  return cells.map(cell => normalizeWhitespace(cell)).filter(Boolean).join('|');
+}
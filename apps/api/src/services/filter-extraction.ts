@@ -0,0 +1,344 @@
+import { QdrantClient } from '@qdrant/js-client-rest';
+import {
+  FilterExpression,
+  InferredFilter,
+  InferredFilterClause,
+  InferredFilterField,
+  InferredFilterSchema,
+  UserContext,
+  buildQdrantRBACFilter
+} from '@cw-rag-core/shared';
+
+export interface FilterExtractionConfig {
+  enabled: boolean;
+  /** How long the known authors, tags and spaces of a tenant are cached */
+  vocabularyTtlMs: number;
+  /** Maximum number of values loaded per field */
+  vocabularyLimit: number;
+}
+
+export function getFilterExtractionConfig(): FilterExtractionConfig {
+  return {
+    enabled: process.env.FILTER_INFERENCE_ENABLED !== 'false',
+    vocabularyTtlMs: parseInt(process.env.FILTER_INFERENCE_VOCABULARY_TTL_MS || '300000', 10),
+    vocabularyLimit: parseInt(process.env.FILTER_INFERENCE_VOCABULARY_LIMIT || '1000', 10)
+  };
+}
+
+/**
+ * Values of the keyword payload fields the user can see, used to resolve phrases
+ * like "by Alice" onto stored values like "Alice Johnson"
+ */
+export interface MetadataVocabulary {
+  authors: string[];
+  tags: string[];
+  spaceId: string[];
+}
+
+type VocabularyField = keyof MetadataVocabulary;
+
+const LANGUAGES: Record<string, string> = {
+  english: 'en', german: 'de', french: 'fr', spanish: 'es', italian: 'it', portuguese: 'pt',
+  dutch: 'nl', polish: 'pl', swedish: 'sv', danish: 'da', norwegian: 'no', finnish: 'fi',
+  czech: 'cs', russian: 'ru', ukrainian: 'uk', turkish: 'tr', arabic: 'ar', hebrew: 'he',
+  hindi: 'hi', chinese: 'zh', japanese: 'ja', korean: 'ko'
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_PATTERN = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const DATE_PATTERN = `(\\d{4}-\\d{2}-\\d{2}|${MONTH_PATTERN}(?:\\s+\\d{4})?|\\d{4})`;
+const CHANGE_VERB = '(?:(?:last\\s+)?(?:updated|modified|changed|edited|published)\\s+)';
+
+const PATTERNS = {
+  author: /\b(?:written by|authored by|by)\s+(\p{Lu}[\p{L}'’-]*(?:\s+\p{Lu}[\p{L}'’-]*)?)/gu,
+  tag: /(?:\btagged\s+(?:with\s+|as\s+)?["“]?([\p{L}\p{N}_-]+)["”]?|(?:^|\s)#([\p{L}\p{N}_-]+))/giu,
+  space: /\b(?:in|from)\s+(?:the\s+)?["“]?([\p{L}\p{N}_-]+(?:\s+[\p{L}\p{N}_-]+)?)["”]?\s+space\b/giu,
+  language: new RegExp(`\\b(?:written\\s+)?in\\s+(${Object.keys(LANGUAGES).join('|')})\\b`, 'gi'),
+  dateBound: new RegExp(`\\b${CHANGE_VERB}?(since|after|before|from)\\s+${DATE_PATTERN}\\b`, 'gi'),
+  dateWindow: new RegExp(`\\b${CHANGE_VERB}(?:in\\s+|within\\s+)?(?:the\\s+)?(?:last|past)\\s+(\\d+\\s+)?(day|week|month|year)s?\\b`, 'gi')
+};
+
+interface Match {
+  clause: InferredFilterClause;
+  phrase: string;
+}
+
+/**
+ * Infers metadata filters from phrases of a question ("onboarding docs by Alice
+ * updated since June"), so users do not have to build filters by hand.
+ *
+ * Authors, tags and spaces are only used when they resolve to values stored for
+ * documents the user can access; unresolved phrases stay part of the question.
+ */
+export class FilterExtractor {
+  private vocabularies = new Map<string, { vocabulary: MetadataVocabulary; loadedAt: number }>();
+
+  constructor(
+    private qdrantClient: QdrantClient,
+    private collectionName: string,
+    private config: FilterExtractionConfig = getFilterExtractionConfig()
+  ) {}
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * @param ignoredFields fields the user removed from a previously inferred filter
+   * @returns the inferred filter, or null when no filter phrase was found
+   */
+  async extract(
+    query: string,
+    userContext: UserContext,
+    ignoredFields: InferredFilterField[] = [],
+    now: Date = new Date()
+  ): Promise<InferredFilter | null> {
+    if (!this.config.enabled) {
+      return null;
+    }
+
+    try {
+      const matches: Match[] = [
+        ...extractDateClauses(query, now),
+        ...extractLanguageClauses(query)
+      ];
+
+      const candidates = {
+        authors: collect(query, PATTERNS.author, match => match[1]),
+        tags: collect(query, PATTERNS.tag, match => match[1] || match[2]),
+        spaceId: collect(query, PATTERNS.space, match => match[1])
+      };
+
+      const vocabularyFields = (Object.keys(candidates) as VocabularyField[])
+        .filter(field => candidates[field].length > 0 && !ignoredFields.includes(field));
+      if (vocabularyFields.length > 0) {
+        const vocabulary = await this.getVocabulary(userContext);
+        for (const field of vocabularyFields) {
+          for (const { value, phrase } of candidates[field]) {
+            const resolved = resolveValues(value, vocabulary[field], field === 'authors');
+            if (resolved.length > 0) {
+              matches.push({ clause: { field, values: resolved, phrase }, phrase });
+            }
+          }
+        }
+      }
+
+      const applied = matches.filter(match => !ignoredFields.includes(match.clause.field));
+      const clauses = mergeClauses(applied);
+      if (clauses.length === 0) {
+        return null;
+      }
+
+      const searchQuery = removePhrases(query, applied.map(match => match.phrase));
+      const parsed = InferredFilterSchema.safeParse({ clauses, searchQuery: searchQuery || query });
+      if (!parsed.success) {
+        console.warn('Discarding invalid inferred filter:', parsed.error.message);
+        return null;
+      }
+      return parsed.data as InferredFilter;
+    } catch (error) {
+      console.warn('Filter inference failed, searching without inferred filters:', (error as Error).message);
+      return null;
+    }
+  }
+
+  private async getVocabulary(userContext: UserContext): Promise<MetadataVocabulary> {
+    // Only values of documents the user can access, so resolving a phrase reveals nothing new
+    const { must, must_not } = buildQdrantRBACFilter(userContext);
+    const filter = { must, must_not };
+    const key = JSON.stringify(filter);
+
+    const cached = this.vocabularies.get(key);
+    if (cached && Date.now() - cached.loadedAt < this.config.vocabularyTtlMs) {
+      return cached.vocabulary;
+    }
+
+    const [authors, tags, spaceId] = await Promise.all(
+      (['authors', 'tags', 'spaceId'] as VocabularyField[]).map(async field => {
+        try {
+          const result = await this.qdrantClient.facet(this.collectionName, {
+            key: field,
+            filter,
+            limit: this.config.vocabularyLimit
+          });
+          return result.hits.map(hit => String(hit.value));
+        } catch (error) {
+          console.warn(`Could not load known ${field} values for filter inference:`, (error as Error).message);
+          return [];
+        }
+      })
+    );
+
+    const vocabulary = { authors, tags, spaceId };
+    this.vocabularies.set(key, { vocabulary, loadedAt: Date.now() });
+    return vocabulary;
+  }
+}
+
+/**
+ * Filter expression for an inferred filter, compiled together with any request filter
+ */
+export function toFilterExpression(filter: InferredFilter): FilterExpression {
+  return {
+    and: filter.clauses.map((clause): FilterExpression => clause.field === 'modifiedAt'
+      ? { field: 'modifiedAt', op: 'range', ...(clause.gte && { gte: clause.gte }), ...(clause.lt && { lt: clause.lt }) }
+      : { field: clause.field, op: 'in', values: clause.values || [] })
+  };
+}
+
+function collect(
+  query: string,
+  pattern: RegExp,
+  value: (match: RegExpMatchArray) => string | undefined
+): Array<{ value: string; phrase: string }> {
+  return Array.from(query.matchAll(pattern))
+    .map(match => ({ value: value(match)?.trim() || '', phrase: match[0].trim() }))
+    .filter(candidate => candidate.value);
+}
+
+/**
+ * Stored values matching a phrase: exact (case-insensitive) matches, or for
+ * authors every stored name containing all words of the phrase ("Alice" → "Alice Johnson")
+ */
+function resolveValues(phrase: string, known: string[], matchWords: boolean): string[] {
+  const normalized = normalize(phrase);
+  const exact = known.filter(value => normalize(value) === normalized);
+  if (exact.length > 0 || !matchWords) {
+    return exact;
+  }
+
+  const words = normalized.split(' ');
+  const partial = known.filter(value => {
+    const valueWords = normalize(value).split(' ');
+    return words.every(word => valueWords.includes(word));
+  });
+  if (partial.length > 0 || words.length === 1) {
+    return partial;
+  }
+
+  // "by Alice Please" - the second capitalized word may not be part of the name
+  return resolveValues(words[0], known, true);
+}
+
+function extractLanguageClauses(query: string): Match[] {
+  return Array.from(query.matchAll(PATTERNS.language)).map((match): Match => ({
+    clause: { field: 'lang', values: [LANGUAGES[match[1].toLowerCase()]], phrase: match[0].trim() },
+    phrase: match[0].trim()
+  }));
+}
+
+function extractDateClauses(query: string, now: Date): Match[] {
+  const matches: Match[] = [];
+
+  for (const match of Array.from(query.matchAll(PATTERNS.dateBound))) {
+    const period = parsePeriod(match[2], now);
+    if (!period) {
+      continue;
+    }
+    const bound = match[1].toLowerCase();
+    const phrase = match[0].trim();
+    const range = bound === 'before' ? { lt: period.start } :
+                  bound === 'after' ? { gte: period.end } :
+                  { gte: period.start };
+    matches.push({ clause: { field: 'modifiedAt', ...range, phrase }, phrase });
+  }
+
+  for (const match of Array.from(query.matchAll(PATTERNS.dateWindow))) {
+    const count = parseInt(match[1] || '1', 10);
+    const start = new Date(now);
+    switch (match[2].toLowerCase()) {
+      case 'day': start.setUTCDate(start.getUTCDate() - count); break;
+      case 'week': start.setUTCDate(start.getUTCDate() - 7 * count); break;
+      case 'month': start.setUTCMonth(start.getUTCMonth() - count); break;
+      default: start.setUTCFullYear(start.getUTCFullYear() - count);
+    }
+    const phrase = match[0].trim();
+    matches.push({ clause: { field: 'modifiedAt', gte: start.toISOString(), phrase }, phrase });
+  }
+
+  return matches;
+}
+
+/**
+ * Start and end of a date, month or year; a month without a year is its most recent occurrence
+ */
+function parsePeriod(text: string, now: Date): { start: string; end: string } | null {
+  const value = text.toLowerCase().trim();
+
+  const isoDate = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (isoDate) {
+    const start = new Date(Date.UTC(+isoDate[1], +isoDate[2] - 1, +isoDate[3]));
+    if (isNaN(start.getTime()) || start.getUTCDate() !== +isoDate[3]) {
+      return null;
+    }
+    return { start: start.toISOString(), end: new Date(start.getTime() + 24 * 60 * 60 * 1000).toISOString() };
+  }
+
+  if (/^\d{4}$/.test(value)) {
+    const year = +value;
+    if (year < 1970 || year > now.getUTCFullYear() + 1) {
+      return null;
+    }
+    return { start: new Date(Date.UTC(year, 0, 1)).toISOString(), end: new Date(Date.UTC(year + 1, 0, 1)).toISOString() };
+  }
+
+  const [monthName, yearText] = value.split(/\s+/);
+  const month = MONTHS.indexOf(monthName.slice(0, 3));
+  if (month === -1) {
+    return null;
+  }
+  const year = yearText ? +yearText :
+    month <= now.getUTCMonth() ? now.getUTCFullYear() : now.getUTCFullYear() - 1;
+  return {
+    start: new Date(Date.UTC(year, month, 1)).toISOString(),
+    end: new Date(Date.UTC(year, month + 1, 1)).toISOString()
+  };
+}
+
+/**
+ * One clause per field: values are combined, ranges narrowed
+ */
+function mergeClauses(matches: Match[]): InferredFilterClause[] {
+  const byField = new Map<InferredFilterField, InferredFilterClause>();
+
+  for (const { clause } of matches) {
+    const existing = byField.get(clause.field);
+    if (!existing) {
+      byField.set(clause.field, { ...clause });
+      continue;
+    }
+
+    existing.phrase = `${existing.phrase}, ${clause.phrase}`;
+    if (clause.values) {
+      existing.values = Array.from(new Set([...(existing.values || []), ...clause.values]));
+    }
+    if (clause.gte && (!existing.gte || clause.gte > existing.gte)) {
+      existing.gte = clause.gte;
+    }
+    if (clause.lt && (!existing.lt || clause.lt < existing.lt)) {
+      existing.lt = clause.lt;
+    }
+  }
+
+  return Array.from(byField.values());
+}
+
+function removePhrases(query: string, phrases: string[]): string {
+  let remaining = query;
+  for (const phrase of phrases) {
+    remaining = remaining.replace(phrase, ' ');
+  }
+  return remaining
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([?.!,])/g, '$1')
+    .replace(/\b(and|or|that (?:were|was|are|is)|which (?:were|was|are|is))\s*([?.!]?)$/i, '$2')
+    .trim();
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+export function createFilterExtractor(qdrantClient: QdrantClient, collectionName: string): FilterExtractor {
+  return new FilterExtractor(qdrantClient, collectionName);
+}
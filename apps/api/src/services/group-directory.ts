@@ -0,0 +1,227 @@
+import { GroupHierarchy } from '@cw-rag-core/shared';
+
+/**
+ * A tenant's group directory, imported from the identity provider: the direct members
+ * of each group. Groups are keyed by the names used in document ACLs and token claims.
+ */
+export type GroupDirectoryFormat = 'scim' | 'ldif';
+
+export interface DirectoryGroup {
+  /** Users that are direct members */
+  users: string[];
+  /** Groups that are direct members; their members belong to this group too */
+  groups: string[];
+}
+
+export interface GroupDirectory {
+  source: GroupDirectoryFormat;
+  importedAt: string;
+  groups: Record<string, DirectoryGroup>;
+}
+
+export class GroupDirectoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GroupDirectoryError';
+  }
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+/**
+ * Groups of a SCIM ListResponse (`GET /Groups`) or an array of Group resources.
+ * Groups are keyed by `displayName`; members reference users and groups by their
+ * SCIM `value` (id), and members typed `Group`, or whose value is a group id, are nested groups.
+ */
+export function parseScimGroups(input: unknown): Record<string, DirectoryGroup> {
+  const resources = Array.isArray(input) ? input : (input as { Resources?: unknown })?.Resources;
+  if (!Array.isArray(resources)) {
+    throw new GroupDirectoryError('Expected a SCIM ListResponse or an array of Group resources');
+  }
+
+  const names = new Map<string, string>();
+  for (const resource of resources) {
+    const name = resource?.displayName ?? resource?.id;
+    if (typeof name !== 'string' || !name) {
+      throw new GroupDirectoryError('SCIM group without displayName or id');
+    }
+    names.set(String(resource.id ?? name), name);
+  }
+
+  const groups: Record<string, DirectoryGroup> = {};
+  for (const resource of resources) {
+    const users: string[] = [];
+    const nested: string[] = [];
+    for (const member of Array.isArray(resource.members) ? resource.members : []) {
+      if (member?.value === undefined) continue;
+      const value = String(member.value);
+      if (member.type === 'Group' || (member.type === undefined && names.has(value))) {
+        nested.push(names.get(value) ?? value);
+      } else {
+        users.push(value);
+      }
+    }
+
+    const name = names.get(String(resource.id ?? resource.displayName))!;
+    groups[name] = { users: unique(users), groups: unique(nested) };
+  }
+  return groups;
+}
+
+const LDIF_GROUP_CLASSES = ['groupofnames', 'groupofuniquenames', 'posixgroup', 'group'];
+
+/**
+ * Entries of an LDIF file as attribute maps, with lowercased attribute names
+ * (options like `;binary` are dropped) and base64 values decoded
+ */
+function parseLdifEntries(text: string): Array<Map<string, string[]>> {
+  // Lines starting with a single space continue the previous line (RFC 2849)
+  const lines: string[] = [];
+  for (const line of text.replace(/\r\n/g, '\n').split('\n')) {
+    if (line.startsWith(' ') && lines.length > 0 && lines[lines.length - 1] !== '') {
+      lines[lines.length - 1] += line.slice(1);
+    } else {
+      lines.push(line);
+    }
+  }
+
+  const entries: Array<Map<string, string[]>> = [];
+  let entry = new Map<string, string[]>();
+  for (const line of [...lines, '']) {
+    if (line.trim() === '') {
+      if (entry.has('dn')) entries.push(entry);
+      entry = new Map();
+      continue;
+    }
+    const match = /^([A-Za-z0-9.;-]+)(::?)\s*(.*)$/.exec(line);
+    if (line.startsWith('#') || !match) continue;
+
+    const name = match[1].split(';')[0].toLowerCase();
+    const value = match[2] === '::' ? Buffer.from(match[3], 'base64').toString('utf8') : match[3].trim();
+    entry.set(name, [...(entry.get(name) || []), value]);
+  }
+  return entries;
+}
+
+function normalizeDn(dn: string): string {
+  return dn.split(',').map(part => part.trim()).join(',').toLowerCase();
+}
+
+// Value of the first RDN, e.g. `alice` for `uid=alice,ou=people,dc=example,dc=com`
+function getRdnValue(dn: string): string {
+  return dn.split(',')[0].split('=').slice(1).join('=').trim();
+}
+
+/**
+ * Groups of an LDIF export (groupOfNames, groupOfUniqueNames, posixGroup or Active
+ * Directory group entries). Groups are keyed by `cn`; `member` and `uniqueMember` DNs
+ * of other groups in the file are nested groups, other DNs are users identified by
+ * their first RDN value, and `memberUid` values are user ids.
+ */
+export function parseLdifGroups(text: string): Record<string, DirectoryGroup> {
+  const entries = parseLdifEntries(text).filter(entry =>
+    (entry.get('objectclass') || []).some(objectClass => LDIF_GROUP_CLASSES.includes(objectClass.toLowerCase()))
+  );
+
+  const names = new Map<string, string>();
+  for (const entry of entries) {
+    const dn = entry.get('dn')![0];
+    names.set(normalizeDn(dn), entry.get('cn')?.[0] || getRdnValue(dn));
+  }
+
+  const groups: Record<string, DirectoryGroup> = {};
+  for (const entry of entries) {
+    const users = [...(entry.get('memberuid') || [])];
+    const nested: string[] = [];
+    for (const member of [...(entry.get('member') || []), ...(entry.get('uniquemember') || [])]) {
+      // uniqueMember values may carry an optional `#'…'B` unique identifier
+      const dn = member.replace(/#'[01]*'B$/, '');
+      const group = names.get(normalizeDn(dn));
+      if (group) {
+        nested.push(group);
+      } else if (dn) {
+        users.push(getRdnValue(dn));
+      }
+    }
+
+    groups[names.get(normalizeDn(entry.get('dn')![0]))!] = { users: unique(users), groups: unique(nested) };
+  }
+  return groups;
+}
+
+/**
+ * Parse a directory export
+ * @throws GroupDirectoryError when the content is not valid for the format
+ */
+export function parseGroupDirectory(content: string, format: GroupDirectoryFormat): GroupDirectory {
+  let groups: Record<string, DirectoryGroup>;
+  if (format === 'scim') {
+    let json: unknown;
+    try {
+      json = JSON.parse(content);
+    } catch (error) {
+      throw new GroupDirectoryError(`Invalid SCIM JSON: ${(error as Error).message}`);
+    }
+    groups = parseScimGroups(json);
+  } else {
+    groups = parseLdifGroups(content);
+  }
+
+  return { source: format, importedAt: new Date().toISOString(), groups };
+}
+
+export interface ResolvedGroupDirectory {
+  /** Groups of each user, including the groups their groups are nested in */
+  userGroups: Map<string, string[]>;
+  /** Nesting as a group hierarchy: members of a group inherit the groups it is a member of */
+  groupHierarchy: GroupHierarchy;
+}
+
+/**
+ * Resolve nested membership. Cycles are allowed; every group is visited once.
+ */
+export function resolveGroupDirectory(directory: GroupDirectory): ResolvedGroupDirectory {
+  const parents = new Map<string, string[]>();
+  for (const [groupId, group] of Object.entries(directory.groups)) {
+    for (const child of group.groups) {
+      parents.set(child, [...(parents.get(child) || []), groupId]);
+    }
+  }
+
+  const ancestors = new Map<string, string[]>();
+  const getGroupAndAncestors = (groupId: string): string[] => {
+    let resolved = ancestors.get(groupId);
+    if (!resolved) {
+      const visited = new Set([groupId]);
+      const queue = [groupId];
+      while (queue.length > 0) {
+        for (const parent of parents.get(queue.shift()!) || []) {
+          if (!visited.has(parent)) {
+            visited.add(parent);
+            queue.push(parent);
+          }
+        }
+      }
+      resolved = Array.from(visited);
+      ancestors.set(groupId, resolved);
+    }
+    return resolved;
+  };
+
+  const userGroups = new Map<string, string[]>();
+  for (const [groupId, group] of Object.entries(directory.groups)) {
+    for (const userId of group.users) {
+      userGroups.set(userId, unique([...(userGroups.get(userId) || []), ...getGroupAndAncestors(groupId)]));
+    }
+  }
+
+  // Level 0 leaves privilege levels to the configured group hierarchy
+  const groupHierarchy: GroupHierarchy = {};
+  for (const [groupId, groupParents] of parents) {
+    groupHierarchy[groupId] = { level: 0, inherits: groupParents };
+  }
+
+  return { userGroups, groupHierarchy };
+}
@@ -0,0 +1,267 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { z } from 'zod';
+import { AttributeAccessRule, AttributeAccessRuleSchema, GroupHierarchy, UserContext } from '@cw-rag-core/shared';
+import {
+  GroupDirectory,
+  GroupDirectoryError,
+  GroupDirectoryFormat,
+  ResolvedGroupDirectory,
+  parseGroupDirectory,
+  resolveGroupDirectory
+} from './group-directory.js';
+
+/** Per-tenant group levels and inheritance: `<tenantsDir>/<tenantId>/group-hierarchy.json` */
+export const TENANT_GROUP_HIERARCHY_FILE = 'group-hierarchy.json';
+
+/** Per-tenant group membership imported from the identity provider */
+export const TENANT_GROUP_DIRECTORY_FILE = 'group-directory.json';
+
+/** Per-tenant attribute access rules: an array of AttributeAccessRule */
+export const TENANT_ACCESS_RULES_FILE = 'access-rules.json';
+
+export class AccessRulesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccessRulesError';
+  }
+}
+
+function getTenantsDir(): string {
+  return process.env.TENANTS_DIR || './tenants';
+}
+
+// Tenant ids come from requests; never leave the tenants directory
+function getTenantFile(tenantsDir: string, tenantId: string, file: string): string | undefined {
+  if (!tenantId || tenantId !== path.basename(tenantId) || tenantId.startsWith('.')) {
+    return undefined;
+  }
+  return path.join(tenantsDir, tenantId, file);
+}
+
+async function readTenantJson<T>(tenantId: string, file: string, tenantsDir: string): Promise<T | undefined> {
+  const filePath = getTenantFile(tenantsDir, tenantId, file);
+  if (!filePath) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Group hierarchy configured for a tenant, or undefined when the tenant has none
+ */
+export async function loadTenantGroupHierarchy(
+  tenantId: string,
+  tenantsDir: string = getTenantsDir()
+): Promise<GroupHierarchy | undefined> {
+  return readTenantJson<GroupHierarchy>(tenantId, TENANT_GROUP_HIERARCHY_FILE, tenantsDir);
+}
+
+/**
+ * Group directory imported for a tenant, or undefined when the tenant has none
+ */
+export async function loadTenantGroupDirectory(
+  tenantId: string,
+  tenantsDir: string = getTenantsDir()
+): Promise<GroupDirectory | undefined> {
+  const directory = await readTenantJson<GroupDirectory>(tenantId, TENANT_GROUP_DIRECTORY_FILE, tenantsDir);
+  if (directory && (typeof directory.groups !== 'object' || directory.groups === null)) {
+    throw new GroupDirectoryError(`${TENANT_GROUP_DIRECTORY_FILE} of tenant ${tenantId} has no groups`);
+  }
+  return directory;
+}
+
+/**
+ * Attribute access rules configured for a tenant, or undefined when the tenant has none
+ * @throws AccessRulesError when the rules are invalid
+ */
+export async function loadTenantAccessRules(
+  tenantId: string,
+  tenantsDir: string = getTenantsDir()
+): Promise<AttributeAccessRule[] | undefined> {
+  const rules = await readTenantJson<unknown>(tenantId, TENANT_ACCESS_RULES_FILE, tenantsDir);
+  if (rules === undefined) {
+    return undefined;
+  }
+
+  const parsed = z.array(AttributeAccessRuleSchema).safeParse(rules);
+  if (!parsed.success) {
+    throw new AccessRulesError(`${TENANT_ACCESS_RULES_FILE} of tenant ${tenantId} is invalid: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+interface TenantGroups {
+  directory?: ResolvedGroupDirectory;
+  groupHierarchy?: GroupHierarchy;
+}
+
+// Directory nesting with the configured levels; configured inheritance adds to the nesting
+function mergeGroupHierarchies(directory: GroupHierarchy, configured: GroupHierarchy): GroupHierarchy {
+  const merged: GroupHierarchy = { ...directory };
+  for (const [groupId, group] of Object.entries(configured)) {
+    const inherits = Array.from(new Set([...(directory[groupId]?.inherits || []), ...(group.inherits || [])]));
+    merged[groupId] = { ...group, ...(inherits.length > 0 && { inherits }) };
+  }
+  return merged;
+}
+
+async function loadTenantGroups(tenantId: string, tenantsDir: string): Promise<TenantGroups> {
+  const [directory, configured] = await Promise.all([
+    loadTenantGroupDirectory(tenantId, tenantsDir),
+    loadTenantGroupHierarchy(tenantId, tenantsDir)
+  ]);
+  const resolved = directory && resolveGroupDirectory(directory);
+
+  return {
+    directory: resolved,
+    groupHierarchy: resolved && configured
+      ? mergeGroupHierarchies(resolved.groupHierarchy, configured)
+      : configured || resolved?.groupHierarchy
+  };
+}
+
+type TenantFileCache<T> = Map<string, { signature: string; value: Promise<T> }>;
+
+// Resolved groups and access rules per tenant, with the signature of the files they were loaded from
+const tenantGroupsCache: TenantFileCache<TenantGroups> = new Map();
+const tenantAccessRulesCache: TenantFileCache<AttributeAccessRule[] | undefined> = new Map();
+
+async function getFileSignature(tenantId: string, tenantsDir: string, files: string[]): Promise<string> {
+  const stats = await Promise.all(files.map(file => {
+    const filePath = getTenantFile(tenantsDir, tenantId, file);
+    return filePath
+      ? fs.stat(filePath).then(stat => `${stat.mtimeMs}:${stat.size}`, () => '-')
+      : '-';
+  }));
+  return stats.join('|');
+}
+
+/**
+ * Value loaded from a tenant's files. The files are loaded again when they change,
+ * so imports and edits by another process apply without a restart.
+ */
+async function getCachedTenantValue<T>(
+  cache: TenantFileCache<T>,
+  files: string[],
+  tenantId: string,
+  tenantsDir: string,
+  load: () => Promise<T>
+): Promise<T> {
+  const key = path.join(tenantsDir, tenantId);
+  const signature = await getFileSignature(tenantId, tenantsDir, files);
+  const cached = cache.get(key);
+  if (cached?.signature === signature) {
+    return cached.value;
+  }
+
+  const value = load();
+  cache.set(key, { signature, value });
+  // Do not cache failures so a fixed file is picked up on retry
+  value.catch(() => cache.delete(key));
+  return value;
+}
+
+function getTenantGroups(tenantId: string, tenantsDir: string): Promise<TenantGroups> {
+  return getCachedTenantValue(
+    tenantGroupsCache,
+    [TENANT_GROUP_DIRECTORY_FILE, TENANT_GROUP_HIERARCHY_FILE],
+    tenantId,
+    tenantsDir,
+    () => loadTenantGroups(tenantId, tenantsDir)
+  );
+}
+
+function getTenantAccessRules(tenantId: string, tenantsDir: string): Promise<AttributeAccessRule[] | undefined> {
+  return getCachedTenantValue(
+    tenantAccessRulesCache,
+    [TENANT_ACCESS_RULES_FILE],
+    tenantId,
+    tenantsDir,
+    () => loadTenantAccessRules(tenantId, tenantsDir)
+  );
+}
+
+/**
+ * Drop cached tenant groups and access rules so they are loaded again on next use
+ */
+export function invalidateTenantGroups(): void {
+  tenantGroupsCache.clear();
+  tenantAccessRulesCache.clear();
+}
+
+/**
+ * The user context with its tenant's groups: the user's groups in the tenant's group
+ * directory, including nested membership, are added, and the tenant's hierarchy
+ * (directory nesting and configured levels) is set. A hierarchy sent by the client is
+ * always dropped, so privilege levels are decided by the server. When the tenant's group
+ * files cannot be read the groups are left as they are, without a hierarchy.
+ *
+ * The tenant's attribute access rules replace any sent by the client.
+ * @throws AccessRulesError when the tenant's access rules are invalid; access rules only
+ * ever restrict access, so requests fail rather than run without them
+ */
+export async function withTenantGroupHierarchy(
+  requestUserContext: UserContext,
+  tenantsDir: string = getTenantsDir()
+): Promise<UserContext> {
+  const accessRules = await getTenantAccessRules(requestUserContext.tenantId, tenantsDir);
+  const { groupHierarchy: _clientHierarchy, ...clientContext } = requestUserContext;
+  const userContext: UserContext = { ...clientContext, accessRules };
+
+  let groups: TenantGroups;
+  try {
+    groups = await getTenantGroups(userContext.tenantId, tenantsDir);
+  } catch (error) {
+    console.warn('StructuredLog:TenantGroupsUnavailable', {
+      tenantId: userContext.tenantId,
+      error: (error as Error).message
+    });
+    return userContext;
+  }
+
+  if (!groups.directory && !groups.groupHierarchy) {
+    return userContext;
+  }
+
+  const directoryGroupIds = groups.directory?.userGroups.get(userContext.id) || [];
+  return {
+    ...userContext,
+    groupIds: Array.from(new Set([...userContext.groupIds, ...directoryGroupIds])),
+    ...(groups.groupHierarchy && { groupHierarchy: groups.groupHierarchy })
+  };
+}
+
+/**
+ * Import a directory export as the tenant's group directory, replacing the previous one
+ * @throws GroupDirectoryError when the export is invalid or the tenant id is not a directory name
+ */
+export async function importTenantGroupDirectory(
+  tenantId: string,
+  content: string,
+  format: GroupDirectoryFormat,
+  tenantsDir: string = getTenantsDir()
+): Promise<GroupDirectory> {
+  const filePath = getTenantFile(tenantsDir, tenantId, TENANT_GROUP_DIRECTORY_FILE);
+  if (!filePath) {
+    throw new GroupDirectoryError(`Invalid tenant id: ${tenantId}`);
+  }
+
+  const directory = parseGroupDirectory(content, format);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  // Replace the file in one step so requests never read a partial directory
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(directory, null, 2));
+  await fs.rename(tempPath, filePath);
+
+  invalidateTenantGroups();
+  return directory;
+}
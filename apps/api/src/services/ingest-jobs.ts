@@ -0,0 +1,543 @@
+import crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { FastifyInstance } from 'fastify';
+import { NormalizedDoc } from '@cw-rag-core/shared';
+import { RedactionSummary } from '../utils/audit.js';
+
+export type IngestJobStatus = 'queued' | 'running' | 'completed' | 'completed_with_errors' | 'failed';
+
+export type IngestDocumentStatus =
+  | 'pending'
+  | 'processing'
+  | 'published'
+  | 'updated'
+  | 'blocked'
+  | 'deleted'
+  | 'error';
+
+/**
+ * Chunk-level changes made when a document is (re)published.
+ */
+export interface ChunkDiffSummary {
+  unchanged: number;
+  added: number;
+  removed: number;
+}
+
+/**
+ * Outcome of processing a single document.
+ * Processors return `error` for permanent failures (e.g. validation) and
+ * throw for transient failures, which are retried.
+ */
+export interface DocumentProcessingResult {
+  docId: string;
+  status: Exclude<IngestDocumentStatus, 'pending' | 'processing'>;
+  pointsUpserted?: number;
+  chunks?: ChunkDiffSummary;
+  message?: string;
+  findings?: RedactionSummary[];
+}
+
+/**
+ * Request metadata kept with a job so audit entries written by the
+ * background worker still point at the original caller.
+ */
+export interface IngestRequestInfo {
+  ip: string;
+  userAgent?: string;
+}
+
+export type IngestDocumentProcessor = (
+  doc: NormalizedDoc,
+  requestInfo: IngestRequestInfo
+) => Promise<DocumentProcessingResult>;
+
+export interface IngestJobDocument {
+  docId: string;
+  status: IngestDocumentStatus;
+  attempts: number;
+  pointsUpserted?: number;
+  chunks?: ChunkDiffSummary;
+  message?: string;
+  findings?: RedactionSummary[];
+  updatedAt: string;
+}
+
+export interface IngestJobSummary {
+  total: number;
+  pending: number;
+  published: number;
+  updated: number;
+  blocked: number;
+  deleted: number;
+  errors: number;
+  chunks: ChunkDiffSummary;
+}
+
+export interface IngestJob {
+  id: string;
+  /** Tenant of the job's documents, or 'multiple' when the batch spans several */
+  tenant: string;
+  /** Every tenant with documents in the job */
+  tenants: string[];
+  status: IngestJobStatus;
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  documents: IngestJobDocument[];
+  summary: IngestJobSummary;
+}
+
+export interface IngestJobListOptions {
+  tenant?: string;
+  status?: IngestJobStatus;
+  page?: number;
+  limit?: number;
+}
+
+export interface IngestJobQueueOptions {
+  /** Directory where job state is persisted so unfinished jobs survive restarts */
+  jobsDir: string;
+  /** Maximum processing attempts per document (including the first) */
+  maxAttempts: number;
+  /** Base delay before a retry; doubled on every further attempt */
+  retryDelayMs: number;
+  /**
+   * Secret the persisted document payloads are encrypted with (AES-256-GCM).
+   * Without it payloads are only kept in memory, so unfinished jobs cannot be resumed.
+   */
+  payloadSecret?: string;
+  /** How long finished jobs stay listed (default 24 hours) */
+  retentionMs?: number;
+  /** Maximum number of finished jobs kept; the oldest are dropped first (default 1000) */
+  maxFinishedJobs?: number;
+  logger: FastifyInstance['log'];
+}
+
+interface EncryptedPayloads {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * A job with its document payloads, which are kept until the job finishes.
+ */
+interface StoredIngestJob extends IngestJob {
+  requestInfo: IngestRequestInfo;
+  payloads?: NormalizedDoc[];
+}
+
+/**
+ * Persisted form of an unfinished job, so a restarted server can resume where it
+ * stopped. Payloads hold unredacted documents and are only written encrypted.
+ */
+interface PersistedIngestJob extends Omit<StoredIngestJob, 'payloads'> {
+  encryptedPayloads?: EncryptedPayloads;
+  /** Plaintext payloads written by earlier versions; read on resume only */
+  payloads?: NormalizedDoc[];
+}
+
+const FINISHED_STATUSES: IngestJobStatus[] = ['completed', 'completed_with_errors', 'failed'];
+
+export function getIngestJobQueueConfig(): Omit<IngestJobQueueOptions, 'logger'> {
+  return {
+    jobsDir: process.env.INGEST_JOBS_DIR || './data/ingest-jobs',
+    maxAttempts: parseInt(process.env.INGEST_JOB_MAX_ATTEMPTS || '3', 10),
+    retryDelayMs: parseInt(process.env.INGEST_JOB_RETRY_DELAY_MS || '1000', 10),
+    payloadSecret: process.env.INGEST_JOBS_KEY || undefined,
+    retentionMs: parseInt(process.env.INGEST_JOB_RETENTION_MS || '86400000', 10),
+    maxFinishedJobs: parseInt(process.env.INGEST_JOB_MAX_FINISHED || '1000', 10)
+  };
+}
+
+/**
+ * Local, file-backed queue that publishes documents in the background.
+ * Jobs are processed one at a time in submission order.
+ */
+export class IngestJobQueue {
+  private jobs = new Map<string, StoredIngestJob>();
+  private pendingJobIds: string[] = [];
+  private draining: Promise<void> | null = null;
+
+  constructor(
+    private processor: IngestDocumentProcessor,
+    private options: IngestJobQueueOptions
+  ) {}
+
+  /**
+   * Create a job for the given documents and schedule it for processing.
+   */
+  async enqueue(docs: NormalizedDoc[], requestInfo: IngestRequestInfo): Promise<IngestJob> {
+    const now = new Date().toISOString();
+    const tenants = Array.from(new Set(docs.map(doc => doc.meta?.tenant || 'unknown')));
+    const job: StoredIngestJob = {
+      id: crypto.randomUUID(),
+      tenant: tenants.length === 1 ? tenants[0] : tenants.length > 1 ? 'multiple' : 'unknown',
+      tenants,
+      status: 'queued',
+      createdAt: now,
+      documents: docs.map(doc => ({
+        docId: doc.meta?.docId || 'unknown',
+        status: 'pending',
+        attempts: 0,
+        updatedAt: now
+      })),
+      summary: emptySummary(docs.length),
+      requestInfo,
+      payloads: docs
+    };
+
+    this.pruneFinishedJobs();
+    this.jobs.set(job.id, job);
+    await this.persist(job);
+    const queued = toPublicJob(job);
+
+    this.pendingJobIds.push(job.id);
+    this.drain();
+
+    this.options.logger.info({
+      event: 'ingest_job_queued',
+      jobId: job.id,
+      tenants: job.tenants,
+      documents: docs.length
+    }, 'Ingest job queued');
+
+    return queued;
+  }
+
+  getJob(jobId: string): IngestJob | null {
+    const job = this.jobs.get(jobId);
+    return job ? toPublicJob(job) : null;
+  }
+
+  /**
+   * List jobs, newest first. A tenant filter matches every job with documents of
+   * the tenant, including batches that span several tenants.
+   */
+  listJobs(options: IngestJobListOptions = {}): { jobs: IngestJob[]; total: number } {
+    const page = Math.max(1, options.page || 1);
+    const limit = Math.min(100, Math.max(1, options.limit || 20));
+
+    const matching = Array.from(this.jobs.values())
+      .filter(job => !options.tenant || job.tenants.includes(options.tenant))
+      .filter(job => !options.status || job.status === options.status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return {
+      jobs: matching.slice((page - 1) * limit, page * limit).map(toPublicJob),
+      total: matching.length
+    };
+  }
+
+  /**
+   * Load persisted jobs and re-queue the ones that did not finish.
+   * Files of finished jobs left by earlier versions are removed.
+   */
+  async resume(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.options.jobsDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    const resumed: StoredIngestJob[] = [];
+
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      try {
+        const content = await fs.readFile(path.join(this.options.jobsDir, file), 'utf-8');
+        const { encryptedPayloads, payloads, ...stored } = JSON.parse(content) as PersistedIngestJob;
+        const job: StoredIngestJob = stored;
+        // Jobs persisted by earlier versions only have the tenant of their first document
+        job.tenants = job.tenants || [job.tenant];
+
+        if (FINISHED_STATUSES.includes(job.status)) {
+          await this.remove(job);
+          continue;
+        }
+
+        job.payloads = encryptedPayloads ? this.decryptPayloads(job, encryptedPayloads) : payloads;
+        this.jobs.set(job.id, job);
+
+        if (job.status === 'queued' || job.status === 'running') {
+          // Documents interrupted mid-processing are retried; the interrupted attempt does not count
+          for (const document of job.documents) {
+            if (document.status === 'processing') {
+              document.status = 'pending';
+              document.attempts = Math.max(0, document.attempts - 1);
+            }
+          }
+          job.status = 'queued';
+          resumed.push(job);
+        }
+      } catch (error) {
+        this.options.logger.warn({ file, error: (error as Error).message }, 'Skipping unreadable ingest job file');
+      }
+    }
+
+    resumed
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .forEach(job => this.pendingJobIds.push(job.id));
+
+    if (resumed.length > 0) {
+      this.options.logger.info({
+        event: 'ingest_jobs_resumed',
+        jobIds: resumed.map(job => job.id)
+      }, `Resuming ${resumed.length} unfinished ingest job(s)`);
+      this.drain();
+    }
+  }
+
+  /**
+   * Resolves once every queued job has been processed.
+   */
+  async idle(): Promise<void> {
+    while (this.draining) {
+      await this.draining;
+    }
+  }
+
+  private drain(): void {
+    if (this.draining) return;
+
+    this.draining = (async () => {
+      while (this.pendingJobIds.length > 0) {
+        const job = this.jobs.get(this.pendingJobIds.shift()!);
+        if (job) {
+          await this.runJob(job);
+        }
+      }
+    })().finally(() => {
+      this.draining = null;
+      // Pick up jobs enqueued while the loop was finishing
+      if (this.pendingJobIds.length > 0) {
+        this.drain();
+      }
+    });
+  }
+
+  private async runJob(job: StoredIngestJob): Promise<void> {
+    job.status = 'running';
+    job.startedAt = job.startedAt || new Date().toISOString();
+    await this.persist(job);
+
+    try {
+      for (let index = 0; index < job.documents.length; index++) {
+        const document = job.documents[index];
+        if (document.status !== 'pending') continue;
+
+        const doc = job.payloads?.[index];
+        if (!doc) {
+          this.updateDocument(job, index, { status: 'error', message: 'Document payload missing from job state' });
+          continue;
+        }
+
+        await this.processDocument(job, index, doc);
+        await this.persist(job);
+      }
+
+      job.status = job.summary.errors > 0 ? 'completed_with_errors' : 'completed';
+    } catch (error) {
+      job.status = 'failed';
+      this.options.logger.error({ jobId: job.id, error }, 'Ingest job failed');
+    }
+
+    job.completedAt = new Date().toISOString();
+    delete job.payloads;
+    // Finished jobs are only kept in memory
+    await this.remove(job);
+    this.pruneFinishedJobs();
+
+    this.options.logger.info({
+      event: 'ingest_job_finished',
+      jobId: job.id,
+      status: job.status,
+      summary: job.summary
+    }, 'Ingest job finished');
+  }
+
+  private async processDocument(job: StoredIngestJob, index: number, doc: NormalizedDoc): Promise<void> {
+    const document = job.documents[index];
+
+    while (document.attempts < this.options.maxAttempts) {
+      document.attempts++;
+      this.updateDocument(job, index, { status: 'processing' });
+
+      try {
+        const result = await this.processor(doc, job.requestInfo);
+        this.updateDocument(job, index, {
+          status: result.status,
+          pointsUpserted: result.pointsUpserted,
+          chunks: result.chunks,
+          message: result.message,
+          findings: result.findings
+        });
+        return;
+      } catch (error) {
+        const message = (error as Error).message;
+
+        if (document.attempts >= this.options.maxAttempts) {
+          this.updateDocument(job, index, {
+            status: 'error',
+            message: `Failed after ${document.attempts} attempt(s): ${message}`
+          });
+          return;
+        }
+
+        const delay = this.options.retryDelayMs * Math.pow(2, document.attempts - 1);
+        this.options.logger.warn({
+          jobId: job.id,
+          docId: document.docId,
+          attempt: document.attempts,
+          retryInMs: delay,
+          error: message
+        }, 'Retrying ingest job document');
+
+        this.updateDocument(job, index, { status: 'pending', message });
+        await this.persist(job);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private updateDocument(
+    job: StoredIngestJob,
+    index: number,
+    update: Partial<Omit<IngestJobDocument, 'docId' | 'attempts' | 'updatedAt'>>
+  ): void {
+    Object.assign(job.documents[index], update, { updatedAt: new Date().toISOString() });
+    job.summary = summarize(job.documents);
+  }
+
+  private async persist(job: StoredIngestJob): Promise<void> {
+    const { payloads, ...persisted }: PersistedIngestJob = job;
+    if (payloads && this.options.payloadSecret) {
+      persisted.encryptedPayloads = this.encryptPayloads(job, payloads);
+    }
+
+    try {
+      await fs.mkdir(this.options.jobsDir, { recursive: true });
+      const filePath = path.join(this.options.jobsDir, `${job.id}.json`);
+      const tempPath = `${filePath}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(persisted), { encoding: 'utf-8', mode: 0o600 });
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      // Persistence only matters for resuming; keep processing in memory
+      this.options.logger.error({ jobId: job.id, error }, 'Failed to persist ingest job state');
+    }
+  }
+
+  private async remove(job: StoredIngestJob): Promise<void> {
+    try {
+      await fs.rm(path.join(this.options.jobsDir, `${job.id}.json`), { force: true });
+    } catch (error) {
+      this.options.logger.error({ jobId: job.id, error }, 'Failed to remove ingest job state');
+    }
+  }
+
+  /**
+   * Drop finished jobs past the retention period, and the oldest beyond the maximum
+   */
+  private pruneFinishedJobs(): void {
+    const retentionMs = this.options.retentionMs ?? 24 * 60 * 60 * 1000;
+    const maxFinishedJobs = this.options.maxFinishedJobs ?? 1000;
+    const finished = Array.from(this.jobs.values())
+      .filter(job => FINISHED_STATUSES.includes(job.status))
+      .sort((a, b) => (b.completedAt || '').localeCompare(a.completedAt || ''));
+
+    finished.forEach((job, index) => {
+      const age = Date.now() - Date.parse(job.completedAt || job.createdAt);
+      if (index >= maxFinishedJobs || age > retentionMs) {
+        this.jobs.delete(job.id);
+      }
+    });
+  }
+
+  // One key per job, so IVs never repeat under the same key
+  private getPayloadKey(job: StoredIngestJob): Buffer {
+    return Buffer.from(crypto.hkdfSync('sha256', this.options.payloadSecret!, job.id, 'ingest-job:payloads', 32));
+  }
+
+  private encryptPayloads(job: StoredIngestJob, payloads: NormalizedDoc[]): EncryptedPayloads {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getPayloadKey(job), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(payloads), 'utf8'), cipher.final()]);
+    return { iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64'), data: data.toString('base64') };
+  }
+
+  /**
+   * Payloads of a persisted job, or undefined when they cannot be decrypted; the
+   * job's pending documents then fail as having no payload
+   */
+  private decryptPayloads(job: StoredIngestJob, encrypted: EncryptedPayloads): NormalizedDoc[] | undefined {
+    if (!this.options.payloadSecret) {
+      this.options.logger.warn({ jobId: job.id }, 'Cannot resume ingest job payloads without INGEST_JOBS_KEY');
+      return undefined;
+    }
+
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', this.getPayloadKey(job), Buffer.from(encrypted.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'));
+      const data = Buffer.concat([decipher.update(Buffer.from(encrypted.data, 'base64')), decipher.final()]);
+      return JSON.parse(data.toString('utf8'));
+    } catch (error) {
+      this.options.logger.warn({ jobId: job.id, error: (error as Error).message }, 'Failed to decrypt ingest job payloads');
+      return undefined;
+    }
+  }
+}
+
+function emptySummary(total: number): IngestJobSummary {
+  return {
+    total,
+    pending: total,
+    published: 0,
+    updated: 0,
+    blocked: 0,
+    deleted: 0,
+    errors: 0,
+    chunks: { unchanged: 0, added: 0, removed: 0 }
+  };
+}
+
+function summarize(documents: IngestJobDocument[]): IngestJobSummary {
+  const summary = emptySummary(documents.length);
+  summary.pending = 0;
+
+  for (const document of documents) {
+    if (document.chunks) {
+      summary.chunks.unchanged += document.chunks.unchanged;
+      summary.chunks.added += document.chunks.added;
+      summary.chunks.removed += document.chunks.removed;
+    }
+
+    switch (document.status) {
+      case 'pending':
+      case 'processing':
+        summary.pending++;
+        break;
+      case 'error':
+        summary.errors++;
+        break;
+      default:
+        summary[document.status]++;
+    }
+  }
+
+  return summary;
+}
+
+function toPublicJob(job: StoredIngestJob): IngestJob {
+  const { payloads, requestInfo, ...publicJob } = job;
+  return {
+    ...publicJob,
+    tenants: [...publicJob.tenants],
+    documents: publicJob.documents.map(document => ({ ...document })),
+    summary: { ...publicJob.summary, chunks: { ...publicJob.summary.chunks } }
+  };
+}
@@ -0,0 +1,347 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import { UserAttributeValue, UserContext } from '@cw-rag-core/shared';
+
+export interface AuthConfig {
+  /** Verify bearer tokens and derive the user context from their claims */
+  jwtEnabled: boolean;
+  /** JWKS endpoint of the identity provider, e.g. https://idp.example.com/.well-known/jwks.json */
+  jwksUrl?: string;
+  /** Local JWKS file, used instead of the URL when set */
+  jwksFile?: string;
+  /** How long fetched keys are used before the JWKS is loaded again */
+  jwksCacheTtlMs: number;
+  /** Expected `iss`; not checked when unset */
+  issuer?: string;
+  /** Expected `aud` (one of the token's audiences); not checked when unset */
+  audience?: string;
+  /** Allowed clock skew for `exp` and `nbf` */
+  clockToleranceSec: number;
+  /** Claim paths (dot-separated for nested claims) the user context is built from */
+  claims: {
+    userId: string;
+    groupIds: string;
+    tenantId: string;
+  };
+  /** Claim paths of user attributes checked by attribute access rules, keyed by attribute name */
+  attributeClaims?: Record<string, string>;
+  /** Tenant of tokens without a tenant claim; such tokens are rejected when unset */
+  defaultTenantId?: string;
+  /** Static tokens of trusted services, which may act for the user given in the request */
+  serviceTokens: string[];
+}
+
+export function getAuthConfig(): AuthConfig {
+  return {
+    jwtEnabled: process.env.AUTH_JWT_ENABLED === 'on',
+    jwksUrl: process.env.AUTH_JWKS_URL || undefined,
+    jwksFile: process.env.AUTH_JWKS_FILE || undefined,
+    jwksCacheTtlMs: parseInt(process.env.AUTH_JWKS_CACHE_TTL_MS || '600000', 10),
+    issuer: process.env.AUTH_JWT_ISSUER || undefined,
+    audience: process.env.AUTH_JWT_AUDIENCE || undefined,
+    clockToleranceSec: parseInt(process.env.AUTH_JWT_CLOCK_TOLERANCE_SEC || '60', 10),
+    claims: {
+      userId: process.env.AUTH_CLAIM_USER_ID || 'sub',
+      groupIds: process.env.AUTH_CLAIM_GROUPS || 'groups',
+      tenantId: process.env.AUTH_CLAIM_TENANT || 'tenant'
+    },
+    attributeClaims: parseAttributeClaims(process.env.AUTH_CLAIM_ATTRIBUTES || ''),
+    defaultTenantId: process.env.AUTH_DEFAULT_TENANT || undefined,
+    serviceTokens: (process.env.AUTH_SERVICE_TOKENS || '')
+      .split(',')
+      .map(token => token.trim())
+      .filter(Boolean)
+  };
+}
+
+/**
+ * Comma-separated attributes, each `name` (claim of the same name) or `name=claim.path`,
+ * e.g. `clearance,regions=org.regions`
+ */
+function parseAttributeClaims(value: string): Record<string, string> {
+  const attributeClaims: Record<string, string> = {};
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [name, claim] = entry.split('=').map(part => part.trim());
+    attributeClaims[name] = claim || name;
+  }
+  return attributeClaims;
+}
+
+export class AuthenticationError extends Error {
+  constructor(
+    message: string,
+    public code: 'MISSING_TOKEN' | 'INVALID_TOKEN' | 'TOKEN_EXPIRED' | 'MISSING_CLAIM'
+  ) {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * The identity provider's keys could not be loaded, so no token can be verified.
+ * Not the client's fault: answered with 503 rather than 401.
+ */
+export class JwksUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JwksUnavailableError';
+  }
+}
+
+interface JsonWebKey extends crypto.JsonWebKey {
+  kid?: string;
+  use?: string;
+  alg?: string;
+}
+
+interface JwsAlgorithm {
+  /** Key type a key must have to verify the algorithm */
+  kty: 'RSA' | 'EC';
+  /** Curve of EC keys */
+  crv?: string;
+  digest: string;
+  padding?: number;
+  dsaEncoding?: 'ieee-p1363';
+}
+
+/** Key type, digest and signature options of the supported (asymmetric) JWS algorithms */
+const ALGORITHMS: Record<string, JwsAlgorithm> = {
+  RS256: { kty: 'RSA', digest: 'sha256', padding: crypto.constants.RSA_PKCS1_PADDING },
+  RS384: { kty: 'RSA', digest: 'sha384', padding: crypto.constants.RSA_PKCS1_PADDING },
+  RS512: { kty: 'RSA', digest: 'sha512', padding: crypto.constants.RSA_PKCS1_PADDING },
+  PS256: { kty: 'RSA', digest: 'sha256', padding: crypto.constants.RSA_PKCS1_PSS_PADDING },
+  PS384: { kty: 'RSA', digest: 'sha384', padding: crypto.constants.RSA_PKCS1_PSS_PADDING },
+  PS512: { kty: 'RSA', digest: 'sha512', padding: crypto.constants.RSA_PKCS1_PSS_PADDING },
+  ES256: { kty: 'EC', crv: 'P-256', digest: 'sha256', dsaEncoding: 'ieee-p1363' },
+  ES384: { kty: 'EC', crv: 'P-384', digest: 'sha384', dsaEncoding: 'ieee-p1363' },
+  ES512: { kty: 'EC', crv: 'P-521', digest: 'sha512', dsaEncoding: 'ieee-p1363' }
+};
+
+/** Minimum time between JWKS reloads triggered by an unknown key id */
+const JWKS_RELOAD_INTERVAL_MS = 30000;
+
+/**
+ * Verifies OIDC/JWT bearer tokens against the identity provider's JWKS and maps
+ * their claims to a user context. Only asymmetric algorithms are accepted, so the
+ * API never holds a secret that can mint tokens.
+ */
+export class JwtVerifier {
+  private keys: JsonWebKey[] = [];
+  private loadedAt = 0;
+
+  constructor(private config: AuthConfig) {}
+
+  async verify(token: string): Promise<Record<string, unknown>> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new AuthenticationError('Malformed token', 'INVALID_TOKEN');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    const header = decodeSegment(encodedHeader);
+    const alg = header.alg as string;
+    const algorithm = Object.prototype.hasOwnProperty.call(ALGORITHMS, alg) ? ALGORITHMS[alg] : undefined;
+    if (!algorithm) {
+      throw new AuthenticationError(`Unsupported token algorithm: ${header.alg}`, 'INVALID_TOKEN');
+    }
+
+    const jwk = await this.getKey(header.kid as string | undefined, alg);
+    const valid = crypto.verify(
+      algorithm.digest,
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      {
+        key: crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+        ...(algorithm.padding !== undefined && { padding: algorithm.padding }),
+        ...(algorithm.dsaEncoding && { dsaEncoding: algorithm.dsaEncoding })
+      },
+      Buffer.from(encodedSignature, 'base64url')
+    );
+    if (!valid) {
+      throw new AuthenticationError('Invalid token signature', 'INVALID_TOKEN');
+    }
+
+    const claims = decodeSegment(encodedPayload);
+    this.validateClaims(claims);
+    return claims;
+  }
+
+  /**
+   * Verify a token and build the user context from its claims
+   */
+  async verifyUserContext(token: string): Promise<UserContext> {
+    const claims = await this.verify(token);
+
+    const id = getClaim(claims, this.config.claims.userId);
+    if (typeof id !== 'string' || !id) {
+      throw new AuthenticationError(`Token has no ${this.config.claims.userId} claim`, 'MISSING_CLAIM');
+    }
+
+    const tenantClaim = getClaim(claims, this.config.claims.tenantId);
+    const tenantId = typeof tenantClaim === 'string' && tenantClaim ? tenantClaim : this.config.defaultTenantId;
+    if (!tenantId) {
+      throw new AuthenticationError(`Token has no ${this.config.claims.tenantId} claim`, 'MISSING_CLAIM');
+    }
+
+    const attributes: Record<string, UserAttributeValue> = {};
+    for (const [name, claim] of Object.entries(this.config.attributeClaims || {})) {
+      const value = toAttributeValue(getClaim(claims, claim));
+      if (value !== undefined) {
+        attributes[name] = value;
+      }
+    }
+
+    return {
+      id,
+      tenantId,
+      groupIds: toGroupIds(getClaim(claims, this.config.claims.groupIds)),
+      ...(Object.keys(attributes).length > 0 && { attributes })
+    };
+  }
+
+  private validateClaims(claims: Record<string, unknown>): void {
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = this.config.clockToleranceSec;
+
+    if (typeof claims.exp !== 'number') {
+      throw new AuthenticationError('Token has no expiry', 'INVALID_TOKEN');
+    }
+    if (claims.exp + tolerance < now) {
+      throw new AuthenticationError('Token expired', 'TOKEN_EXPIRED');
+    }
+    if (typeof claims.nbf === 'number' && claims.nbf - tolerance > now) {
+      throw new AuthenticationError('Token not yet valid', 'INVALID_TOKEN');
+    }
+    if (this.config.issuer && claims.iss !== this.config.issuer) {
+      throw new AuthenticationError('Unexpected token issuer', 'INVALID_TOKEN');
+    }
+    if (this.config.audience) {
+      const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (!audiences.includes(this.config.audience)) {
+        throw new AuthenticationError('Unexpected token audience', 'INVALID_TOKEN');
+      }
+    }
+  }
+
+  /**
+   * Signing key for a key id and token algorithm. The JWKS is reloaded when it is
+   * older than the cache TTL, or early when the provider has rotated in a key we
+   * have not seen.
+   */
+  private async getKey(kid: string | undefined, alg: string): Promise<JsonWebKey> {
+    if (Date.now() - this.loadedAt > this.config.jwksCacheTtlMs) {
+      await this.loadKeys();
+    }
+
+    let jwk = this.findKey(kid, alg);
+    if (!jwk && Date.now() - this.loadedAt > JWKS_RELOAD_INTERVAL_MS) {
+      await this.loadKeys();
+      jwk = this.findKey(kid, alg);
+    }
+    if (!jwk) {
+      throw new AuthenticationError(`Unknown signing key${kid ? ` ${kid}` : ''}`, 'INVALID_TOKEN');
+    }
+    return jwk;
+  }
+
+  /**
+   * Only keys that can verify the token's algorithm are considered: the key type
+   * (and curve) must match, as must the key's `alg` when it has one. Otherwise an
+   * RSA key could be picked for an ES256 header, or a key pinned to RS256 for PS256.
+   */
+  private findKey(kid: string | undefined, alg: string): JsonWebKey | undefined {
+    const algorithm = ALGORITHMS[alg];
+    const signingKeys = this.keys.filter(key =>
+      (key.use === undefined || key.use === 'sig') &&
+      key.kty === algorithm.kty &&
+      (algorithm.crv === undefined || key.crv === algorithm.crv) &&
+      (key.alg === undefined || key.alg === alg)
+    );
+    return kid === undefined
+      ? (signingKeys.length === 1 ? signingKeys[0] : undefined)
+      : signingKeys.find(key => key.kid === kid);
+  }
+
+  private async loadKeys(): Promise<void> {
+    let jwks: { keys?: JsonWebKey[] };
+    if (this.config.jwksFile) {
+      try {
+        jwks = JSON.parse(await fs.readFile(this.config.jwksFile, 'utf8'));
+      } catch (error) {
+        throw new JwksUnavailableError(`Failed to load JWKS from ${this.config.jwksFile}: ${(error as Error).message}`);
+      }
+    } else if (this.config.jwksUrl) {
+      let response: Response;
+      try {
+        response = await fetch(this.config.jwksUrl);
+      } catch (error) {
+        throw new JwksUnavailableError(`Failed to load JWKS: ${(error as Error).message}`);
+      }
+      if (!response.ok) {
+        throw new JwksUnavailableError(`Failed to load JWKS: ${response.status} ${response.statusText}`);
+      }
+      try {
+        jwks = await response.json() as { keys?: JsonWebKey[] };
+      } catch (error) {
+        throw new JwksUnavailableError(`Failed to load JWKS: ${(error as Error).message}`);
+      }
+    } else {
+      throw new JwksUnavailableError('AUTH_JWKS_URL or AUTH_JWKS_FILE is required when AUTH_JWT_ENABLED=on');
+    }
+
+    this.keys = Array.isArray(jwks?.keys) ? jwks.keys : [];
+    this.loadedAt = Date.now();
+  }
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new AuthenticationError('Malformed token', 'INVALID_TOKEN');
+  }
+}
+
+function getClaim(claims: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    claims
+  );
+}
+
+/** Groups claims are arrays, or space- or comma-separated strings (like `scope`) */
+function toGroupIds(claim: unknown): string[] {
+  const values = Array.isArray(claim) ? claim : typeof claim === 'string' ? claim.split(/[\s,]+/) : [];
+  return values.filter((value): value is string => typeof value === 'string' && value.length > 0);
+}
+
+/** Attribute claims are strings, numbers or arrays of them; other values are ignored */
+function toAttributeValue(claim: unknown): UserAttributeValue | undefined {
+  const isValue = (value: unknown): value is string | number => typeof value === 'string' || typeof value === 'number';
+  if (Array.isArray(claim)) {
+    return claim.filter(isValue);
+  }
+  return isValue(claim) ? claim : undefined;
+}
+
+/**
+ * Whether a bearer token is one of the configured service tokens (timing-safe)
+ */
+export function isServiceToken(token: string, config: AuthConfig): boolean {
+  const provided = Buffer.from(token, 'utf8');
+  return config.serviceTokens.some(serviceToken => {
+    const expected = Buffer.from(serviceToken, 'utf8');
+    return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+  });
+}
+
+let verifier: JwtVerifier | undefined;
+
+/**
+ * Shared verifier, so the JWKS is cached across requests
+ */
+export function getJwtVerifier(): JwtVerifier {
+  if (!verifier) {
+    verifier = new JwtVerifier(getAuthConfig());
+  }
+  return verifier;
+}
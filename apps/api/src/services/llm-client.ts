@@ -51,6 +51,20 @@ export interface LLMClient {
     }
   ): AsyncGenerator<StreamingSynthesisResponse, void, unknown>;
 
+  /**
+   * Generate a completion for an auxiliary task (e.g. query rewriting) with its own
+   * instructions instead of the answer synthesis prompt
+   */
+  generateTaskCompletion(
+    instructions: string,
+    input: string,
+    maxTokens?: number
+  ): Promise<{
+    text: string;
+    tokensUsed: number;
+    model: string;
+  }>;
+
   /**
    * Get the underlying LangChain model
    */
@@ -206,6 +220,54 @@ export class LLMClientImpl implements LLMClient {
     }
   }
 
+  async generateTaskCompletion(
+    instructions: string,
+    input: string,
+    maxTokens: number = 256
+  ): Promise<{
+    text: string;
+    tokensUsed: number;
+    model: string;
+  }> {
+    try {
+      if (this.config.provider === 'vllm') {
+        return await this.requestVLLMCompletion(
+          [
+            { role: 'system', content: instructions },
+            { role: 'user', content: input }
+          ],
+          maxTokens,
+          0
+        );
+      }
+
+      // Pass both as variables so braces in the input are not parsed as placeholders
+      const promptTemplate = ChatPromptTemplate.fromMessages([
+        ['system', '{instructions}'],
+        ['human', '{input}']
+      ]);
+      const formattedPrompt = await promptTemplate.format({ instructions, input });
+
+      const response = await this.model.invoke(formattedPrompt);
+      const text = typeof response.content === 'string'
+        ? response.content
+        : response.content.toString();
+
+      return {
+        text: text.trim(),
+        tokensUsed: this.estimateTokens(formattedPrompt + text),
+        model: this.config.model
+      };
+
+    } catch (error) {
+      throw new LLMProviderError(
+        `Failed to generate task completion: ${(error as Error).message}`,
+        this.config.provider,
+        error as Error
+      );
+    }
+  }
+
   getModel(): BaseLanguageModel {
     return this.model;
   }
@@ -252,11 +314,29 @@ export class LLMClientImpl implements LLMClient {
       { role: 'user', content: prompt }
     ];
 
+    return this.requestVLLMCompletion(
+      messages,
+      maxTokens || this.config.maxTokens || 1000,
+      this.config.temperature || (guardrailDecision?.confidence && guardrailDecision.confidence > 0.7 ? 0.3 : 0.1),
+      streaming
+    );
+  }
+
+  private async requestVLLMCompletion(
+    messages: Array<{ role: string; content: string }>,
+    maxTokens: number,
+    temperature: number,
+    streaming: boolean = false
+  ): Promise<{
+    text: string;
+    tokensUsed: number;
+    model: string;
+  }> {
     const requestBody = {
       model: this.config.model,
       messages,
-      max_tokens: maxTokens || this.config.maxTokens || 1000,
-      temperature: this.config.temperature || (guardrailDecision?.confidence && guardrailDecision.confidence > 0.7 ? 0.3 : 0.1),
+      max_tokens: maxTokens,
+      temperature,
       stream: streaming
     };
 
@@ -1082,6 +1162,38 @@ class ResilientLLMClient implements LLMClient {
     }
   }
 
+  async generateTaskCompletion(
+    instructions: string,
+    input: string,
+    maxTokens?: number
+  ): Promise<{
+    text: string;
+    tokensUsed: number;
+    model: string;
+  }> {
+    const clients = [this.primaryClient, ...this.fallbackClients];
+    let lastError: unknown;
+
+    // Auxiliary tasks sit in front of the answer, so try each client once without backoff
+    for (const client of clients) {
+      let timeoutRef: NodeJS.Timeout | undefined;
+      try {
+        const timeoutPromise = new Promise<never>((_, reject) => {
+          timeoutRef = setTimeout(() => reject(new Error('Request timeout')), this.timeoutMs);
+        });
+        return await Promise.race([client.generateTaskCompletion(instructions, input, maxTokens), timeoutPromise]);
+      } catch (error) {
+        lastError = error;
+      } finally {
+        clearTimeout(timeoutRef);
+      }
+    }
+
+    throw lastError instanceof Error
+      ? lastError
+      : new LLMProviderError('All LLM clients failed', this.primaryConfig.provider);
+  }
+
   supportsStreaming(): boolean {
     return this.primaryClient.supportsStreaming() ||
            this.fallbackClients.some(client => client.supportsStreaming());
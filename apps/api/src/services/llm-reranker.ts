@@ -0,0 +1,169 @@
+import {
+  BaseRerankerService,
+  DEFAULT_RERANKER_CONFIG,
+  RERANKER_MODELS,
+  RerankerConfig,
+  RerankerRequest,
+  RerankerResult,
+  TokenBudgeter,
+  createTokenBudgeter
+} from '@cw-rag-core/retrieval';
+import { LLMClientFactory, createLLMClientFactory } from './llm-client.js';
+
+const LISTWISE_INSTRUCTIONS = `You rank search results for a question.
+You are given the question and numbered passages. Order the passages by how well they help answer the question.
+- Judge only relevance to the question, not writing quality.
+- Leave out passages that do not help answer the question at all.
+Return only the passage numbers, most relevant first, separated by commas (for example: 3, 1, 4).`;
+
+export interface LLMRerankerConfig {
+  /** Tokens available for the question and passages in the prompt */
+  promptTokenBudget: number;
+  /** Tokens of a single passage; longer passages are truncated */
+  maxPassageTokens: number;
+  timeoutMs: number;
+}
+
+export function getLLMRerankerConfig(): LLMRerankerConfig {
+  return {
+    promptTokenBudget: parseInt(process.env.LLM_RERANKER_TOKEN_BUDGET || '3000', 10),
+    maxPassageTokens: parseInt(process.env.LLM_RERANKER_PASSAGE_TOKENS || '200', 10),
+    timeoutMs: parseInt(process.env.LLM_RERANKER_TIMEOUT_MS || '8000', 10)
+  };
+}
+
+/**
+ * Listwise reranker that asks the tenant's LLM to order the candidates, for tenants
+ * without a cross-encoder. Passages that do not fit the prompt budget and passages the
+ * LLM leaves out keep their original order behind the ranked ones. Any failure returns
+ * the candidates in their original order.
+ */
+export class LLMRerankerService extends BaseRerankerService {
+  constructor(
+    config: RerankerConfig,
+    private llmClientFactory: LLMClientFactory,
+    private llmConfig: LLMRerankerConfig = getLLMRerankerConfig(),
+    private budgeter: TokenBudgeter = createTokenBudgeter(undefined, llmConfig.promptTokenBudget)
+  ) {
+    super(config);
+  }
+
+  async rerank(request: RerankerRequest): Promise<RerankerResult[]> {
+    if (!this.config.enabled || request.documents.length === 0) {
+      return this.passThrough(request);
+    }
+
+    const timeoutMs = this.llmConfig.timeoutMs;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      return await Promise.race([
+        this.rankWithLLM(request),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`LLM reranker timeout after ${timeoutMs}ms`)), timeoutMs);
+        })
+      ]);
+    } catch (error) {
+      console.warn('StructuredLog:LLMRerankerFailure', {
+        error: (error as Error).message,
+        tenantId: request.tenantId,
+        documentCount: request.documents.length
+      });
+      return this.passThrough(request);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async isHealthy(): Promise<boolean> {
+    return true;
+  }
+
+  getSupportedModels(): string[] {
+    return [RERANKER_MODELS.LLM_LISTWISE.name];
+  }
+
+  private async rankWithLLM(request: RerankerRequest): Promise<RerankerResult[]> {
+    const { prompt, passageCount } = this.buildPrompt(request);
+    const client = await this.llmClientFactory.createClientForTenant(request.tenantId || 'default');
+    const completion = await client.generateTaskCompletion(LISTWISE_INSTRUCTIONS, prompt, 4 * passageCount + 16);
+
+    const ranked = parseRanking(completion.text, passageCount);
+    if (ranked.length === 0) {
+      throw new Error(`No passage numbers in LLM ranking: ${completion.text.slice(0, 100)}`);
+    }
+
+    // Ranked passages first, then the rest in their original order
+    const order = [...ranked, ...request.documents.map((_, index) => index).filter(index => !ranked.includes(index))];
+    const results = order.map((documentIndex, position): RerankerResult => {
+      const doc = request.documents[documentIndex];
+      const score = 1 - position / order.length;
+      return {
+        id: doc.id,
+        score,
+        content: doc.content,
+        payload: doc.payload,
+        originalScore: doc.originalScore,
+        rerankerScore: score,
+        rank: position + 1
+      };
+    });
+
+    return this.applyTopK(results, request.topK);
+  }
+
+  /**
+   * Number passages in their original order until the prompt budget is used up
+   */
+  private buildPrompt(request: RerankerRequest): { prompt: string; passageCount: number } {
+    const passageBudget = Math.min(this.llmConfig.maxPassageTokens, this.budgeter.getBudget());
+    let prompt = `Question: ${request.query}\n\nPassages:`;
+    let tokens = this.budgeter.countTokens(prompt);
+    let passageCount = 0;
+
+    for (const doc of request.documents) {
+      const passage = `\n[${passageCount + 1}] ${truncateTokens(this.budgeter, doc.content.replace(/\s+/g, ' ').trim(), passageBudget)}`;
+      const passageTokens = this.budgeter.countTokens(passage);
+      if (tokens + passageTokens > this.budgeter.getBudget()) {
+        break;
+      }
+      prompt += passage;
+      tokens += passageTokens;
+      passageCount++;
+    }
+
+    return { prompt, passageCount };
+  }
+}
+
+function truncateTokens(budgeter: TokenBudgeter, text: string, maxTokens: number): string {
+  if (budgeter.countTokens(text) <= maxTokens) {
+    return text;
+  }
+  // truncateToBudget keeps budget - margin tokens
+  return `${budgeter.truncateToBudget(text, budgeter.getBudget() - maxTokens)}…`;
+}
+
+/**
+ * Zero-based passage indexes in the order the LLM listed them ("[3] > [1], 2"),
+ * without duplicates or numbers outside 1..passageCount
+ */
+export function parseRanking(text: string, passageCount: number): number[] {
+  const ranked: number[] = [];
+  for (const match of text.matchAll(/\d+/g)) {
+    const index = parseInt(match[0], 10) - 1;
+    if (index >= 0 && index < passageCount && !ranked.includes(index)) {
+      ranked.push(index);
+    }
+  }
+  return ranked;
+}
+
+export function createLLMRerankerService(
+  llmClientFactory: LLMClientFactory = createLLMClientFactory(true)
+): LLMRerankerService {
+  return new LLMRerankerService(
+    { ...DEFAULT_RERANKER_CONFIG, enabled: true, model: RERANKER_MODELS.LLM_LISTWISE },
+    llmClientFactory
+  );
+}
@@ -0,0 +1,153 @@
+import { ConversationTurn } from '@cw-rag-core/shared';
+import {
+  PIIPolicy,
+  PIIPolicyEngine,
+  PolicyMode,
+  PseudonymVault,
+  RedactionResult,
+  StreamingRedactor,
+  TenantPolicyEngines,
+  loadTenantDetectorConfig
+} from '@cw-rag-core/ingestion-sdk';
+
+const POLICY_MODES: PolicyMode[] = ['off', 'mask', 'block', 'allowlist', 'pseudonymize'];
+
+export interface PIIServiceConfig {
+  /** Policy mode applied to ingested documents */
+  mode: PolicyMode;
+  /** Policy mode applied to user questions and generated answers, unless the tenant overrides it */
+  queryMode: PolicyMode;
+  /** Directory with per-tenant configuration (`<tenantsDir>/<tenantId>/pii-detectors.json`) */
+  tenantsDir: string;
+  /** Directory of the encrypted pseudonym vault */
+  vaultDir: string;
+  /** Master secret of the vault; pseudonymization is unavailable without it */
+  vaultKey?: string;
+  /** Minimum privilege level (see getUserPrivilegeLevel) allowed to re-identify values */
+  reidentifyMinLevel: number;
+}
+
+export function getPIIServiceConfig(): PIIServiceConfig {
+  const mode = (process.env.PII_POLICY || 'mask').toLowerCase() as PolicyMode;
+  const queryMode = (process.env.QUERY_PII_POLICY || 'mask').toLowerCase() as PolicyMode;
+
+  return {
+    mode: POLICY_MODES.includes(mode) ? mode : 'mask',
+    queryMode: POLICY_MODES.includes(queryMode) ? queryMode : 'mask',
+    tenantsDir: process.env.TENANTS_DIR || './tenants',
+    vaultDir: process.env.PII_VAULT_DIR || './data/pii-vault',
+    vaultKey: process.env.PII_VAULT_KEY || undefined,
+    reidentifyMinLevel: parseInt(process.env.PII_REIDENTIFY_MIN_LEVEL || '3', 10)
+  };
+}
+
+let vault: PseudonymVault | null | undefined;
+let tenantEngines: TenantPolicyEngines | undefined;
+
+/**
+ * Shared pseudonym vault, or null when PII_VAULT_KEY is not configured
+ */
+export function getPseudonymVault(): PseudonymVault | null {
+  if (vault === undefined) {
+    const config = getPIIServiceConfig();
+    vault = config.vaultKey
+      ? new PseudonymVault({ dir: config.vaultDir, secret: config.vaultKey })
+      : null;
+  }
+  return vault;
+}
+
+function getTenantEngines(): TenantPolicyEngines {
+  if (!tenantEngines) {
+    const config = getPIIServiceConfig();
+    tenantEngines = new TenantPolicyEngines(
+      id => loadTenantDetectorConfig(id, config.tenantsDir),
+      getPseudonymVault() || undefined
+    );
+  }
+  return tenantEngines;
+}
+
+/**
+ * Policy engine for a tenant, including the tenant's own detectors
+ */
+export function getTenantPolicyEngine(tenantId: string): Promise<PIIPolicyEngine> {
+  return getTenantEngines().getEngine(tenantId);
+}
+
+/**
+ * PII policy applied to a tenant's documents.
+ * Falls back to masking when pseudonymization is configured without a vault key.
+ */
+export function getTenantPIIPolicy(tenantId: string): PIIPolicy {
+  const { mode } = getPIIServiceConfig();
+
+  if (mode === 'pseudonymize' && !getPseudonymVault()) {
+    return { mode: 'mask', tenantId };
+  }
+
+  return { mode, tenantId };
+}
+
+/**
+ * PII policy applied to a tenant's questions and answers: the tenant's `queryPolicy`
+ * when configured, otherwise QUERY_PII_POLICY.
+ */
+export async function getTenantQueryPIIPolicy(tenantId: string): Promise<PIIPolicy> {
+  const { queryPolicy } = await getTenantEngines().getConfig(tenantId);
+  const policy: PIIPolicy = queryPolicy
+    ? { ...queryPolicy, tenantId }
+    : { mode: getPIIServiceConfig().queryMode, tenantId };
+
+  if (policy.mode === 'pseudonymize' && !getPseudonymVault()) {
+    return { ...policy, mode: 'mask' };
+  }
+
+  return policy;
+}
+
+/**
+ * Apply the tenant's query policy to a question before it is sent to the LLM.
+ * The result is blocked when the policy mode is 'block' and PII was found.
+ */
+export async function scrubQuery(tenantId: string, query: string): Promise<RedactionResult> {
+  const [engine, policy] = await Promise.all([
+    getTenantPolicyEngine(tenantId),
+    getTenantQueryPIIPolicy(tenantId)
+  ]);
+  return engine.applyRedaction(query, policy);
+}
+
+/**
+ * Apply the tenant's query policy to a generated answer.
+ * Answers are never withheld, so 'block' is applied as 'mask'.
+ */
+export async function scrubAnswer(tenantId: string, answer: string): Promise<RedactionResult> {
+  const [engine, policy] = await Promise.all([
+    getTenantPolicyEngine(tenantId),
+    getTenantQueryPIIPolicy(tenantId)
+  ]);
+  return engine.applyRedaction(answer, policy.mode === 'block' ? { ...policy, mode: 'mask' } : policy);
+}
+
+/**
+ * Apply the tenant's query policy to conversation history supplied by a client.
+ * History is context rather than a new question, so 'block' is applied as 'mask'.
+ */
+export async function scrubConversation(tenantId: string, turns: ConversationTurn[]): Promise<ConversationTurn[]> {
+  return Promise.all(turns.map(async turn => ({
+    role: turn.role,
+    content: (await scrubAnswer(tenantId, turn.content)).maskedText
+  })));
+}
+
+/**
+ * Redactor for an answer streamed to the client chunk by chunk
+ */
+export async function createAnswerRedactor(tenantId: string): Promise<StreamingRedactor> {
+  const [engine, policy] = await Promise.all([
+    getTenantPolicyEngine(tenantId),
+    getTenantQueryPIIPolicy(tenantId)
+  ]);
+  return new StreamingRedactor(engine, policy);
+}
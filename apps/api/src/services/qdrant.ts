@@ -4,6 +4,18 @@ import {
   EmbeddingService,
   BgeSmallEnV15EmbeddingService,
   generateOptimizedCollectionConfig,
+  generateMultiVectorCollectionConfig,
+  getLateInteractionConfig,
+  getMultiVectorCollectionName,
+  MultiVectorStore,
+  getParentRetrievalConfig,
+  getParentCollectionName,
+  ParentRecord,
+  ParentRecordStore,
+  SPARSE_VECTOR_NAME,
+  encodeBM25Query,
+  getSparseVectorConfig,
+  loadCorpusStats,
   calculateAdaptiveEf,
   QueryResultCache,
   QdrantPerformanceMonitor
@@ -15,13 +27,26 @@ import {
   DOCUMENT_VECTOR_DIMENSION,
   UserContext,
   buildQdrantRBACFilter,
+  applyQdrantVersionFilter,
   validateUserAuthorization,
-  getUserACLEntries
+  getUserACLEntries,
+  FilterExpression
 } from '@cw-rag-core/shared';
 export { QdrantClient };
 
 export const QDRANT_COLLECTION_NAME = 'docs_v1';
 
+// Collections found at bootstrap without the BM25 sparse vectors (created before they were enabled)
+const collectionsWithoutSparseVectors = new Set<string>();
+
+/**
+ * Whether points of a collection can carry the BM25 sparse vector: sparse vectors are
+ * enabled and bootstrap did not find the collection without them
+ */
+export function collectionHasSparseVectors(collectionName: string): boolean {
+  return getSparseVectorConfig().enabled && !collectionsWithoutSparseVectors.has(collectionName);
+}
+
 export async function bootstrapQdrant(
   qdrantClient: QdrantClient,
   logger: FastifyBaseLogger,
@@ -46,6 +71,10 @@ export async function bootstrapQdrant(
       if (!collectionExists) {
         logger.info(`Collection '${QDRANT_COLLECTION_NAME}' not found in existing collections, creating new collection with optimized config...`);
         const optimizedConfig = generateOptimizedCollectionConfig(DOCUMENT_VECTOR_DIMENSION, 'Cosine');
+        if (getSparseVectorConfig().enabled) {
+          // BM25 term weights next to the unnamed dense vector, for the keyword leg of hybrid search
+          optimizedConfig.sparse_vectors = { [SPARSE_VECTOR_NAME]: { index: { on_disk: true } } };
+        }
         await qdrantClient.createCollection(QDRANT_COLLECTION_NAME, optimizedConfig);
         logger.info(`Collection '${QDRANT_COLLECTION_NAME}' created.`);
 
@@ -83,7 +112,7 @@ export async function bootstrapQdrant(
         });
         await qdrantClient.createPayloadIndex(QDRANT_COLLECTION_NAME, {
           field_name: 'modifiedAt',
-          field_schema: 'keyword',
+          field_schema: 'datetime', // Range filters such as "updated since June"
           wait: true
         });
 
@@ -108,6 +137,35 @@ export async function bootstrapQdrant(
           wait: true
         });
 
+        // Version validity indexes for point-in-time retrieval
+        await qdrantClient.createPayloadIndex(QDRANT_COLLECTION_NAME, {
+          field_name: 'superseded',
+          field_schema: 'bool',
+          wait: true
+        });
+        await qdrantClient.createPayloadIndex(QDRANT_COLLECTION_NAME, {
+          field_name: 'validFrom',
+          field_schema: 'datetime',
+          wait: true
+        });
+        await qdrantClient.createPayloadIndex(QDRANT_COLLECTION_NAME, {
+          field_name: 'validTo',
+          field_schema: 'datetime',
+          wait: true
+        });
+
+        // Keyword indexes for filters inferred from questions ("by Alice", "tagged onboarding")
+        await qdrantClient.createPayloadIndex(QDRANT_COLLECTION_NAME, {
+          field_name: 'authors',
+          field_schema: 'keyword',
+          wait: true
+        });
+        await qdrantClient.createPayloadIndex(QDRANT_COLLECTION_NAME, {
+          field_name: 'tags',
+          field_schema: 'keyword',
+          wait: true
+        });
+
         // Spaces and lexical indexes
         await qdrantClient.createPayloadIndex(QDRANT_COLLECTION_NAME, {
           field_name: 'spaceId',
@@ -138,10 +196,21 @@ export async function bootstrapQdrant(
         try {
           const collectionInfo = await qdrantClient.getCollection(QDRANT_COLLECTION_NAME);
           logger.info(`Existing collection '${QDRANT_COLLECTION_NAME}' validation - Vectors: ${collectionInfo.vectors_count}, Indexed: ${collectionInfo.indexed_vectors_count}, Points: ${collectionInfo.points_count}, Status: ${collectionInfo.status}`);
+          if (getSparseVectorConfig().enabled && !collectionInfo.config.params.sparse_vectors?.[SPARSE_VECTOR_NAME]) {
+            collectionsWithoutSparseVectors.add(QDRANT_COLLECTION_NAME);
+            logger.warn(`Collection '${QDRANT_COLLECTION_NAME}' has no '${SPARSE_VECTOR_NAME}' sparse vectors; publishing skips them and keyword search uses full-text matching until it is recreated`);
+          }
         } catch (validationError) {
           logger.warn(`Could not validate existing collection '${QDRANT_COLLECTION_NAME}': ${(validationError as Error).message}`);
         }
       }
+
+      if (getLateInteractionConfig().enabled) {
+        await bootstrapMultiVectorCollection(qdrantClient, existingCollectionNames, logger);
+      }
+      if (getParentRetrievalConfig().enabled) {
+        await bootstrapParentCollection(qdrantClient, existingCollectionNames, logger);
+      }
       logger.info('Qdrant bootstrap complete.');
       return;
     } catch (error) {
@@ -162,6 +231,128 @@ export async function bootstrapQdrant(
   }
 }
 
+/**
+ * The dense vector of a point; collections with sparse vectors return all of a
+ * point's vectors by name, with the dense one under ""
+ */
+export function getDenseVector(vector: unknown): number[] | undefined {
+  if (Array.isArray(vector)) {
+    return vector as number[];
+  }
+  const dense = (vector as Record<string, unknown> | null | undefined)?.[''];
+  return Array.isArray(dense) ? dense as number[] : undefined;
+}
+
+/**
+ * Create the collection of per-sentence chunk vectors used for late-interaction scoring
+ */
+async function bootstrapMultiVectorCollection(
+  qdrantClient: QdrantClient,
+  existingCollectionNames: string[],
+  logger: FastifyBaseLogger
+): Promise<void> {
+  const collectionName = getMultiVectorCollectionName(QDRANT_COLLECTION_NAME);
+  if (existingCollectionNames.includes(collectionName)) {
+    logger.info(`Multi-vector collection '${collectionName}' already exists.`);
+    return;
+  }
+
+  await qdrantClient.createCollection(
+    collectionName,
+    generateMultiVectorCollectionConfig(DOCUMENT_VECTOR_DIMENSION, 'Cosine')
+  );
+  // Hard deletes remove a document's points by these fields
+  for (const field of ['tenant', 'docId']) {
+    await qdrantClient.createPayloadIndex(collectionName, {
+      field_name: field,
+      field_schema: 'keyword',
+      wait: true
+    });
+  }
+  logger.info(`Multi-vector collection '${collectionName}' created.`);
+}
+
+/**
+ * Reads chunk multi-vectors from the multi-vector collection of a chunk collection
+ */
+export function createQdrantMultiVectorStore(qdrantClient: QdrantClient): MultiVectorStore {
+  return {
+    async getMultiVectors(collectionName: string, ids: string[]): Promise<Map<string, number[][]>> {
+      const points = await qdrantClient.retrieve(getMultiVectorCollectionName(collectionName), {
+        ids,
+        with_payload: false,
+        with_vector: true
+      });
+
+      const multiVectors = new Map<string, number[][]>();
+      for (const point of points) {
+        if (Array.isArray(point.vector) && Array.isArray(point.vector[0])) {
+          multiVectors.set(String(point.id), point.vector as number[][]);
+        }
+      }
+      return multiVectors;
+    }
+  };
+}
+
+/**
+ * Create the collection of parent records (sections or pages) for small-to-big retrieval
+ */
+async function bootstrapParentCollection(
+  qdrantClient: QdrantClient,
+  existingCollectionNames: string[],
+  logger: FastifyBaseLogger
+): Promise<void> {
+  const collectionName = getParentCollectionName(QDRANT_COLLECTION_NAME);
+  if (existingCollectionNames.includes(collectionName)) {
+    logger.info(`Parent record collection '${collectionName}' already exists.`);
+    return;
+  }
+
+  // Parent records are only read by id; the one-dimensional vector is a placeholder
+  await qdrantClient.createCollection(collectionName, {
+    vectors: { size: 1, distance: 'Dot' }
+  });
+  for (const field of ['tenant', 'docId']) {
+    await qdrantClient.createPayloadIndex(collectionName, {
+      field_name: field,
+      field_schema: 'keyword',
+      wait: true
+    });
+  }
+  logger.info(`Parent record collection '${collectionName}' created.`);
+}
+
+/**
+ * Reads parent records from the parent collection of a chunk collection
+ */
+export function createQdrantParentRecordStore(qdrantClient: QdrantClient): ParentRecordStore {
+  return {
+    async getParents(collectionName: string, ids: string[]): Promise<Map<string, ParentRecord>> {
+      const points = await qdrantClient.retrieve(getParentCollectionName(collectionName), {
+        ids,
+        with_payload: true,
+        with_vector: false
+      });
+
+      const parents = new Map<string, ParentRecord>();
+      for (const point of points) {
+        const payload = point.payload as Record<string, any> | null | undefined;
+        if (typeof payload?.content === 'string') {
+          parents.set(String(point.id), {
+            id: String(point.id),
+            docId: payload.docId,
+            unit: payload.unit,
+            content: payload.content,
+            ...(payload.page !== undefined && { page: payload.page }),
+            ...(payload.headingPath && { headingPath: payload.headingPath })
+          });
+        }
+      }
+      return parents;
+    }
+  };
+}
 
 export async function ingestDocument(
   qdrantClient: QdrantClient,
@@ -219,6 +410,57 @@ export async function ingestDocument(
   return docId;
 }
 
+/**
+ * Compile a portable filter expression into a Qdrant filter. The result only has
+ * `must` clauses, so merging it into an RBAC filter always narrows the search.
+ * Relative dates (`within`) are resolved against `now`.
+ */
+export function compileFilterToQdrant(expression: FilterExpression, now: Date = new Date()): { must: Record<string, any>[] } {
+  if ('and' in expression) {
+    return { must: expression.and.map(child => compileFilterCondition(child, now)) };
+  }
+  return { must: [compileFilterCondition(expression, now)] };
+}
+
+function compileFilterCondition(expression: FilterExpression, now: Date): Record<string, any> {
+  if ('and' in expression) {
+    return { must: expression.and.map(child => compileFilterCondition(child, now)) };
+  }
+  if ('or' in expression) {
+    return { should: expression.or.map(child => compileFilterCondition(child, now)) };
+  }
+  if ('not' in expression) {
+    return { must_not: [compileFilterCondition(expression.not, now)] };
+  }
+
+  switch (expression.op) {
+    case 'eq':
+      return { key: expression.field, match: { value: expression.value } };
+    case 'in':
+      return { key: expression.field, match: { any: expression.values } };
+    case 'range': {
+      const { field, op: _op, ...bounds } = expression;
+      return { key: field, range: bounds };
+    }
+    case 'exists':
+      return { must_not: [{ is_empty: { key: expression.field } }] };
+    case 'within':
+      return { key: expression.field, range: { gte: subtractDuration(now, expression.last).toISOString() } };
+  }
+}
+
+function subtractDuration(now: Date, duration: string): Date {
+  const amount = parseInt(duration, 10);
+  const date = new Date(now);
+  switch (duration.slice(-1)) {
+    case 'd': date.setUTCDate(date.getUTCDate() - amount); break;
+    case 'w': date.setUTCDate(date.getUTCDate() - 7 * amount); break;
+    case 'm': date.setUTCMonth(date.getUTCMonth() - amount); break;
+    default: date.setUTCFullYear(date.getUTCFullYear() - amount);
+  }
+  return date;
+}
+
 // Global cache instance
 const queryCache = new QueryResultCache();
 
@@ -240,7 +482,7 @@ export async function searchDocuments(
   const searchVector = vector || Array.from({ length: DOCUMENT_VECTOR_DIMENSION }, () => Math.random());
 
   // Build enhanced RBAC filter using the new utility
-  const rbacFilter = buildQdrantRBACFilter(userContext);
+  const rbacFilter = applyQdrantVersionFilter(buildQdrantRBACFilter(userContext));
 
   // Check cache first (simple key based on vector hash and filters)
   const cacheKey = `${searchVector.slice(0, 5).join(',')}_${JSON.stringify(rbacFilter)}_${request.limit}`;
@@ -312,7 +554,27 @@ export async function keywordSearchDocuments(
   }
 
   // Build enhanced RBAC filter
-  const rbacFilter = buildQdrantRBACFilter(userContext);
+  const rbacFilter = applyQdrantVersionFilter(buildQdrantRBACFilter(userContext));
+
+  if (collectionHasSparseVectors(collectionName)) {
+    try {
+      const sparseResult = await qdrantClient.search(collectionName, {
+        vector: { name: SPARSE_VECTOR_NAME, vector: encodeBM25Query(query, loadCorpusStats(userContext.tenantId)) },
+        limit,
+        filter: rbacFilter,
+        with_payload: true
+      });
+
+      return sparseResult.map((hit: any) => ({
+        id: hit.id,
+        score: hit.score,
+        vector: [],
+        payload: hit.payload || {}
+      }));
+    } catch (error) {
+      console.warn('BM25 sparse search failed, using full-text matching:', (error as Error).message);
+    }
+  }
 
   // Add content text search to the must conditions
   rbacFilter.must.push({
@@ -390,7 +652,7 @@ export async function securityTestSearch(
     return []; // Return 0 results for unauthorized users
   }
 
-  const rbacFilter = buildQdrantRBACFilter(userContext);
+  const rbacFilter = applyQdrantVersionFilter(buildQdrantRBACFilter(userContext));
 
   try {
     const searchResult = await qdrantClient.search(collectionName, {
@@ -433,7 +695,7 @@ export async function batchSearchDocuments(
   }
 
   // Build RBAC filter once for all searches
-  const rbacFilter = buildQdrantRBACFilter(userContext);
+  const rbacFilter = applyQdrantVersionFilter(buildQdrantRBACFilter(userContext));
 
   // Execute searches in parallel for better performance
   const searchPromises = vectors.map(vector =>
@@ -485,7 +747,7 @@ export async function optimizedSearchDocuments(
   }
 
   // Build enhanced RBAC filter
-  const rbacFilter = buildQdrantRBACFilter(userContext);
+  const rbacFilter = applyQdrantVersionFilter(buildQdrantRBACFilter(userContext));
 
   const searchParams: any = {
     vector: vector,
@@ -0,0 +1,110 @@
+import { ConversationTurn } from '@cw-rag-core/shared';
+import { LLMClientFactory, createLLMClientFactory } from './llm-client.js';
+
+export interface CondensedQuery {
+  /** Question to search and answer with */
+  query: string;
+  /** Whether the question was rewritten from the conversation */
+  rewritten: boolean;
+  /** How the question was rewritten */
+  method?: 'llm' | 'fallback';
+}
+
+export interface QueryCondenserOptions {
+  /** Use the LLM to rewrite follow-ups; otherwise the previous question is prepended */
+  enabled: boolean;
+  /** Assistant answers are cut to this many characters in the rewrite prompt */
+  maxAnswerChars: number;
+}
+
+export function getQueryCondenserConfig(): QueryCondenserOptions {
+  return {
+    enabled: process.env.QUERY_CONDENSE_ENABLED !== 'false',
+    maxAnswerChars: parseInt(process.env.QUERY_CONDENSE_MAX_ANSWER_CHARS || '600', 10)
+  };
+}
+
+const CONDENSE_INSTRUCTIONS = `You rewrite follow-up questions from a conversation with a document assistant.
+Rewrite the follow-up question into a standalone question that can be understood without the conversation:
+- Replace pronouns and references ("it", "that policy", "and for contractors?") with what they refer to.
+- Keep the language, intent and level of detail of the follow-up question.
+- If the follow-up question already stands on its own, return it unchanged.
+- Do not answer the question.
+Return only the standalone question, without quotes or explanations.`;
+
+/**
+ * Rewrites follow-up questions into standalone questions before retrieval,
+ * so "and what about for contractors?" searches for the actual topic.
+ */
+export class QueryCondenser {
+  constructor(
+    private llmClientFactory: LLMClientFactory,
+    private options: QueryCondenserOptions = getQueryCondenserConfig()
+  ) {}
+
+  async condense(query: string, history: ConversationTurn[], tenantId: string): Promise<CondensedQuery> {
+    if (!history.some(turn => turn.role === 'user')) {
+      return { query, rewritten: false };
+    }
+
+    if (this.options.enabled) {
+      try {
+        const client = await this.llmClientFactory.createClientForTenant(tenantId);
+        const result = await client.generateTaskCompletion(
+          CONDENSE_INSTRUCTIONS,
+          this.buildInput(query, history),
+          Math.max(128, Math.ceil(query.length / 2))
+        );
+
+        const standalone = cleanCompletion(result.text);
+        if (standalone && standalone.length <= query.length * 4 + 400) {
+          return standalone === query
+            ? { query, rewritten: false }
+            : { query: standalone, rewritten: true, method: 'llm' };
+        }
+      } catch (error) {
+        console.warn('Query condensation failed, using previous question as context:', (error as Error).message);
+      }
+    }
+
+    return this.fallback(query, history);
+  }
+
+  private buildInput(query: string, history: ConversationTurn[]): string {
+    const conversation = history
+      .map(turn => turn.role === 'user'
+        ? `User: ${turn.content}`
+        : `Assistant: ${truncate(turn.content, this.options.maxAnswerChars)}`)
+      .join('\n');
+
+    return `Conversation:\n${conversation}\n\nFollow-up question: ${query}`;
+  }
+
+  /**
+   * Without an LLM, searching for the previous question together with the
+   * follow-up keeps the topic of the conversation in the query.
+   */
+  private fallback(query: string, history: ConversationTurn[]): CondensedQuery {
+    const previous = [...history].reverse().find(turn => turn.role === 'user');
+    if (!previous) {
+      return { query, rewritten: false };
+    }
+    return { query: `${previous.content.trim()} ${query}`, rewritten: true, method: 'fallback' };
+  }
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}…` : text;
+}
+
+function cleanCompletion(text: string): string {
+  return text
+    .trim()
+    .replace(/^(standalone question|question)\s*:\s*/i, '')
+    .replace(/^["'“](.*)["'”]$/s, '$1')
+    .trim();
+}
+
+export function createQueryCondenser(llmClientFactory: LLMClientFactory = createLLMClientFactory(true)): QueryCondenser {
+  return new QueryCondenser(llmClientFactory);
+}
@@ -0,0 +1,71 @@
+import { HybridSearchServiceImpl, QueryVariantGenerator, getTenantQueryExpansionConfigs } from '@cw-rag-core/retrieval';
+import { LLMClientFactory, createLLMClientFactory } from './llm-client.js';
+
+const PARAPHRASE_INSTRUCTIONS = `You help a search engine find documents for a question.
+Rewrite the question in different ways that someone might phrase it:
+- Use synonyms and the terms a document about the topic would likely use.
+- Keep the language and intent of the question; do not add new constraints.
+- Do not answer the question.
+Return one rewritten question per line, without numbering, quotes or explanations.`;
+
+const HYPOTHETICAL_ANSWER_INSTRUCTIONS = `You help a search engine find documents for a question.
+Write a short passage (2-4 sentences) as it could appear in a document that answers the question.
+- Write in the language of the question, in the neutral style of internal documentation.
+- Plausible details are fine; the passage is only used for searching and never shown to anyone.
+Return only the passage, without quotes or explanations.`;
+
+/**
+ * Uses the tenant's LLM to write paraphrases and hypothetical answers of a question
+ * for multi-query and HyDE retrieval.
+ */
+export class LLMQueryVariantGenerator implements QueryVariantGenerator {
+  constructor(private llmClientFactory: LLMClientFactory) {}
+
+  async generateParaphrases(query: string, count: number, tenantId: string): Promise<string[]> {
+    const client = await this.llmClientFactory.createClientForTenant(tenantId);
+    const result = await client.generateTaskCompletion(
+      `${PARAPHRASE_INSTRUCTIONS}\nWrite exactly ${count} rewritten questions.`,
+      `Question: ${query}`,
+      Math.max(128, Math.ceil(query.length / 2) * count)
+    );
+
+    return result.text
+      .split('\n')
+      .map(line => line.trim().replace(/^(\d+[.)]|[-*•])\s*/, '').replace(/^["'“](.*)["'”]$/, '$1').trim())
+      .filter(Boolean)
+      .slice(0, count);
+  }
+
+  async generateHypotheticalAnswer(query: string, tenantId: string): Promise<string> {
+    const client = await this.llmClientFactory.createClientForTenant(tenantId);
+    const result = await client.generateTaskCompletion(
+      HYPOTHETICAL_ANSWER_INSTRUCTIONS,
+      `Question: ${query}`,
+      200
+    );
+
+    return result.text.trim().replace(/^passage\s*:\s*/i, '').trim();
+  }
+}
+
+export function createQueryVariantGenerator(
+  llmClientFactory: LLMClientFactory = createLLMClientFactory(true)
+): LLMQueryVariantGenerator {
+  return new LLMQueryVariantGenerator(llmClientFactory);
+}
+
+/**
+ * Give a hybrid search service an LLM variant generator and apply the per-tenant
+ * expansion modes from QUERY_EXPANSION_TENANTS; other tenants use QUERY_EXPANSION_MODE.
+ */
+export async function configureQueryExpansion(
+  hybridSearchService: HybridSearchServiceImpl,
+  generator: QueryVariantGenerator = createQueryVariantGenerator()
+): Promise<void> {
+  hybridSearchService.setQueryVariantGenerator(generator);
+
+  for (const [tenantId, queryExpansion] of Object.entries(getTenantQueryExpansionConfigs())) {
+    const current = await hybridSearchService.getTenantConfig(tenantId);
+    await hybridSearchService.updateTenantConfig({ ...current, tenantId, queryExpansion });
+  }
+}
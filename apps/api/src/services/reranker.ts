@@ -0,0 +1,81 @@
+import type { FastifyBaseLogger } from 'fastify';
+import {
+  BaseRerankerService,
+  DEFAULT_RERANKER_CONFIG,
+  OnnxRerankerService,
+  RERANKER_CONFIG,
+  RERANKER_MODELS,
+  RerankerRequest,
+  RerankerResult,
+  RerankerService
+} from '@cw-rag-core/retrieval';
+import { createLLMRerankerService } from './llm-reranker.js';
+
+// One in-process model shared by /ask and /ask/stream
+let onnxReranker: OnnxRerankerService | null = null;
+
+export function getOnnxRerankerService(): OnnxRerankerService {
+  if (!onnxReranker) {
+    onnxReranker = new OnnxRerankerService({
+      ...DEFAULT_RERANKER_CONFIG,
+      enabled: true,
+      model: RERANKER_MODELS.MS_MARCO_MINILM_L6
+    });
+  }
+  return onnxReranker;
+}
+
+/**
+ * Load the ONNX reranker before the server accepts requests. A model that fails to
+ * load is logged and retried on the first request, which falls back to fusion order.
+ */
+export async function warmUpReranker(log: FastifyBaseLogger): Promise<void> {
+  if (RERANKER_CONFIG.BACKEND !== 'onnx') {
+    return;
+  }
+
+  try {
+    const duration = await getOnnxRerankerService().warmUp();
+    log.info({ durationMs: Math.round(duration) }, 'ONNX reranker warmed up');
+  } catch (error) {
+    log.warn({ error: (error as Error).message }, 'ONNX reranker warm-up failed');
+  }
+}
+
+/**
+ * Sends each request to the reranker of the model the tenant selected
+ * (`rerankerConfig.model`, passed as RerankerRequest.model), or to the default reranker.
+ */
+export class ModelRoutingRerankerService extends BaseRerankerService {
+  constructor(
+    private defaultReranker: RerankerService,
+    private modelRerankers: Record<string, RerankerService>
+  ) {
+    super(defaultReranker.getConfig());
+  }
+
+  async rerank(request: RerankerRequest): Promise<RerankerResult[]> {
+    const reranker = (request.model && this.modelRerankers[request.model]) || this.defaultReranker;
+    return reranker.rerank(request);
+  }
+
+  async isHealthy(): Promise<boolean> {
+    return this.defaultReranker.isHealthy();
+  }
+
+  getSupportedModels(): string[] {
+    return [...this.defaultReranker.getSupportedModels(), ...Object.keys(this.modelRerankers)];
+  }
+}
+
+/**
+ * Let tenants select the LLM listwise reranker by model name. With
+ * RERANKER_MODEL=llm-listwise it is also the default for every tenant.
+ */
+export function withModelRouting(defaultReranker: RerankerService): RerankerService {
+  const llmReranker = createLLMRerankerService();
+  return new ModelRoutingRerankerService(
+    RERANKER_CONFIG.MODEL === RERANKER_MODELS.LLM_LISTWISE.name ? llmReranker : defaultReranker,
+    { [RERANKER_MODELS.LLM_LISTWISE.name]: llmReranker }
+  );
+}
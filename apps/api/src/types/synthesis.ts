@@ -41,6 +41,7 @@ export interface Citation {
   url?: string;
   filepath?: string;
   authors?: string[];
+  headingPath?: string[];
   freshness?: FreshnessInfo | null;
 }
 
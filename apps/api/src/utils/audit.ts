@@ -33,7 +33,8 @@ export interface AuditLogEntry {
   source: string;
 
   /** Action performed */
-  action: 'publish' | 'skip' | 'tombstone' | 'block' | 'preview';
+  action: 'publish' | 'skip' | 'tombstone' | 'block' | 'preview' | 'reidentify' | 'scrub' | 'share' | 'view_shared'
+    | 'access_denied' | 'acl_update';
 
   /** Summary of PII findings (never raw PII) */
   findingsSummary: RedactionSummary[];
@@ -44,6 +45,12 @@ export interface AuditLogEntry {
   /** Optional error message */
   error?: string;
 
+  /** Document ACL before and after a permission change */
+  acl?: { before: string[]; after: string[] };
+
+  /** Acting user, for user-initiated operations */
+  userId?: string;
+
   /** Request IP address */
   ip?: string;
 
@@ -208,6 +215,147 @@ export class AuditLogger {
       userAgent
     });
   }
+
+  /**
+   * Log a re-identification of pseudonymized values (granted or denied)
+   */
+  logReidentify(
+    tenant: string,
+    userId: string,
+    reference: string | undefined,
+    restored: RedactionSummary[],
+    granted: boolean,
+    ip?: string,
+    userAgent?: string
+  ): void {
+    this.logEntry({
+      ts: new Date().toISOString(),
+      route: '/pii/reidentify',
+      tenant,
+      docId: reference || 'n/a',
+      source: 'api',
+      action: 'reidentify',
+      findingsSummary: restored,
+      status: granted ? 'success' : 'blocked',
+      userId,
+      ip,
+      userAgent
+    });
+  }
+
+  /**
+   * Log PII found in a user question or a generated answer
+   */
+  logQueryScrub(
+    route: string,
+    tenant: string,
+    userId: string | undefined,
+    queryId: string,
+    target: 'query' | 'answer',
+    findingsSummary: RedactionSummary[],
+    blocked: boolean,
+    ip?: string,
+    userAgent?: string
+  ): void {
+    this.logEntry({
+      ts: new Date().toISOString(),
+      route,
+      tenant,
+      docId: queryId,
+      source: target,
+      action: blocked ? 'block' : 'scrub',
+      findingsSummary,
+      status: blocked ? 'blocked' : 'success',
+      userId,
+      ip,
+      userAgent
+    });
+  }
+
+  /**
+   * Log creating a conversation share link, or viewing a shared conversation.
+   * Views record how many answers were withheld because the viewer lacks access to their sources.
+   */
+  logConversationShare(
+    action: 'share' | 'view_shared',
+    tenant: string,
+    userId: string,
+    conversationId: string,
+    withheldAnswers: number,
+    ip?: string,
+    userAgent?: string
+  ): void {
+    this.logEntry({
+      ts: new Date().toISOString(),
+      route: action === 'share' ? '/conversations/:conversationId/share' : '/shared/:token',
+      tenant,
+      docId: conversationId,
+      source: 'conversation',
+      action,
+      findingsSummary: withheldAnswers > 0 ? [{ type: 'withheld_answers', count: withheldAnswers }] : [],
+      status: 'success',
+      userId,
+      ip,
+      userAgent
+    });
+  }
+
+  /**
+   * Log a denied attempt to read or delete a document
+   */
+  logAccessDenied(
+    route: string,
+    tenant: string,
+    userId: string,
+    docId: string,
+    reason: string,
+    ip?: string,
+    userAgent?: string
+  ): void {
+    this.logEntry({
+      ts: new Date().toISOString(),
+      route,
+      tenant,
+      docId,
+      source: 'api',
+      action: 'access_denied',
+      findingsSummary: [],
+      status: 'blocked',
+      error: reason,
+      userId,
+      ip,
+      userAgent
+    });
+  }
+
+  /**
+   * Log a change of a document's ACL
+   */
+  logAclUpdate(
+    route: string,
+    tenant: string,
+    userId: string,
+    docId: string,
+    before: string[],
+    after: string[],
+    ip?: string,
+    userAgent?: string
+  ): void {
+    this.logEntry({
+      ts: new Date().toISOString(),
+      route,
+      tenant,
+      docId,
+      source: 'api',
+      action: 'acl_update',
+      findingsSummary: [],
+      status: 'success',
+      acl: { before, after },
+      userId,
+      ip,
+      userAgent
+    });
+  }
 }
 
 /**
@@ -37,6 +37,20 @@ export function extractCombinedText(doc: NormalizedDoc): string {
     .join('\n');
 }
 
+/**
+ * Copy of a document with the text and HTML of every block passed through `redact`
+ */
+export function redactDocumentBlocks(doc: NormalizedDoc, redact: (text: string) => string): NormalizedDoc {
+  return {
+    ...doc,
+    blocks: doc.blocks.map(block => ({
+      ...block,
+      ...(block.text !== undefined && { text: redact(block.text) }),
+      ...(block.html !== undefined && { html: redact(block.html) })
+    }))
+  };
+}
+
 /**
  * Calculate document size in bytes
  */
@@ -128,6 +142,8 @@ export function createChunkPayload(
     source: doc.meta.source,
     path: doc.meta.path,
     title: doc.meta.title,
+    authors: doc.meta.authors,
+    tags: doc.meta.tags,
     timestamp: doc.meta.timestamp,
     modifiedAt: doc.meta.modifiedAt,
     chunkId,
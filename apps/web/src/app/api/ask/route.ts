@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { forwardUserContextHeaders } from '@/lib/user-context';
 import { AskRequest, AskResponse } from '@cw-rag-core/shared';
 
 export async function POST(request: NextRequest) {
@@ -28,6 +29,7 @@ export async function POST(request: NextRequest) {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...forwardUserContextHeaders(request.headers),
       },
       body: JSON.stringify(askRequest),
       cache: 'no-store', // Disable Next.js data cache for this request
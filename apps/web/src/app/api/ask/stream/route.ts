@@ -1,4 +1,5 @@
 import { NextRequest } from 'next/server';
+import { forwardUserContextHeaders } from '@/lib/user-context';
 
 export async function POST(request: NextRequest) {
   try {
@@ -10,6 +11,7 @@ export async function POST(request: NextRequest) {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...forwardUserContextHeaders(request.headers),
       },
       body: JSON.stringify(body),
       cache: 'no-store',
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forwardUserContextHeaders } from '@/lib/user-context';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const API_BASE_URL = process.env.API_BASE_URL || 'http://localhost:3000';
+
+export async function GET(request: NextRequest) {
+  try {
+    const response = await fetch(`${API_BASE_URL}/capabilities`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        ...forwardUserContextHeaders(request.headers),
+      },
+    });
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
+
+  } catch (error) {
+    console.error('Error fetching capabilities:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve user capabilities.'
+      },
+      { status: 500 }
+    );
+  }
+}
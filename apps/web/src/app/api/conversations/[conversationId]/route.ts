@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forwardUserContextHeaders } from '@/lib/user-context';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const API_BASE_URL = process.env.API_BASE_URL || 'http://localhost:3000';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { conversationId: string } }
+) {
+  try {
+    const backendUrl = `${API_BASE_URL}/conversations/${encodeURIComponent(params.conversationId)}`;
+
+    const response = await fetch(backendUrl, {
+      method: 'GET',
+      headers: forwardUserContextHeaders(request.headers),
+    });
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
+
+  } catch (error) {
+    console.error('Error fetching conversation:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve conversation.'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { conversationId: string } }
+) {
+  try {
+    const backendUrl = `${API_BASE_URL}/conversations/${encodeURIComponent(params.conversationId)}`;
+
+    const response = await fetch(backendUrl, {
+      method: 'DELETE',
+      headers: forwardUserContextHeaders(request.headers),
+    });
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
+
+  } catch (error) {
+    console.error('Error deleting conversation:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal Server Error',
+        message: 'Failed to delete conversation.'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forwardUserContextHeaders } from '@/lib/user-context';
+
+const API_BASE_URL = process.env.API_BASE_URL || 'http://localhost:3000';
+
+async function forwardShareRequest(
+  request: NextRequest,
+  conversationId: string,
+  method: 'POST' | 'DELETE'
+) {
+  try {
+    const backendUrl = `${API_BASE_URL}/conversations/${encodeURIComponent(conversationId)}/share`;
+
+    const response = await fetch(backendUrl, {
+      method,
+      headers: forwardUserContextHeaders(request.headers),
+    });
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
+
+  } catch (error) {
+    console.error('Error updating conversation share link:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal Server Error',
+        message: 'Failed to update share link.'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { conversationId: string } }
+) {
+  return forwardShareRequest(request, params.conversationId, 'POST');
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { conversationId: string } }
+) {
+  return forwardShareRequest(request, params.conversationId, 'DELETE');
+}
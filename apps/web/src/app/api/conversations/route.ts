@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forwardUserContextHeaders } from '@/lib/user-context';
+
+// Conversations are per user, never cache them
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const API_BASE_URL = process.env.API_BASE_URL || 'http://localhost:3000';
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = new URLSearchParams();
+    for (const name of ['page', 'limit']) {
+      const value = request.nextUrl.searchParams.get(name);
+      if (value) params.set(name, value);
+    }
+
+    const response = await fetch(`${API_BASE_URL}/conversations?${params}`, {
+      method: 'GET',
+      headers: forwardUserContextHeaders(request.headers),
+    });
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
+
+  } catch (error) {
+    console.error('Error fetching conversations:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve conversations.'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const response = await fetch(`${API_BASE_URL}/conversations`, {
+      method: 'POST',
+      headers: forwardUserContextHeaders(request.headers),
+    });
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
+
+  } catch (error) {
+    console.error('Error creating conversation:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal Server Error',
+        message: 'Failed to create conversation.'
+      },
+      { status: 500 }
+    );
+  }
+}
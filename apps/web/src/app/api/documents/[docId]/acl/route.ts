@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forwardUserContextHeaders } from '@/lib/user-context';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const API_BASE_URL = process.env.API_BASE_URL || 'http://localhost:3000';
+
+async function forwardAclRequest(request: NextRequest, docId: string, method: 'GET' | 'PATCH') {
+  try {
+    const backendUrl = `${API_BASE_URL}/documents/${encodeURIComponent(decodeURIComponent(docId))}/acl`;
+
+    const response = await fetch(backendUrl, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...forwardUserContextHeaders(request.headers),
+      },
+      ...(method === 'PATCH' && { body: JSON.stringify(await request.json()) }),
+    });
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
+
+  } catch (error) {
+    console.error('Error forwarding document ACL request:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal Server Error',
+        message: 'Failed to process document permissions.'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { docId: string } }
+) {
+  return forwardAclRequest(request, params.docId, 'GET');
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { docId: string } }
+) {
+  return forwardAclRequest(request, params.docId, 'PATCH');
+}
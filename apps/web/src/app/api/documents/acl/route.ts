@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forwardUserContextHeaders } from '@/lib/user-context';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const API_BASE_URL = process.env.API_BASE_URL || 'http://localhost:3000';
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const response = await fetch(`${API_BASE_URL}/documents/acl`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        ...forwardUserContextHeaders(request.headers),
+      },
+      body: JSON.stringify(await request.json()),
+    });
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
+
+  } catch (error) {
+    console.error('Error updating document ACLs:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal Server Error',
+        message: 'Failed to update document permissions.'
+      },
+      { status: 500 }
+    );
+  }
+}
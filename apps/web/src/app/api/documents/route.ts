@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { forwardUserContextHeaders } from '@/lib/user-context';
 
 // Force dynamic rendering to prevent build-time caching
 export const dynamic = 'force-dynamic';
@@ -15,6 +16,7 @@ export async function GET(request: NextRequest) {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
+        ...forwardUserContextHeaders(request.headers),
       },
     });
 
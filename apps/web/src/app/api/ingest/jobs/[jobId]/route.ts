@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Job progress changes constantly; never cache
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const API_BASE_URL = process.env.API_URL || 'http://localhost:3000';
+const INGEST_TOKEN = process.env.INGEST_TOKEN;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  if (!INGEST_TOKEN) {
+    return NextResponse.json(
+      { error: 'Configuration Error', message: 'Ingest token not configured' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const response = await fetch(
+      `${API_BASE_URL}/api/ingest/jobs/${encodeURIComponent(params.jobId)}`,
+      {
+        method: 'GET',
+        headers: {
+          'x-ingest-token': INGEST_TOKEN,
+        },
+      }
+    );
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return NextResponse.json(data, { status: response.status });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error in ingest job proxy:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', message: 'Failed to fetch ingest job' },
+      { status: 500 }
+    );
+  }
+}
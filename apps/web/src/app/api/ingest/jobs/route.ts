@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Job progress changes constantly; never cache
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const API_BASE_URL = process.env.API_URL || 'http://localhost:3000';
+const INGEST_TOKEN = process.env.INGEST_TOKEN;
+
+export async function GET(request: NextRequest) {
+  if (!INGEST_TOKEN) {
+    return NextResponse.json(
+      { error: 'Configuration Error', message: 'Ingest token not configured' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const response = await fetch(`${API_BASE_URL}/api/ingest/jobs?${searchParams}`, {
+      method: 'GET',
+      headers: {
+        'x-ingest-token': INGEST_TOKEN,
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return NextResponse.json(data, { status: response.status });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error in ingest jobs proxy:', error);
+    return NextResponse.json(
+      { error: 'Internal Server Error', message: 'Failed to fetch ingest jobs' },
+      { status: 500 }
+    );
+  }
+}
@@ -14,7 +14,9 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
 
-    const response = await fetch(`${API_BASE_URL}/api/ingest/publish`, {
+    // The upload page shows per-document results, so publish synchronously
+    // instead of queueing a background job
+    const response = await fetch(`${API_BASE_URL}/api/ingest/publish?wait=true`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { forwardUserContextHeaders } from '@/lib/user-context';
+
+// What a viewer may see depends on their current permissions, never cache it
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const API_BASE_URL = process.env.API_BASE_URL || 'http://localhost:3000';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const response = await fetch(`${API_BASE_URL}/shared/${encodeURIComponent(params.token)}`, {
+      method: 'GET',
+      headers: forwardUserContextHeaders(request.headers),
+    });
+
+    const data = await response.json();
+    return NextResponse.json(data, { status: response.status });
+
+  } catch (error) {
+    console.error('Error fetching shared conversation:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal Server Error',
+        message: 'Failed to retrieve shared conversation.'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,30 @@
 "use client";
 
+import { useState } from 'react';
 import ChatContainer from '@/components/ask/ChatContainer';
+import ConversationSidebar from '@/components/ask/ConversationSidebar';
 
 export default function AskPage() {
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0);
+
   return (
-    <div className="h-[calc(100vh-4rem)]">
-      <ChatContainer
-        placeholder="Ask me anything about your documents..."
-        welcomeMessage="👋 Welcome to the modern RAG interface! Ask me anything about your documents and I'll provide real-time streaming answers with citations."
+    <div className="h-[calc(100vh-4rem)] flex">
+      <ConversationSidebar
+        className="hidden md:flex w-64 flex-shrink-0"
+        selectedId={conversationId}
+        onSelect={setConversationId}
+        refreshKey={historyVersion}
       />
+      <div className="flex-1 min-w-0">
+        <ChatContainer
+          placeholder="Ask me anything about your documents..."
+          welcomeMessage="👋 Welcome to the modern RAG interface! Ask me anything about your documents and I'll provide real-time streaming answers with citations."
+          conversationId={conversationId}
+          onConversationChange={setConversationId}
+          onAnswerCompleted={() => setHistoryVersion(version => version + 1)}
+        />
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { Lock } from 'lucide-react';
+import MessageBubble from '@/components/ask/MessageBubble';
+import { Card } from '@/components/ui/card';
+import { fetchSharedConversation, SharedConversation } from '@/utils/conversations-api';
+
+export default function SharedConversationPage({ params }: { params: { token: string } }) {
+  const [conversation, setConversation] = useState<SharedConversation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSharedConversation(params.token)
+      .then(setConversation)
+      .catch((err) => {
+        console.error('Failed to load shared conversation:', err);
+        setError('This shared conversation does not exist or is no longer shared.');
+      });
+  }, [params.token]);
+
+  if (error) {
+    return (
+      <div className="max-w-3xl mx-auto p-8 text-center text-muted-foreground">{error}</div>
+    );
+  }
+
+  if (!conversation) {
+    return (
+      <div className="max-w-3xl mx-auto p-8 text-center text-muted-foreground">Loading…</div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-4 space-y-4">
+      <div className="border-b border-border pb-3">
+        <h1 className="text-xl font-medium">{conversation.title || 'Shared conversation'}</h1>
+        <p className="text-sm text-muted-foreground">
+          Shared by {conversation.sharedBy} · read-only
+        </p>
+      </div>
+
+      {conversation.withheldAnswers > 0 && (
+        <Card className="p-3 flex items-center gap-2 text-sm text-muted-foreground">
+          <Lock className="w-4 h-4" />
+          {conversation.withheldAnswers} answer(s) are hidden because they are based on documents you cannot access.
+        </Card>
+      )}
+
+      {conversation.turns.map((turn, index) => turn.withheld ? (
+        turn.role === 'assistant' && (
+          <div key={index} className="text-sm text-muted-foreground italic flex items-center gap-2">
+            <Lock className="w-4 h-4" />
+            Question and answer hidden
+          </div>
+        )
+      ) : (
+        <MessageBubble
+          key={index}
+          type={turn.role === 'user' ? 'user' : 'ai'}
+          content={turn.content}
+          citations={turn.citations}
+        />
+      ))}
+    </div>
+  );
+}
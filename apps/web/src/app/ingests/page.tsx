@@ -1,7 +1,9 @@
 "use client";
 
 import { useState, useEffect } from 'react';
-import { IngestRecord } from '../../types';
+import { IngestJob, IngestRecord } from '../../types';
+
+const JOB_POLL_INTERVAL_MS = 3000;
 
 interface IngestResponse {
   records: IngestRecord[];
@@ -15,6 +17,11 @@ interface IngestResponse {
   };
 }
 
+interface IngestJobsResponse {
+  jobs: IngestJob[];
+  pagination: IngestResponse['pagination'];
+}
+
 interface Filters {
   action: string;
   source: string;
@@ -42,6 +49,26 @@ export default function IngestsPage() {
   const [error, setError] = useState<string | null>(null);
   const [sortBy, setSortBy] = useState<'time' | 'docId' | 'source' | 'action'>('time');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [jobs, setJobs] = useState<IngestJob[]>([]);
+  const [jobsError, setJobsError] = useState<string | null>(null);
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+
+  const fetchJobs = async () => {
+    try {
+      const response = await fetch('/api/ingest/jobs?limit=10');
+      if (!response.ok) {
+        throw new Error('Failed to fetch ingest jobs');
+      }
+
+      const data: IngestJobsResponse = await response.json();
+      setJobs(data.jobs);
+      setJobsError(null);
+    } catch (err) {
+      setJobsError(err instanceof Error ? err.message : 'Failed to fetch ingest jobs');
+    }
+  };
+
+  const hasActiveJobs = jobs.some(job => job.status === 'queued' || job.status === 'running');
 
   const fetchRecords = async (page = 1) => {
     setLoading(true);
@@ -73,8 +100,17 @@ export default function IngestsPage() {
 
   useEffect(() => {
     fetchRecords();
+    fetchJobs();
   }, []);
 
+  // Poll for live progress while any job is still queued or running
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+
+    const interval = setInterval(fetchJobs, JOB_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasActiveJobs]);
+
   const handleFilterChange = (key: keyof Filters, value: string) => {
     setFilters(prev => ({ ...prev, [key]: value }));
   };
@@ -173,6 +209,27 @@ export default function IngestsPage() {
     }
   };
 
+  const getJobStatusBadge = (status: IngestJob['status']) => {
+    const baseClasses = "px-2 py-1 rounded text-xs font-medium";
+    switch (status) {
+      case 'completed':
+        return `${baseClasses} bg-green-100 text-green-800`;
+      case 'completed_with_errors':
+        return `${baseClasses} bg-yellow-100 text-yellow-800`;
+      case 'failed':
+        return `${baseClasses} bg-red-100 text-red-800`;
+      case 'running':
+        return `${baseClasses} bg-blue-100 text-blue-800`;
+      default:
+        return `${baseClasses} bg-gray-100 text-gray-800`;
+    }
+  };
+
+  const getJobProgress = (job: IngestJob) => {
+    if (job.summary.total === 0) return 100;
+    return Math.round(((job.summary.total - job.summary.pending) / job.summary.total) * 100);
+  };
+
   const getSortIcon = (column: typeof sortBy) => {
     if (sortBy !== column) return '↕️';
     return sortOrder === 'asc' ? '↑' : '↓';
@@ -187,6 +244,98 @@ export default function IngestsPage() {
         </p>
       </div>
 
+      {/* Ingestion jobs */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 mb-6">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-medium">Ingestion Jobs</h2>
+            <p className="text-sm text-gray-600">
+              {hasActiveJobs ? 'Updating live while jobs are running.' : 'Most recent publish jobs.'}
+            </p>
+          </div>
+          <button
+            onClick={fetchJobs}
+            className="px-3 py-1 border border-gray-300 rounded-md text-sm hover:bg-gray-50"
+          >
+            Refresh
+          </button>
+        </div>
+
+        {jobsError && (
+          <div className="p-4 text-sm text-red-800 bg-red-50">{jobsError}</div>
+        )}
+
+        {jobs.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No ingestion jobs yet.</div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {jobs.map((job) => (
+              <div key={job.id} className="p-4">
+                <div
+                  className="flex flex-wrap items-center gap-4 cursor-pointer"
+                  onClick={() => setExpandedJobId(expandedJobId === job.id ? null : job.id)}
+                >
+                  <span className="font-mono text-xs text-gray-700">{job.id.substring(0, 8)}</span>
+                  <span className="px-2 py-1 bg-gray-100 text-gray-800 rounded text-xs font-medium">
+                    {job.tenants.join(', ')}
+                  </span>
+                  <span className={getJobStatusBadge(job.status)}>
+                    {job.status.replace(/_/g, ' ').toUpperCase()}
+                  </span>
+                  <div className="flex-1 min-w-[160px]">
+                    <div className="h-2 bg-gray-200 rounded">
+                      <div
+                        className="h-2 bg-blue-600 rounded"
+                        style={{ width: `${getJobProgress(job)}%` }}
+                      />
+                    </div>
+                  </div>
+                  <span className="text-sm text-gray-600">
+                    {job.summary.total - job.summary.pending}/{job.summary.total} documents
+                    {job.summary.errors > 0 && (
+                      <span className="text-red-600"> · {job.summary.errors} failed</span>
+                    )}
+                    {job.summary.blocked > 0 && (
+                      <span className="text-red-600"> · {job.summary.blocked} blocked</span>
+                    )}
+                  </span>
+                  <span className="text-sm text-gray-500">{formatTime(job.createdAt)}</span>
+                </div>
+
+                {expandedJobId === job.id && (
+                  <table className="w-full mt-4 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="text-left p-2 font-medium text-gray-900">Document ID</th>
+                        <th className="text-left p-2 font-medium text-gray-900">Status</th>
+                        <th className="text-left p-2 font-medium text-gray-900">Attempts</th>
+                        <th className="text-left p-2 font-medium text-gray-900">Chunks</th>
+                        <th className="text-left p-2 font-medium text-gray-900">Message</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {job.documents.map((document, index) => (
+                        <tr key={`${document.docId}-${index}`}>
+                          <td className="p-2 font-mono text-gray-900">{document.docId}</td>
+                          <td className="p-2">{document.status}</td>
+                          <td className="p-2">{document.attempts}</td>
+                          <td className="p-2">
+                            {document.chunks
+                              ? `+${document.chunks.added} / =${document.chunks.unchanged} / -${document.chunks.removed}`
+                              : document.pointsUpserted ?? '-'}
+                          </td>
+                          <td className="p-2 text-gray-600">{document.message || '-'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Filters */}
       <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200 mb-6">
         <h2 className="text-lg font-medium mb-4">Filters</h2>
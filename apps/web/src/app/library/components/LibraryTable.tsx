@@ -2,8 +2,9 @@
 
 import { useState, useEffect, useMemo } from 'react';
 import Link from 'next/link';
-import { Search, Trash2, ChevronUp, ChevronDown, ExternalLink } from 'lucide-react';
+import { Search, Trash2, ChevronUp, ChevronDown, ExternalLink, Shield, X } from 'lucide-react';
 import { calculateFreshnessInfo, type FreshnessInfo } from '@cw-rag-core/shared';
+import { userContextHeaders } from '@/lib/user-context';
 
 interface DocumentInfo {
   docId: string;
@@ -14,6 +15,17 @@ interface DocumentInfo {
   freshness: FreshnessInfo;
 }
 
+// Document actions the user's privilege level allows (GET /capabilities)
+interface Capabilities {
+  privilegeLevel: number;
+  documents: {
+    delete: boolean;
+    manageAcl: boolean;
+  };
+}
+
+const NO_CAPABILITIES: Capabilities = { privilegeLevel: 0, documents: { delete: false, manageAcl: false } };
+
 type SortField = 'docId' | 'space' | 'createdAt' | 'updatedAt' | 'freshness';
 type SortDirection = 'asc' | 'desc';
 
@@ -68,6 +80,210 @@ function DeleteDialog({ isOpen, docId, onClose, onConfirm, isDeleting }: DeleteD
   );
 }
 
+// Documents whose permissions are edited: one document, or all documents currently listed
+type AclTarget = { docId: string } | { docIds: string[] };
+
+// The API accepts up to 100 values per `in` filter
+const MAX_BULK_ACL_DOCUMENTS = 100;
+
+function parseAclEntries(value: string): string[] {
+  return value.split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+async function readAclError(response: Response): Promise<string> {
+  const data = await response.json().catch(() => ({}));
+  return data.message || `Failed to update permissions: ${response.statusText}`;
+}
+
+function AclPanel({ target, onClose }: { target: AclTarget | null; onClose: () => void }) {
+  const [acl, setAcl] = useState<string[]>([]);
+  const [newEntry, setNewEntry] = useState('');
+  const [addEntries, setAddEntries] = useState('');
+  const [removeEntries, setRemoveEntries] = useState('');
+  const [preview, setPreview] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setAcl([]);
+    setNewEntry('');
+    setAddEntries('');
+    setRemoveEntries('');
+    setPreview(null);
+    setMessage(null);
+    if (!target || !('docId' in target)) return;
+
+    async function fetchAcl(docId: string) {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/documents/${encodeURIComponent(docId)}/acl`, { headers: userContextHeaders() });
+        if (!response.ok) {
+          throw new Error(await readAclError(response));
+        }
+        setAcl((await response.json()).acl);
+      } catch (err) {
+        setMessage(err instanceof Error ? err.message : 'Failed to load permissions');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchAcl(target.docId);
+  }, [target]);
+
+  if (!target) return null;
+
+  const isBulk = 'docIds' in target;
+
+  const saveDocumentAcl = async (docId: string) => {
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/documents/${encodeURIComponent(docId)}/acl`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', ...userContextHeaders() },
+        body: JSON.stringify({ set: acl }),
+      });
+      if (!response.ok) {
+        throw new Error(await readAclError(response));
+      }
+      onClose();
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to update permissions');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateBulkAcl = async (docIds: string[], dryRun: boolean) => {
+    try {
+      setSaving(true);
+      setMessage(null);
+      const response = await fetch('/api/documents/acl', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', ...userContextHeaders() },
+        body: JSON.stringify({
+          filter: { field: 'docId', op: 'in', values: docIds },
+          add: parseAclEntries(addEntries),
+          remove: parseAclEntries(removeEntries),
+          dryRun,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(await readAclError(response));
+      }
+      const result = await response.json();
+      if (dryRun) {
+        setPreview(`${result.updated.length} of ${result.matched} documents will change.`);
+      } else {
+        onClose();
+      }
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to update permissions');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-card border border-border rounded-lg p-6 max-w-md w-full mx-4">
+        <h3 className="text-lg font-semibold text-foreground mb-2">
+          {isBulk ? 'Bulk Permissions' : 'Document Permissions'}
+        </h3>
+        <p className="text-muted-foreground mb-4 text-sm">
+          {isBulk
+            ? `Add or remove users and groups on the ${target.docIds.length} documents listed.`
+            : `Users and groups that can read "${target.docId}".`}
+        </p>
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : isBulk ? (
+          <div className="space-y-3 mb-4">
+            <input
+              type="text"
+              value={addEntries}
+              onChange={(e) => { setAddEntries(e.target.value); setPreview(null); }}
+              placeholder="Add (comma-separated)"
+              className="w-full px-2 py-1 text-sm border border-border rounded bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-primary"
+            />
+            <input
+              type="text"
+              value={removeEntries}
+              onChange={(e) => { setRemoveEntries(e.target.value); setPreview(null); }}
+              placeholder="Remove (comma-separated)"
+              className="w-full px-2 py-1 text-sm border border-border rounded bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-primary"
+            />
+            {preview && <p className="text-sm text-foreground">{preview}</p>}
+          </div>
+        ) : (
+          <div className="space-y-3 mb-4">
+            <div className="flex flex-wrap gap-2">
+              {acl.map(entry => (
+                <span key={entry} className="inline-flex items-center px-2 py-1 rounded-full text-xs border border-border">
+                  {entry}
+                  <button
+                    onClick={() => setAcl(prev => prev.filter(e => e !== entry))}
+                    className="ml-1 text-muted-foreground hover:text-foreground"
+                    title={`Remove ${entry}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+            <input
+              type="text"
+              value={newEntry}
+              onChange={(e) => setNewEntry(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && newEntry.trim()) {
+                  setAcl(prev => Array.from(new Set([...prev, newEntry.trim()])));
+                  setNewEntry('');
+                }
+              }}
+              placeholder="Add a user or group and press Enter"
+              className="w-full px-2 py-1 text-sm border border-border rounded bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-primary"
+            />
+          </div>
+        )}
+
+        {message && <p className="text-sm text-red-600 mb-4">{message}</p>}
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            disabled={saving}
+            className="px-4 py-2 text-sm border border-border rounded-md hover:bg-muted/50 transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          {isBulk ? (
+            <button
+              onClick={() => updateBulkAcl(target.docIds, preview === null)}
+              disabled={saving || (!parseAclEntries(addEntries).length && !parseAclEntries(removeEntries).length)}
+              className="px-4 py-2 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              {preview === null ? 'Preview' : 'Apply'}
+            </button>
+          ) : (
+            <button
+              onClick={() => saveDocumentAcl(target.docId)}
+              disabled={saving || loading || acl.length === 0}
+              className="px-4 py-2 text-sm bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50"
+            >
+              Save
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function FreshnessIndicator({ freshness }: { freshness: FreshnessInfo }) {
   const getColorClass = () => {
     switch (freshness.category) {
@@ -99,13 +315,15 @@ export default function LibraryTable() {
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [deleteDialog, setDeleteDialog] = useState<{ isOpen: boolean; docId: string }>({ isOpen: false, docId: '' });
   const [deletingDocId, setDeletingDocId] = useState<string | null>(null);
+  const [aclTarget, setAclTarget] = useState<AclTarget | null>(null);
+  const [capabilities, setCapabilities] = useState<Capabilities>(NO_CAPABILITIES);
 
   // Fetch documents
   useEffect(() => {
     async function fetchDocuments() {
       try {
         setLoading(true);
-        const response = await fetch('/api/documents');
+        const response = await fetch('/api/documents', { headers: userContextHeaders() });
         if (!response.ok) {
           throw new Error(`Failed to fetch documents: ${response.statusText}`);
         }
@@ -118,7 +336,20 @@ export default function LibraryTable() {
       }
     }
 
+    // Actions the user may not take are not offered; without an answer none are
+    async function fetchCapabilities() {
+      try {
+        const response = await fetch('/api/capabilities', { headers: userContextHeaders() });
+        if (response.ok) {
+          setCapabilities(await response.json());
+        }
+      } catch (err) {
+        console.error('Failed to fetch capabilities:', err);
+      }
+    }
+
     fetchDocuments();
+    fetchCapabilities();
   }, []);
 
   // Filter and sort documents
@@ -179,8 +410,12 @@ export default function LibraryTable() {
       setDeletingDocId(docId);
       const response = await fetch(`/api/documents/${docId}`, {
         method: 'DELETE',
+        headers: userContextHeaders(),
       });
 
+      if (response.status === 403) {
+        throw new Error('You are not allowed to delete documents');
+      }
       if (!response.ok) {
         throw new Error(`Failed to delete document: ${response.statusText}`);
       }
@@ -241,8 +476,23 @@ export default function LibraryTable() {
       </div>
 
       {/* Documents Count */}
-      <div className="text-sm text-muted-foreground">
-        {filteredAndSortedDocuments.length} document{filteredAndSortedDocuments.length !== 1 ? 's' : ''} found
+      <div className="flex items-center justify-between text-sm text-muted-foreground">
+        <span>
+          {filteredAndSortedDocuments.length} document{filteredAndSortedDocuments.length !== 1 ? 's' : ''} found
+        </span>
+        {capabilities.documents.manageAcl && (
+          <button
+            onClick={() => setAclTarget({ docIds: filteredAndSortedDocuments.map(doc => doc.docId) })}
+            disabled={filteredAndSortedDocuments.length === 0 || filteredAndSortedDocuments.length > MAX_BULK_ACL_DOCUMENTS}
+            className="flex items-center space-x-1 hover:text-primary disabled:opacity-50 transition-colors"
+            title={filteredAndSortedDocuments.length > MAX_BULK_ACL_DOCUMENTS
+              ? `Narrow the search to at most ${MAX_BULK_ACL_DOCUMENTS} documents`
+              : 'Change permissions of the documents listed'}
+          >
+            <Shield className="h-4 w-4" />
+            <span>Bulk permissions</span>
+          </button>
+        )}
       </div>
 
       {/* Table */}
@@ -356,14 +606,27 @@ export default function LibraryTable() {
                     <FreshnessIndicator freshness={doc.freshness} />
                   </td>
                   <td className="p-4">
-                    <button
-                      onClick={() => setDeleteDialog({ isOpen: true, docId: doc.docId })}
-                      disabled={deletingDocId === doc.docId}
-                      className="text-red-600 hover:text-red-800 disabled:opacity-50 transition-colors"
-                      title="Delete document"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </button>
+                    <div className="flex items-center space-x-3">
+                      {capabilities.documents.manageAcl && (
+                        <button
+                          onClick={() => setAclTarget({ docId: doc.docId })}
+                          className="text-muted-foreground hover:text-primary transition-colors"
+                          title="Manage permissions"
+                        >
+                          <Shield className="h-4 w-4" />
+                        </button>
+                      )}
+                      {capabilities.documents.delete && (
+                        <button
+                          onClick={() => setDeleteDialog({ isOpen: true, docId: doc.docId })}
+                          disabled={deletingDocId === doc.docId}
+                          className="text-red-600 hover:text-red-800 disabled:opacity-50 transition-colors"
+                          title="Delete document"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
                   </td>
                 </tr>
               ))
@@ -380,6 +643,9 @@ export default function LibraryTable() {
         onConfirm={() => handleDelete(deleteDialog.docId)}
         isDeleting={deletingDocId === deleteDialog.docId}
       />
+
+      {/* Permissions Panel */}
+      <AclPanel target={aclTarget} onClose={() => setAclTarget(null)} />
     </div>
   );
 }
\ No newline at end of file
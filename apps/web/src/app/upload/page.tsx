@@ -616,9 +616,13 @@ export default function UploadPage() {
                         {result.status.toUpperCase()}
                       </span>
                     </div>
-                    {result.pointsUpserted && (
+                    {result.chunks ? (
+                      <span className="text-sm text-gray-600">
+                        {result.chunks.added} embedded, {result.chunks.unchanged} unchanged, {result.chunks.removed} removed
+                      </span>
+                    ) : result.pointsUpserted ? (
                       <span className="text-sm text-gray-600">{result.pointsUpserted} points</span>
-                    )}
+                    ) : null}
                   </div>
                   {result.message && (
                     <p className="text-sm text-gray-600 mt-1">{result.message}</p>
@@ -3,11 +3,14 @@
 import { useState, useRef, useEffect } from 'react';
 import { useRouter } from 'next/navigation'; // Added useRouter
 import { cn } from '@/lib/utils';
-import { AskRequest } from '@cw-rag-core/shared';
+import { AskRequest, InferredFilter, InferredFilterField } from '@cw-rag-core/shared';
 import { streamAskRequest, StreamingCallbacks, CitationMap } from '@/utils/streaming-api'; // Added CitationMap
+import { fetchConversation } from '@/utils/conversations-api';
+import { DEFAULT_USER_CONTEXT } from '@/lib/user-context';
 import MessageBubble, { Citation } from './MessageBubble'; // Import Citation
 import InputContainer from './InputContainer';
 import DocumentViewerModal from './DocumentViewerModal'; // Import the new modal component
+import InferredFilterChips from './InferredFilterChips';
 
 interface Message {
   id: string;
@@ -20,20 +23,31 @@ interface Message {
   metrics?: any;
   freshnessStats?: any;
   error?: string;
+  inferredFilter?: InferredFilter;
+  /** Question the answer is for, to ask it again without an inferred filter */
+  request?: { query: string; docId?: string; ignoredFilters: InferredFilterField[] };
 }
 
 interface ChatContainerProps {
   className?: string;
   placeholder?: string;
   welcomeMessage?: string;
+  /** Past conversation to show; null starts a new one */
+  conversationId?: string | null;
+  onConversationChange?: (conversationId: string) => void;
+  onAnswerCompleted?: () => void;
 }
 
 export default function ChatContainer({
   className,
   placeholder = "Ask a question about your documents...",
+  conversationId: selectedConversationId = null,
+  onConversationChange,
+  onAnswerCompleted,
 }: ChatContainerProps) {
   const router = useRouter(); // Initialize router
   const [messages, setMessages] = useState<Message[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(selectedConversationId); // Server-side conversation; earlier turns are not resent
   const [isStreaming, setIsStreaming] = useState(false);
   const [streamingClient, setStreamingClient] = useState<{ abort: () => void } | null>(null);
   const [showDocumentModal, setShowDocumentModal] = useState(false); // State for modal visibility
@@ -42,6 +56,48 @@ export default function ChatContainer({
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
+  // Load the turns of a conversation picked from the history
+  useEffect(() => {
+    if (selectedConversationId === conversationId) {
+      return;
+    }
+    streamingClient?.abort();
+    setIsStreaming(false);
+    setConversationId(selectedConversationId);
+    setMessages([]);
+    if (!selectedConversationId) {
+      return;
+    }
+
+    let cancelled = false;
+    fetchConversation(selectedConversationId)
+      .then((conversation) => {
+        if (cancelled) return;
+        setMessages(conversation.turns.map((turn, index) => ({
+          id: `msg-${conversation.id}-${index}`,
+          type: turn.role === 'user' ? 'user' : 'ai',
+          content: turn.content,
+          timestamp: new Date(turn.createdAt),
+          citations: turn.citations,
+        })));
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error('Failed to load conversation:', error);
+        setMessages([{
+          id: `msg-${Date.now()}`,
+          type: 'error',
+          content: '',
+          timestamp: new Date(),
+          error: 'Could not load this conversation',
+        }]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedConversationId]);
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -67,7 +123,7 @@ export default function ChatContainer({
     setMessages(prev => prev.filter(msg => msg.id !== id));
   };
 
-  const handleSubmit = async (query: string, docId?: string) => {
+  const handleSubmit = async (query: string, docId?: string, ignoredFilters: InferredFilterField[] = []) => {
     if (isStreaming) {
       streamingClient?.abort();
       setIsStreaming(false);
@@ -90,13 +146,11 @@ export default function ChatContainer({
     // Prepare the request
     const askRequest: AskRequest = {
       query,
-      userContext: {
-        id: 'anonymous',
-        tenantId: 'zenithfall',
-        groupIds: ['public'],
-      },
+      userContext: DEFAULT_USER_CONTEXT,
       k: 10,
+      ...(conversationId && { conversationId }),
       ...(docId && { docId }),
+      ...(ignoredFilters.length > 0 && { ignoreInferredFilters: ignoredFilters }),
       includeMetrics: true,
     };
 
@@ -104,12 +158,20 @@ export default function ChatContainer({
     const callbacks: StreamingCallbacks = {
       onConnectionOpen: (data) => {
         console.log('Streaming connection opened:', data);
+        if (data?.conversationId) {
+          setConversationId(data.conversationId);
+          if (data.conversationId !== conversationId) {
+            onConversationChange?.(data.conversationId);
+          }
+        }
         // Replace loading message with AI message
         removeMessage(loadingId);
         addMessage({
           type: 'ai',
           content: '',
           isStreaming: true,
+          inferredFilter: data?.inferredFilter,
+          request: { query, docId, ignoredFilters },
         });
       },
 
@@ -236,6 +298,7 @@ export default function ChatContainer({
         console.log('Streaming done:', data);
         setIsStreaming(false);
         setStreamingClient(null);
+        onAnswerCompleted?.();
       },
     };
 
@@ -297,18 +360,29 @@ export default function ChatContainer({
         )}
 
         {messages.map((message) => (
-          <MessageBubble
-            key={message.id}
-            type={message.type}
-            content={message.content}
-            isStreaming={message.isStreaming}
-            citations={message.citations}
-            confidence={message.confidence}
-            metrics={message.metrics}
-            freshnessStats={message.freshnessStats}
-            error={message.error}
-            onCitationClick={handleCitationClick}
-          />
+          <div key={message.id} className="space-y-2">
+            {message.inferredFilter && message.inferredFilter.clauses.length > 0 && (
+              <InferredFilterChips
+                filter={message.inferredFilter}
+                onRemove={message.request && ((field) => handleSubmit(
+                  message.request!.query,
+                  message.request!.docId,
+                  [...message.request!.ignoredFilters, field]
+                ))}
+              />
+            )}
+            <MessageBubble
+              type={message.type}
+              content={message.content}
+              isStreaming={message.isStreaming}
+              citations={message.citations}
+              confidence={message.confidence}
+              metrics={message.metrics}
+              freshnessStats={message.freshnessStats}
+              error={message.error}
+              onCitationClick={handleCitationClick}
+            />
+          </div>
         ))}
 
         <div ref={messagesEndRef} />
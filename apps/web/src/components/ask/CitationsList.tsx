@@ -133,6 +133,13 @@ function CitationCard({
             </span>
           </div>
         )}
+
+        {citation.headingPath && citation.headingPath.length > 0 && (
+          <div className="flex items-center space-x-2">
+            <span className="font-medium">Section:</span>
+            <span className="truncate">{citation.headingPath.join(' › ')}</span>
+          </div>
+        )}
       </div>
 
       {/* Document content snippet if available */}
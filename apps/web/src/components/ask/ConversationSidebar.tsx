@@ -0,0 +1,139 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { MessageSquare, Plus, Share2, Trash2, Check } from 'lucide-react';
+import { formatRelativeTime } from '@/utils/api';
+import {
+  ConversationSummary,
+  listConversations,
+  deleteConversation,
+  shareConversation,
+} from '@/utils/conversations-api';
+
+interface ConversationSidebarProps {
+  selectedId: string | null;
+  onSelect: (conversationId: string | null) => void;
+  /** Changes whenever the list should be reloaded, e.g. after a question was answered */
+  refreshKey?: number;
+  className?: string;
+}
+
+export default function ConversationSidebar({
+  selectedId,
+  onSelect,
+  refreshKey = 0,
+  className,
+}: ConversationSidebarProps) {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const loadConversations = useCallback(async () => {
+    try {
+      const { conversations } = await listConversations();
+      setConversations(conversations);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load conversations:', err);
+      setError('Could not load past conversations');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadConversations();
+  }, [loadConversations, refreshKey]);
+
+  const handleDelete = async (conversationId: string) => {
+    if (!confirm('Delete this conversation? Its share link will stop working.')) {
+      return;
+    }
+    try {
+      await deleteConversation(conversationId);
+      setConversations(prev => prev.filter(c => c.id !== conversationId));
+      if (conversationId === selectedId) {
+        onSelect(null);
+      }
+    } catch (err) {
+      console.error('Failed to delete conversation:', err);
+      setError('Could not delete the conversation');
+    }
+  };
+
+  const handleShare = async (conversationId: string) => {
+    try {
+      const link = await shareConversation(conversationId);
+      await navigator.clipboard.writeText(link);
+      setConversations(prev => prev.map(c => c.id === conversationId ? { ...c, shared: true } : c));
+      setCopiedId(conversationId);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (err) {
+      console.error('Failed to share conversation:', err);
+      setError('Could not create a share link');
+    }
+  };
+
+  return (
+    <aside className={cn("flex flex-col h-full border-r border-border bg-card/30", className)}>
+      <div className="p-3 border-b border-border">
+        <Button variant="outline" className="w-full justify-start" onClick={() => onSelect(null)}>
+          <Plus />
+          New chat
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {error && (
+          <p className="px-2 py-1 text-xs text-destructive">{error}</p>
+        )}
+
+        {conversations.length === 0 && !error && (
+          <p className="px-2 py-4 text-sm text-muted-foreground text-center">
+            No past conversations yet
+          </p>
+        )}
+
+        {conversations.map((conversation) => (
+          <div
+            key={conversation.id}
+            className={cn(
+              "group flex items-center gap-2 rounded-md px-2 py-2 cursor-pointer hover:bg-accent",
+              conversation.id === selectedId && "bg-accent"
+            )}
+            onClick={() => onSelect(conversation.id)}
+          >
+            <MessageSquare className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm truncate">{conversation.title || 'New conversation'}</p>
+              <p className="text-xs text-muted-foreground">
+                {formatRelativeTime(conversation.updatedAt)}
+                {conversation.shared && ' · shared'}
+              </p>
+            </div>
+            <div className="hidden group-hover:flex items-center">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                title="Copy share link"
+                onClick={(e) => { e.stopPropagation(); handleShare(conversation.id); }}
+              >
+                {copiedId === conversation.id ? <Check /> : <Share2 />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                title="Delete conversation"
+                onClick={(e) => { e.stopPropagation(); handleDelete(conversation.id); }}
+              >
+                <Trash2 />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </aside>
+  );
+}
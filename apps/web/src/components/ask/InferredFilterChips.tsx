@@ -0,0 +1,61 @@
+"use client";
+
+import { InferredFilter, InferredFilterClause, InferredFilterField } from '@cw-rag-core/shared';
+import { Badge } from '@/components/ui/badge';
+import { Filter, X } from 'lucide-react';
+
+interface InferredFilterChipsProps {
+  filter: InferredFilter;
+  /** Ask the question again without the filter on this field */
+  onRemove?: (field: InferredFilterField) => void;
+}
+
+const FIELD_LABELS: Record<InferredFilterField, string> = {
+  authors: 'Author',
+  tags: 'Tag',
+  spaceId: 'Space',
+  modifiedAt: 'Updated',
+  lang: 'Language',
+};
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+function describeClause(clause: InferredFilterClause): string {
+  if (clause.field !== 'modifiedAt') {
+    return (clause.values || []).join(' or ');
+  }
+  if (clause.gte && clause.lt) {
+    return `${formatDate(clause.gte)} – ${formatDate(clause.lt)}`;
+  }
+  return clause.gte ? `since ${formatDate(clause.gte)}` : `before ${formatDate(clause.lt!)}`;
+}
+
+/**
+ * Filters inferred from the question ("by Alice", "updated since June"); each can be removed
+ */
+export default function InferredFilterChips({ filter, onRemove }: InferredFilterChipsProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+      <Filter className="w-3 h-3" />
+      <span>Searched only</span>
+      {filter.clauses.map((clause) => (
+        <Badge key={clause.field} variant="secondary" className="gap-1 font-normal" title={`From "${clause.phrase}"`}>
+          <span className="font-medium">{FIELD_LABELS[clause.field]}:</span>
+          {describeClause(clause)}
+          {onRemove && (
+            <button
+              type="button"
+              className="ml-1 rounded-sm hover:text-foreground"
+              aria-label={`Remove ${FIELD_LABELS[clause.field].toLowerCase()} filter and ask again`}
+              onClick={() => onRemove(clause.field)}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </Badge>
+      ))}
+    </div>
+  );
+}
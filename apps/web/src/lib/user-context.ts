@@ -0,0 +1,36 @@
+import { UserContext } from '@cw-rag-core/shared';
+
+// Until sign-in is wired up, the UI acts as an anonymous user of the demo tenant
+export const DEFAULT_USER_CONTEXT: UserContext = {
+  id: 'anonymous',
+  tenantId: 'zenithfall',
+  groupIds: ['public'],
+};
+
+// The bearer token is forwarded too; with token authentication the API derives the user from it
+const USER_CONTEXT_HEADERS = ['x-user-id', 'x-tenant', 'x-user-groups', 'authorization'];
+
+/**
+ * Headers identifying the user to API routes that take no request body
+ */
+export function userContextHeaders(userContext: UserContext = DEFAULT_USER_CONTEXT): Record<string, string> {
+  return {
+    'x-user-id': userContext.id,
+    'x-tenant': userContext.tenantId,
+    'x-user-groups': userContext.groupIds.join(','),
+  };
+}
+
+/**
+ * Copy the user headers of an incoming request, for proxying it to the backend API
+ */
+export function forwardUserContextHeaders(headers: Headers): Record<string, string> {
+  const forwarded: Record<string, string> = {};
+  for (const name of USER_CONTEXT_HEADERS) {
+    const value = headers.get(name);
+    if (value) {
+      forwarded[name] = value;
+    }
+  }
+  return forwarded;
+}
@@ -23,10 +23,17 @@ export interface PreviewResponse {
 }
 
 // Publish response types
+export interface ChunkDiffSummary {
+  unchanged: number;
+  added: number;
+  removed: number;
+}
+
 export interface PublishResult {
   docId: string;
   status: 'published' | 'updated' | 'blocked' | 'deleted' | 'error';
   pointsUpserted?: number;
+  chunks?: ChunkDiffSummary;
   message?: string;
   findings?: PIIFinding[];
 }
@@ -40,6 +47,7 @@ export interface PublishResponse {
     blocked: number;
     deleted: number;
     errors: number;
+    chunks?: ChunkDiffSummary;
   };
 }
 
@@ -55,6 +63,7 @@ export interface UploadProcessedFile {
     findings: PIIFinding[];
     bytes: number;
     blocksCount: number;
+    warnings?: string[];
   };
 }
 
@@ -83,9 +92,44 @@ export interface IngestRecord {
   error?: string;
 }
 
+// Ingest job types
+export type IngestJobStatus = 'queued' | 'running' | 'completed' | 'completed_with_errors' | 'failed';
+
+export interface IngestJobDocument {
+  docId: string;
+  status: 'pending' | 'processing' | 'published' | 'updated' | 'blocked' | 'deleted' | 'error';
+  attempts: number;
+  pointsUpserted?: number;
+  chunks?: ChunkDiffSummary;
+  message?: string;
+  findings?: PIIFinding[];
+  updatedAt: string;
+}
+
+export interface IngestJob {
+  id: string;
+  tenant: string;
+  tenants: string[];
+  status: IngestJobStatus;
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  documents: IngestJobDocument[];
+  summary: {
+    total: number;
+    pending: number;
+    published: number;
+    updated: number;
+    blocked: number;
+    deleted: number;
+    errors: number;
+    chunks: ChunkDiffSummary;
+  };
+}
+
 // Policy types
 export interface PIIPolicy {
-  mode: 'off' | 'mask' | 'block' | 'allowlist';
+  mode: 'off' | 'mask' | 'block' | 'allowlist' | 'pseudonymize';
   allowedTypes?: string[];
   tenantId?: string;
   sourceOverrides?: Record<string, Partial<PIIPolicy>>;
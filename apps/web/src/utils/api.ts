@@ -1,5 +1,6 @@
 import { ApiError } from '../types';
 import { DocumentMetadata } from '@cw-rag-core/shared'; // Corrected import for DocumentMetadata
+import { userContextHeaders } from '@/lib/user-context';
 
 export class APIError extends Error {
   constructor(
@@ -131,6 +132,8 @@ export interface DocumentFetchResponse {
 }
 
 export async function fetchDocumentById(qdrantDocId: string): Promise<DocumentFetchResponse> {
-  const response = await fetch(`/api/documents/${encodeURIComponent(qdrantDocId)}`);
+  const response = await fetch(`/api/documents/${encodeURIComponent(qdrantDocId)}`, {
+    headers: userContextHeaders(),
+  });
   return handleApiResponse<DocumentFetchResponse>(response);
 }
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { handleApiResponse } from './api';
+import { userContextHeaders } from '@/lib/user-context';
+import { Citation } from '@/components/ask/MessageBubble';
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  turnCount: number;
+  shared: boolean;
+}
+
+export interface ConversationTurnView {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  citations?: Citation[];
+  /** Set on shared conversations when the viewer may not read the sources */
+  withheld?: boolean;
+}
+
+export interface ConversationDetail extends ConversationSummary {
+  shareToken?: string;
+  turns: ConversationTurnView[];
+}
+
+export interface SharedConversation {
+  id: string;
+  title: string;
+  sharedBy: string;
+  createdAt: string;
+  updatedAt: string;
+  withheldAnswers: number;
+  turns: ConversationTurnView[];
+}
+
+export async function listConversations(page = 1, limit = 50): Promise<{ conversations: ConversationSummary[]; total: number }> {
+  const params = new URLSearchParams({ page: String(page), limit: String(limit) });
+  const response = await fetch(`/api/conversations?${params}`, { headers: userContextHeaders() });
+  return handleApiResponse(response);
+}
+
+export async function fetchConversation(conversationId: string): Promise<ConversationDetail> {
+  const response = await fetch(`/api/conversations/${encodeURIComponent(conversationId)}`, {
+    headers: userContextHeaders(),
+  });
+  return handleApiResponse(response);
+}
+
+export async function deleteConversation(conversationId: string): Promise<void> {
+  const response = await fetch(`/api/conversations/${encodeURIComponent(conversationId)}`, {
+    method: 'DELETE',
+    headers: userContextHeaders(),
+  });
+  await handleApiResponse(response);
+}
+
+export async function shareConversation(conversationId: string): Promise<string> {
+  const response = await fetch(`/api/conversations/${encodeURIComponent(conversationId)}/share`, {
+    method: 'POST',
+    headers: userContextHeaders(),
+  });
+  const { token } = await handleApiResponse<{ token: string }>(response);
+  return `${window.location.origin}/ask/shared/${token}`;
+}
+
+export async function fetchSharedConversation(token: string): Promise<SharedConversation> {
+  const response = await fetch(`/api/shared/${encodeURIComponent(token)}`, { headers: userContextHeaders() });
+  return handleApiResponse(response);
+}
@@ -0,0 +1,236 @@
+// This file contains fake identifiers for testing purposes only
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  RegexDetector,
+  DictionaryDetector,
+  InvalidDetectorConfigError,
+  checksumValidators,
+  createCustomDetector
+} from '../detectors/custom.js';
+import { DetectorRegistry } from '../detectors/index.js';
+import { createTenantPolicyEngine, defaultPolicyEngine } from '../policy.js';
+import { TenantPolicyEngines, loadTenantDetectorConfig } from '../tenant-config.js';
+import { TenantDetectorConfig } from '../types.js';
+
+describe('Custom detectors', () => {
+  describe('checksumValidators', () => {
+    it('should validate luhn numbers', () => {
+      expect(checksumValidators.luhn('123455')).toBe(true);
+      expect(checksumValidators.luhn('123456')).toBe(false);
+      expect(checksumValidators.luhn('12A455')).toBe(false);
+    });
+
+    it('should validate mod97 values with letters', () => {
+      expect(checksumValidators.mod97('AB1087')).toBe(true);
+      expect(checksumValidators.mod97('AB1088')).toBe(false);
+    });
+
+    it('should validate mod11 values with an X check digit', () => {
+      expect(checksumValidators.mod11('0306406152')).toBe(true);
+      expect(checksumValidators.mod11('0306406153')).toBe(false);
+      expect(checksumValidators.mod11('080442957X')).toBe(true);
+    });
+  });
+
+  describe('RegexDetector', () => {
+    const detector = new RegexDetector({
+      kind: 'regex',
+      name: 'employee_id',
+      pattern: 'EMP-(\\d{6})',
+      validator: 'luhn'
+    });
+
+    it('should report matches under the custom type', () => {
+      const text = 'Assigned to EMP-123455 last week';
+      const detections = detector.detect(text);
+
+      expect(detections).toHaveLength(1);
+      expect(detections[0].type).toBe('custom:employee_id');
+      expect(text.slice(detections[0].start, detections[0].end)).toBe('EMP-123455');
+      expect(detector.getMask(detections[0])).toBe('[EMPLOYEE_ID_REDACTED]');
+    });
+
+    it('should skip matches failing the checksum', () => {
+      expect(detector.detect('EMP-123456')).toHaveLength(0);
+      expect(detector.detect('EMP-123456', { strictValidation: false })).toHaveLength(1);
+    });
+
+    it('should not loop on patterns matching the empty string', () => {
+      const optional = new RegexDetector({ kind: 'regex', name: 'optional', pattern: 'x*' });
+      expect(optional.detect('aaxxa')).toHaveLength(1);
+    });
+  });
+
+  describe('DictionaryDetector', () => {
+    const detector = new DictionaryDetector({
+      kind: 'dictionary',
+      name: 'project_codename',
+      terms: ['Bluebird', 'Blue', 'build-01.corp.internal'],
+      mask: '[PROJECT]'
+    });
+
+    it('should match whole terms case-insensitively, preferring the longest', () => {
+      const text = 'Project BLUEBIRD runs on build-01.corp.internal, not bluebirds';
+      const found = detector.detect(text).map(d => text.slice(d.start, d.end));
+
+      expect(found).toEqual(['BLUEBIRD', 'build-01.corp.internal']);
+    });
+
+    it('should respect caseSensitive and wholeWord options', () => {
+      const strict = new DictionaryDetector({
+        kind: 'dictionary',
+        name: 'codename',
+        terms: ['Falcon'],
+        caseSensitive: true,
+        wholeWord: false
+      });
+
+      expect(strict.detect('falcon Falconry')).toEqual([
+        { type: 'custom:codename', start: 7, end: 13, confidence: 0.9 }
+      ]);
+    });
+  });
+
+  describe('createCustomDetector', () => {
+    it('should reject invalid configurations', () => {
+      expect(() => createCustomDetector({ kind: 'regex', name: 'Bad Name', pattern: 'x' }))
+        .toThrow(InvalidDetectorConfigError);
+      expect(() => createCustomDetector({ kind: 'regex', name: 'bad', pattern: '(' }))
+        .toThrow(/invalid pattern/);
+      expect(() => createCustomDetector({ kind: 'regex', name: 'bad', pattern: 'x', validator: 'crc' as any }))
+        .toThrow(/unknown validator/);
+      expect(() => createCustomDetector({ kind: 'dictionary', name: 'bad', terms: ['  '] }))
+        .toThrow(/at least one term/);
+      expect(() => createCustomDetector({ kind: 'keyword', name: 'bad' } as any))
+        .toThrow(/unknown kind/);
+    });
+  });
+
+  describe('DetectorRegistry.forTenant', () => {
+    it('should keep built-in detectors and add the tenant detectors', () => {
+      const registry = DetectorRegistry.forTenant({
+        tenantId: 'acme',
+        detectors: [{ kind: 'dictionary', name: 'codename', terms: ['Falcon'] }]
+      });
+
+      expect(registry.getDetector('email')).toBeDefined();
+      expect(registry.getDetector('custom:codename')).toBeDefined();
+    });
+
+    it('should reject duplicate detector names', () => {
+      expect(() => DetectorRegistry.forTenant({
+        tenantId: 'acme',
+        detectors: [
+          { kind: 'dictionary', name: 'codename', terms: ['Falcon'] },
+          { kind: 'regex', name: 'codename', pattern: 'FAL-\\d+' }
+        ]
+      })).toThrow(/more than once/);
+    });
+  });
+
+  describe('createTenantPolicyEngine', () => {
+    const config: TenantDetectorConfig = {
+      tenantId: 'acme',
+      detectors: [
+        { kind: 'regex', name: 'employee_id', pattern: 'EMP-(\\d{6})', validator: 'luhn' },
+        { kind: 'dictionary', name: 'project_codename', terms: ['Bluebird'] }
+      ]
+    };
+
+    it('should report custom types in redaction summaries', () => {
+      const engine = createTenantPolicyEngine(config);
+      const result = engine.applyRedaction(
+        'EMP-123455 leads Bluebird; mail jane.doe@example.com',
+        { mode: 'mask' }
+      );
+
+      expect(result.maskedText).toBe('[EMPLOYEE_ID_REDACTED] leads [PROJECT_CODENAME_REDACTED]; mail [EMAIL_REDACTED]');
+      expect(result.redactions).toEqual(expect.arrayContaining([
+        { type: 'custom:employee_id', count: 1 },
+        { type: 'custom:project_codename', count: 1 },
+        { type: 'email', count: 1 }
+      ]));
+    });
+
+    it('should honour allowlists for custom types', () => {
+      const engine = createTenantPolicyEngine(config);
+      const result = engine.applyRedaction('Bluebird', {
+        mode: 'allowlist',
+        allowedTypes: ['custom:project_codename']
+      });
+
+      expect(result.maskedText).toBe('Bluebird');
+      expect(result.redactions).toHaveLength(0);
+    });
+
+    it('should reuse the default engine when the tenant has no detectors', () => {
+      expect(createTenantPolicyEngine({ tenantId: 'acme', detectors: [] })).toBe(defaultPolicyEngine);
+    });
+  });
+
+  describe('tenant configuration', () => {
+    let tenantsDir: string;
+
+    beforeEach(async () => {
+      tenantsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'pii-detectors-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tenantsDir, { recursive: true, force: true });
+    });
+
+    const writeConfig = async (tenantId: string, data: unknown) => {
+      await fs.mkdir(path.join(tenantsDir, tenantId), { recursive: true });
+      await fs.writeFile(path.join(tenantsDir, tenantId, 'pii-detectors.json'), JSON.stringify(data));
+    };
+
+    it('should load detectors from the tenant directory', async () => {
+      await writeConfig('acme', {
+        tenantId: 'acme',
+        detectors: [{ kind: 'dictionary', name: 'codename', terms: ['Falcon'] }]
+      });
+
+      const config = await loadTenantDetectorConfig('acme', tenantsDir);
+      expect(config.detectors).toHaveLength(1);
+    });
+
+    it('should return no detectors when the tenant has no file', async () => {
+      await expect(loadTenantDetectorConfig('other', tenantsDir))
+        .resolves.toEqual({ tenantId: 'other', detectors: [] });
+    });
+
+    it('should not read configurations outside the tenants directory', async () => {
+      await writeConfig('acme', { detectors: [{ kind: 'dictionary', name: 'codename', terms: ['Falcon'] }] });
+
+      await expect(loadTenantDetectorConfig('../acme', path.join(tenantsDir, 'other')))
+        .resolves.toEqual({ tenantId: '../acme', detectors: [] });
+      await expect(loadTenantDetectorConfig('.', path.join(tenantsDir, 'acme')))
+        .resolves.toEqual({ tenantId: '.', detectors: [] });
+    });
+
+    it('should reject mismatched tenants and invalid detectors', async () => {
+      await writeConfig('acme', { tenantId: 'globex', detectors: [] });
+      await expect(loadTenantDetectorConfig('acme', tenantsDir)).rejects.toThrow(/tenant mismatch/);
+
+      await writeConfig('acme', { detectors: [{ kind: 'regex', name: 'bad' }] });
+      await expect(loadTenantDetectorConfig('acme', tenantsDir)).rejects.toThrow(InvalidDetectorConfigError);
+    });
+
+    it('should cache engines per tenant until invalidated', async () => {
+      await writeConfig('acme', {
+        detectors: [{ kind: 'dictionary', name: 'codename', terms: ['Falcon'] }]
+      });
+      const engines = new TenantPolicyEngines(tenantId => loadTenantDetectorConfig(tenantId, tenantsDir));
+
+      const first = await engines.getEngine('acme');
+      expect(await engines.getEngine('acme')).toBe(first);
+      expect(await engines.getEngine('other')).toBe(defaultPolicyEngine);
+      expect(first.applyRedaction('Falcon', { mode: 'mask' }).maskedText).toBe('[CODENAME_REDACTED]');
+
+      engines.invalidate('acme');
+      expect(await engines.getEngine('acme')).not.toBe(first);
+    });
+  });
+});
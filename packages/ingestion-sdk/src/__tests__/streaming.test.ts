@@ -0,0 +1,119 @@
+// This file contains fake PII data for testing purposes only
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PIIPolicyEngine } from '../policy.js';
+import { StreamingRedactor } from '../streaming.js';
+import { loadTenantDetectorConfig, TenantPolicyEngines } from '../tenant-config.js';
+import { InvalidDetectorConfigError } from '../detectors/index.js';
+
+function streamInChunks(redactor: StreamingRedactor, text: string, size: number): string[] {
+  const released: string[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    released.push(redactor.push(text.slice(i, i + size)));
+  }
+  released.push(redactor.flush());
+  return released;
+}
+
+describe('PIIPolicyEngine.findDetections', () => {
+  const engine = new PIIPolicyEngine();
+
+  it('should return detections with positions', () => {
+    const text = 'Mail jane@example.com today';
+    const detections = engine.findDetections(text, { mode: 'mask' });
+
+    expect(detections).toHaveLength(1);
+    expect(text.slice(detections[0].start, detections[0].end)).toBe('jane@example.com');
+  });
+
+  it('should honour off and allowlist policies', () => {
+    const text = 'Mail jane@example.com';
+
+    expect(engine.findDetections(text, { mode: 'off' })).toEqual([]);
+    expect(engine.findDetections(text, { mode: 'allowlist', allowedTypes: ['email'] })).toEqual([]);
+  });
+});
+
+describe('StreamingRedactor', () => {
+  const engine = new PIIPolicyEngine();
+  const text = 'Sure! You can reach the account owner at jane.doe@example.com or by phone ' +
+    'at (555) 123-4567 during office hours. Let me know if you need anything else.';
+
+  it('should never release a partial value, whatever the chunk size', () => {
+    for (const size of [1, 3, 7, 16, 50]) {
+      const redactor = new StreamingRedactor(engine, { mode: 'mask' }, { holdback: 32 });
+      const released = streamInChunks(redactor, text, size);
+      const output = released.join('');
+
+      expect(output).toBe(engine.applyRedaction(text, { mode: 'mask' }).maskedText);
+      for (const part of released) {
+        expect(part).not.toMatch(/jane|example\.com|555|4567/);
+      }
+      expect(redactor.getRedactions()).toEqual(
+        expect.arrayContaining([{ type: 'email', count: 1 }, { type: 'phone', count: 1 }])
+      );
+    }
+  });
+
+  it('should hold back text until the end of the stream when it is short', () => {
+    const redactor = new StreamingRedactor(engine, { mode: 'mask' });
+
+    expect(redactor.push('Write to jane@')).toBe('');
+    expect(redactor.push('example.com')).toBe('');
+    expect(redactor.flush()).toBe('Write to [EMAIL_REDACTED]');
+  });
+
+  it('should release text without word boundaries once the buffer is full', () => {
+    const redactor = new StreamingRedactor(engine, { mode: 'mask' }, { holdback: 8, maxBuffer: 32 });
+
+    expect(redactor.push('-'.repeat(20))).toBe('');
+    expect(redactor.push('-'.repeat(20))).toBe('-'.repeat(32));
+    expect(redactor.flush()).toBe('-'.repeat(8));
+  });
+
+  it('should mask instead of blocking', () => {
+    const redactor = new StreamingRedactor(engine, { mode: 'block' });
+
+    expect(redactor.push('Mail jane@example.com') + redactor.flush()).toBe('Mail [EMAIL_REDACTED]');
+  });
+
+  it('should pass text through immediately when the policy is off', () => {
+    const redactor = new StreamingRedactor(engine, { mode: 'off' });
+
+    expect(redactor.push('Mail jane@')).toBe('Mail jane@');
+    expect(redactor.getRedactions()).toEqual([]);
+  });
+});
+
+describe('Tenant query policy', () => {
+  let tenantsDir: string;
+
+  beforeEach(async () => {
+    tenantsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tenants-'));
+    await fs.mkdir(path.join(tenantsDir, 'acme'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tenantsDir, { recursive: true, force: true });
+  });
+
+  async function writeConfig(config: unknown): Promise<void> {
+    await fs.writeFile(path.join(tenantsDir, 'acme', 'pii-detectors.json'), JSON.stringify(config));
+  }
+
+  it('should load and cache the query policy', async () => {
+    await writeConfig({ detectors: [], queryPolicy: { mode: 'allowlist', allowedTypes: ['email'] } });
+    const engines = new TenantPolicyEngines(tenantId => loadTenantDetectorConfig(tenantId, tenantsDir));
+
+    const config = await engines.getConfig('acme');
+    expect(config.queryPolicy).toEqual({ mode: 'allowlist', allowedTypes: ['email'] });
+    expect(await engines.getConfig('acme')).toBe(config);
+  });
+
+  it('should reject unknown query policy modes', async () => {
+    await writeConfig({ detectors: [], queryPolicy: { mode: 'hide' } });
+
+    await expect(loadTenantDetectorConfig('acme', tenantsDir)).rejects.toThrow(InvalidDetectorConfigError);
+  });
+});
@@ -0,0 +1,103 @@
+// This file contains fake PII data for testing purposes only
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PseudonymVault, PseudonymVaultError } from '../vault.js';
+import { PIIPolicyEngine, createPseudonymizePolicy, createTenantPolicyEngine } from '../policy.js';
+
+describe('PseudonymVault', () => {
+  const secret = 'test-vault-secret-0123456789abcdef';
+  let dir: string;
+  let vault: PseudonymVault;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'pii-vault-'));
+    vault = new PseudonymVault({ dir, secret });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should reject short secrets', () => {
+    expect(() => new PseudonymVault({ dir, secret: 'short' })).toThrow(PseudonymVaultError);
+  });
+
+  it('should return stable tokens per tenant and normalized value', () => {
+    const token = vault.pseudonymize('acme', 'email', 'John.Doe@example.com');
+
+    expect(token).toMatch(/^\[EMAIL_[0-9a-f]{16}\]$/);
+    expect(vault.pseudonymize('acme', 'email', 'john.doe@example.com')).toBe(token);
+    expect(vault.pseudonymize('globex', 'email', 'john.doe@example.com')).not.toBe(token);
+    expect(vault.pseudonymize('acme', 'custom:employee_id', 'EMP-123455')).toMatch(/^\[EMPLOYEE_ID_/);
+  });
+
+  it('should store values encrypted and restore them', async () => {
+    const token = vault.pseudonymize('acme', 'phone', '(555) 123-4567');
+
+    const stored = await fs.readFile(path.join(dir, 'acme.vault.jsonl'), 'utf-8');
+    expect(stored).not.toContain('555');
+
+    expect(vault.lookup('acme', token)).toEqual({ type: 'phone', value: '(555) 123-4567' });
+    expect(vault.lookup('globex', token)).toBeUndefined();
+  });
+
+  it('should persist mappings across instances', () => {
+    const token = vault.pseudonymize('acme', 'email', 'jane@example.com');
+
+    const reopened = new PseudonymVault({ dir, secret });
+    expect(reopened.pseudonymize('acme', 'email', 'jane@example.com')).toBe(token);
+    expect(reopened.lookup('acme', token)?.value).toBe('jane@example.com');
+  });
+
+  it('should fail to decrypt with a different secret', () => {
+    const token = vault.pseudonymize('acme', 'email', 'jane@example.com');
+
+    const other = new PseudonymVault({ dir, secret: 'another-vault-secret-0123456789abc' });
+    expect(() => other.lookup('acme', token)).toThrow(PseudonymVaultError);
+  });
+
+  it('should reject tenant ids that are not safe file names', () => {
+    expect(() => vault.pseudonymize('../acme', 'email', 'jane@example.com')).toThrow(PseudonymVaultError);
+  });
+
+  it('should re-identify known tokens and leave others untouched', () => {
+    const email = vault.pseudonymize('acme', 'email', 'jane@example.com');
+    const unknown = '[EMAIL_0000000000000000]';
+
+    const result = vault.reidentify('acme', `Ask ${email} or ${unknown}, cc ${email}`);
+
+    expect(result.text).toBe(`Ask jane@example.com or ${unknown}, cc jane@example.com`);
+    expect(result.restored).toEqual([{ type: 'email', count: 2 }]);
+  });
+
+  describe('pseudonymize policy mode', () => {
+    it('should replace PII with reversible tokens', () => {
+      const engine = new PIIPolicyEngine(undefined, vault);
+      const text = 'Contact jane@example.com, again jane@example.com';
+
+      const result = engine.applyRedaction(text, createPseudonymizePolicy('acme'));
+
+      expect(result.blocked).toBe(false);
+      expect(result.maskedText).not.toContain('jane@example.com');
+      expect(result.redactions).toEqual([{ type: 'email', count: 2 }]);
+      expect(vault.reidentify('acme', result.maskedText).text).toBe(text);
+    });
+
+    it('should produce the same token across documents', () => {
+      const engine = createTenantPolicyEngine({ tenantId: 'acme', detectors: [] }, vault);
+
+      const first = engine.applyRedaction('From jane@example.com', createPseudonymizePolicy('acme'));
+      const second = engine.applyRedaction('To jane@example.com', createPseudonymizePolicy('acme'));
+
+      expect(first.maskedText.replace('From ', '')).toBe(second.maskedText.replace('To ', ''));
+    });
+
+    it('should require a pseudonymizer and a tenant', () => {
+      expect(() => new PIIPolicyEngine().applyRedaction('jane@example.com', createPseudonymizePolicy('acme')))
+        .toThrow(/requires a policy engine created with a pseudonymizer/);
+      expect(() => new PIIPolicyEngine(undefined, vault).applyRedaction('jane@example.com', { mode: 'pseudonymize' }))
+        .toThrow(/requires a tenantId/);
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import {
+  PIIDetector,
+  PIIDetection,
+  DetectorOptions,
+  CustomPIIType,
+  ChecksumValidator,
+  CustomDetectorConfig,
+  RegexDetectorConfig,
+  DictionaryDetectorConfig
+} from '../types.js';
+
+/**
+ * Error raised when a tenant-defined detector configuration is invalid
+ */
+export class InvalidDetectorConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidDetectorConfigError';
+  }
+}
+
+/**
+ * Checksum implementations, applied to the match with separators removed
+ */
+export const checksumValidators: Record<ChecksumValidator, (value: string) => boolean> = {
+  /** Luhn mod-10, as used for card numbers and many employee/member IDs */
+  luhn: (value: string): boolean => {
+    if (!/^\d{2,}$/.test(value)) return false;
+
+    let sum = 0;
+    let shouldDouble = false;
+    for (let i = value.length - 1; i >= 0; i--) {
+      let digit = parseInt(value[i], 10);
+      if (shouldDouble) {
+        digit *= 2;
+        if (digit > 9) digit -= 9;
+      }
+      sum += digit;
+      shouldDouble = !shouldDouble;
+    }
+    return sum % 10 === 0;
+  },
+
+  /** ISO 7064 MOD 97-10 with trailing check digits (letters count as 10-35) */
+  mod97: (value: string): boolean => {
+    if (!/^[A-Z0-9]{3,}$/.test(value)) return false;
+
+    let remainder = 0;
+    for (const char of value) {
+      const code = /[A-Z]/.test(char) ? (char.charCodeAt(0) - 55).toString() : char;
+      for (const digit of code) {
+        remainder = (remainder * 10 + parseInt(digit, 10)) % 97;
+      }
+    }
+    return remainder === 1;
+  },
+
+  /** ISBN-10 style mod-11 with a trailing check digit (X = 10) */
+  mod11: (value: string): boolean => {
+    if (!/^\d+[\dX]$/.test(value)) return false;
+
+    let sum = 0;
+    for (let i = 0; i < value.length; i++) {
+      const char = value[value.length - 1 - i];
+      const digit = char === 'X' ? 10 : parseInt(char, 10);
+      sum += digit * (i + 1);
+    }
+    return sum % 11 === 0;
+  }
+};
+
+/**
+ * Build the PII type reported for a tenant-defined detector
+ */
+export function toCustomPIIType(name: string): CustomPIIType {
+  return `custom:${name}`;
+}
+
+function defaultMask(name: string): string {
+  return `[${name.toUpperCase()}_REDACTED]`;
+}
+
+/**
+ * Detector for tenant-defined regular expressions with optional checksum validation
+ */
+export class RegexDetector implements PIIDetector {
+  public readonly type: CustomPIIType;
+
+  private readonly regex: RegExp;
+  private readonly mask: string;
+  private readonly confidence: number;
+  private readonly validator?: (value: string) => boolean;
+
+  constructor(config: RegexDetectorConfig) {
+    this.type = toCustomPIIType(config.name);
+    this.mask = config.mask || defaultMask(config.name);
+    this.confidence = config.confidence ?? 0.9;
+
+    const flags = config.flags || '';
+    this.regex = new RegExp(config.pattern, flags.includes('g') ? flags : `${flags}g`);
+
+    if (config.validator) {
+      this.validator = checksumValidators[config.validator];
+    }
+  }
+
+  /**
+   * Detect matches of the configured pattern in the given text
+   */
+  detect(text: string, options: DetectorOptions = {}): PIIDetection[] {
+    const { minConfidence = 0.5, strictValidation = true } = options;
+    const detections: PIIDetection[] = [];
+
+    if (this.confidence < minConfidence) return detections;
+
+    let match;
+    this.regex.lastIndex = 0; // Reset regex state
+
+    while ((match = this.regex.exec(text)) !== null) {
+      // Guard against patterns that can match the empty string
+      if (match[0].length === 0) {
+        this.regex.lastIndex++;
+        continue;
+      }
+
+      if (strictValidation && this.validator) {
+        // Validate the first capture group when present (e.g. the digits after a prefix)
+        const candidate = match[1] ?? match[0];
+        const normalized = candidate.replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+        if (!this.validator(normalized)) continue;
+      }
+
+      detections.push({
+        type: this.type,
+        start: match.index,
+        end: match.index + match[0].length,
+        confidence: this.confidence
+      });
+    }
+
+    return detections;
+  }
+
+  /**
+   * Generate the configured mask
+   */
+  getMask(detection: PIIDetection): string {
+    return this.mask;
+  }
+}
+
+/**
+ * Detector for tenant-defined term dictionaries
+ */
+export class DictionaryDetector implements PIIDetector {
+  public readonly type: CustomPIIType;
+
+  private readonly regex: RegExp;
+  private readonly mask: string;
+  private readonly confidence: number;
+
+  constructor(config: DictionaryDetectorConfig) {
+    this.type = toCustomPIIType(config.name);
+    this.mask = config.mask || defaultMask(config.name);
+    this.confidence = config.confidence ?? 0.9;
+
+    // Longest terms first so that overlapping terms match as a whole
+    const alternation = [...new Set(config.terms.map(term => term.trim()).filter(Boolean))]
+      .sort((a, b) => b.length - a.length)
+      .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('|');
+
+    const wholeWord = config.wholeWord ?? true;
+    const source = wholeWord
+      ? `(?<![\\p{L}\\p{N}_])(?:${alternation})(?![\\p{L}\\p{N}_])`
+      : `(?:${alternation})`;
+
+    this.regex = new RegExp(source, config.caseSensitive ? 'gu' : 'giu');
+  }
+
+  /**
+   * Detect dictionary terms in the given text
+   */
+  detect(text: string, options: DetectorOptions = {}): PIIDetection[] {
+    const { minConfidence = 0.5 } = options;
+    const detections: PIIDetection[] = [];
+
+    if (this.confidence < minConfidence) return detections;
+
+    let match;
+    this.regex.lastIndex = 0; // Reset regex state
+
+    while ((match = this.regex.exec(text)) !== null) {
+      detections.push({
+        type: this.type,
+        start: match.index,
+        end: match.index + match[0].length,
+        confidence: this.confidence
+      });
+    }
+
+    return detections;
+  }
+
+  /**
+   * Generate the configured mask
+   */
+  getMask(detection: PIIDetection): string {
+    return this.mask;
+  }
+}
+
+/**
+ * Validate a tenant-defined detector configuration
+ * @throws InvalidDetectorConfigError when the configuration cannot be loaded
+ */
+export function validateCustomDetectorConfig(config: CustomDetectorConfig): void {
+  if (!config || typeof config !== 'object') {
+    throw new InvalidDetectorConfigError('Detector configuration must be an object');
+  }
+
+  if (typeof config.name !== 'string' || !/^[a-z][a-z0-9_]*$/.test(config.name)) {
+    throw new InvalidDetectorConfigError(
+      `Invalid detector name "${config.name}": use lowercase letters, digits and underscores`
+    );
+  }
+
+  if (config.confidence !== undefined && (config.confidence < 0 || config.confidence > 1)) {
+    throw new InvalidDetectorConfigError(`Detector "${config.name}": confidence must be between 0 and 1`);
+  }
+
+  switch (config.kind) {
+    case 'regex':
+      if (typeof config.pattern !== 'string' || config.pattern.length === 0) {
+        throw new InvalidDetectorConfigError(`Detector "${config.name}": pattern is required`);
+      }
+      try {
+        new RegExp(config.pattern, config.flags);
+      } catch (error) {
+        throw new InvalidDetectorConfigError(
+          `Detector "${config.name}": invalid pattern (${(error as Error).message})`
+        );
+      }
+      if (config.validator && !(config.validator in checksumValidators)) {
+        throw new InvalidDetectorConfigError(
+          `Detector "${config.name}": unknown validator "${config.validator}"`
+        );
+      }
+      break;
+
+    case 'dictionary':
+      if (!Array.isArray(config.terms) || !config.terms.some(term => typeof term === 'string' && term.trim())) {
+        throw new InvalidDetectorConfigError(`Detector "${config.name}": at least one term is required`);
+      }
+      break;
+
+    default:
+      throw new InvalidDetectorConfigError(
+        `Detector "${(config as { name?: string }).name}": unknown kind "${(config as { kind?: string }).kind}"`
+      );
+  }
+}
+
+/**
+ * Factory function to create a detector from a tenant-defined configuration
+ */
+export function createCustomDetector(config: CustomDetectorConfig): RegexDetector | DictionaryDetector {
+  validateCustomDetectorConfig(config);
+  return config.kind === 'regex' ? new RegexDetector(config) : new DictionaryDetector(config);
+}
@@ -14,14 +14,24 @@ export {
   createAWSKeyDetector,
   createJWTDetector
 } from './api-keys.js';
+export {
+  RegexDetector,
+  DictionaryDetector,
+  InvalidDetectorConfigError,
+  checksumValidators,
+  createCustomDetector,
+  validateCustomDetectorConfig,
+  toCustomPIIType
+} from './custom.js';
 
-import { PIIDetector, PIIType } from '../types.js';
+import { PIIDetector, PIIType, CustomDetectorConfig, TenantDetectorConfig } from '../types.js';
 import { createEmailDetector } from './email.js';
 import { createPhoneDetector } from './phone.js';
 import { createIBANDetector } from './iban.js';
 import { createCreditCardDetector } from './credit-card.js';
 import { createNationalIdDetector } from './national-id.js';
 import { createAPIKeyDetector, createAWSKeyDetector, createJWTDetector } from './api-keys.js';
+import { createCustomDetector, toCustomPIIType, InvalidDetectorConfigError } from './custom.js';
 
 /**
  * Registry of all available detectors
@@ -48,6 +58,29 @@ export class DetectorRegistry {
     this.register(createJWTDetector());
   }
 
+  /**
+   * Create a registry with the built-in detectors plus a tenant's own detectors
+   * @throws InvalidDetectorConfigError when a detector configuration is invalid
+   */
+  static forTenant(config: TenantDetectorConfig): DetectorRegistry {
+    const registry = new DetectorRegistry();
+    registry.registerCustom(config.detectors);
+    return registry;
+  }
+
+  /**
+   * Register tenant-defined detectors
+   * @throws InvalidDetectorConfigError when a configuration is invalid or declared twice
+   */
+  registerCustom(configs: CustomDetectorConfig[]): void {
+    for (const config of configs) {
+      if (config?.name && this.detectors.has(toCustomPIIType(config.name))) {
+        throw new InvalidDetectorConfigError(`Detector "${config.name}" is declared more than once`);
+      }
+      this.register(createCustomDetector(config));
+    }
+  }
+
   /**
    * Register a detector
    */
@@ -10,13 +10,21 @@
 // Core types
 export type {
   PIIType,
+  BuiltinPIIType,
+  CustomPIIType,
   PolicyMode,
   PIIPolicy,
   PIIDetection,
   RedactionSummary,
   RedactionResult,
   DetectorOptions,
-  PIIDetector
+  PIIDetector,
+  Pseudonymizer,
+  ChecksumValidator,
+  RegexDetectorConfig,
+  DictionaryDetectorConfig,
+  CustomDetectorConfig,
+  TenantDetectorConfig
 } from './types.js';
 
 // Detectors
@@ -29,6 +37,9 @@ export {
   APIKeyDetector,
   AWSKeyDetector,
   JWTDetector,
+  RegexDetector,
+  DictionaryDetector,
+  InvalidDetectorConfigError,
   DetectorRegistry,
   defaultDetectorRegistry,
   createEmailDetector,
@@ -38,7 +49,11 @@ export {
   createNationalIdDetector,
   createAPIKeyDetector,
   createAWSKeyDetector,
-  createJWTDetector
+  createJWTDetector,
+  createCustomDetector,
+  validateCustomDetectorConfig,
+  checksumValidators,
+  toCustomPIIType
 } from './detectors/index.js';
 
 // Policy engine
@@ -49,8 +64,25 @@ export {
   summarizeFindings,
   createDefaultPolicy,
   createAllowlistPolicy,
-  createBlockPolicy
+  createBlockPolicy,
+  createPseudonymizePolicy,
+  createTenantPolicyEngine
 } from './policy.js';
 
+// Pseudonymization vault
+export { PseudonymVault, PseudonymVaultError } from './vault.js';
+export type { PseudonymVaultOptions, ReidentificationResult } from './vault.js';
+
+// Streaming redaction
+export { StreamingRedactor } from './streaming.js';
+export type { StreamingRedactorOptions } from './streaming.js';
+
+// Tenant configuration
+export {
+  TenantPolicyEngines,
+  loadTenantDetectorConfig,
+  TENANT_DETECTORS_FILE
+} from './tenant-config.js';
+
 // Re-export main functions for convenience
 export { applyRedaction as default } from './policy.js';
\ No newline at end of file
@@ -1,4 +1,13 @@
-import { PIIPolicy, PIIType, PolicyMode, PIIDetection, RedactionResult, RedactionSummary } from './types.js';
+import {
+  PIIPolicy,
+  PIIType,
+  PolicyMode,
+  PIIDetection,
+  RedactionResult,
+  RedactionSummary,
+  TenantDetectorConfig,
+  Pseudonymizer
+} from './types.js';
 import { DetectorRegistry, defaultDetectorRegistry } from './detectors/index.js';
 
 /**
@@ -6,9 +15,11 @@ import { DetectorRegistry, defaultDetectorRegistry } from './detectors/index.js'
  */
 export class PIIPolicyEngine {
   private detectorRegistry: DetectorRegistry;
+  private pseudonymizer?: Pseudonymizer;
 
-  constructor(detectorRegistry?: DetectorRegistry) {
+  constructor(detectorRegistry?: DetectorRegistry, pseudonymizer?: Pseudonymizer) {
     this.detectorRegistry = detectorRegistry || defaultDetectorRegistry;
+    this.pseudonymizer = pseudonymizer;
   }
 
   /**
@@ -44,8 +55,10 @@ export class PIIPolicyEngine {
       };
     }
 
-    // Apply masking if needed
-    const maskedText = this.maskDetections(text, filteredDetections);
+    // Replace values with reversible tokens when pseudonymizing, otherwise mask them
+    const maskedText = effectivePolicy.mode === 'pseudonymize'
+      ? this.pseudonymizeDetections(text, filteredDetections, effectivePolicy)
+      : this.maskDetections(text, filteredDetections);
 
     return {
       maskedText,
@@ -55,6 +68,20 @@ export class PIIPolicyEngine {
     };
   }
 
+  /**
+   * Find the detections the policy applies to, with their positions in the text.
+   * Returns no detections when the effective policy is 'off'.
+   */
+  findDetections(text: string, policy: PIIPolicy, sourcePath?: string): PIIDetection[] {
+    const effectivePolicy = this.getEffectivePolicy(policy, sourcePath);
+
+    if (effectivePolicy.mode === 'off') {
+      return [];
+    }
+
+    return this.filterDetectionsByPolicy(this.detectAllPII(text), effectivePolicy);
+  }
+
   /**
    * Get effective policy considering source overrides
    */
@@ -178,6 +205,33 @@ export class PIIPolicyEngine {
     return maskedText;
   }
 
+  /**
+   * Replace detected PII with stable per-tenant tokens
+   */
+  private pseudonymizeDetections(text: string, detections: PIIDetection[], policy: PIIPolicy): string {
+    if (detections.length === 0) return text;
+
+    if (!this.pseudonymizer) {
+      throw new Error('Policy mode "pseudonymize" requires a policy engine created with a pseudonymizer');
+    }
+    if (!policy.tenantId) {
+      throw new Error('Policy mode "pseudonymize" requires a tenantId');
+    }
+
+    // Replace from end to start so earlier offsets stay valid
+    const sortedDetections = [...detections].sort((a, b) => b.start - a.start);
+
+    let pseudonymizedText = text;
+
+    for (const detection of sortedDetections) {
+      const value = text.slice(detection.start, detection.end);
+      const token = this.pseudonymizer.pseudonymize(policy.tenantId, detection.type, value);
+      pseudonymizedText = pseudonymizedText.slice(0, detection.start) + token + pseudonymizedText.slice(detection.end);
+    }
+
+    return pseudonymizedText;
+  }
+
   /**
    * Summarize detections for reporting (without exposing raw PII)
    */
@@ -201,6 +255,20 @@ export class PIIPolicyEngine {
  */
 export const defaultPolicyEngine = new PIIPolicyEngine();
 
+/**
+ * Create a policy engine that runs the built-in detectors plus a tenant's own detectors
+ * @throws InvalidDetectorConfigError when a detector configuration is invalid
+ */
+export function createTenantPolicyEngine(
+  config: TenantDetectorConfig,
+  pseudonymizer?: Pseudonymizer
+): PIIPolicyEngine {
+  if (config.detectors.length === 0) {
+    return pseudonymizer ? new PIIPolicyEngine(defaultDetectorRegistry, pseudonymizer) : defaultPolicyEngine;
+  }
+  return new PIIPolicyEngine(DetectorRegistry.forTenant(config), pseudonymizer);
+}
+
 /**
  * Main function to apply redaction (convenience export)
  */
@@ -249,6 +317,18 @@ export function createAllowlistPolicy(allowedTypes: PIIType[], tenantId?: string
   };
 }
 
+/**
+ * Create a pseudonymize policy (requires an engine with a pseudonymizer)
+ */
+export function createPseudonymizePolicy(tenantId: string): PIIPolicy {
+  return {
+    mode: 'pseudonymize',
+    tenantId,
+    allowedTypes: undefined,
+    sourceOverrides: undefined
+  };
+}
+
 /**
  * Create a block policy
  */
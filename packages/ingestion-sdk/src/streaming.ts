@@ -0,0 +1,115 @@
+import { PIIPolicy, PIIType, RedactionSummary } from './types.js';
+import { PIIPolicyEngine } from './policy.js';
+
+/**
+ * Options for redacting streamed text
+ */
+export interface StreamingRedactorOptions {
+  /**
+   * Characters held back from the end of the buffer, so a value split across
+   * chunks is complete before anything around it is released (default 64)
+   */
+  holdback?: number;
+
+  /** Buffer size after which text is released even without a word boundary (default 1024) */
+  maxBuffer?: number;
+}
+
+const DEFAULT_HOLDBACK = 64;
+const DEFAULT_MAX_BUFFER = 1024;
+
+/**
+ * Applies a PII policy to text that arrives in chunks (e.g. streamed LLM output).
+ *
+ * Text is only released at word boundaries at least `holdback` characters before
+ * the end of the buffer, and never in the middle of a detected value, so partial
+ * values cannot leak through chunk boundaries. Released text cannot be withdrawn,
+ * so a 'block' policy is applied as 'mask'.
+ */
+export class StreamingRedactor {
+  private buffer = '';
+  private policy: PIIPolicy;
+  private holdback: number;
+  private maxBuffer: number;
+  private counts: Map<PIIType, number> = new Map();
+
+  constructor(
+    private engine: PIIPolicyEngine,
+    policy: PIIPolicy,
+    options: StreamingRedactorOptions = {}
+  ) {
+    this.policy = policy.mode === 'block' ? { ...policy, mode: 'mask' } : policy;
+    this.holdback = options.holdback ?? DEFAULT_HOLDBACK;
+    this.maxBuffer = Math.max(options.maxBuffer ?? DEFAULT_MAX_BUFFER, this.holdback + 1);
+  }
+
+  /**
+   * Add a chunk and return the redacted text that is safe to release (possibly empty)
+   */
+  push(chunk: string): string {
+    this.buffer += chunk;
+
+    if (this.policy.mode === 'off') {
+      return this.release(this.buffer.length);
+    }
+    if (this.buffer.length <= this.holdback) {
+      return '';
+    }
+
+    let cut = this.buffer.length - this.holdback;
+    const boundary = this.lastWhitespaceBefore(cut);
+    if (boundary > 0) {
+      cut = boundary;
+    } else if (this.buffer.length < this.maxBuffer) {
+      return '';
+    }
+
+    // Never cut through a detected value; move the cut to its start instead
+    for (const detection of this.engine.findDetections(this.buffer, this.policy)) {
+      if (detection.start < cut && detection.end > cut) {
+        cut = detection.start;
+        break;
+      }
+    }
+
+    return this.release(cut);
+  }
+
+  /**
+   * Release and redact everything still buffered; call once the stream has ended
+   */
+  flush(): string {
+    return this.release(this.buffer.length);
+  }
+
+  /**
+   * Redactions applied so far (never includes raw PII)
+   */
+  getRedactions(): RedactionSummary[] {
+    return Array.from(this.counts.entries()).map(([type, count]) => ({ type, count }));
+  }
+
+  private release(end: number): string {
+    if (end <= 0) {
+      return '';
+    }
+
+    const text = this.buffer.slice(0, end);
+    this.buffer = this.buffer.slice(end);
+
+    const result = this.engine.applyRedaction(text, this.policy);
+    for (const { type, count } of result.redactions) {
+      this.counts.set(type, (this.counts.get(type) || 0) + count);
+    }
+    return result.maskedText;
+  }
+
+  private lastWhitespaceBefore(index: number): number {
+    for (let i = index; i > 0; i--) {
+      if (/\s/.test(this.buffer[i - 1])) {
+        return i;
+      }
+    }
+    return -1;
+  }
+}
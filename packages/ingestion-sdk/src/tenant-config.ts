@@ -0,0 +1,131 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { TenantDetectorConfig, Pseudonymizer, PolicyMode } from './types.js';
+import { InvalidDetectorConfigError, validateCustomDetectorConfig } from './detectors/custom.js';
+import { PIIPolicyEngine, createTenantPolicyEngine } from './policy.js';
+
+/**
+ * File name of the tenant detector configuration inside a tenant directory
+ */
+export const TENANT_DETECTORS_FILE = 'pii-detectors.json';
+
+const POLICY_MODES: PolicyMode[] = ['off', 'mask', 'block', 'allowlist', 'pseudonymize'];
+
+// Tenant ids come from requests; never leave the tenants directory
+function isSafeTenantId(tenantId: string): boolean {
+  return !!tenantId && tenantId === path.basename(tenantId) && !tenantId.startsWith('.');
+}
+
+/**
+ * Load a tenant's detector configuration from `<tenantsDir>/<tenantId>/pii-detectors.json`.
+ * Tenants without the file, and tenant ids that are not a plain directory name, get
+ * no custom detectors.
+ * @throws InvalidDetectorConfigError when the file is malformed
+ */
+export async function loadTenantDetectorConfig(
+  tenantId: string,
+  tenantsDir: string = './tenants'
+): Promise<TenantDetectorConfig> {
+  if (!isSafeTenantId(tenantId)) {
+    return { tenantId, detectors: [] };
+  }
+  const filePath = path.join(tenantsDir, tenantId, TENANT_DETECTORS_FILE);
+
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { tenantId, detectors: [] };
+    }
+    throw error;
+  }
+
+  let data: Partial<TenantDetectorConfig>;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new InvalidDetectorConfigError(`${filePath}: ${(error as Error).message}`);
+  }
+
+  if (data.tenantId !== undefined && data.tenantId !== tenantId) {
+    throw new InvalidDetectorConfigError(
+      `Detector config tenant mismatch: expected ${tenantId}, got ${data.tenantId}`
+    );
+  }
+  if (!Array.isArray(data.detectors)) {
+    throw new InvalidDetectorConfigError(`${filePath}: "detectors" must be an array`);
+  }
+  data.detectors.forEach(validateCustomDetectorConfig);
+
+  if (data.queryPolicy !== undefined) {
+    if (!data.queryPolicy || !POLICY_MODES.includes(data.queryPolicy.mode)) {
+      throw new InvalidDetectorConfigError(
+        `${filePath}: "queryPolicy.mode" must be one of ${POLICY_MODES.join(', ')}`
+      );
+    }
+    if (data.queryPolicy.allowedTypes !== undefined && !Array.isArray(data.queryPolicy.allowedTypes)) {
+      throw new InvalidDetectorConfigError(`${filePath}: "queryPolicy.allowedTypes" must be an array`);
+    }
+    return { tenantId, detectors: data.detectors, queryPolicy: data.queryPolicy };
+  }
+
+  return { tenantId, detectors: data.detectors };
+}
+
+/**
+ * Per-tenant policy engines, built from each tenant's detector configuration
+ * on first use and cached until invalidated.
+ */
+export class TenantPolicyEngines {
+  private configs: Map<string, Promise<TenantDetectorConfig>> = new Map();
+  private engines: Map<string, Promise<PIIPolicyEngine>> = new Map();
+
+  constructor(
+    private loadConfig: (tenantId: string) => Promise<TenantDetectorConfig> =
+      tenantId => loadTenantDetectorConfig(tenantId),
+    private pseudonymizer?: Pseudonymizer
+  ) {}
+
+  /**
+   * Get the configuration of a tenant
+   * @throws InvalidDetectorConfigError when the tenant's configuration is invalid
+   */
+  async getConfig(tenantId: string): Promise<TenantDetectorConfig> {
+    let config = this.configs.get(tenantId);
+    if (!config) {
+      config = this.loadConfig(tenantId);
+      this.configs.set(tenantId, config);
+      config.catch(() => this.configs.delete(tenantId));
+    }
+    return config;
+  }
+
+  /**
+   * Get the policy engine for a tenant
+   * @throws InvalidDetectorConfigError when the tenant's configuration is invalid
+   */
+  async getEngine(tenantId: string): Promise<PIIPolicyEngine> {
+    let engine = this.engines.get(tenantId);
+    if (!engine) {
+      engine = this.getConfig(tenantId).then(config => createTenantPolicyEngine(config, this.pseudonymizer));
+      this.engines.set(tenantId, engine);
+      // Do not cache failures so a fixed configuration is picked up on retry
+      engine.catch(() => this.engines.delete(tenantId));
+    }
+    return engine;
+  }
+
+  /**
+   * Drop cached engines so the configuration is reloaded on next use
+   */
+  invalidate(tenantId?: string): void {
+    if (tenantId) {
+      this.configs.delete(tenantId);
+      this.engines.delete(tenantId);
+    } else {
+      this.configs.clear();
+      this.engines.clear();
+    }
+  }
+}
@@ -1,7 +1,7 @@
 /**
- * Supported PII types for detection and redaction
+ * Built-in PII types shipped with the SDK
  */
-export type PIIType =
+export type BuiltinPIIType =
   | 'email'
   | 'phone'
   | 'iban'
@@ -12,10 +12,20 @@ export type PIIType =
   | 'jwt_token'
   | 'generic_token';
 
+/**
+ * PII types declared by tenant-defined detectors (e.g. `custom:employee_id`)
+ */
+export type CustomPIIType = `custom:${string}`;
+
+/**
+ * Supported PII types for detection and redaction
+ */
+export type PIIType = BuiltinPIIType | CustomPIIType;
+
 /**
  * Policy modes for handling detected PII
  */
-export type PolicyMode = 'off' | 'mask' | 'block' | 'allowlist';
+export type PolicyMode = 'off' | 'mask' | 'block' | 'allowlist' | 'pseudonymize';
 
 /**
  * Configuration for PII detection and redaction policy
@@ -79,6 +89,15 @@ export interface RedactionResult {
   originalLength: number;
 }
 
+/**
+ * Replaces PII values with stable tokens that authorized users can reverse
+ * (used by the 'pseudonymize' policy mode)
+ */
+export interface Pseudonymizer {
+  /** Return the token for a value; the same tenant, type and value always yield the same token */
+  pseudonymize(tenantId: string, type: PIIType, value: string): string;
+}
+
 /**
  * Configuration options for individual detectors
  */
@@ -102,4 +121,77 @@ export interface PIIDetector {
 
   /** Generate appropriate mask for this PII type */
   getMask(detection: PIIDetection): string;
-}
\ No newline at end of file
+}
+
+/**
+ * Checksum algorithms available to tenant-defined regex detectors
+ */
+export type ChecksumValidator = 'luhn' | 'mod97' | 'mod11';
+
+/**
+ * Fields shared by all tenant-defined detectors
+ */
+interface CustomDetectorConfigBase {
+  /** Detector name; reported as `custom:<name>` in redaction summaries */
+  name: string;
+
+  /** Replacement text; defaults to `[<NAME>_REDACTED]` */
+  mask?: string;
+
+  /** Confidence assigned to matches (0-1, default 0.9) */
+  confidence?: number;
+}
+
+/**
+ * Tenant-defined detector matching a regular expression
+ */
+export interface RegexDetectorConfig extends CustomDetectorConfigBase {
+  kind: 'regex';
+
+  /** Regular expression source (without delimiters) */
+  pattern: string;
+
+  /** Regular expression flags; `g` is always added */
+  flags?: string;
+
+  /**
+   * Checksum the match must pass to be reported. Applied to the first capture
+   * group if the pattern has one, otherwise to the whole match; separators are ignored.
+   */
+  validator?: ChecksumValidator;
+}
+
+/**
+ * Tenant-defined detector matching a list of terms
+ */
+export interface DictionaryDetectorConfig extends CustomDetectorConfigBase {
+  kind: 'dictionary';
+
+  /** Terms to detect (e.g. project code names, internal hostnames) */
+  terms: string[];
+
+  /** Whether matching is case-sensitive (default false) */
+  caseSensitive?: boolean;
+
+  /** Whether terms must match whole words (default true) */
+  wholeWord?: boolean;
+}
+
+/**
+ * Configuration for a tenant-defined detector
+ */
+export type CustomDetectorConfig = RegexDetectorConfig | DictionaryDetectorConfig;
+
+/**
+ * Tenant-level PII detector configuration
+ */
+export interface TenantDetectorConfig {
+  /** Tenant the detectors apply to */
+  tenantId: string;
+
+  /** Detectors loaded in addition to the built-in ones */
+  detectors: CustomDetectorConfig[];
+
+  /** Policy applied to user questions and generated answers, overriding the service default */
+  queryPolicy?: Pick<PIIPolicy, 'mode' | 'allowedTypes'>;
+}
@@ -0,0 +1,230 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PIIType, Pseudonymizer, RedactionSummary } from './types.js';
+
+/**
+ * Error raised when the pseudonym vault cannot be opened or decrypted
+ */
+export class PseudonymVaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PseudonymVaultError';
+  }
+}
+
+export interface PseudonymVaultOptions {
+  /** Directory holding one vault file per tenant */
+  dir: string;
+
+  /** Master secret; per-tenant encryption and token keys are derived from it */
+  secret: string;
+}
+
+/**
+ * Result of restoring pseudonymized values in a text
+ */
+export interface ReidentificationResult {
+  /** Text with known tokens replaced by their original values */
+  text: string;
+
+  /** Summary of the values restored (never includes raw PII values) */
+  restored: RedactionSummary[];
+}
+
+/**
+ * Encrypted vault record, one JSON line per token
+ */
+interface VaultRecord {
+  token: string;
+  type: PIIType;
+  iv: string;
+  tag: string;
+  data: string;
+  createdAt: string;
+}
+
+interface TenantVault {
+  filePath: string;
+  encryptionKey: Buffer;
+  tokenKey: Buffer;
+  records: Map<string, VaultRecord>;
+}
+
+/**
+ * Pattern matching tokens produced by the vault, e.g. `[EMAIL_1f2e3d4c5b6a7988]`
+ */
+const TOKEN_PATTERN = /\[[A-Z][A-Z0-9_]*_[0-9a-f]{16}\]/g;
+
+/**
+ * Local, file-backed vault for the 'pseudonymize' policy mode.
+ *
+ * Tokens are an HMAC of the normalized value under a per-tenant key, so the
+ * same value maps to the same token across documents but tokens cannot be
+ * correlated across tenants. The original values are stored AES-256-GCM
+ * encrypted in `<dir>/<tenantId>.vault.jsonl` and can only be restored with
+ * the master secret.
+ */
+export class PseudonymVault implements Pseudonymizer {
+  private dir: string;
+  private secret: string;
+  private tenants: Map<string, TenantVault> = new Map();
+
+  constructor(options: PseudonymVaultOptions) {
+    if (!options.secret || options.secret.length < 32) {
+      throw new PseudonymVaultError('Vault secret must be at least 32 characters');
+    }
+    this.dir = options.dir;
+    this.secret = options.secret;
+  }
+
+  /**
+   * Return the token for a value, storing the encrypted value on first use
+   */
+  pseudonymize(tenantId: string, type: PIIType, value: string): string {
+    const vault = this.openTenant(tenantId);
+    const digest = crypto
+      .createHmac('sha256', vault.tokenKey)
+      .update(`${type}\u0000${normalizeValue(type, value)}`)
+      .digest('hex')
+      .slice(0, 16);
+    const token = `[${tokenLabel(type)}_${digest}]`;
+
+    if (!vault.records.has(token)) {
+      const iv = crypto.randomBytes(12);
+      const cipher = crypto.createCipheriv('aes-256-gcm', vault.encryptionKey, iv);
+      const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+
+      const record: VaultRecord = {
+        token,
+        type,
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64'),
+        createdAt: new Date().toISOString()
+      };
+
+      fs.mkdirSync(this.dir, { recursive: true });
+      fs.appendFileSync(vault.filePath, `${JSON.stringify(record)}\n`, { encoding: 'utf-8', mode: 0o600 });
+      vault.records.set(token, record);
+    }
+
+    return token;
+  }
+
+  /**
+   * Look up the original value of a token
+   * @throws PseudonymVaultError when the record cannot be decrypted
+   */
+  lookup(tenantId: string, token: string): { type: PIIType; value: string } | undefined {
+    const vault = this.openTenant(tenantId);
+    const record = vault.records.get(token);
+    if (!record) {
+      return undefined;
+    }
+
+    try {
+      const decipher = crypto.createDecipheriv(
+        'aes-256-gcm',
+        vault.encryptionKey,
+        Buffer.from(record.iv, 'base64')
+      );
+      decipher.setAuthTag(Buffer.from(record.tag, 'base64'));
+      const value = Buffer.concat([
+        decipher.update(Buffer.from(record.data, 'base64')),
+        decipher.final()
+      ]).toString('utf8');
+
+      return { type: record.type, value };
+    } catch {
+      throw new PseudonymVaultError(`Failed to decrypt vault entry for tenant ${tenantId}; check the vault secret`);
+    }
+  }
+
+  /**
+   * Replace every known token in a text with its original value.
+   * Unknown tokens (e.g. from another tenant) are left untouched.
+   */
+  reidentify(tenantId: string, text: string): ReidentificationResult {
+    const restored = new Map<PIIType, number>();
+
+    const reidentified = text.replace(TOKEN_PATTERN, token => {
+      const entry = this.lookup(tenantId, token);
+      if (!entry) {
+        return token;
+      }
+      restored.set(entry.type, (restored.get(entry.type) || 0) + 1);
+      return entry.value;
+    });
+
+    return {
+      text: reidentified,
+      restored: Array.from(restored.entries()).map(([type, count]) => ({ type, count }))
+    };
+  }
+
+  /**
+   * Load (once) the vault of a tenant
+   */
+  private openTenant(tenantId: string): TenantVault {
+    const cached = this.tenants.get(tenantId);
+    if (cached) {
+      return cached;
+    }
+
+    if (!/^[A-Za-z0-9_-]+$/.test(tenantId)) {
+      throw new PseudonymVaultError(`Invalid tenant id for vault: ${tenantId}`);
+    }
+
+    const vault: TenantVault = {
+      filePath: path.join(this.dir, `${tenantId}.vault.jsonl`),
+      encryptionKey: this.deriveKey(tenantId, 'pii-vault:encryption'),
+      tokenKey: this.deriveKey(tenantId, 'pii-vault:token'),
+      records: new Map()
+    };
+
+    try {
+      const content = fs.readFileSync(vault.filePath, 'utf-8');
+      for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+        const record = JSON.parse(line) as VaultRecord;
+        vault.records.set(record.token, record);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new PseudonymVaultError(`Failed to read vault for tenant ${tenantId}: ${(error as Error).message}`);
+      }
+    }
+
+    this.tenants.set(tenantId, vault);
+    return vault;
+  }
+
+  private deriveKey(tenantId: string, purpose: string): Buffer {
+    return Buffer.from(crypto.hkdfSync('sha256', this.secret, tenantId, purpose, 32));
+  }
+}
+
+/**
+ * Normalize values so formatting differences map to the same token
+ */
+function normalizeValue(type: PIIType, value: string): string {
+  switch (type) {
+    case 'email':
+      return value.trim().toLowerCase();
+    case 'phone':
+    case 'iban':
+    case 'credit_card':
+    case 'national_id':
+      return value.replace(/[\s\-().]/g, '').toUpperCase();
+    default:
+      return value.trim();
+  }
+}
+
+/**
+ * Token label for a PII type, e.g. `credit_card` -> `CREDIT_CARD`, `custom:employee_id` -> `EMPLOYEE_ID`
+ */
+function tokenLabel(type: PIIType): string {
+  return type.replace(/^custom:/, '').toUpperCase();
+}
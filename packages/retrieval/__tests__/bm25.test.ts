@@ -0,0 +1,91 @@
+import { CorpusStats } from '../src/stats/corpus-stats.js';
+import { encodeBM25Document, encodeBM25Query, hashTerm } from '../src/stats/bm25.js';
+import { SparseKeywordSearchService, SparseVectorSearchSource } from '../src/services/sparse-keyword-search.js';
+import { KeywordSearchService } from '../src/services/keyword-search.js';
+
+const stats: CorpusStats = {
+  idf: new Map([['vacation', 2.5], ['policy', 1.2]]),
+  cooc: new Map(),
+  pmi: new Map(),
+  totalDocs: 10,
+  totalTokens: 40, // Average length of 4 tokens
+  docFreq: new Map([['vacation', 2], ['policy', 7]])
+};
+
+const config = { enabled: true, k1: 1.2, b: 0.75 };
+
+function dot(a: { indices: number[]; values: number[] }, b: { indices: number[]; values: number[] }): number {
+  return a.indices.reduce((sum, index, i) => {
+    const j = b.indices.indexOf(index);
+    return j === -1 ? sum : sum + a.values[i] * b.values[j];
+  }, 0);
+}
+
+describe('BM25 sparse vectors', () => {
+  it('should store the saturated term frequency of each document term', () => {
+    const vector = encodeBM25Document('Vacation policy: vacation days', stats, config);
+
+    // 4 tokens, the average length, so only term frequency saturation applies
+    const vacation = vector.values[vector.indices.indexOf(hashTerm('vacation'))];
+    const policy = vector.values[vector.indices.indexOf(hashTerm('policy'))];
+    expect(vector.indices).toHaveLength(3);
+    expect(vacation).toBeCloseTo((2 * 2.2) / (2 + 1.2));
+    expect(policy).toBeCloseTo(1);
+    expect([...vector.indices].sort((a, b) => a - b)).toEqual(vector.indices);
+  });
+
+  it('should weight query terms by IDF, with unseen terms weighted as rarest', () => {
+    const vector = encodeBM25Query('What is the vacation policy for interns?', stats);
+
+    expect(vector.values[vector.indices.indexOf(hashTerm('vacation'))]).toBe(2.5);
+    expect(vector.values[vector.indices.indexOf(hashTerm('policy'))]).toBe(1.2);
+    expect(vector.values[vector.indices.indexOf(hashTerm('interns'))]).toBeCloseTo(Math.log(11) + 1);
+    expect(vector.indices).not.toContain(hashTerm('the'));
+  });
+
+  it('should score documents with rare query terms above documents with common ones', () => {
+    const query = encodeBM25Query('vacation policy', stats);
+    const rare = encodeBM25Document('vacation days off work', stats, config);
+    const common = encodeBM25Document('policy days off work', stats, config);
+
+    expect(dot(query, rare)).toBeGreaterThan(dot(query, common));
+  });
+});
+
+describe('SparseKeywordSearchService', () => {
+  const results = [{ id: 'chunk1', vector: [], score: 3.2, payload: { content: 'Vacation policy' } }];
+
+  it('should search the sparse vectors with the tenant IDF', async () => {
+    const source: SparseVectorSearchSource = { searchSparse: jest.fn(async () => results) };
+    const getStats = jest.fn(() => stats);
+    const service = new SparseKeywordSearchService(source, undefined, getStats);
+
+    const found = await service.search('docs', 'vacation policy', 5, { must: [] }, 'acme');
+
+    expect(getStats).toHaveBeenCalledWith('acme');
+    expect(source.searchSparse).toHaveBeenCalledWith('docs', {
+      sparseVector: encodeBM25Query('vacation policy', stats),
+      limit: 5,
+      filter: { must: [] }
+    });
+    expect(found).toEqual([expect.objectContaining({
+      id: 'chunk1',
+      score: 3.2,
+      keywordScore: 3.2,
+      content: 'Vacation policy',
+      searchType: 'keyword_only'
+    })]);
+  });
+
+  it('should fall back to full-text search when the sparse search fails', async () => {
+    const source: SparseVectorSearchSource = {
+      searchSparse: async () => { throw new Error('Not existing vector name: bm25'); }
+    };
+    const fallback: KeywordSearchService = { search: jest.fn(async () => []) };
+    const service = new SparseKeywordSearchService(source, fallback, () => stats);
+
+    await service.search('docs', 'vacation policy', 5, { must: [] }, 'acme');
+
+    expect(fallback.search).toHaveBeenCalledWith('docs', 'vacation policy', 5, { must: [] }, 'acme');
+  });
+});
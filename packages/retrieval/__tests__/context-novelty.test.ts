@@ -130,6 +130,48 @@ describe('NoveltyScorer', () => {
     });
   });
 
+  describe('Vector Diversification', () => {
+    const candidates = [
+      { id: 'a', fusionScore: 1.0, score: 1.0, payload: { docId: 'handbook' } },
+      { id: 'b', fusionScore: 0.95, score: 0.95, payload: { docId: 'handbook' } },
+      { id: 'c', fusionScore: 0.9, score: 0.9, payload: { docId: 'handbook' } },
+      { id: 'd', fusionScore: 0.8, score: 0.8, payload: { docId: 'faq' } },
+      { id: 'e', fusionScore: 0.5, score: 0.5, payload: { docId: 'policy' } }
+    ];
+    const vectors = new Map<string, number[]>([
+      ['a', [1, 0, 0]],
+      ['b', [0.99, 0.05, 0]], // Paraphrase of a
+      ['c', [0.6, 0.8, 0]],
+      ['d', [0, 1, 0]],
+      ['e', [0, 0, 1]]
+    ]);
+
+    it('should drop near-duplicates and cap chunks per document', () => {
+      const { results, metrics } = scorer.diversify(candidates, vectors, 4, {
+        maxChunksPerDocument: 1,
+        duplicateThreshold: 0.95
+      });
+
+      expect(results.map(r => r.id)).toEqual(['a', 'd', 'e']);
+      expect(metrics).toEqual({
+        lambda: 0.5,
+        candidateCount: 5,
+        selectedCount: 3,
+        droppedNearDuplicates: [{ id: 'b', duplicateOf: 'a', similarity: 0.999 }],
+        cappedByDocument: ['c']
+      });
+    });
+
+    it('should rank by relevance only when lambda is 1', () => {
+      const { results } = createNoveltyScorer(1).diversify(candidates, new Map(), 3, {
+        maxChunksPerDocument: 0,
+        duplicateThreshold: 0.95
+      });
+
+      expect(results.map(r => r.id)).toEqual(['a', 'b', 'c']);
+    });
+  });
+
   describe('Alpha Parameter', () => {
     it('should update alpha parameter', () => {
       scorer.setAlpha(0.8);
@@ -4,6 +4,7 @@ import {
   loadCorpusStats,
   saveCorpusStats,
   updateCorpusStats,
+  updateTermStats,
   tokenizeAndNormalize,
   isStopword,
   serializeCorpusStats,
@@ -201,6 +202,66 @@ describe('CorpusStats', () => {
     });
   });
 
+  describe('updateTermStats', () => {
+    beforeEach(() => {
+      mockedFs.existsSync.mockReturnValue(false);
+      jest.spyOn(fs, 'mkdirSync').mockImplementation();
+      jest.spyOn(fs, 'writeFileSync').mockImplementation();
+    });
+
+    it('should add document frequencies and recompute the IDF of all terms', () => {
+      updateTermStats([
+        { content: 'vacation policy', id: 'chunk1' },
+        { content: 'vacation days', id: 'chunk2' }
+      ], tenant);
+
+      const result = updateTermStats([{ content: 'expense policy policy', id: 'chunk3' }], tenant);
+
+      expect(result.totalDocs).toBe(3);
+      expect(result.totalTokens).toBe(7);
+      expect(result.docFreq!.get('policy')).toBe(2);
+      expect(result.docFreq!.get('vacation')).toBe(2);
+      expect(result.idf.get('days')).toBeCloseTo(Math.log(4 / 2) + 1);
+      expect(result.cooc.size).toBe(0);
+    });
+
+    it('should remove superseded documents from the term statistics', () => {
+      updateTermStats([
+        { content: 'vacation policy', id: 'chunk1' },
+        { content: 'vacation days', id: 'chunk2' }
+      ], tenant);
+
+      const result = updateTermStats(
+        [{ content: 'vacation weeks', id: 'chunk3' }],
+        tenant,
+        [{ content: 'vacation days', id: 'chunk2' }]
+      );
+
+      expect(result.totalDocs).toBe(2);
+      expect(result.totalTokens).toBe(4);
+      expect(result.docFreq!.get('vacation')).toBe(2);
+      expect(result.docFreq!.has('days')).toBe(false);
+      expect(result.idf.has('days')).toBe(false);
+      expect(result.docFreq!.get('weeks')).toBe(1);
+    });
+
+    it('should recover document frequencies from the IDF of stats saved without them', () => {
+      cachedStats.set(tenant, {
+        idf: new Map([['vacation', Math.log(11 / 5) + 1]]), // 4 of 10 documents
+        cooc: new Map(),
+        pmi: new Map(),
+        totalDocs: 10,
+        totalTokens: 100
+      });
+      cacheTimestamps.set(tenant, Date.now());
+
+      const result = updateTermStats([{ content: 'vacation carry-over', id: 'chunk11' }], tenant);
+
+      expect(result.docFreq!.get('vacation')).toBe(5);
+      expect(result.docFreq!.get('carryover')).toBe(1);
+    });
+  });
+
   describe('tokenizeAndNormalize', () => {
     it('should tokenize and normalize text', () => {
       const text = 'Hello, World! This is a TEST.';
@@ -355,6 +355,34 @@ describe('Hybrid Search Extended Tests', () => {
       expect(result.metrics.rerankingEnabled).toBe(true);
       expect(result.metrics.documentsReranked).toBeGreaterThan(0);
     });
+
+    it('should drop near-duplicates by their stored vectors using the tenant MMR config', async () => {
+      const searchSpy = jest.spyOn(mockVectorService, 'search');
+      const defaults = await hybridSearchService.getTenantConfig('default');
+      await hybridSearchService.updateTenantConfig({
+        ...defaults,
+        tenantId: 'tenant1',
+        mmr: { enabled: true, lambda: 0.6, maxChunksPerDocument: 0, duplicateThreshold: 0.95 }
+      });
+
+      const result = await hybridSearchService.search('test_collection', {
+        query: 'machine learning',
+        limit: 5,
+        tenantId: 'tenant1',
+        enableKeywordSearch: false
+      }, userContext);
+
+      // The mock returns the same vector for both chunks
+      expect(searchSpy.mock.calls[0][1].withVector).toBe(true);
+      expect(result.finalResults.map(r => r.id)).toEqual(['doc1']);
+      expect(result.metrics.diversity).toEqual({
+        lambda: 0.6,
+        candidateCount: 2,
+        selectedCount: 1,
+        droppedNearDuplicates: [{ id: 'doc2', duplicateOf: 'doc1', similarity: 1 }],
+        cappedByDocument: []
+      });
+    });
   });
 
   describe('Reranker Integration', () => {
@@ -437,6 +465,39 @@ describe('Hybrid Search Extended Tests', () => {
       // Should still have results despite reranker timeout
       expect(result.finalResults.length).toBeGreaterThan(0);
     });
+
+    it('should pass the tenant reranker model from RERANKER_TENANTS to the reranker', async () => {
+      process.env.RERANKER_TENANTS = JSON.stringify({ tenant1: { model: 'llm-listwise', topK: 4 } });
+      const rerankSpy = jest.spyOn(mockRerankerService, 'rerank');
+
+      try {
+        const service = new HybridSearchServiceImpl(
+          mockVectorService,
+          mockKeywordService,
+          rrfFusionService,
+          mockEmbeddingService,
+          mockRerankerService
+        );
+        const config = await service.getTenantConfig('tenant1');
+
+        await service.search('test_collection', {
+          query: 'machine learning',
+          limit: 5,
+          enableKeywordSearch: true,
+          tenantId: 'tenant1'
+        }, userContext);
+
+        expect(config.rerankerEnabled).toBe(true);
+        expect(config.rerankerConfig).toEqual({ model: 'llm-listwise', topK: 4, scoreThreshold: 0 });
+        expect(rerankSpy).toHaveBeenCalledWith(expect.objectContaining({
+          model: 'llm-listwise',
+          topK: 4,
+          tenantId: 'tenant1'
+        }));
+      } finally {
+        delete process.env.RERANKER_TENANTS;
+      }
+    });
   });
 
   describe('Timeout Handling', () => {
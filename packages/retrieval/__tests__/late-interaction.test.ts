@@ -0,0 +1,150 @@
+import { HybridSearchServiceImpl } from '../src/services/hybrid-search.js';
+import { KeywordSearchService } from '../src/services/keyword-search.js';
+import { ReciprocalRankFusionService } from '../src/services/rrf-fusion.js';
+import { fuse } from '../src/services/fusion.js';
+import { VectorSearchResult } from '../src/types/vector.js';
+import {
+  MultiVectorStore,
+  embedMultiVector,
+  maxSim,
+  scoreLateInteraction,
+  splitIntoSentences
+} from '../src/retrieval/late-interaction.js';
+
+function createPoint(id: string, score: number): VectorSearchResult {
+  return {
+    id,
+    vector: [],
+    score,
+    payload: { tenant: 'acme', acl: ['public'], docId: id, content: `Content of ${id}` }
+  };
+}
+
+class MockVectorSearchService {
+  async search(): Promise<VectorSearchResult[]> {
+    return [createPoint('long-chunk', 0.7), createPoint('exact-sentence', 0.65)];
+  }
+}
+
+class MockKeywordSearchService implements KeywordSearchService {
+  async search() {
+    return [];
+  }
+}
+
+// The query embeds to [1, 0]; only exact-sentence has a sentence matching it
+class MockMultiVectorStore implements MultiVectorStore {
+  requests: Array<{ collectionName: string; ids: string[] }> = [];
+
+  async getMultiVectors(collectionName: string, ids: string[]): Promise<Map<string, number[][]>> {
+    this.requests.push({ collectionName, ids });
+    return new Map([
+      ['long-chunk', [[0, 1], [0.2, 0.8]]],
+      ['exact-sentence', [[0, 1], [1, 0]]]
+    ]);
+  }
+}
+
+describe('Late interaction', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should split text into sentences and merge the ones beyond the limit into the last', () => {
+    const text = 'Leave is 25 days. Carry-over is allowed!\nAsk HR? Contractors differ.';
+
+    expect(splitIntoSentences(text, 10)).toEqual([
+      'Leave is 25 days.',
+      'Carry-over is allowed!',
+      'Ask HR?',
+      'Contractors differ.'
+    ]);
+    expect(splitIntoSentences(text, 2)).toEqual(['Leave is 25 days.', 'Carry-over is allowed! Ask HR? Contractors differ.']);
+  });
+
+  it('should embed each sentence of a chunk', async () => {
+    const embed = jest.fn(async (text: string) => [text.length, 1]);
+
+    const vectors = await embedMultiVector('One. Two words.', embed, 16);
+
+    expect(vectors).toEqual([[4, 1], [10, 1]]);
+  });
+
+  it('should score by the best matching document vector of each query vector', () => {
+    expect(maxSim([[1, 0]], [[0, 1], [1, 0]])).toBeCloseTo(1);
+    expect(maxSim([[1, 0], [0, 1]], [[1, 0]])).toBeCloseTo(0.5);
+    expect(maxSim([[1, 0]], [])).toBe(0);
+  });
+
+  it('should rank candidates with multi-vectors and leave out the others', async () => {
+    const store = new MockMultiVectorStore();
+
+    const scored = await scoreLateInteraction(store, 'docs', [[1, 0]], ['long-chunk', 'exact-sentence', 'no-vectors']);
+
+    expect(scored.map(result => [result.id, result.rank])).toEqual([['exact-sentence', 1], ['long-chunk', 2]]);
+    expect(store.requests[0].ids).toEqual(['long-chunk', 'exact-sentence', 'no-vectors']);
+  });
+
+  it('should add the weighted MaxSim score to the fused score', () => {
+    const vector = [{ id: 'a', score: 0.7, rank: 1 }, { id: 'b', score: 0.6, rank: 2 }];
+    const lateInteraction = [{ id: 'b', score: 0.9, rank: 1 }, { id: 'a', score: 0.1, rank: 2 }];
+    const config = { strategy: 'weighted_average' as const, vectorWeight: 0.7, keywordWeight: 0.3, normalization: 'minmax' as const };
+
+    expect(fuse(vector, [], config, lateInteraction).map(result => result.id)).toEqual(['a', 'b']);
+
+    const results = fuse(vector, [], { ...config, lateInteractionWeight: 1 }, lateInteraction);
+    expect(results.map(result => result.id)).toEqual(['b', 'a']);
+    expect(results[0].components.lateInteraction).toBe(1);
+  });
+
+  describe('in hybrid search', () => {
+    function createService(store?: MultiVectorStore): HybridSearchServiceImpl {
+      const service = new HybridSearchServiceImpl(
+        new MockVectorSearchService(),
+        new MockKeywordSearchService(),
+        new ReciprocalRankFusionService(),
+        { embed: async () => [1, 0] }
+      );
+      if (store) {
+        service.setMultiVectorStore(store);
+      }
+      return service;
+    }
+
+    const userContext = { id: 'alice', groupIds: ['staff'], tenantId: 'acme' };
+    const request = { query: 'vacation days', limit: 5, tenantId: 'acme' };
+
+    it('should promote chunks with a sentence matching the query when enabled', async () => {
+      process.env.LATE_INTERACTION_ENABLED = 'on';
+      process.env.LATE_INTERACTION_WEIGHT = '1';
+      const store = new MockMultiVectorStore();
+
+      const result = await createService(store).search('docs', request, userContext);
+
+      expect(store.requests[0]).toEqual({ collectionName: 'docs', ids: ['long-chunk', 'exact-sentence'] });
+      expect(result.finalResults.map(r => r.id)).toEqual(['exact-sentence', 'long-chunk']);
+      expect(result.finalResults[0].lateInteractionScore).toBe(1);
+      expect(result.metrics.lateInteractionDuration).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should fuse without late interaction when it is off or the store fails', async () => {
+      const store = new MockMultiVectorStore();
+      const off = await createService(store).search('docs', request, userContext);
+
+      process.env.LATE_INTERACTION_ENABLED = 'on';
+      const failing = await createService({
+        getMultiVectors: async () => { throw new Error('collection not found'); }
+      }).search('docs', request, userContext);
+
+      expect(store.requests).toHaveLength(0);
+      expect(off.finalResults.map(r => r.id)).toEqual(['long-chunk', 'exact-sentence']);
+      expect(failing.finalResults.map(r => r.id)).toEqual(['long-chunk', 'exact-sentence']);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { CrossEncoder, OnnxRerankerService } from '../src/services/onnx-reranker.js';
+import { RerankerConfig, RerankerRequest, RERANKER_MODELS } from '../src/types/reranker.js';
+
+const config: RerankerConfig = {
+  enabled: true,
+  model: RERANKER_MODELS.MS_MARCO_MINILM_L6,
+  topK: 3,
+  timeoutMs: 200,
+  batchSize: 2
+};
+
+// Scores a document by how many query words it contains
+class WordOverlapEncoder implements CrossEncoder {
+  batches: string[][] = [];
+
+  async score(query: string, documents: string[]): Promise<number[]> {
+    this.batches.push(documents);
+    const words = query.toLowerCase().split(' ');
+    return documents.map(doc => words.filter(word => doc.toLowerCase().includes(word)).length / words.length);
+  }
+}
+
+const request: RerankerRequest = {
+  query: 'vacation days policy',
+  documents: [
+    { id: 'a', content: 'Office address and parking', originalScore: 0.9 },
+    { id: 'b', content: 'Vacation policy overview', originalScore: 0.8 },
+    { id: 'c', content: 'Vacation days per year under the leave policy', originalScore: 0.7 },
+    { id: 'd', content: 'Sick days', originalScore: 0.6 },
+    { id: 'e', content: 'Expense policy', originalScore: 0.5 }
+  ]
+};
+
+describe('OnnxRerankerService', () => {
+  it('should score documents in batches and return the top K by reranker score', async () => {
+    const encoder = new WordOverlapEncoder();
+    const loader = jest.fn(async () => encoder);
+    const reranker = new OnnxRerankerService(config, '/models/minilm', loader);
+
+    const results = await reranker.rerank(request);
+
+    expect(encoder.batches.map(batch => batch.length)).toEqual([2, 2, 1]);
+    expect(results.map(result => [result.id, result.rank])).toEqual([['c', 1], ['b', 2], ['d', 3]]);
+    expect(results[0].rerankerScore).toBe(1);
+    expect(results[0].originalScore).toBe(0.7);
+    expect(loader).toHaveBeenCalledWith('/models/minilm', expect.objectContaining({ batchSize: 2 }));
+  });
+
+  it('should load the model once, on warm-up', async () => {
+    const loader = jest.fn(async () => new WordOverlapEncoder());
+    const reranker = new OnnxRerankerService(config, '/models/minilm', loader);
+
+    expect(await reranker.warmUp()).toBeGreaterThanOrEqual(0);
+    await reranker.rerank(request);
+    await reranker.rerank(request);
+
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(await reranker.isHealthy()).toBe(true);
+  });
+
+  it('should fall back to the original order when scoring times out', async () => {
+    const slowEncoder: CrossEncoder = {
+      score: (_query, documents) => new Promise(resolve => setTimeout(() => resolve(documents.map(() => 1)), 1000))
+    };
+    const reranker = new OnnxRerankerService({ ...config, timeoutMs: 20 }, '/models/minilm', async () => slowEncoder);
+
+    const results = await reranker.rerank(request);
+
+    expect(results.map(result => result.id)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(results[0].rerankerScore).toBe(0.9);
+  });
+
+  it('should pass results through and retry loading after the model fails to load', async () => {
+    const loader = jest.fn()
+      .mockRejectedValueOnce(new Error('model_quantized.onnx not found'))
+      .mockResolvedValue(new WordOverlapEncoder());
+    const reranker = new OnnxRerankerService(config, '/models/missing', loader as any);
+
+    expect((await reranker.rerank(request)).map(result => result.id)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect((await reranker.rerank(request))[0].id).toBe('c');
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,199 @@
+import { HybridSearchServiceImpl } from '../src/services/hybrid-search.js';
+import { KeywordSearchService } from '../src/services/keyword-search.js';
+import { ReciprocalRankFusionService } from '../src/services/rrf-fusion.js';
+import { ContextPacker } from '../src/context/pack.js';
+import { TokenBudgeter } from '../src/context/budgeter.js';
+import { NoveltyScorer } from '../src/context/novelty.js';
+import { AnswerabilityScorer } from '../src/context/answerability.js';
+import { HybridSearchResult } from '../src/types/hybrid.js';
+import { VectorSearchResult } from '../src/types/vector.js';
+import {
+  ParentRecord,
+  ParentRecordStore,
+  attachParents,
+  buildParentUnits,
+  getParentKey
+} from '../src/context/parent-document.js';
+
+const leaveSection: ParentRecord = {
+  id: 'parent-leave',
+  docId: 'handbook',
+  unit: 'section',
+  content: 'Leave. Employees get 25 days. Unused days carry over until March. Contractors are not eligible.',
+  headingPath: ['Leave']
+};
+
+class MockParentRecordStore implements ParentRecordStore {
+  requests: Array<{ collectionName: string; ids: string[] }> = [];
+
+  async getParents(collectionName: string, ids: string[]): Promise<Map<string, ParentRecord>> {
+    this.requests.push({ collectionName, ids });
+    return new Map([[leaveSection.id, leaveSection]]);
+  }
+}
+
+function createChild(id: string, score: number, content: string, parentId?: string): HybridSearchResult {
+  return {
+    id,
+    score,
+    content,
+    payload: { docId: 'handbook', sectionPath: `block_0/part_${id}`, ...(parentId && { parentId }) }
+  };
+}
+
+// One token per word
+function createPacker(tokenBudget: number): ContextPacker {
+  const budgeter = {
+    estimateTokens: (text: string) => text.split(/\s+/).filter(Boolean).length,
+    countTokens: (text: string) => text.split(/\s+/).filter(Boolean).length,
+    getBudget: () => tokenBudget,
+    setBudget: () => undefined
+  } as unknown as TokenBudgeter;
+  const noveltyScorer = { scoreNovelty: async () => 1, setAlpha: () => undefined } as unknown as NoveltyScorer;
+  const answerabilityScorer = {
+    applyBonus: (_chunk: HybridSearchResult, score: number) => score,
+    setBonus: () => undefined
+  } as unknown as AnswerabilityScorer;
+
+  return new ContextPacker(budgeter, noveltyScorer, answerabilityScorer, {
+    perDocCap: 5,
+    perSectionCap: 5,
+    noveltyAlpha: 0.5,
+    answerabilityBonus: 1,
+    sectionReunification: false,
+    tokenBudget
+  });
+}
+
+describe('Parent-document retrieval', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should key parents by heading, block or page', () => {
+    expect(getParentKey({ sectionPath: 'block_3/part_1' }, 'section')).toBe('block_3');
+    expect(getParentKey({ sectionPath: 'block_3/part_1', headingPath: ['Leave', 'Carry-over'] }, 'section'))
+      .toBe('heading_Leave > Carry-over');
+    expect(getParentKey({ sectionPath: 'block_3', page: 4 }, 'page')).toBe('page_4');
+    expect(getParentKey({ sectionPath: 'block_3' }, 'page')).toBe('block_3');
+  });
+
+  it('should join the children of each parent in document order', () => {
+    const units = buildParentUnits([
+      { text: 'Employees get 25 days.', sectionPath: 'block_0/part_0', page: 1, headingPath: ['Leave'] },
+      { text: 'Expenses need receipts.', sectionPath: 'block_1', page: 1, headingPath: ['Expenses'] },
+      { text: 'Unused days carry over.', sectionPath: 'block_0/part_1', page: 2, headingPath: ['Leave'] }
+    ], 'section');
+
+    expect(units).toEqual([
+      { key: 'heading_Leave', content: 'Employees get 25 days.\n\nUnused days carry over.', page: 1, headingPath: ['Leave'] },
+      { key: 'heading_Expenses', content: 'Expenses need receipts.', page: 1, headingPath: ['Expenses'] }
+    ]);
+  });
+
+  it('should attach stored parents to the results that reference them', async () => {
+    const store = new MockParentRecordStore();
+    const results = [
+      createChild('a', 0.9, 'Employees get 25 days.', 'parent-leave'),
+      createChild('b', 0.8, 'Unused days carry over until March.', 'parent-leave'),
+      createChild('c', 0.7, 'Published before parent retrieval.')
+    ];
+
+    const attached = await attachParents(store, 'docs', results);
+
+    expect(store.requests).toEqual([{ collectionName: 'docs', ids: ['parent-leave'] }]);
+    expect(attached.map(result => result.parent?.id)).toEqual(['parent-leave', 'parent-leave', undefined]);
+  });
+
+  describe('in the context packer', () => {
+    it('should pack the parent once in place of its children, keeping the child id', async () => {
+      const children = await attachParents(new MockParentRecordStore(), 'docs', [
+        createChild('a', 0.9, 'Employees get 25 days.', 'parent-leave'),
+        createChild('b', 0.8, 'Unused days carry over until March.', 'parent-leave'),
+        createChild('c', 0.7, 'Expenses need receipts.')
+      ]);
+
+      const packed = await createPacker(100).pack(children, 'how many leave days');
+
+      expect(packed.chunks.map(chunk => chunk.id)).toEqual(['a', 'c']);
+      expect(packed.chunks[0].content).toBe(leaveSection.content);
+      expect(packed.trace.parentExpansions).toEqual({ a: 'parent-leave' });
+      expect(packed.trace.droppedReasons.b).toBe('parent parent-leave already packed');
+    });
+
+    it('should pack the child chunk when its parent does not fit the token budget', async () => {
+      const children = await attachParents(new MockParentRecordStore(), 'docs', [
+        createChild('a', 0.9, 'Employees get 25 days.', 'parent-leave')
+      ]);
+
+      const packed = await createPacker(8).pack(children);
+
+      expect(packed.chunks[0].content).toBe('Employees get 25 days.');
+      expect(packed.trace.parentExpansions).toEqual({});
+      expect(packed.totalTokens).toBe(4);
+    });
+  });
+
+  describe('in hybrid search', () => {
+    class MockVectorSearchService {
+      async search(): Promise<VectorSearchResult[]> {
+        return [{
+          id: 'a',
+          vector: [],
+          score: 0.9,
+          payload: { tenant: 'acme', acl: ['public'], docId: 'handbook', content: 'Employees get 25 days.', parentId: 'parent-leave' }
+        }];
+      }
+    }
+
+    class MockKeywordSearchService implements KeywordSearchService {
+      async search() {
+        return [];
+      }
+    }
+
+    function createService(store: ParentRecordStore): HybridSearchServiceImpl {
+      const service = new HybridSearchServiceImpl(
+        new MockVectorSearchService(),
+        new MockKeywordSearchService(),
+        new ReciprocalRankFusionService(),
+        { embed: async () => [1, 0] }
+      );
+      service.setParentRecordStore(store);
+      return service;
+    }
+
+    const userContext = { id: 'alice', groupIds: ['staff'], tenantId: 'acme' };
+    const request = { query: 'leave days', limit: 5, tenantId: 'acme' };
+
+    it('should attach parents to the final results when enabled', async () => {
+      process.env.PARENT_RETRIEVAL_ENABLED = 'on';
+
+      const result = await createService(new MockParentRecordStore()).search('docs', request, userContext);
+
+      expect(result.finalResults[0].id).toBe('a');
+      expect(result.finalResults[0].parent).toEqual(leaveSection);
+      expect(result.metrics.parentFetchDuration).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should return child results when it is off or the store fails', async () => {
+      const store = new MockParentRecordStore();
+      const off = await createService(store).search('docs', request, userContext);
+
+      process.env.PARENT_RETRIEVAL_ENABLED = 'on';
+      const failing = await createService({
+        getParents: async () => { throw new Error('collection not found'); }
+      }).search('docs', request, userContext);
+
+      expect(store.requests).toHaveLength(0);
+      expect(off.finalResults[0].parent).toBeUndefined();
+      expect(failing.finalResults[0].parent).toBeUndefined();
+    });
+  });
+});
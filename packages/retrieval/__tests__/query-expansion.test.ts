@@ -0,0 +1,149 @@
+import { HybridSearchServiceImpl } from '../src/services/hybrid-search.js';
+import { KeywordSearchService } from '../src/services/keyword-search.js';
+import { ReciprocalRankFusionService } from '../src/services/rrf-fusion.js';
+import { VectorSearchResult, VectorSearchParams } from '../src/types/vector.js';
+import {
+  QueryVariantGenerator,
+  generateQueryVariants,
+  mergeVariantResults
+} from '../src/retrieval/query-expansion.js';
+
+const QUERY = 'how many vacation days do I get';
+const PARAPHRASE = 'annual leave entitlement';
+const HYPOTHETICAL = 'Employees are entitled to 25 days of paid annual leave per year.';
+
+// Each text embeds to a one-hot vector so the vector mock can tell which variant was searched
+const TEXTS = [QUERY, PARAPHRASE, HYPOTHETICAL];
+
+function createPoint(id: string, score: number): VectorSearchResult {
+  return {
+    id,
+    vector: [],
+    score,
+    payload: { tenant: 'acme', acl: ['public'], docId: id, content: `Content of ${id}` }
+  };
+}
+
+class MockVectorSearchService {
+  searchedVectors: number[][] = [];
+
+  async search(collectionName: string, params: VectorSearchParams): Promise<VectorSearchResult[]> {
+    this.searchedVectors.push(params.queryVector);
+    const resultsByText: Record<number, VectorSearchResult[]> = {
+      0: [createPoint('faq', 0.62)],
+      1: [createPoint('leave-policy', 0.81), createPoint('faq', 0.55)],
+      2: [createPoint('handbook', 0.88)]
+    };
+    return resultsByText[params.queryVector.indexOf(1)] || [];
+  }
+}
+
+class MockKeywordSearchService implements KeywordSearchService {
+  queries: string[] = [];
+
+  async search(collectionName: string, query: string) {
+    this.queries.push(query);
+    return [];
+  }
+}
+
+class MockQueryVariantGenerator implements QueryVariantGenerator {
+  async generateParaphrases(): Promise<string[]> {
+    return [PARAPHRASE, QUERY.toUpperCase(), ''];
+  }
+
+  async generateHypotheticalAnswer(): Promise<string> {
+    return HYPOTHETICAL;
+  }
+}
+
+describe('Query expansion', () => {
+  const userContext = { id: 'alice', groupIds: ['staff'], tenantId: 'acme' };
+  const embeddingService = {
+    embed: async (text: string) => TEXTS.map(known => (known === text ? 1 : 0))
+  };
+
+  let vectorService: MockVectorSearchService;
+  let keywordService: MockKeywordSearchService;
+  let hybridSearchService: HybridSearchServiceImpl;
+
+  beforeEach(() => {
+    vectorService = new MockVectorSearchService();
+    keywordService = new MockKeywordSearchService();
+    hybridSearchService = new HybridSearchServiceImpl(
+      vectorService,
+      keywordService,
+      new ReciprocalRankFusionService(),
+      embeddingService
+    );
+    hybridSearchService.setQueryVariantGenerator(new MockQueryVariantGenerator());
+  });
+
+  async function enableExpansion(mode: 'off' | 'multi_query' | 'hyde' | 'both') {
+    const defaults = await hybridSearchService.getTenantConfig('default');
+    await hybridSearchService.updateTenantConfig({
+      ...defaults,
+      tenantId: 'acme',
+      queryExpansion: { mode, paraphraseCount: 3, timeoutMs: 1000 }
+    });
+  }
+
+  it('should generate variants without duplicates of the original query', async () => {
+    const variants = await generateQueryVariants(
+      new MockQueryVariantGenerator(),
+      QUERY,
+      { mode: 'both', paraphraseCount: 3, timeoutMs: 1000 },
+      'acme'
+    );
+
+    expect(variants).toEqual([
+      { kind: 'original', text: QUERY },
+      { kind: 'paraphrase', text: PARAPHRASE },
+      { kind: 'hyde', text: HYPOTHETICAL }
+    ]);
+  });
+
+  it('should keep the best score of each result when merging variant results', () => {
+    const merged = mergeVariantResults([
+      [createPoint('a', 0.4), createPoint('b', 0.7)],
+      [createPoint('a', 0.9)]
+    ]);
+
+    expect(merged.map(result => [result.id, result.score])).toEqual([['a', 0.9], ['b', 0.7]]);
+  });
+
+  it('should only search the original query when expansion is off', async () => {
+    await enableExpansion('off');
+
+    const result = await hybridSearchService.search('docs', { query: QUERY, limit: 5, tenantId: 'acme' }, userContext);
+
+    expect(vectorService.searchedVectors).toHaveLength(1);
+    expect(result.queryVariants).toBeUndefined();
+    expect(result.finalResults.map(r => r.id)).toEqual(['faq']);
+  });
+
+  it('should search paraphrases and the hypothetical answer and fuse their results', async () => {
+    await enableExpansion('both');
+
+    const result = await hybridSearchService.search('docs', { query: QUERY, limit: 5, tenantId: 'acme' }, userContext);
+
+    expect(result.queryVariants?.map(variant => variant.kind)).toEqual(['original', 'paraphrase', 'hyde']);
+    expect(vectorService.searchedVectors).toHaveLength(3);
+    expect(keywordService.queries).toEqual([QUERY, PARAPHRASE, HYPOTHETICAL]);
+    expect(result.finalResults.map(r => r.id)).toEqual(['handbook', 'leave-policy', 'faq']);
+    expect(result.metrics.queryExpansionDuration).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should fall back to the original query when generating variants fails', async () => {
+    await enableExpansion('hyde');
+    hybridSearchService.setQueryVariantGenerator({
+      generateParaphrases: async () => [],
+      generateHypotheticalAnswer: async () => { throw new Error('LLM unavailable'); }
+    });
+
+    const result = await hybridSearchService.search('docs', { query: QUERY, limit: 5, tenantId: 'acme' }, userContext);
+
+    expect(result.queryVariants).toEqual([{ kind: 'original', text: QUERY }]);
+    expect(result.finalResults.map(r => r.id)).toEqual(['faq']);
+  });
+});
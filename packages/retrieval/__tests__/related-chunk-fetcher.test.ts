@@ -291,14 +291,13 @@ describe('RelatedChunkFetcherService', () => {
         filter: {
           must: [
             { key: 'tenant', match: { value: 'test-tenant' } },
-            {
-              should: [
-                { key: 'acl', match: { any: ['group1', 'group2'] } },
-                { key: 'acl', match: { value: 'public' } }
-              ]
-            },
+            { key: 'acl', match: { any: ['test-user-id', 'group1', 'group2', 'public'] } },
             { key: 'docId', match: { value: 'doc1' } },
             { key: 'sectionPath', match: { text: 'block_1' } }
+          ],
+          must_not: [
+            { key: 'acl', match: { any: ['!test-user-id', '!group1', '!group2'] } },
+            { key: 'superseded', match: { value: true } }
           ]
         },
         limit: 10,
@@ -324,6 +323,40 @@ describe('RelatedChunkFetcherService', () => {
       expect(result[0].id).toBe('chunk3');
     });
 
+    it('should not return chunks of the section that deny the user', async () => {
+      const deniedChunk = {
+        id: 'chunk4',
+        payload: {
+          content: 'Restricted part of the section',
+          sectionPath: 'block_1/part_3',
+          docId: 'doc1',
+          tenant: 'test-tenant',
+          acl: ['group1', '!group2']
+        }
+      };
+      // Apply the ACL deny conditions the way Qdrant would
+      mockQdrantClient.scroll.mockImplementation(async (_collection: string, { filter }: any) => {
+        const denied = filter.must_not
+          .filter((condition: any) => condition.key === 'acl')
+          .flatMap((condition: any) => condition.match.any);
+        return {
+          points: [...mockScrollResult.points, deniedChunk]
+            .filter(point => !point.payload.acl.some((entry: string) => denied.includes(entry)))
+        };
+      });
+
+      const result = await (service as any).executeSectionPathQuery('test-collection', {
+        sectionPath: 'block_1',
+        tenantId: 'test-tenant',
+        userContext: mockUserContext,
+        documentId: 'doc1',
+        maxChunks: 10,
+        excludeChunkIds: []
+      });
+
+      expect(result.map((chunk: any) => chunk.id)).toEqual(['chunk2', 'chunk3']);
+    });
+
     it('should not preserve original scoring when disabled', async () => {
       service.updateConfig({ preserveOriginalScoring: false });
 
@@ -353,14 +386,29 @@ describe('RelatedChunkFetcherService', () => {
       expect(filter).toEqual({
         must: [
           { key: 'tenant', match: { value: 'test-tenant' } },
-          {
-            should: [
-              { key: 'acl', match: { any: ['group1', 'group2'] } },
-              { key: 'acl', match: { value: 'public' } }
-            ]
-          },
+          { key: 'acl', match: { any: ['test-user-id', 'group1', 'group2', 'public'] } },
           { key: 'docId', match: { value: 'doc1' } },
           { key: 'sectionPath', match: { text: 'block_1' } }
+        ],
+        must_not: [
+          { key: 'acl', match: { any: ['!test-user-id', '!group1', '!group2'] } }
+        ]
+      });
+    });
+
+    it('should include access rules and ignore the language preference', () => {
+      const filter = (service as any).buildSectionPathFilter('block_1', {
+        ...mockUserContext,
+        language: 'en',
+        attributes: { clearance: 2 },
+        accessRules: [{ field: 'classification', op: 'lte', userAttribute: 'clearance' }]
+      });
+
+      expect(filter.should).toBeUndefined();
+      expect(filter.must).toContainEqual({
+        should: [
+          { is_empty: { key: 'classification' } },
+          { key: 'classification', range: { lte: 2 } }
         ]
       });
     });
@@ -337,7 +337,8 @@ describe('SectionAwareHybridSearchService', () => {
         ]),
         'test-collection',
         mockUserContext,
-        expect.any(Array)
+        expect.any(Array),
+        undefined
       );
     });
 
@@ -371,7 +372,8 @@ describe('SectionAwareHybridSearchService', () => {
         expect.any(Array),
         'test-collection',
         mockUserContext,
-        expect.any(Array)
+        expect.any(Array),
+        undefined
       );
     });
   });
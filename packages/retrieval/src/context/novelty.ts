@@ -1,5 +1,55 @@
 import { HybridSearchResult } from '../types/hybrid.js';
 
+/**
+ * Diversification of search results with maximal marginal relevance (MMR)
+ */
+export interface MMRConfig {
+  enabled: boolean;
+  /** Weight of relevance against diversity; 1 ranks by relevance only */
+  lambda: number;
+  /** Maximum chunks kept per document, 0 for no limit */
+  maxChunksPerDocument: number;
+  /** Cosine similarity to a kept result at which a candidate is dropped as a near-duplicate */
+  duplicateThreshold: number;
+}
+
+export interface DiversityMetrics {
+  lambda: number;
+  candidateCount: number;
+  selectedCount: number;
+  droppedNearDuplicates: Array<{ id: string; duplicateOf: string; similarity: number }>;
+  /** Candidates skipped because their document already had maxChunksPerDocument results */
+  cappedByDocument: string[];
+}
+
+export function getMMRConfig(): MMRConfig {
+  return {
+    enabled: process.env.MMR_ENABLED === 'on',
+    lambda: parseFloat(process.env.MMR_LAMBDA || '0.7'),
+    maxChunksPerDocument: parseInt(process.env.MMR_MAX_CHUNKS_PER_DOC || '0', 10),
+    duplicateThreshold: parseFloat(process.env.MMR_DUPLICATE_THRESHOLD || '0.95')
+  };
+}
+
+/**
+ * Per-tenant overrides from MMR_TENANTS, e.g. `{"acme": {"lambda": 0.5, "maxChunksPerDocument": 2}}`
+ */
+export function getTenantMMRConfigs(): Record<string, MMRConfig> {
+  let overrides: Record<string, Partial<MMRConfig>> = {};
+  try {
+    overrides = JSON.parse(process.env.MMR_TENANTS || '{}');
+  } catch {
+    console.warn('Ignoring invalid MMR_TENANTS, expected a JSON object of tenant to MMR config');
+  }
+
+  const defaults = getMMRConfig();
+  const configs: Record<string, MMRConfig> = {};
+  for (const [tenantId, override] of Object.entries(overrides)) {
+    configs[tenantId] = { ...defaults, ...override };
+  }
+  return configs;
+}
+
 /**
  * Novelty scorer using cosine similarity for MMR/deduplication
  */
@@ -25,6 +75,7 @@ export class NoveltyScorer {
       normB += b[i] * b[i];
     }
 
+    if (normA === 0 || normB === 0) return 0;
     return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
   }
 
@@ -129,6 +180,82 @@ export class NoveltyScorer {
     return selected;
   }
 
+  /**
+   * Apply MMR using the stored dense vectors of the candidates, with alpha as lambda.
+   * Relevance is normalized to the best candidate so it is comparable to cosine
+   * similarity. Candidates without a vector are treated as novel.
+   */
+  diversify(
+    candidates: HybridSearchResult[],
+    vectors: Map<string, number[]>,
+    maxResults: number,
+    options: Pick<MMRConfig, 'maxChunksPerDocument' | 'duplicateThreshold'>,
+    relevanceKey: keyof HybridSearchResult = 'fusionScore'
+  ): { results: HybridSearchResult[]; metrics: DiversityMetrics } {
+    const relevanceOf = (candidate: HybridSearchResult) =>
+      (candidate[relevanceKey] as number | undefined) ?? candidate.score ?? 0;
+    const maxRelevance = Math.max(0, ...candidates.map(relevanceOf)) || 1;
+
+    const metrics: DiversityMetrics = {
+      lambda: this.alpha,
+      candidateCount: candidates.length,
+      selectedCount: 0,
+      droppedNearDuplicates: [],
+      cappedByDocument: []
+    };
+    const selected: HybridSearchResult[] = [];
+    const chunksPerDocument = new Map<string, number>();
+    // Highest similarity of each remaining candidate to any selected result
+    const remaining = candidates.map(candidate => ({ candidate, maxSimilarity: 0 }));
+
+    while (selected.length < maxResults && remaining.length > 0) {
+      let bestIndex = -1;
+      let bestScore = -Infinity;
+
+      for (let i = 0; i < remaining.length; i++) {
+        const { candidate, maxSimilarity } = remaining[i];
+        const score = this.alpha * (relevanceOf(candidate) / maxRelevance) - (1 - this.alpha) * maxSimilarity;
+        if (score > bestScore) {
+          bestScore = score;
+          bestIndex = i;
+        }
+      }
+
+      const [best] = remaining.splice(bestIndex, 1);
+      const docId = best.candidate.payload?.docId as string | undefined;
+
+      if (docId && options.maxChunksPerDocument > 0 && (chunksPerDocument.get(docId) || 0) >= options.maxChunksPerDocument) {
+        metrics.cappedByDocument.push(best.candidate.id);
+        continue;
+      }
+
+      selected.push(best.candidate);
+      if (docId) {
+        chunksPerDocument.set(docId, (chunksPerDocument.get(docId) || 0) + 1);
+      }
+
+      const selectedVector = vectors.get(best.candidate.id);
+      if (!selectedVector) continue;
+      for (const entry of [...remaining]) {
+        const vector = vectors.get(entry.candidate.id);
+        const similarity = vector ? this.cosineSimilarity(vector, selectedVector) : 0;
+        if (similarity >= options.duplicateThreshold) {
+          remaining.splice(remaining.indexOf(entry), 1);
+          metrics.droppedNearDuplicates.push({
+            id: entry.candidate.id,
+            duplicateOf: best.candidate.id,
+            similarity: Math.round(similarity * 1000) / 1000
+          });
+        } else {
+          entry.maxSimilarity = Math.max(entry.maxSimilarity, similarity);
+        }
+      }
+    }
+
+    metrics.selectedCount = selected.length;
+    return { results: selected, metrics };
+  }
+
   /**
    * Update alpha parameter
    */
@@ -34,6 +34,8 @@ export interface PackingTrace {
     headerId?: string;
     neighborIds: string[];
   }>;
+  /** Parent record packed in place of each expanded child chunk */
+  parentExpansions: Record<string, string>;
 }
 
 /**
@@ -66,7 +68,8 @@ export class ContextPacker {
       capsApplied: { perDoc: {}, perSection: {} },
       noveltyScores: {},
       droppedReasons: {},
-      sectionReunions: []
+      sectionReunions: [],
+      parentExpansions: {}
     };
 
     // Apply answerability scoring to all chunks first to boost direct answers
@@ -86,6 +89,7 @@ export class ContextPacker {
     const selected: HybridSearchResult[] = [];
     const docCounts: Record<string, number> = {};
     const sectionCounts: Record<string, number> = {};
+    const packedParents = new Set<string>();
     let totalTokens = 0;
 
     for (const chunk of sortedChunks) {
@@ -107,6 +111,12 @@ export class ContextPacker {
         continue;
       }
 
+      // Siblings of a packed parent are already part of the context
+      if (chunk.parent && packedParents.has(chunk.parent.id)) {
+        trace.droppedReasons[chunkId] = `parent ${chunk.parent.id} already packed`;
+        continue;
+      }
+
       // Score novelty
       const novelty = await this.noveltyScorer.scoreNovelty(chunk, selected);
       trace.noveltyScores[chunkId] = novelty;
@@ -116,9 +126,17 @@ export class ContextPacker {
       const boostedScore = this.answerabilityScorer.applyBonus(chunk, baseScore, query);
       trace.scores[chunkId] = boostedScore;
 
-      // Estimate tokens
-      const content = chunk.content || '';
-      const estimatedTokens = this.budgeter.estimateTokens(content);
+      // Estimate tokens, packing the parent unit in place of the child chunk when it fits.
+      // The packed chunk keeps the child's id and payload, so citations point to the child span.
+      let packedChunk: HybridSearchResult = chunk;
+      let estimatedTokens = this.budgeter.estimateTokens(chunk.content || '');
+      if (chunk.parent) {
+        const parentTokens = this.budgeter.estimateTokens(chunk.parent.content);
+        if (totalTokens + parentTokens <= this.config.tokenBudget) {
+          packedChunk = { ...chunk, content: chunk.parent.content };
+          estimatedTokens = parentTokens;
+        }
+      }
       trace.tokenCounts[chunkId] = estimatedTokens;
 
       // Check if it fits in budget
@@ -134,7 +152,11 @@ export class ContextPacker {
       }
 
       // Select chunk
-      selected.push(chunk);
+      selected.push(packedChunk);
+      if (packedChunk !== chunk) {
+        packedParents.add(chunk.parent!.id);
+        trace.parentExpansions[chunkId] = chunk.parent!.id;
+      }
       docCounts[docId] = docCount + 1;
       sectionCounts[sectionPath] = sectionCount + 1;
       totalTokens += estimatedTokens;
@@ -0,0 +1,124 @@
+import { HybridSearchResult } from '../types/hybrid.js';
+
+/**
+ * Parent-document (small-to-big) retrieval: documents are indexed as small child
+ * chunks, which match questions precisely, and each child points to a stored record
+ * of its enclosing section or page. The context packer receives the parent in place
+ * of the child, while the result keeps the child's id so citations point to the
+ * span that matched.
+ */
+export type ParentUnit = 'section' | 'page';
+
+export interface ParentRetrievalConfig {
+  enabled: boolean;
+  /** What a parent record holds: the section (heading or block) or the page of its children */
+  unit: ParentUnit;
+  /** Chunk size limit for child chunks at ingestion */
+  childMaxTokens: number;
+}
+
+export function getParentRetrievalConfig(): ParentRetrievalConfig {
+  return {
+    enabled: process.env.PARENT_RETRIEVAL_ENABLED === 'on',
+    unit: process.env.PARENT_RETRIEVAL_UNIT === 'page' ? 'page' : 'section',
+    childMaxTokens: parseInt(process.env.PARENT_CHILD_MAX_TOKENS || '120', 10)
+  };
+}
+
+/**
+ * Collection holding the parent records of the chunks of `collectionName`
+ */
+export function getParentCollectionName(collectionName: string): string {
+  return `${collectionName}_parents`;
+}
+
+/**
+ * Stored text of a parent unit, referenced by the `parentId` payload field of its children
+ */
+export interface ParentRecord {
+  id: string;
+  docId: string;
+  unit: ParentUnit;
+  content: string;
+  page?: number;
+  headingPath?: string[];
+}
+
+/**
+ * Source of stored parent records
+ */
+export interface ParentRecordStore {
+  getParents(collectionName: string, ids: string[]): Promise<Map<string, ParentRecord>>;
+}
+
+interface ChildChunk {
+  text: string;
+  sectionPath?: string;
+  page?: number;
+  headingPath?: string[];
+}
+
+/**
+ * Key of the parent unit of a child chunk within its document. Sections are the
+ * heading a chunk is under, or the extracted block it was split from; chunks without
+ * a page number fall back to their section.
+ */
+export function getParentKey(chunk: Omit<ChildChunk, 'text'>, unit: ParentUnit): string {
+  if (unit === 'page' && chunk.page !== undefined) {
+    return `page_${chunk.page}`;
+  }
+  if (chunk.headingPath?.length) {
+    return `heading_${chunk.headingPath.join(' > ')}`;
+  }
+  return (chunk.sectionPath || 'default').split('/')[0];
+}
+
+/**
+ * Parent units of a document's child chunks, in document order, with the text of
+ * their children joined
+ */
+export function buildParentUnits(
+  chunks: ChildChunk[],
+  unit: ParentUnit
+): Array<{ key: string; content: string; page?: number; headingPath?: string[] }> {
+  const units = new Map<string, { key: string; texts: string[]; page?: number; headingPath?: string[] }>();
+  for (const chunk of chunks) {
+    const key = getParentKey(chunk, unit);
+    const existing = units.get(key);
+    if (existing) {
+      existing.texts.push(chunk.text);
+      continue;
+    }
+    units.set(key, {
+      key,
+      texts: [chunk.text],
+      ...(chunk.page !== undefined && { page: chunk.page }),
+      ...(unit === 'section' && chunk.headingPath?.length && { headingPath: chunk.headingPath })
+    });
+  }
+
+  return Array.from(units.values()).map(({ texts, ...parent }) => ({ ...parent, content: texts.join('\n\n') }));
+}
+
+/**
+ * Attach the stored parent record of each result that has one. Results whose chunk
+ * was published without parent retrieval, or whose parent is missing, are left as they are.
+ */
+export async function attachParents<T extends HybridSearchResult>(
+  store: ParentRecordStore,
+  collectionName: string,
+  results: T[]
+): Promise<T[]> {
+  const parentIds = [...new Set(
+    results.map(result => result.payload?.parentId).filter((id): id is string => typeof id === 'string')
+  )];
+  if (parentIds.length === 0) {
+    return results;
+  }
+
+  const parents = await store.getParents(collectionName, parentIds);
+  return results.map(result => {
+    const parent = parents.get(result.payload?.parentId);
+    return parent ? { ...result, parent } : result;
+  });
+}
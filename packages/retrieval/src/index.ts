@@ -6,12 +6,14 @@ export * from './types/reranker.js';
 export * from './types/guardrail.js';
 export * from './embedding.js';
 export * from './services/keyword-search.js';
+export * from './services/sparse-keyword-search.js';
 export * from './services/rrf-fusion.js';
 export * from './services/hybrid-search.js';
 export * from './services/reranker.js';
 export * from './services/sentence-transformers-reranker.js';
 export * from './services/mock-reranker.js';
 export * from './services/http-reranker.js';
+export * from './services/onnx-reranker.js';
 export * from './services/answerability-guardrail.js';
 export * from './services/guardrail-audit.js';
 export * from './services/source-aware-confidence.js';
@@ -40,6 +42,13 @@ export * from './context/pack.js';
 export * from './context/budgeter.js';
 export * from './context/novelty.js';
 export * from './context/answerability.js';
+export * from './context/parent-document.js';
 
 // Query intent detection
 export * from './retrieval/intent.js';
+export * from './retrieval/query-expansion.js';
+export * from './retrieval/late-interaction.js';
+
+// Corpus term statistics and BM25 sparse vectors
+export * from './stats/corpus-stats.js';
+export * from './stats/bm25.js';
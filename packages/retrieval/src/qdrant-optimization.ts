@@ -185,6 +185,26 @@ export function generateOptimizedCollectionConfig(
   };
 }
 
+/**
+ * Collection config for the per-sentence multi-vectors of chunks. Points are only
+ * fetched by id for MaxSim scoring, so no HNSW graph is built (m = 0).
+ */
+export function generateMultiVectorCollectionConfig(
+  vectorSize: number = 384,
+  distance: 'Cosine' | 'Euclid' | 'Dot' = 'Cosine'
+): any {
+  return {
+    vectors: {
+      size: vectorSize,
+      distance,
+      multivector_config: { comparator: 'max_sim' },
+      hnsw_config: { m: 0 },
+      on_disk: true
+    },
+    on_disk_payload: true
+  };
+}
+
 /**
  * Performance monitoring utilities
  */
@@ -0,0 +1,123 @@
+import { FusionInput } from '../services/fusion.js';
+
+/**
+ * Late-interaction (MaxSim) scoring of candidates by per-sentence vectors. Each chunk
+ * is stored with one vector per sentence next to its single dense vector, so a query
+ * matching one sentence of a long chunk is not diluted by the rest of the chunk.
+ */
+export interface LateInteractionConfig {
+  enabled: boolean;
+  /** Weight of the MaxSim score added to the fused score */
+  weight: number;
+  /** Sentences embedded per chunk at ingestion */
+  maxVectorsPerChunk: number;
+}
+
+export function getLateInteractionConfig(): LateInteractionConfig {
+  return {
+    enabled: process.env.LATE_INTERACTION_ENABLED === 'on',
+    weight: parseFloat(process.env.LATE_INTERACTION_WEIGHT || '0.3'),
+    maxVectorsPerChunk: parseInt(process.env.LATE_INTERACTION_MAX_VECTORS || '16', 10)
+  };
+}
+
+/**
+ * Collection holding the multi-vectors of the chunks of `collectionName`, under the same point ids
+ */
+export function getMultiVectorCollectionName(collectionName: string): string {
+  return `${collectionName}_multivector`;
+}
+
+/**
+ * Source of the stored multi-vectors of chunks
+ */
+export interface MultiVectorStore {
+  getMultiVectors(collectionName: string, ids: string[]): Promise<Map<string, number[][]>>;
+}
+
+/**
+ * Split chunk text into at most `maxSentences` sentences. Sentences beyond the
+ * limit are merged into the last one so no text is left without a vector.
+ */
+export function splitIntoSentences(text: string, maxSentences: number): string[] {
+  const sentences = text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+
+  if (sentences.length <= maxSentences) {
+    return sentences;
+  }
+  return [...sentences.slice(0, maxSentences - 1), sentences.slice(maxSentences - 1).join(' ')];
+}
+
+/**
+ * Embed each sentence of a chunk, in order
+ */
+export async function embedMultiVector(
+  text: string,
+  embed: (text: string) => Promise<number[]>,
+  maxVectors: number = getLateInteractionConfig().maxVectorsPerChunk
+): Promise<number[][]> {
+  const vectors: number[][] = [];
+  for (const sentence of splitIntoSentences(text, maxVectors)) {
+    vectors.push(await embed(sentence));
+  }
+  return vectors;
+}
+
+/**
+ * ColBERT MaxSim: the best cosine similarity of each query vector to any document
+ * vector, averaged over the query vectors
+ */
+export function maxSim(queryVectors: number[][], documentVectors: number[][]): number {
+  if (queryVectors.length === 0 || documentVectors.length === 0) {
+    return 0;
+  }
+
+  let total = 0;
+  for (const queryVector of queryVectors) {
+    let best = -1;
+    for (const documentVector of documentVectors) {
+      best = Math.max(best, cosineSimilarity(queryVector, documentVector));
+    }
+    total += best;
+  }
+  return total / queryVectors.length;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * MaxSim scores of the candidates that have stored multi-vectors, ranked for fuse().
+ * Candidates without multi-vectors (published before late interaction was enabled)
+ * are left out and get no late-interaction signal.
+ */
+export async function scoreLateInteraction(
+  store: MultiVectorStore,
+  collectionName: string,
+  queryVectors: number[][],
+  candidateIds: string[]
+): Promise<FusionInput[]> {
+  if (candidateIds.length === 0) {
+    return [];
+  }
+
+  const multiVectors = await store.getMultiVectors(collectionName, candidateIds);
+  const scored = candidateIds
+    .filter(id => multiVectors.has(id))
+    .map(id => ({ id, score: maxSim(queryVectors, multiVectors.get(id)!) }))
+    .sort((a, b) => b.score - a.score);
+
+  return scored.map((result, index) => ({ ...result, rank: index + 1 }));
+}
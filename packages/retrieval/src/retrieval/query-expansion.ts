@@ -0,0 +1,127 @@
+/**
+ * Multi-query expansion and HyDE (hypothetical document embeddings).
+ *
+ * Instead of searching with the question alone, the LLM writes paraphrases of the
+ * question and/or a passage that could answer it. Every variant is searched and the
+ * result lists are merged before fusion, so documents phrased differently from the
+ * question can still be found.
+ */
+
+export type QueryExpansionMode = 'off' | 'multi_query' | 'hyde' | 'both';
+
+export interface QueryExpansionConfig {
+  mode: QueryExpansionMode;
+  /** Number of paraphrases to generate in multi_query mode */
+  paraphraseCount: number;
+  /** Time allowed for generating the variants; the original query is used alone after that */
+  timeoutMs: number;
+}
+
+export interface QueryVariant {
+  kind: 'original' | 'paraphrase' | 'hyde';
+  text: string;
+}
+
+/**
+ * Generates query variants, usually with an LLM
+ */
+export interface QueryVariantGenerator {
+  generateParaphrases(query: string, count: number, tenantId: string): Promise<string[]>;
+  /** A short passage written as if it came from a document answering the query */
+  generateHypotheticalAnswer(query: string, tenantId: string): Promise<string>;
+}
+
+const QUERY_EXPANSION_MODES: QueryExpansionMode[] = ['off', 'multi_query', 'hyde', 'both'];
+
+export function getQueryExpansionConfig(): QueryExpansionConfig {
+  const mode = (process.env.QUERY_EXPANSION_MODE || 'off') as QueryExpansionMode;
+
+  return {
+    mode: QUERY_EXPANSION_MODES.includes(mode) ? mode : 'off',
+    paraphraseCount: parseInt(process.env.QUERY_EXPANSION_PARAPHRASES || '3', 10),
+    timeoutMs: parseInt(process.env.QUERY_EXPANSION_TIMEOUT_MS || '4000', 10)
+  };
+}
+
+/**
+ * Per-tenant overrides from QUERY_EXPANSION_TENANTS, e.g. `{"acme": {"mode": "hyde"}}`
+ */
+export function getTenantQueryExpansionConfigs(): Record<string, QueryExpansionConfig> {
+  let overrides: Record<string, Partial<QueryExpansionConfig>> = {};
+  try {
+    overrides = JSON.parse(process.env.QUERY_EXPANSION_TENANTS || '{}');
+  } catch {
+    console.warn('Ignoring invalid QUERY_EXPANSION_TENANTS, expected a JSON object of tenant to expansion config');
+  }
+
+  const defaults = getQueryExpansionConfig();
+  const configs: Record<string, QueryExpansionConfig> = {};
+  for (const [tenantId, override] of Object.entries(overrides)) {
+    const mode = override.mode && QUERY_EXPANSION_MODES.includes(override.mode) ? override.mode : defaults.mode;
+    configs[tenantId] = { ...defaults, ...override, mode };
+  }
+  return configs;
+}
+
+/**
+ * Generate the variants to search for a query. The original query always comes first;
+ * duplicates of it and empty generations are dropped.
+ */
+export async function generateQueryVariants(
+  generator: QueryVariantGenerator,
+  query: string,
+  config: QueryExpansionConfig,
+  tenantId: string
+): Promise<QueryVariant[]> {
+  const variants: QueryVariant[] = [{ kind: 'original', text: query }];
+  if (config.mode === 'off') {
+    return variants;
+  }
+
+  const [paraphrases, hypotheticalAnswer] = await Promise.all([
+    config.mode === 'multi_query' || config.mode === 'both'
+      ? generator.generateParaphrases(query, config.paraphraseCount, tenantId)
+      : Promise.resolve([]),
+    config.mode === 'hyde' || config.mode === 'both'
+      ? generator.generateHypotheticalAnswer(query, tenantId)
+      : Promise.resolve('')
+  ]);
+
+  const seen = new Set([normalize(query)]);
+  for (const paraphrase of paraphrases.slice(0, config.paraphraseCount)) {
+    const key = normalize(paraphrase);
+    if (key && !seen.has(key)) {
+      seen.add(key);
+      variants.push({ kind: 'paraphrase', text: paraphrase.trim() });
+    }
+  }
+
+  if (hypotheticalAnswer.trim()) {
+    variants.push({ kind: 'hyde', text: hypotheticalAnswer.trim() });
+  }
+
+  return variants;
+}
+
+/**
+ * Merge the result lists of several query variants, keeping the best score of each
+ * result, so the merged list can go through fusion like a single search.
+ */
+export function mergeVariantResults<T extends { id: string | number; score?: number }>(resultLists: T[][]): T[] {
+  const best = new Map<string, T>();
+  for (const results of resultLists) {
+    for (const result of results) {
+      const id = String(result.id);
+      const current = best.get(id);
+      if (!current || (result.score || 0) > (current.score || 0)) {
+        best.set(id, result);
+      }
+    }
+  }
+
+  return Array.from(best.values()).sort((a, b) => (b.score || 0) - (a.score || 0));
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
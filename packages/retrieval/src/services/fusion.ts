@@ -13,6 +13,7 @@ export interface FusionConfig {
   vectorWeight: number;         // 0..1
   keywordWeight: number;        // 0..1
   normalization: "zscore" | "minmax" | "none";
+  lateInteractionWeight?: number; // weight of the MaxSim signal, 0 when not set
 }
 
 export interface FusionResult {
@@ -22,6 +23,7 @@ export interface FusionResult {
     vector?: number;
     keyword?: number;
     rankBlend?: number;
+    lateInteraction?: number;
   };
 }
 
@@ -34,12 +36,14 @@ export interface FusionInput {
 }
 
 /**
- * Main fusion function with pluggable strategies
+ * Main fusion function with pluggable strategies. Late-interaction (MaxSim) scores,
+ * when given, are added to the fused score of the vector and keyword candidates.
  */
 export function fuse(
   vector: FusionInput[],
   keyword: FusionInput[],
-  cfg: FusionConfig
+  cfg: FusionConfig,
+  lateInteraction: FusionInput[] = []
 ): FusionResult[] {
   // Auto-detect high-confidence scenarios and override strategy
   const topVectorScore = vector.length > 0 ? Math.max(...vector.map(v => v.score)) : 0;
@@ -51,10 +55,13 @@ export function fuse(
     normalizeScores(vector, cfg.normalization) : vector;
   const normalizedKeyword = cfg.normalization !== "none" ?
     normalizeScores(keyword, cfg.normalization) : keyword;
+  const normalizedLateInteraction = cfg.normalization !== "none" ?
+    normalizeScores(lateInteraction, cfg.normalization) : lateInteraction;
 
   // Create lookup maps
   const vectorMap = new Map(normalizedVector.map((v, i) => [v.id, { ...v, originalRank: i + 1 }]));
   const keywordMap = new Map(normalizedKeyword.map((k, i) => [k.id, { ...k, originalRank: i + 1 }]));
+  const lateInteractionMap = new Map(normalizedLateInteraction.map((l, i) => [l.id, { ...l, originalRank: i + 1 }]));
 
   // Get all unique IDs
   const allIds = new Set([...vectorMap.keys(), ...keywordMap.keys()]);
@@ -89,6 +96,12 @@ export function fuse(
         throw new Error(`Unknown fusion strategy: ${effectiveStrategy}`);
     }
 
+    const lEntry = lateInteractionMap.get(id);
+    if (lEntry && cfg.lateInteractionWeight) {
+      components.lateInteraction = lEntry.score;
+      fusedScore += lateInteractionScore(lEntry, effectiveStrategy, cfg);
+    }
+
     results.push({
       id,
       fusedScore,
@@ -223,6 +236,27 @@ function fuseBordaRank(
   return fusedScore;
 }
 
+/**
+ * Contribution of the MaxSim signal, on the same scale as the strategy's own scores
+ */
+function lateInteractionScore(
+  entry: FusionInput,
+  strategy: FusionStrategyName,
+  cfg: FusionConfig
+): number {
+  const weight = cfg.lateInteractionWeight || 0;
+  const rankScore = 1 / ((entry.originalRank ?? entry.rank) + (cfg.kParam || 60));
+
+  switch (strategy) {
+    case "score_weighted_rrf":
+      return weight * entry.score * rankScore;
+    case "borda_rank":
+      return weight * rankScore;
+    default:
+      return weight * entry.score;
+  }
+}
+
 /**
  * Normalize scores using specified method
  */
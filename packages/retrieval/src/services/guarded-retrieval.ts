@@ -19,6 +19,7 @@ import {
   IdkResponse,
   TenantGuardrailConfig
 } from '../types/guardrail.js';
+import { QueryVariant } from '../retrieval/query-expansion.js';
 import { UserContext } from '@cw-rag-core/shared';
 
 export interface GuardedRetrievalResult {
@@ -37,6 +38,8 @@ export interface GuardedRetrievalResult {
   // Add section-aware metrics directly to GuardedRetrievalResult
   sectionCompletionMetrics?: SectionAwareSearchResult['sectionCompletionMetrics'];
   reconstructedSections?: SectionAwareSearchResult['reconstructedSections'];
+  /** Query variants searched when query expansion is enabled */
+  queryVariants?: QueryVariant[];
 }
 
 export interface GuardedRetrievalService {
@@ -124,7 +127,8 @@ export class GuardedRetrievalServiceImpl implements GuardedRetrievalService {
           guardrailDuration
         },
         sectionCompletionMetrics: searchResult.sectionCompletionMetrics, // Propagate section completion metrics
-        reconstructedSections: searchResult.reconstructedSections // Propagate reconstructed sections
+        reconstructedSections: searchResult.reconstructedSections, // Propagate reconstructed sections
+        queryVariants: searchResult.queryVariants
       };
 
       return result;
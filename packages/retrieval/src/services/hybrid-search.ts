@@ -10,7 +10,16 @@ import { exclusivityPenalty } from '../rank/exclusivity.js';
 import { computeKeywordPoints, KeywordPointsConfig, CandidateSignals, TermWeight } from '../rank/keyword-points.js';
 import { VectorSearchResult, VectorSearchParams } from '../types/vector.js';
 import { createQueryIntentDetector, QueryIntentDetector } from '../retrieval/intent.js';
-import { createNoveltyScorer } from '../context/novelty.js';
+import {
+  QueryVariant,
+  QueryVariantGenerator,
+  generateQueryVariants,
+  getQueryExpansionConfig,
+  mergeVariantResults
+} from '../retrieval/query-expansion.js';
+import { createNoveltyScorer, getMMRConfig, getTenantMMRConfigs } from '../context/novelty.js';
+import { MultiVectorStore, getLateInteractionConfig, scoreLateInteraction } from '../retrieval/late-interaction.js';
+import { ParentRecordStore, attachParents, getParentRetrievalConfig } from '../context/parent-document.js';
 import {
   HybridSearchRequest,
   HybridSearchResult,
@@ -22,11 +31,13 @@ import {
   RerankerRequest,
   RerankerDocument,
   RerankerResult, // Added import for RerankerResult
-  RERANKER_CONFIG
+  RERANKER_CONFIG,
+  getTenantRerankerConfigs
 } from '../types/reranker.js';
 import {
   UserContext,
   buildQdrantRBACFilter,
+  applyQdrantVersionFilter,
   validateUserAuthorization,
   hasDocumentAccess,
   calculateLanguageRelevance
@@ -79,6 +90,9 @@ export class HybridSearchServiceImpl implements HybridSearchService {
   private tenantConfigs = new Map<string, TenantSearchConfig>();
   private timeoutConfigs = new Map<string, TimeoutConfig>();
   private intentDetector: QueryIntentDetector;
+  private queryVariantGenerator?: QueryVariantGenerator;
+  private multiVectorStore?: MultiVectorStore;
+  private parentRecordStore?: ParentRecordStore;
   // Domainless ranking telemetry data
   private domainlessQueryTerms: any = null;
   private domainlessGroups: any[] = [];
@@ -133,6 +147,30 @@ export class HybridSearchServiceImpl implements HybridSearchService {
     }
   }
 
+  /**
+   * Set the generator of paraphrases and hypothetical answers used when a tenant
+   * has query expansion enabled; without one, only the original query is searched.
+   */
+  setQueryVariantGenerator(generator: QueryVariantGenerator): void {
+    this.queryVariantGenerator = generator;
+  }
+
+  /**
+   * Set the store of per-sentence chunk vectors; with LATE_INTERACTION_ENABLED=on their
+   * MaxSim score against the query is fused with the vector and keyword scores.
+   */
+  setMultiVectorStore(store: MultiVectorStore): void {
+    this.multiVectorStore = store;
+  }
+
+  /**
+   * Set the store of parent records; with PARENT_RETRIEVAL_ENABLED=on each result
+   * carries the enclosing section or page of its chunk for context packing.
+   */
+  setParentRecordStore(store: ParentRecordStore): void {
+    this.parentRecordStore = store;
+  }
+
   private getTimeoutConfig(tenantId?: string): TimeoutConfig {
     const config = this.timeoutConfigs.get(tenantId || 'default');
     return config || DEFAULT_TIMEOUTS;
@@ -160,6 +198,7 @@ export class HybridSearchServiceImpl implements HybridSearchService {
     const queryAdaptiveEnabled = process.env.QUERY_ADAPTIVE_WEIGHTS === 'on';
 
     const keywordSearchEnabled = request.enableKeywordSearch ?? adaptiveConfig.keywordSearchEnabled;
+    const mmrConfig = tenantConfig.mmr ?? getMMRConfig();
     console.log(`🔄 Hybrid search mode: vector + ${keywordSearchEnabled ? 'keyword' : 'vector-only'}`);
 
     // Check if domainless ranking is enabled for retrieval expansion
@@ -171,6 +210,9 @@ export class HybridSearchServiceImpl implements HybridSearchService {
       this.addAdditionalFilters(rbacFilter, request.filter);
     }
 
+    // Only search the current version of each document unless a point in time was requested
+    applyQdrantVersionFilter(rbacFilter, request.asOf);
+
     const metrics: SearchPerformanceMetrics = {
       vectorSearchDuration: 0,
       keywordSearchDuration: 0,
@@ -227,7 +269,8 @@ export class HybridSearchServiceImpl implements HybridSearchService {
           () => this.vectorSearchService.search(collectionName, {
             queryVector,
             limit: baseRetrievalK,
-            filter: rbacFilter
+            filter: rbacFilter,
+            withVector: mmrConfig.enabled
           }),
           timeouts.vectorSearch,
           'Vector search'
@@ -308,7 +351,8 @@ export class HybridSearchServiceImpl implements HybridSearchService {
               collectionName,
               request.query,
               request.limit,
-              rbacFilter
+              rbacFilter,
+              request.tenantId || userContext.tenantId
             ),
             timeouts.keywordSearch,
             'Keyword search'
@@ -344,6 +388,46 @@ export class HybridSearchServiceImpl implements HybridSearchService {
         }
       }
 
+      // Also search paraphrases and/or a hypothetical answer of the query (multi-query / HyDE)
+      let queryVariants: QueryVariant[] | undefined;
+      const queryExpansion = adaptiveConfig.queryExpansion;
+      if (queryExpansion && queryExpansion.mode !== 'off' && this.queryVariantGenerator) {
+        const expansionStartTime = performance.now();
+        const generator = this.queryVariantGenerator;
+
+        const variantResult = await this.executeWithTimeout(
+          () => generateQueryVariants(generator, request.query, queryExpansion, request.tenantId || userContext.tenantId),
+          queryExpansion.timeoutMs,
+          'Query variant generation',
+          async (): Promise<QueryVariant[]> => [{ kind: 'original', text: request.query }]
+        );
+        queryVariants = variantResult.result;
+
+        const expandedVariants = queryVariants.filter(variant => variant.kind !== 'original');
+        if (expandedVariants.length > 0) {
+          const variantSearches = await Promise.all(expandedVariants.map(variant =>
+            this.searchQueryVariant(collectionName, variant, baseRetrievalK, request.limit, rbacFilter, keywordSearchEnabled, timeouts,
+              mmrConfig.enabled, request.tenantId || userContext.tenantId)
+          ));
+
+          vectorSearchResults = mergeVariantResults([vectorSearchResults, ...variantSearches.map(search => search.vectorResults)]);
+          keywordSearchResults = mergeVariantResults([keywordSearchResults, ...variantSearches.map(search => search.keywordResults)]);
+          metrics.vectorResultCount = vectorSearchResults.length;
+          metrics.keywordResultCount = keywordSearchResults.length;
+        }
+
+        metrics.queryExpansionDuration = performance.now() - expansionStartTime;
+        console.log('StructuredLog:QueryExpansion', {
+          mode: queryExpansion.mode,
+          variants: expandedVariants.length,
+          timedOut: variantResult.timedOut,
+          vectorResultCount: metrics.vectorResultCount,
+          keywordResultCount: metrics.keywordResultCount,
+          duration: metrics.queryExpansionDuration,
+          tenantId: request.tenantId
+        });
+      }
+
       const fusionStartTime = performance.now();
 
       // Deduplicate results before fusion
@@ -373,7 +457,27 @@ export class HybridSearchServiceImpl implements HybridSearchService {
         normalization: (process.env.FUSION_NORMALIZATION as "zscore" | "minmax" | "none") || "minmax"
       };
 
-      const fusionResults = fuse(vectorInputs, keywordInputs, fusionConfig);
+      // Score the candidates by their sentence vectors (late interaction)
+      const lateInteraction = getLateInteractionConfig();
+      let lateInteractionInputs: FusionInput[] = [];
+      if (lateInteraction.enabled && this.multiVectorStore) {
+        const lateInteractionStart = performance.now();
+        const candidateIds = [...new Set([...vectorInputs, ...keywordInputs].map(input => input.id))];
+        try {
+          const { result } = await this.executeWithTimeout(
+            () => scoreLateInteraction(this.multiVectorStore!, collectionName, [queryVector], candidateIds),
+            timeouts.vectorSearch,
+            'Late interaction scoring'
+          );
+          lateInteractionInputs = result;
+          fusionConfig.lateInteractionWeight = lateInteraction.weight;
+        } catch (error) {
+          console.warn('Late interaction scoring failed, fusing without it:', (error as Error).message);
+        }
+        metrics.lateInteractionDuration = performance.now() - lateInteractionStart;
+      }
+
+      const fusionResults = fuse(vectorInputs, keywordInputs, fusionConfig, lateInteractionInputs);
 
       // Convert fusion results back to HybridSearchResult format
       let baseFusedResults = fusionResults.map(fusionResult => {
@@ -390,6 +494,7 @@ export class HybridSearchServiceImpl implements HybridSearchService {
           vectorScore: fusionResult.components.vector || 0,
           keywordScore: keywordSearchEnabled ? (fusionResult.components.keyword || 0) : undefined,
           fusionScore: fusionResult.fusedScore,
+          lateInteractionScore: fusionResult.components.lateInteraction,
           searchType: vectorResult && keywordResult ? 'hybrid' :
                       vectorResult ? 'vector_only' : 'keyword_only',
           payload: sourceResult.payload,
@@ -496,17 +601,22 @@ export class HybridSearchServiceImpl implements HybridSearchService {
       let finalResults = fusedResults; // This will hold the results after reranking if applied
 
       // Apply MMR or reranking
-      const mmrEnabled = process.env.MMR_ENABLED === 'on';
-      if (mmrEnabled && this.embeddingService) {
+      if (mmrConfig.enabled) {
         const mmrStartTime = performance.now();
-        const noveltyScorer = createNoveltyScorer(undefined, this.embeddingService);
-        finalResults = await noveltyScorer.applyMMR(fusedResults, request.limit * 2); // Expand for MMR
+        const vectors = await this.getCandidateVectors(fusedResults, vectorSearchResults, timeouts);
+        const noveltyScorer = createNoveltyScorer(mmrConfig.lambda);
+        const diversified = noveltyScorer.diversify(fusedResults, vectors, request.limit * 2, mmrConfig); // Expand for MMR
+        finalResults = diversified.results;
+        metrics.diversity = diversified.metrics;
         metrics.rerankerDuration = performance.now() - mmrStartTime;
         metrics.rerankingEnabled = true;
         metrics.documentsReranked = finalResults.length;
         console.log('StructuredLog:MMRApplied', {
           inputCount: fusedResults.length,
           outputCount: finalResults.length,
+          lambda: mmrConfig.lambda,
+          droppedNearDuplicates: diversified.metrics.droppedNearDuplicates.length,
+          cappedByDocument: diversified.metrics.cappedByDocument.length,
           mmrDuration: metrics.rerankerDuration
         });
       } else if (adaptiveConfig.rerankerEnabled && this.rerankerService) {
@@ -527,7 +637,9 @@ export class HybridSearchServiceImpl implements HybridSearchService {
             const rerankerRequest: RerankerRequest = {
               query: request.query,
               documents: rerankerDocs,
-              topK: adaptiveConfig.rerankerConfig?.topK || RERANKER_CONFIG.TOPN_OUT
+              topK: adaptiveConfig.rerankerConfig?.topK || RERANKER_CONFIG.TOPN_OUT,
+              model: adaptiveConfig.rerankerConfig?.model,
+              tenantId: request.tenantId || userContext.tenantId
             };
 
             rerankerActualResults = await this.rerankerService!.rerank(rerankerRequest); // Store raw reranker results
@@ -575,7 +687,7 @@ export class HybridSearchServiceImpl implements HybridSearchService {
         }
       }
 
-      const filteredResults = finalResults
+      let filteredResults = finalResults
         .slice(0, request.limit)
         .filter(result => this.validateEnhancedRbacAccess(result, userContext))
         .map((result, index) => ({
@@ -583,6 +695,22 @@ export class HybridSearchServiceImpl implements HybridSearchService {
           rank: index + 1
         }));
 
+      // Small-to-big: fetch the parent units of the matched child chunks
+      if (getParentRetrievalConfig().enabled && this.parentRecordStore) {
+        const parentFetchStart = performance.now();
+        try {
+          const { result } = await this.executeWithTimeout(
+            () => attachParents(this.parentRecordStore!, collectionName, filteredResults),
+            timeouts.vectorSearch,
+            'Parent record fetch'
+          );
+          filteredResults = result;
+        } catch (error) {
+          console.warn('Parent record fetch failed, packing child chunks:', (error as Error).message);
+        }
+        metrics.parentFetchDuration = performance.now() - parentFetchStart;
+      }
+
       metrics.totalDuration = performance.now() - startTime;
       metrics.finalResultCount = filteredResults.length;
 
@@ -638,7 +766,8 @@ export class HybridSearchServiceImpl implements HybridSearchService {
         fusionResults: fusedResults,
         rerankerResults: rerankerActualResults, // Pass actual raw reranker results
         metrics,
-        fusionTrace
+        fusionTrace,
+        queryVariants
       };
 
     } catch (error) {
@@ -647,6 +776,90 @@ export class HybridSearchServiceImpl implements HybridSearchService {
     }
   }
 
+  /**
+   * Vector and keyword search for one generated query variant. A failing search
+   * only loses that variant's results.
+   */
+  private async searchQueryVariant(
+    collectionName: string,
+    variant: QueryVariant,
+    vectorLimit: number,
+    keywordLimit: number,
+    rbacFilter: Record<string, any>,
+    keywordSearchEnabled: boolean,
+    timeouts: TimeoutConfig,
+    withVector?: boolean,
+    tenantId?: string
+  ): Promise<{ vectorResults: VectorSearchResult[]; keywordResults: HybridSearchResult[] }> {
+    const [vectorResults, keywordResults] = await Promise.all([
+      (async () => {
+        const { result: queryVector } = await this.executeWithTimeout(
+          () => this.embeddingService.embed(variant.text),
+          timeouts.embedding,
+          'Variant embedding generation'
+        );
+        const { result } = await this.executeWithTimeout(
+          () => this.vectorSearchService.search(collectionName, {
+            queryVector,
+            limit: vectorLimit,
+            filter: rbacFilter,
+            withVector
+          }),
+          timeouts.vectorSearch,
+          'Variant vector search'
+        );
+        return result;
+      })().catch(error => {
+        console.warn(`Vector search for ${variant.kind} query variant failed:`, (error as Error).message);
+        return [] as VectorSearchResult[];
+      }),
+      keywordSearchEnabled
+        ? this.executeWithTimeout(
+            () => this.keywordSearchService.search(collectionName, variant.text, keywordLimit, rbacFilter, tenantId),
+            timeouts.keywordSearch,
+            'Variant keyword search'
+          ).then(({ result }) => result).catch(error => {
+            console.warn(`Keyword search for ${variant.kind} query variant failed:`, (error as Error).message);
+            return [] as HybridSearchResult[];
+          })
+        : Promise.resolve([] as HybridSearchResult[])
+    ]);
+
+    return { vectorResults, keywordResults };
+  }
+
+  /**
+   * Dense vectors of the fused candidates, as returned by the vector search.
+   * Keyword-only hits have no stored vector in hand, so their content is embedded;
+   * candidates whose embedding fails are left out and treated as novel by MMR.
+   */
+  private async getCandidateVectors(
+    candidates: HybridSearchResult[],
+    vectorResults: VectorSearchResult[],
+    timeouts: TimeoutConfig
+  ): Promise<Map<string, number[]>> {
+    const vectors = new Map<string, number[]>();
+    for (const result of vectorResults) {
+      if (Array.isArray(result.vector) && result.vector.length > 0) {
+        vectors.set(result.id, result.vector);
+      }
+    }
+
+    await Promise.all(candidates
+      .filter(candidate => !vectors.has(candidate.id) && candidate.content)
+      .map(candidate => this.executeWithTimeout(
+        () => this.embeddingService.embed(candidate.content!),
+        timeouts.embedding,
+        'Candidate embedding'
+      ).then(({ result }) => {
+        vectors.set(candidate.id, result);
+      }).catch(error => {
+        console.warn(`Embedding candidate ${candidate.id} for MMR failed:`, (error as Error).message);
+      })));
+
+    return vectors;
+  }
+
   async getTenantConfig(tenantId: string): Promise<TenantSearchConfig> {
     const config = this.tenantConfigs.get(tenantId);
     if (!config) {
@@ -666,10 +879,23 @@ export class HybridSearchServiceImpl implements HybridSearchService {
       defaultVectorWeight: 0.7,
       defaultKeywordWeight: 0.3,
       defaultRrfK: 60,
-      rerankerEnabled: RERANKER_CONFIG.ENABLED
+      rerankerEnabled: RERANKER_CONFIG.ENABLED,
+      queryExpansion: getQueryExpansionConfig()
     };
 
     this.tenantConfigs.set('default', defaultConfig);
+    // Tenants without their own MMR config follow MMR_ENABLED at search time
+    const mmrConfigs = getTenantMMRConfigs();
+    const rerankerConfigs = getTenantRerankerConfigs();
+    for (const tenantId of new Set([...Object.keys(mmrConfigs), ...Object.keys(rerankerConfigs)])) {
+      this.tenantConfigs.set(tenantId, {
+        ...defaultConfig,
+        tenantId,
+        mmr: mmrConfigs[tenantId],
+        rerankerEnabled: rerankerConfigs[tenantId] ? true : defaultConfig.rerankerEnabled,
+        rerankerConfig: rerankerConfigs[tenantId]
+      });
+    }
     this.timeoutConfigs.set('default', DEFAULT_TIMEOUTS);
   }
 
@@ -745,7 +971,9 @@ export class HybridSearchServiceImpl implements HybridSearchService {
     const payload = result.payload;
     if (!payload) return false;
 
+    // The whole payload, so attribute access rules are checked too
     const docMetadata = {
+      ...payload,
       tenantId: payload.tenantId || payload.tenant,
       docId: payload.docId || result.id,
       acl: Array.isArray(payload.acl) ? payload.acl : [payload.acl],
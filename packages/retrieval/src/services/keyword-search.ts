@@ -10,13 +10,15 @@ export interface KeywordSearchService {
    * @param query The search query string.
    * @param limit The maximum number of results to return.
    * @param filter An optional filter to apply to the search.
+   * @param tenantId The tenant searched, for tenant-specific term statistics.
    * @returns A promise that resolves to an array of HybridSearchResult objects.
    */
   search(
     collectionName: string,
     query: string,
     limit: number,
-    filter: Record<string, any>
+    filter: Record<string, any>,
+    tenantId?: string
   ): Promise<HybridSearchResult[]>;
 }
 
@@ -0,0 +1,188 @@
+import * as path from 'path';
+import { BaseRerankerService } from './reranker.js';
+import {
+  RerankerRequest,
+  RerankerResult,
+  RerankerConfig,
+  RERANKER_MODELS,
+  RERANKER_CONFIG
+} from '../types/reranker.js';
+
+/**
+ * A loaded cross-encoder that scores (query, document) pairs
+ */
+export interface CrossEncoder {
+  /** Relevance of each document to the query, in [0, 1] */
+  score(query: string, documents: string[]): Promise<number[]>;
+}
+
+export type CrossEncoderLoader = (modelPath: string, config: RerankerConfig) => Promise<CrossEncoder>;
+
+/**
+ * Load a cross-encoder exported to ONNX from a local directory laid out like a
+ * Hugging Face repository (config.json, tokenizer.json, onnx/model_quantized.onnx).
+ * Nothing is downloaded.
+ */
+export const loadOnnxCrossEncoder: CrossEncoderLoader = async (modelPath, config) => {
+  const { AutoTokenizer, AutoModelForSequenceClassification, env } = await import('@xenova/transformers');
+
+  // Models are resolved relative to localModelPath, so load the directory by its name
+  env.localModelPath = path.dirname(path.resolve(modelPath));
+  const modelId = path.basename(modelPath);
+  const quantized = process.env.RERANKER_ONNX_QUANTIZED !== 'false';
+
+  const tokenizer = await AutoTokenizer.from_pretrained(modelId, { local_files_only: true });
+  const model = await AutoModelForSequenceClassification.from_pretrained(modelId, { quantized, local_files_only: true });
+  const maxLength = config.model.maxSequenceLength || 512;
+
+  return {
+    async score(query: string, documents: string[]): Promise<number[]> {
+      const inputs = tokenizer(new Array(documents.length).fill(query), {
+        text_pair: documents,
+        padding: true,
+        truncation: true,
+        max_length: maxLength
+      });
+      const { logits } = await model(inputs);
+      const labelCount: number = logits.dims[1];
+      const data = logits.data as Float32Array;
+
+      return documents.map((_, i) => {
+        const row = Array.from(data.slice(i * labelCount, (i + 1) * labelCount));
+        // Single-logit models (ms-marco MiniLM, bge-reranker) output a relevance logit;
+        // two-label models output [irrelevant, relevant]
+        return labelCount === 1 ? sigmoid(row[0]) : softmax(row)[labelCount - 1];
+      });
+    }
+  };
+};
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+function softmax(values: number[]): number[] {
+  const max = Math.max(...values);
+  const exps = values.map(value => Math.exp(value - max));
+  const sum = exps.reduce((total, value) => total + value, 0);
+  return exps.map(value => value / sum);
+}
+
+/**
+ * Cross-encoder reranker running in-process on the CPU with ONNX runtime.
+ * The model is loaded once from RERANKER_ONNX_MODEL_PATH, on warmUp() or the first request.
+ */
+export class OnnxRerankerService extends BaseRerankerService {
+  private encoder: Promise<CrossEncoder> | null = null;
+
+  constructor(
+    config: RerankerConfig,
+    private modelPath: string = process.env.RERANKER_ONNX_MODEL_PATH || './models/ms-marco-MiniLM-L-6-v2',
+    private loader: CrossEncoderLoader = loadOnnxCrossEncoder
+  ) {
+    super(config);
+    this.config.batchSize = this.config.batchSize || RERANKER_CONFIG.BATCH_SIZE;
+    this.config.timeoutMs = this.config.timeoutMs || RERANKER_CONFIG.TIMEOUT_MS;
+    this.config.topK = this.config.topK || RERANKER_CONFIG.TOPN_OUT;
+  }
+
+  async rerank(request: RerankerRequest): Promise<RerankerResult[]> {
+    if (!this.config.enabled || request.documents.length === 0) {
+      return this.passThrough(request);
+    }
+
+    const timeoutMs = this.config.timeoutMs || RERANKER_CONFIG.TIMEOUT_MS;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      return await Promise.race([
+        this.performReranking(request),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`Reranker timeout after ${timeoutMs}ms`)), timeoutMs);
+        })
+      ]);
+    } catch (error) {
+      console.error('StructuredLog:OnnxRerankerFailure', {
+        error: (error as Error).message,
+        model: this.config.model.name,
+        modelPath: this.modelPath,
+        documentCount: request.documents.length,
+        timeoutMs
+      });
+
+      return this.passThrough(request);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Load the model and score one pair so the first request does not pay for it.
+   * Returns the warm-up duration in milliseconds.
+   */
+  async warmUp(): Promise<number> {
+    const startTime = performance.now();
+    const encoder = await this.getEncoder();
+    await encoder.score('warm-up', ['warm-up']);
+    const duration = performance.now() - startTime;
+
+    console.log('StructuredLog:OnnxRerankerWarmedUp', {
+      model: this.config.model.name,
+      modelPath: this.modelPath,
+      duration
+    });
+    return duration;
+  }
+
+  async isHealthy(): Promise<boolean> {
+    try {
+      await this.getEncoder();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  getSupportedModels(): string[] {
+    return Object.values(RERANKER_MODELS).map(model => model.name);
+  }
+
+  private getEncoder(): Promise<CrossEncoder> {
+    if (!this.encoder) {
+      this.encoder = this.loader(this.modelPath, this.config).catch(error => {
+        // Allow a later request to retry loading
+        this.encoder = null;
+        throw new Error(`Failed to load ONNX reranker from ${this.modelPath}: ${(error as Error).message}`);
+      });
+    }
+    return this.encoder;
+  }
+
+  private async performReranking(request: RerankerRequest): Promise<RerankerResult[]> {
+    const encoder = await this.getEncoder();
+    const batches = this.createBatches(request.documents, this.config.batchSize || RERANKER_CONFIG.BATCH_SIZE);
+
+    const results: RerankerResult[] = [];
+    for (const batch of batches) {
+      const scores = await encoder.score(request.query, batch.map(doc => doc.content));
+      batch.forEach((doc, i) => {
+        results.push({
+          id: doc.id,
+          score: scores[i],
+          content: doc.content,
+          payload: doc.payload,
+          originalScore: doc.originalScore,
+          rerankerScore: scores[i],
+          rank: 0 // Set after sorting
+        });
+      });
+    }
+
+    results.sort((a, b) => b.rerankerScore - a.rerankerScore);
+
+    return this.applyTopK(this.applyScoreThreshold(results), request.topK).map((result, index) => ({
+      ...result,
+      rank: index + 1
+    }));
+  }
+}
@@ -3,7 +3,7 @@
  */
 
 import { HybridSearchResult } from '../types/hybrid.js';
-import { UserContext } from '@cw-rag-core/shared';
+import { UserContext, applyQdrantVersionFilter, buildQdrantRBACFilter } from '@cw-rag-core/shared';
 import { DetectedSection } from './section-detection.js';
 
 export interface RelatedChunkQuery {
@@ -13,6 +13,7 @@ export interface RelatedChunkQuery {
   maxChunks: number;
   excludeChunkIds: string[]; // Chunks already retrieved
   documentId?: string; // Add documentId directly to the query interface
+  asOf?: string; // Point in time of the original search; omit for the current version
 }
 
 export interface RelatedChunkResult {
@@ -62,7 +63,8 @@ export class RelatedChunkFetcherService {
     detectedSections: DetectedSection[],
     collectionName: string,
     userContext: UserContext,
-    excludeChunkIds: string[] = []
+    excludeChunkIds: string[] = [],
+    asOf?: string
   ): Promise<Map<string, RelatedChunkResult>> {
     if (!this.config.enabled || detectedSections.length === 0) {
       return new Map();
@@ -71,7 +73,7 @@ export class RelatedChunkFetcherService {
 
     const results = new Map<string, RelatedChunkResult>();
     const fetchPromises = detectedSections.map(section =>
-      this.fetchSectionChunks(section, collectionName, userContext, excludeChunkIds)
+      this.fetchSectionChunks(section, collectionName, userContext, excludeChunkIds, asOf)
         .then(result => {
           if (result.chunks.length > 0) {
             results.set(section.sectionPath, result);
@@ -97,7 +99,8 @@ export class RelatedChunkFetcherService {
     section: DetectedSection,
     collectionName: string,
     userContext: UserContext,
-    excludeChunkIds: string[]
+    excludeChunkIds: string[],
+    asOf?: string
   ): Promise<RelatedChunkResult> {
     const startTime = performance.now();
     const query: RelatedChunkQuery = {
@@ -106,7 +109,8 @@ export class RelatedChunkFetcherService {
       userContext, // Pass original user context
       documentId: section.documentId, // Pass documentId as a separate property
       maxChunks: this.config.maxChunksPerSection,
-      excludeChunkIds
+      excludeChunkIds,
+      asOf
     };
 
     try {
@@ -206,7 +210,10 @@ export class RelatedChunkFetcherService {
     query: RelatedChunkQuery
   ): Promise<HybridSearchResult[]> {
     // Pass the documentId from the query object directly
-    const sectionFilter = this.buildSectionPathFilter(query.sectionPath, query.userContext, query.documentId);
+    const sectionFilter = applyQdrantVersionFilter(
+      this.buildSectionPathFilter(query.sectionPath, query.userContext, query.documentId),
+      query.asOf
+    );
 
     const scrollResult = await this.qdrantClient.scroll(collectionName, {
       filter: sectionFilter,
@@ -233,17 +240,10 @@ export class RelatedChunkFetcherService {
    * Build filter for sectionPath prefix matching with RBAC
    */
   private buildSectionPathFilter(sectionPath: string, userContext: UserContext, docId?: string): any {
-    const filters: any[] = [
-      // Tenant isolation (corrected field name)
-      { key: 'tenant', match: { value: userContext.tenantId } },
-      // ACL check - user must have access
-      {
-        should: [
-          { key: 'acl', match: { any: userContext.groupIds } },
-          { key: 'acl', match: { value: 'public' } }
-        ]
-      }
-    ];
+    // Same tenant, ACL, deny and attribute conditions as the search itself;
+    // the language preference is left out so the whole section is returned
+    const { must, must_not } = buildQdrantRBACFilter(userContext);
+    const filters: any[] = [...must];
 
     if (docId) {
       filters.push({ key: 'docId', match: { value: docId } });
@@ -257,7 +257,8 @@ export class RelatedChunkFetcherService {
     });
 
     return {
-      must: filters
+      must: filters,
+      must_not
     };
   }
 
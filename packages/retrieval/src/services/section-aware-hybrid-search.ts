@@ -6,6 +6,7 @@ import { HybridSearchServiceImpl, HybridSearchService } from './hybrid-search.js
 import { SectionDetectionService, createSectionDetectionService } from './section-detection.js';
 import { RelatedChunkFetcherService, createRelatedChunkFetcherService } from './related-chunk-fetcher.js';
 import { SectionReconstructionEngine, createSectionReconstructionEngine, ReconstructedSection } from './section-reconstruction.js';
+import { getParentRetrievalConfig } from '../context/parent-document.js';
 import { HybridSearchRequest, HybridSearchResult, StructuredHybridSearchResult } from '../types/hybrid.js';
 import { UserContext } from '@cw-rag-core/shared';
 
@@ -83,8 +84,9 @@ export class SectionAwareHybridSearchService extends HybridSearchServiceImpl {
     // First, perform standard hybrid search
     const standardResult = await super.search(collectionName, request, userContext);
 
-    // If section-aware search is disabled, return standard result with empty metrics
-    if (!this.sectionConfig.enabled) {
+    // If section-aware search is disabled, or parent retrieval supplies the sections,
+    // return standard result with empty metrics
+    if (!this.sectionConfig.enabled || getParentRetrievalConfig().enabled) {
       console.log('⚪ Section-aware search disabled, returning standard results');
       return this.createSectionAwareResult(standardResult, [], {
         sectionsDetected: 0,
@@ -105,7 +107,8 @@ export class SectionAwareHybridSearchService extends HybridSearchServiceImpl {
         standardResult.finalResults,
         collectionName,
         userContext,
-        request.query
+        request.query,
+        request.asOf
       );
 
       const timeoutPromise = new Promise<any>((_, reject) => {
@@ -169,7 +172,8 @@ export class SectionAwareHybridSearchService extends HybridSearchServiceImpl {
     results: HybridSearchResult[],
     collectionName: string,
     userContext: UserContext,
-    query?: string
+    query?: string,
+    asOf?: string
   ): Promise<{
     sectionsDetected: number;
     sectionsCompleted: number;
@@ -229,7 +233,8 @@ export class SectionAwareHybridSearchService extends HybridSearchServiceImpl {
       sectionsToProcess,
       collectionName,
       userContext,
-      existingChunkIds
+      existingChunkIds,
+      asOf
     );
 
     console.log('📊 Related chunk fetch results:', relatedChunkResults.size, 'sections had related chunks');
@@ -0,0 +1,63 @@
+import { KeywordSearchService } from './keyword-search.js';
+import { HybridSearchResult } from '../types/hybrid.js';
+import { VectorSearchResult } from '../types/vector.js';
+import { CorpusStats, loadCorpusStats } from '../stats/corpus-stats.js';
+import { SparseVector, encodeBM25Query } from '../stats/bm25.js';
+
+/**
+ * Search over the BM25 sparse vectors of a collection
+ */
+export interface SparseVectorSearchSource {
+  searchSparse(
+    collectionName: string,
+    params: { sparseVector: SparseVector; limit: number; filter?: Record<string, any> }
+  ): Promise<VectorSearchResult[]>;
+}
+
+/**
+ * Keyword leg of hybrid search scored by BM25 over stored sparse vectors, with the
+ * query terms weighted by the tenant's IDF. Falls back to the full-text keyword
+ * search when the sparse search fails, e.g. on a collection created without sparse vectors.
+ */
+export class SparseKeywordSearchService implements KeywordSearchService {
+  constructor(
+    private sparseSource: SparseVectorSearchSource,
+    private fallback?: KeywordSearchService,
+    private getStats: (tenantId: string) => CorpusStats = loadCorpusStats
+  ) {}
+
+  async search(
+    collectionName: string,
+    query: string,
+    limit: number,
+    filter: Record<string, any>,
+    tenantId: string = 'default'
+  ): Promise<HybridSearchResult[]> {
+    const sparseVector = encodeBM25Query(query, this.getStats(tenantId));
+    if (sparseVector.indices.length === 0) {
+      return [];
+    }
+
+    try {
+      const results = await this.sparseSource.searchSparse(collectionName, { sparseVector, limit, filter });
+      return results.map(result => ({
+        id: result.id,
+        score: result.score || 0,
+        payload: result.payload,
+        content: result.payload?.content,
+        searchType: 'keyword_only' as const,
+        keywordScore: result.score || 0
+      }));
+    } catch (error) {
+      if (!this.fallback) {
+        throw error;
+      }
+      console.warn('StructuredLog:SparseKeywordSearchFallback', {
+        error: (error as Error).message,
+        collectionName,
+        tenantId
+      });
+      return this.fallback.search(collectionName, query, limit, filter, tenantId);
+    }
+  }
+}
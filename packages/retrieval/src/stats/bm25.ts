@@ -0,0 +1,85 @@
+/**
+ * BM25 as sparse vectors: chunks store the saturated term frequency of each term,
+ * queries carry the IDF of each term from the tenant's corpus stats, so the dot
+ * product Qdrant computes is the BM25 score.
+ */
+
+import { CorpusStats, tokenizeAndNormalize } from './corpus-stats.js';
+
+export interface SparseVector {
+  indices: number[];
+  values: number[];
+}
+
+export interface SparseVectorConfig {
+  enabled: boolean;
+  /** Term frequency saturation */
+  k1: number;
+  /** Document length normalization */
+  b: number;
+}
+
+/** Name of the sparse vector next to the unnamed dense vector of each chunk */
+export const SPARSE_VECTOR_NAME = 'bm25';
+
+export function getSparseVectorConfig(): SparseVectorConfig {
+  return {
+    enabled: process.env.SPARSE_VECTORS_ENABLED === 'on',
+    k1: parseFloat(process.env.BM25_K1 || '1.2'),
+    b: parseFloat(process.env.BM25_B || '0.75')
+  };
+}
+
+/**
+ * Sparse index of a term (32-bit FNV-1a hash), so no vocabulary has to be shared
+ * between ingestion and search
+ */
+export function hashTerm(term: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < term.length; i++) {
+    hash ^= term.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Document side of BM25: tf * (k1 + 1) / (tf + k1 * (1 - b + b * length / avgLength))
+ */
+export function encodeBM25Document(
+  text: string,
+  stats: CorpusStats,
+  config: SparseVectorConfig = getSparseVectorConfig()
+): SparseVector {
+  const tokens = tokenizeAndNormalize(text);
+  const termFrequencies = new Map<number, number>();
+  for (const token of tokens) {
+    const index = hashTerm(token);
+    termFrequencies.set(index, (termFrequencies.get(index) || 0) + 1);
+  }
+
+  const averageLength = stats.totalDocs > 0 ? stats.totalTokens / stats.totalDocs : tokens.length;
+  const lengthNorm = 1 - config.b + config.b * (tokens.length / Math.max(averageLength, 1));
+
+  return toSparseVector(termFrequencies, tf => (tf * (config.k1 + 1)) / (tf + config.k1 * lengthNorm));
+}
+
+/**
+ * Query side of BM25: the IDF of each query term. Terms the corpus has not seen get
+ * the IDF of a term in no document.
+ */
+export function encodeBM25Query(query: string, stats: CorpusStats): SparseVector {
+  const unseenIdf = Math.log(stats.totalDocs + 1) + 1;
+  const weights = new Map<number, number>();
+  for (const token of new Set(tokenizeAndNormalize(query))) {
+    const index = hashTerm(token);
+    weights.set(index, (weights.get(index) || 0) + (stats.idf.get(token) ?? unseenIdf));
+  }
+
+  return toSparseVector(weights, weight => weight);
+}
+
+function toSparseVector(weights: Map<number, number>, value: (weight: number) => number): SparseVector {
+  const indices = Array.from(weights.keys()).sort((a, b) => a - b);
+  return { indices, values: indices.map(index => value(weights.get(index)!)) };
+}
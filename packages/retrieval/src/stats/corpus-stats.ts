@@ -11,6 +11,7 @@ export interface CorpusStats {
   pmi: Map<string, Map<string, number>>;
   totalDocs: number;
   totalTokens: number;
+  docFreq?: Map<string, number>; // Documents containing each term; older stats files only have idf
 }
 
 const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
@@ -85,8 +86,6 @@ export function saveCorpusStats(stats: CorpusStats, tenant: string): void {
 export function updateCorpusStats(documents: Array<{content: string, id: string}>, tenant: string): CorpusStats {
   const currentStats = loadCorpusStats(tenant);
 
-  // Document frequency maps
-  const docFreq = new Map<string, number>();
   const termDocCount = new Map<string, number>();
 
   // Co-occurrence within sliding window
@@ -128,9 +127,7 @@ export function updateCorpusStats(documents: Array<{content: string, id: string}
   }
 
   // Merge with existing stats
-  for (const [term, count] of termDocCount) {
-    docFreq.set(term, (currentStats.idf.get(term) || 0) * currentStats.totalDocs + count);
-  }
+  const docFreq = mergeDocumentFrequencies(currentStats, termDocCount);
 
   // Merge co-occurrence
   for (const [t1, coocs] of coocWindow) {
@@ -142,11 +139,7 @@ export function updateCorpusStats(documents: Array<{content: string, id: string}
     }
   }
 
-  // Compute IDF
-  const newIdf = new Map<string, number>();
-  for (const [term, df] of docFreq) {
-    newIdf.set(term, Math.log((totalDocs + 1) / (df + 1)) + 1); // Smoothed IDF
-  }
+  const newIdf = computeIdf(docFreq, totalDocs);
 
   // Compute PMI
   const newPmi = new Map<string, Map<string, number>>();
@@ -168,7 +161,8 @@ export function updateCorpusStats(documents: Array<{content: string, id: string}
     cooc: currentStats.cooc,
     pmi: newPmi,
     totalDocs,
-    totalTokens
+    totalTokens,
+    docFreq
   };
 
   // Save to disk
@@ -177,6 +171,76 @@ export function updateCorpusStats(documents: Array<{content: string, id: string}
   return updatedStats;
 }
 
+/**
+ * Add documents to and remove documents (superseded or deleted chunks) from the term
+ * statistics (document frequencies, IDF, token counts) without the co-occurrence window,
+ * which is too costly to update on every ingest
+ */
+export function updateTermStats(
+  documents: Array<{content: string, id: string}>,
+  tenant: string,
+  removedDocuments: Array<{content: string, id: string}> = []
+): CorpusStats {
+  const currentStats = loadCorpusStats(tenant);
+  const termDocCount = new Map<string, number>();
+  let totalTokens = currentStats.totalTokens;
+
+  const count = (docs: Array<{content: string, id: string}>, sign: 1 | -1) => {
+    for (const doc of docs) {
+      const tokens = tokenizeAndNormalize(doc.content);
+      totalTokens += sign * tokens.length;
+      for (const token of new Set(tokens)) {
+        termDocCount.set(token, (termDocCount.get(token) || 0) + sign);
+      }
+    }
+  };
+  count(documents, 1);
+  count(removedDocuments, -1);
+
+  const totalDocs = Math.max(0, currentStats.totalDocs + documents.length - removedDocuments.length);
+  totalTokens = Math.max(0, totalTokens);
+  const docFreq = mergeDocumentFrequencies(currentStats, termDocCount);
+  const updatedStats: CorpusStats = {
+    ...currentStats,
+    idf: computeIdf(docFreq, totalDocs),
+    totalDocs,
+    totalTokens,
+    docFreq
+  };
+
+  saveCorpusStats(updatedStats, tenant);
+  return updatedStats;
+}
+
+/**
+ * Document frequencies of the current stats plus the counts of new documents, minus
+ * those of removed documents; terms left in no document are dropped.
+ * Stats saved without docFreq have it recovered from their smoothed IDF.
+ */
+function mergeDocumentFrequencies(currentStats: CorpusStats, termDocCount: Map<string, number>): Map<string, number> {
+  const docFreq = new Map(currentStats.docFreq || Array.from(currentStats.idf.entries()).map(([term, idf]) =>
+    [term, Math.max(0, Math.round((currentStats.totalDocs + 1) / Math.exp(idf - 1) - 1))] as [string, number]
+  ));
+
+  for (const [term, count] of termDocCount) {
+    const df = (docFreq.get(term) || 0) + count;
+    if (df > 0) {
+      docFreq.set(term, df);
+    } else {
+      docFreq.delete(term);
+    }
+  }
+  return docFreq;
+}
+
+function computeIdf(docFreq: Map<string, number>, totalDocs: number): Map<string, number> {
+  const idf = new Map<string, number>();
+  for (const [term, df] of docFreq) {
+    idf.set(term, Math.log((totalDocs + 1) / (df + 1)) + 1); // Smoothed IDF
+  }
+  return idf;
+}
+
 /**
  * Tokenize and normalize text
  */
@@ -214,7 +278,8 @@ export function serializeCorpusStats(stats: CorpusStats): any {
       Array.from(stats.pmi.entries()).map(([k, v]) => [k, Object.fromEntries(v)])
     ),
     totalDocs: stats.totalDocs,
-    totalTokens: stats.totalTokens
+    totalTokens: stats.totalTokens,
+    ...(stats.docFreq && { docFreq: Object.fromEntries(stats.docFreq) })
   };
 }
 
@@ -235,6 +300,7 @@ export function deserializeCorpusStats(data: any): CorpusStats {
       )
     ),
     totalDocs: data.totalDocs || 0,
-    totalTokens: data.totalTokens || 0
+    totalTokens: data.totalTokens || 0,
+    ...(data.docFreq && { docFreq: new Map(Object.entries(data.docFreq)) })
   };
 }
\ No newline at end of file
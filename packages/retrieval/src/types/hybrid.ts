@@ -1,5 +1,8 @@
 import { VectorSearchResult } from './vector.js';
 import { RerankerResult } from './reranker.js';
+import { QueryExpansionConfig, QueryVariant } from '../retrieval/query-expansion.js';
+import { DiversityMetrics, MMRConfig } from '../context/novelty.js';
+import { ParentRecord } from '../context/parent-document.js';
 
 export interface HybridSearchRequest {
   query: string;
@@ -10,6 +13,7 @@ export interface HybridSearchRequest {
   enableKeywordSearch?: boolean;
   filter?: Record<string, any>;
   tenantId?: string; // Optional tenant ID for overriding user context
+  asOf?: string; // Optional ISO timestamp; search the document versions valid at that time
 }
 
 export interface HybridSearchResult {
@@ -22,6 +26,8 @@ export interface HybridSearchResult {
   keywordScore?: number;
   fusionScore?: number; // Score specifically from RRF fusion
   rerankerScore?: number; // Score specifically from reranker
+  lateInteractionScore?: number; // MaxSim score of the query against the chunk's sentence vectors
+  parent?: ParentRecord; // Enclosing section or page, packed as context in place of the chunk
   rank?: number; // Rank in the final sorted results
 }
 
@@ -37,6 +43,8 @@ export interface TenantSearchConfig {
     topK: number;
     scoreThreshold: number;
   };
+  queryExpansion?: QueryExpansionConfig; // Multi-query / HyDE retrieval; off when not set
+  mmr?: MMRConfig; // Diversification of fused results by their dense vectors; off when not set
 }
 
 export interface SearchPerformanceMetrics {
@@ -46,11 +54,15 @@ export interface SearchPerformanceMetrics {
   fusionDuration: number;
   rerankerDuration: number;
   embeddingDuration?: number; // Time for embedding generation
+  queryExpansionDuration?: number; // Time for generating and searching query variants
+  lateInteractionDuration?: number; // Time for MaxSim scoring of the candidates
+  parentFetchDuration?: number; // Time for fetching the parent records of the results
   vectorResultCount: number;
   keywordResultCount: number;
   finalResultCount: number; // After fusion and reranking
   rerankingEnabled: boolean;
   documentsReranked: number;
+  diversity?: DiversityMetrics; // Set when MMR diversification ran
 }
 
 export interface FusionTrace {
@@ -72,4 +84,5 @@ export interface StructuredHybridSearchResult {
   rerankerResults?: RerankerResult[];
   metrics: SearchPerformanceMetrics;
   fusionTrace?: FusionTrace; // Optional fusion telemetry
+  queryVariants?: QueryVariant[]; // Query variants searched when query expansion is enabled
 }
\ No newline at end of file
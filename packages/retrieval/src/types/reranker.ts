@@ -3,6 +3,7 @@ export interface RerankerRequest {
   documents: RerankerDocument[];
   model?: string;
   topK?: number;
+  tenantId?: string; // Tenant the request is for, e.g. to use its LLM
 }
 
 export interface RerankerDocument {
@@ -40,7 +41,7 @@ export interface TenantRerankerConfig {
 
 export interface RerankerModel {
   name: string;
-  type: 'cross-encoder' | 'sentence-transformer';
+  type: 'cross-encoder' | 'sentence-transformer' | 'llm';
   dimensions?: number;
   maxSequenceLength?: number;
 }
@@ -65,6 +66,15 @@ export const RERANKER_MODELS = {
     type: 'cross-encoder' as const,
     maxSequenceLength: 512
   },
+  MS_MARCO_MINILM_L6: {
+    name: 'cross-encoder/ms-marco-MiniLM-L-6-v2',
+    type: 'cross-encoder' as const,
+    maxSequenceLength: 512
+  },
+  LLM_LISTWISE: {
+    name: 'llm-listwise', // Ranks candidates with the tenant's LLM
+    type: 'llm' as const
+  },
   COHERE_RERANK_V3: {
     name: 'cohere-rerank-english-v3.0',
     type: 'cross-encoder' as const,
@@ -88,10 +98,40 @@ export const DEFAULT_RERANKER_CONFIG: RerankerConfig = {
 // Additional environment-based configuration
 export const RERANKER_CONFIG = {
   ENABLED: process.env.RERANKER_ENABLED === 'true',
+  BACKEND: (process.env.RERANKER_BACKEND || 'http') as 'http' | 'onnx', // onnx runs a local model in-process
   MODEL: process.env.RERANKER_MODEL || 'BAAI/bge-reranker-large',
   ENDPOINT: process.env.RERANKER_ENDPOINT || 'http://reranker:8080/rerank',
   TOPN_IN: parseInt(process.env.RERANKER_TOPN_IN || '20', 10),
   TOPN_OUT: parseInt(process.env.RERANKER_TOPN_OUT || '8', 10),
   TIMEOUT_MS: parseInt(process.env.RERANKER_TIMEOUT_MS || '500', 10),
   BATCH_SIZE: parseInt(process.env.RERANKER_BATCH || '16', 10)
-} as const;
\ No newline at end of file
+} as const;
+export interface TenantRerankerOverride {
+  model: string;
+  topK: number;
+  scoreThreshold: number;
+}
+
+/**
+ * Per-tenant reranker selection from RERANKER_TENANTS, a JSON object of tenant to
+ * { model, topK, scoreThreshold }, e.g. {"acme":{"model":"llm-listwise"}}
+ */
+export function getTenantRerankerConfigs(): Record<string, TenantRerankerOverride> {
+  let overrides: Record<string, Partial<TenantRerankerOverride>> = {};
+  try {
+    overrides = JSON.parse(process.env.RERANKER_TENANTS || '{}');
+  } catch {
+    console.warn('Ignoring invalid RERANKER_TENANTS, expected a JSON object of tenant to reranker config');
+  }
+
+  const configs: Record<string, TenantRerankerOverride> = {};
+  for (const [tenantId, override] of Object.entries(overrides)) {
+    configs[tenantId] = {
+      model: RERANKER_CONFIG.MODEL,
+      topK: RERANKER_CONFIG.TOPN_OUT,
+      scoreThreshold: DEFAULT_RERANKER_CONFIG.scoreThreshold ?? 0,
+      ...override
+    };
+  }
+  return configs;
+}
@@ -9,6 +9,7 @@ export interface VectorSearchParams {
   queryVector: number[];
   limit: number;
   filter?: Record<string, any>; // Metadata filter
+  withVector?: boolean; // Return the stored vector of each result
 }
 
 export type VectorSearchResult = Vector & {
@@ -0,0 +1,46 @@
+import { FilterExpressionSchema, getFilterFields } from '../schemas/filters.js';
+
+describe('Filter expressions', () => {
+  it('should accept nested expressions', () => {
+    const result = FilterExpressionSchema.safeParse({
+      and: [
+        { field: 'authors', op: 'in', values: ['Alice Johnson'] },
+        { field: 'modifiedAt', op: 'within', last: '30d' },
+        { or: [{ field: 'lang', op: 'eq', value: 'en' }, { field: 'pageCount', op: 'range', lte: 10 }] },
+        { not: { field: 'tags', op: 'exists' } }
+      ]
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject clauses on reserved fields at any depth', () => {
+    const result = FilterExpressionSchema.safeParse({
+      or: [
+        { field: 'spaceId', op: 'eq', value: 'hr' },
+        { not: { field: 'acl', op: 'in', values: ['public'] } },
+        { field: 'tenantId', op: 'eq', value: 'other' }
+      ]
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.success ? [] : result.error.issues.map(issue => issue.message)).toEqual([
+      'Filtering on reserved field "acl" is not allowed',
+      'Filtering on reserved field "tenantId" is not allowed'
+    ]);
+  });
+
+  it('should reject malformed clauses', () => {
+    expect(FilterExpressionSchema.safeParse({ field: 'modifiedAt', op: 'range' }).success).toBe(false);
+    expect(FilterExpressionSchema.safeParse({ field: 'modifiedAt', op: 'within', last: 'a month' }).success).toBe(false);
+    expect(FilterExpressionSchema.safeParse({ field: 'tags', op: 'eq', value: 'x', must: [] }).success).toBe(false);
+    expect(FilterExpressionSchema.safeParse({ key: 'tags', match: { value: 'x' } }).success).toBe(false);
+    expect(FilterExpressionSchema.safeParse({ and: [] }).success).toBe(false);
+  });
+
+  it('should list the fields referenced by an expression', () => {
+    expect(getFilterFields({
+      and: [{ field: 'authors', op: 'exists' }, { not: { field: 'tags', op: 'eq', value: 'draft' } }]
+    })).toEqual(['authors', 'tags']);
+  });
+});
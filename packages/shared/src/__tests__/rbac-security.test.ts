@@ -1,6 +1,7 @@
 import {
   UserContext,
   DocumentMetadata,
+  AttributeAccessRule,
   hasDocumentAccess,
   getEffectiveGroupIds,
   getUserPrivilegeLevel,
@@ -559,4 +560,91 @@ describe('Enhanced RBAC Security Tests', () => {
       });
     });
   });
+
+  describe('Deny Entries', () => {
+    const userContext: UserContext = {
+      id: 'user1',
+      groupIds: ['staff'],
+      tenantId: 'tenant1',
+      groupHierarchy: {
+        staff: { level: 1, inherits: ['contractors'] }
+      }
+    };
+
+    test('should let deny entries override allow entries', () => {
+      expect(hasDocumentAccess(userContext, { tenantId: 'tenant1', docId: 'doc1', acl: ['public', '!user1'] })).toBe(false);
+      expect(hasDocumentAccess(userContext, { tenantId: 'tenant1', docId: 'doc2', acl: ['staff', '!contractors'] })).toBe(false);
+      expect(hasDocumentAccess(userContext, { tenantId: 'tenant1', docId: 'doc3', acl: ['staff', '!interns'] })).toBe(true);
+    });
+
+    test('should exclude denied users and effective groups in the Qdrant filter', () => {
+      const filter = buildQdrantRBACFilter(userContext);
+
+      expect(filter.must).toHaveLength(2);
+      expect(filter.must_not).toEqual([
+        { key: 'acl', match: { any: ['!user1', '!staff', '!contractors'] } }
+      ]);
+    });
+  });
+
+  describe('Attribute Access Rules', () => {
+    const accessRules: AttributeAccessRule[] = [
+      { field: 'classification', op: 'lte', userAttribute: 'clearance' },
+      { field: 'region', op: 'in', userAttribute: 'regions' }
+    ];
+    const analyst: UserContext = {
+      id: 'analyst',
+      groupIds: ['staff'],
+      tenantId: 'tenant1',
+      attributes: { clearance: 2, regions: ['eu', 'uk'] },
+      accessRules
+    };
+    const doc = (metadata: Record<string, unknown>): DocumentMetadata => ({
+      tenantId: 'tenant1',
+      docId: 'doc1',
+      acl: ['public'],
+      ...metadata
+    });
+
+    test('should compare classification levels with the user\'s clearance', () => {
+      expect(hasDocumentAccess(analyst, doc({ classification: 2 }))).toBe(true);
+      expect(hasDocumentAccess(analyst, doc({ classification: 3 }))).toBe(false);
+      expect(hasDocumentAccess({ ...analyst, attributes: { clearance: '3' } }, doc({ classification: 3 }))).toBe(true);
+    });
+
+    test('should restrict documents to the user\'s regions', () => {
+      expect(hasDocumentAccess(analyst, doc({ region: 'eu' }))).toBe(true);
+      expect(hasDocumentAccess(analyst, doc({ region: ['us', 'uk'] }))).toBe(true);
+      expect(hasDocumentAccess(analyst, doc({ region: 'us' }))).toBe(false);
+    });
+
+    test('should only allow unrestricted documents to users without the attributes', () => {
+      const newcomer: UserContext = { ...analyst, attributes: undefined };
+
+      expect(hasDocumentAccess(newcomer, doc({}))).toBe(true);
+      expect(hasDocumentAccess(newcomer, doc({ classification: 0 }))).toBe(false);
+      expect(hasDocumentAccess(newcomer, doc({ region: 'eu' }))).toBe(false);
+    });
+
+    test('should compile the rules into the Qdrant filter', () => {
+      const filter = buildQdrantRBACFilter(analyst);
+
+      expect(filter.must).toHaveLength(4);
+      expect(filter.must[2]).toEqual({
+        should: [
+          { is_empty: { key: 'classification' } },
+          { key: 'classification', range: { lte: 2 } }
+        ]
+      });
+      expect(filter.must[3]).toEqual({
+        should: [
+          { is_empty: { key: 'region' } },
+          { key: 'region', match: { any: ['eu', 'uk'] } }
+        ]
+      });
+      expect(buildQdrantRBACFilter({ ...analyst, attributes: {} }).must[2]).toEqual({
+        should: [{ is_empty: { key: 'classification' } }]
+      });
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,84 @@
+import {
+  applyQdrantVersionFilter,
+  buildQdrantVersionFilter,
+  isChunkValidAt
+} from '../utils/versioning.js';
+
+describe('Versioning Utilities', () => {
+  describe('buildQdrantVersionFilter', () => {
+    it('should exclude superseded chunks when no timestamp is given', () => {
+      expect(buildQdrantVersionFilter()).toEqual({
+        must_not: [{ key: 'superseded', match: { value: true } }]
+      });
+    });
+
+    it('should select chunks valid at the given timestamp', () => {
+      const filter = buildQdrantVersionFilter('2024-03-01T00:00:00.000Z');
+
+      expect(filter.must_not).toBeUndefined();
+      expect(filter.must).toEqual([
+        {
+          should: [
+            { is_empty: { key: 'validFrom' } },
+            { key: 'validFrom', range: { lte: '2024-03-01T00:00:00.000Z' } }
+          ]
+        },
+        {
+          should: [
+            { is_empty: { key: 'validTo' } },
+            { key: 'validTo', range: { gt: '2024-03-01T00:00:00.000Z' } }
+          ]
+        }
+      ]);
+    });
+  });
+
+  describe('applyQdrantVersionFilter', () => {
+    it('should append conditions without dropping existing ones', () => {
+      const filter = {
+        must: [{ key: 'tenant', match: { value: 'acme' } }],
+        must_not: [{ key: 'docId', match: { value: 'hidden' } }]
+      };
+
+      const result = applyQdrantVersionFilter(filter);
+
+      expect(result).toBe(filter);
+      expect(filter.must).toHaveLength(1);
+      expect(filter.must_not).toEqual([
+        { key: 'docId', match: { value: 'hidden' } },
+        { key: 'superseded', match: { value: true } }
+      ]);
+    });
+
+    it('should create the must list when missing', () => {
+      const filter: { must?: any[] } = {};
+      applyQdrantVersionFilter(filter, '2024-03-01T00:00:00.000Z');
+      expect(filter.must).toHaveLength(2);
+    });
+  });
+
+  describe('isChunkValidAt', () => {
+    const chunk = {
+      validFrom: '2024-01-01T00:00:00.000Z',
+      validTo: '2024-06-01T00:00:00.000Z',
+      superseded: true
+    };
+
+    it('should respect the validity interval', () => {
+      expect(isChunkValidAt(chunk, '2023-12-31T00:00:00.000Z')).toBe(false);
+      expect(isChunkValidAt(chunk, '2024-01-01T00:00:00.000Z')).toBe(true);
+      expect(isChunkValidAt(chunk, '2024-05-31T23:59:59.000Z')).toBe(true);
+      expect(isChunkValidAt(chunk, '2024-06-01T00:00:00.000Z')).toBe(false);
+    });
+
+    it('should treat chunks without validity fields as always valid', () => {
+      expect(isChunkValidAt({}, '1999-01-01T00:00:00.000Z')).toBe(true);
+      expect(isChunkValidAt({})).toBe(true);
+    });
+
+    it('should only accept current chunks when no timestamp is given', () => {
+      expect(isChunkValidAt(chunk)).toBe(false);
+      expect(isChunkValidAt({ validFrom: '2024-01-01T00:00:00.000Z' })).toBe(true);
+    });
+  });
+});
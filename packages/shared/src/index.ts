@@ -5,6 +5,7 @@ export * from './types/user.js';
 export * from './utils/rbac.js';
 export * from './utils/normalization.js';
 export * from './utils/freshness.js';
+export * from './utils/versioning.js';
 export * from './schemas/index.js';
 export * from './constants.js';
 
@@ -20,3 +21,4 @@ export * from './services/feature-extractor.js';
 export * from './services/query-builder.js';
 export * from './schemas/spaces.js';
 export * from './schemas/lexical.js';
+export * from './schemas/filters.js';
@@ -0,0 +1,79 @@
+import { z } from 'zod';
+
+/**
+ * Payload fields that filters may not reference. Tenant isolation, ACLs and
+ * document versions are always enforced by the server.
+ */
+export const RESERVED_FILTER_FIELDS = ['tenant', 'tenantId', 'acl', 'superseded', 'validFrom', 'validTo'] as const;
+
+export type FilterScalar = string | number | boolean;
+
+/**
+ * Portable metadata filter language, independent of the vector store.
+ *
+ * @example
+ * { and: [
+ *   { field: 'authors', op: 'in', values: ['Alice Johnson', 'Bob Smith'] },
+ *   { field: 'modifiedAt', op: 'within', last: '30d' },
+ *   { not: { field: 'tags', op: 'eq', value: 'draft' } }
+ * ] }
+ */
+export type FilterExpression =
+  | { field: string; op: 'eq'; value: FilterScalar }
+  | { field: string; op: 'in'; values: FilterScalar[] }
+  | { field: string; op: 'range'; gt?: number | string; gte?: number | string; lt?: number | string; lte?: number | string }
+  | { field: string; op: 'exists' }
+  | { field: string; op: 'within'; last: string } // Date within the last days (d), weeks (w), months (m) or years (y), e.g. '30d'
+  | { and: FilterExpression[] }
+  | { or: FilterExpression[] }
+  | { not: FilterExpression };
+
+const FilterFieldSchema = z.string()
+  .regex(/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/, 'Invalid field name');
+
+const FilterScalarSchema = z.union([z.string(), z.number(), z.boolean()]);
+const RangeBoundSchema = z.union([z.number(), z.string().datetime({ offset: true })]);
+
+export const RelativeDurationSchema = z.string().regex(/^\d+[dwmy]$/, 'Expected a duration like 7d, 2w, 6m or 1y');
+
+const FilterNodeSchema: z.ZodType<FilterExpression> = z.lazy(() => z.union([
+  z.object({ field: FilterFieldSchema, op: z.literal('eq'), value: FilterScalarSchema }).strict(),
+  z.object({ field: FilterFieldSchema, op: z.literal('in'), values: z.array(FilterScalarSchema).min(1).max(100) }).strict(),
+  z.object({
+    field: FilterFieldSchema,
+    op: z.literal('range'),
+    gt: RangeBoundSchema.optional(),
+    gte: RangeBoundSchema.optional(),
+    lt: RangeBoundSchema.optional(),
+    lte: RangeBoundSchema.optional(),
+  }).strict().refine(
+    range => [range.gt, range.gte, range.lt, range.lte].some(bound => bound !== undefined),
+    { message: 'A range needs at least one bound' }
+  ),
+  z.object({ field: FilterFieldSchema, op: z.literal('exists') }).strict(),
+  z.object({ field: FilterFieldSchema, op: z.literal('within'), last: RelativeDurationSchema }).strict(),
+  z.object({ and: z.array(FilterNodeSchema).min(1).max(50) }).strict(),
+  z.object({ or: z.array(FilterNodeSchema).min(1).max(50) }).strict(),
+  z.object({ not: FilterNodeSchema }).strict(),
+]));
+
+export const FilterExpressionSchema = FilterNodeSchema.superRefine((expression, ctx) => {
+  for (const field of getFilterFields(expression)) {
+    if ((RESERVED_FILTER_FIELDS as readonly string[]).includes(field.split('.')[0])) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Filtering on reserved field "${field}" is not allowed`,
+      });
+    }
+  }
+});
+
+/**
+ * Fields referenced anywhere in a filter expression
+ */
+export function getFilterFields(expression: FilterExpression): string[] {
+  if ('and' in expression) return expression.and.flatMap(getFilterFields);
+  if ('or' in expression) return expression.or.flatMap(getFilterFields);
+  if ('not' in expression) return getFilterFields(expression.not);
+  return [expression.field];
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { FilterExpressionSchema } from './filters.js';
 
 export const TenantIdSchema = z.string().uuid();
 
@@ -35,6 +36,12 @@ export const IngestDocumentResponseSchema = z.object({
 export const UserIdSchema = z.string();
 export const GroupIdSchema = z.string();
 
+export const AttributeAccessRuleSchema = z.object({
+  field: z.string().min(1),
+  op: z.enum(['lte', 'in']),
+  userAttribute: z.string().min(1),
+});
+
 export const UserContextSchema = z.object({
   id: UserIdSchema,
   groupIds: z.array(GroupIdSchema),
@@ -43,11 +50,41 @@ export const UserContextSchema = z.object({
 
 // Removed - will be redefined below with enhanced fields
 
+export const ConversationTurnSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+});
+
+export const InferredFilterFieldSchema = z.enum(['authors', 'tags', 'spaceId', 'modifiedAt', 'lang']);
+
+export const InferredFilterClauseSchema = z.object({
+  field: InferredFilterFieldSchema,
+  values: z.array(z.string().min(1)).min(1).optional(),
+  gte: z.string().datetime().optional(),
+  lt: z.string().datetime().optional(),
+  phrase: z.string(),
+}).refine(
+  clause => clause.field === 'modifiedAt'
+    ? !clause.values && Boolean(clause.gte || clause.lt)
+    : Boolean(clause.values) && !clause.gte && !clause.lt,
+  { message: 'modifiedAt clauses need a range, all other clauses need values' }
+);
+
+export const InferredFilterSchema = z.object({
+  clauses: z.array(InferredFilterClauseSchema),
+  searchQuery: z.string(),
+});
+
 export const AskRequestSchema = z.object({
   query: z.string(),
   userContext: UserContextSchema,
+  conversationId: z.string().optional(),
+  history: z.array(ConversationTurnSchema).max(50).optional(),
   k: z.number().int().positive().optional(),
-  filter: z.record(z.any()).optional(),
+  filter: FilterExpressionSchema.optional(),
+  asOf: z.string().datetime().optional(),
+  inferFilters: z.boolean().optional(),
+  ignoreInferredFilters: z.array(InferredFilterFieldSchema).optional(),
 
   // Hybrid search configuration
   hybridSearch: z.object({
@@ -119,6 +156,14 @@ export const AskResponseSchema = z.object({
   answer: z.string(),
   retrievedDocuments: z.array(EnhancedRetrievedDocumentSchema),
   queryId: z.string(),
+  conversationId: z.string().optional(),
+  standaloneQuery: z.string().optional(),
+  inferredFilter: InferredFilterSchema.optional(),
+  cached: z.object({
+    queryId: z.string(),
+    similarity: z.number(),
+    cachedAt: z.string().datetime(),
+  }).optional(),
 
   // Guardrail decision with enhanced metadata
   guardrailDecision: GuardrailDecisionSchema.optional(),
@@ -146,6 +191,7 @@ export const AskResponseSchema = z.object({
     url: z.string().url().optional(),
     filepath: z.string().optional(),
     authors: z.array(z.string()).optional(),
+    headingPath: z.array(z.string()).optional(),
   })).optional(),
 
   // Performance metrics
@@ -178,6 +224,21 @@ export const AskResponseSchema = z.object({
     hybridSearchConfig: z.record(z.any()).optional(),
     rerankerConfig: z.record(z.any()).optional(),
     guardrailConfig: z.record(z.any()).optional(),
+    queryVariants: z.array(z.object({
+      kind: z.enum(['original', 'paraphrase', 'hyde']),
+      text: z.string(),
+    })).optional(),
+    diversity: z.object({
+      lambda: z.number(),
+      candidateCount: z.number(),
+      selectedCount: z.number(),
+      droppedNearDuplicates: z.array(z.object({
+        id: z.string(),
+        duplicateOf: z.string(),
+        similarity: z.number(),
+      })),
+      cappedByDocument: z.array(z.string()),
+    }).optional(),
     retrievalSteps: z.array(z.string()).optional(),
   }).optional(),
 });
@@ -232,6 +293,21 @@ export const NormalizedMetaSchema = z.object({
   deleted: z.boolean().optional(),
 });
 
+/**
+ * Schema for structural block metadata.
+ * Validates page numbers and heading information captured during extraction.
+ */
+export const BlockMetadataSchema = z.object({
+  /** Optional 1-based page number */
+  page: z.number().int().positive().optional(),
+
+  /** Optional heading level (1-6) */
+  headingLevel: z.number().int().min(1).max(6).optional(),
+
+  /** Optional titles of the enclosing headings, outermost first */
+  headingPath: z.array(z.string()).optional(),
+});
+
 /**
  * Schema for content blocks within a normalized document.
  * Validates block type and optional content fields.
@@ -245,6 +321,9 @@ export const BlockSchema = z.object({
 
   /** Optional HTML representation */
   html: z.string().optional(),
+
+  /** Optional structural metadata */
+  metadata: BlockMetadataSchema.optional(),
 });
 
 /**
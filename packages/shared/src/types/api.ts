@@ -1,6 +1,7 @@
 import { Document } from './document.js';
 import { UserContext } from './user.js';
 import { FreshnessInfo, FreshnessStats } from '../utils/freshness.js';
+import { FilterExpression } from '../schemas/filters.js';
 
 // Ingest API types
 export interface IngestDocumentRequest {
@@ -98,13 +99,47 @@ export interface CandidateSignals {
 
 export interface TermWeight { term: string; weight: number; rank: number; }
 
+/**
+ * A single message of a conversation with the assistant
+ */
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Payload fields that metadata filters are inferred for from the question
+ */
+export type InferredFilterField = 'authors' | 'tags' | 'spaceId' | 'modifiedAt' | 'lang';
+
+/**
+ * A filter clause inferred from the question, e.g. "by Alice" or "updated since June"
+ */
+export interface InferredFilterClause {
+  field: InferredFilterField;
+  values?: string[]; // Documents match any of the values; all fields except modifiedAt
+  gte?: string; // modifiedAt range bounds (ISO 8601)
+  lt?: string;
+  phrase: string; // Part of the question the clause was inferred from
+}
+
+export interface InferredFilter {
+  clauses: InferredFilterClause[];
+  searchQuery: string; // Question without the filter phrases, used for searching
+}
+
 // Ask API types with Phase 2 pipeline support
 export interface AskRequest {
   query: string;
   userContext: UserContext;
+  conversationId?: string; // Continue a stored conversation; only the new question needs to be sent
+  history?: ConversationTurn[]; // Previous turns, for clients that keep the conversation themselves
   k?: number; // Number of documents to retrieve
-  filter?: Record<string, any>; // Metadata filter for RAG
+  filter?: FilterExpression; // Metadata filter for RAG; tenant and ACL are always enforced by the server
   docId?: string; // Optional document ID to filter search results to a specific document
+  asOf?: string; // Optional ISO timestamp; answers from the document versions valid at that time
+  inferFilters?: boolean; // Infer metadata filters from the question (default true)
+  ignoreInferredFilters?: InferredFilterField[]; // Inferred filters removed by the user
 
   // Hybrid search configuration
   hybridSearch?: {
@@ -151,6 +186,14 @@ export interface AskResponse {
   answer: string;
   retrievedDocuments: RetrievedDocument[];
   queryId: string;
+  conversationId?: string; // Conversation the question and answer were stored in
+  standaloneQuery?: string; // Follow-up question rewritten to stand on its own, when it was rewritten
+  inferredFilter?: InferredFilter; // Metadata filter inferred from the question and applied to the search
+  cached?: { // Set when the answer was reused from the semantic answer cache
+    queryId: string; // Query the answer was generated for
+    similarity: number;
+    cachedAt: string;
+  };
 
   // Guardrail decision with enhanced metadata
   guardrailDecision?: {
@@ -185,6 +228,7 @@ export interface AskResponse {
     url?: string;
     filepath?: string;
     authors?: string[];
+    headingPath?: string[];
   }>;
 
   // Performance metrics
@@ -217,6 +261,16 @@ export interface AskResponse {
     hybridSearchConfig?: Record<string, any>;
     rerankerConfig?: Record<string, any>;
     guardrailConfig?: Record<string, any>;
+    /** Query variants searched when multi-query or HyDE expansion is enabled */
+    queryVariants?: Array<{ kind: 'original' | 'paraphrase' | 'hyde'; text: string }>;
+    /** MMR diversification: near-duplicates dropped by vector similarity and chunks over the per-document cap */
+    diversity?: {
+      lambda: number;
+      candidateCount: number;
+      selectedCount: number;
+      droppedNearDuplicates: Array<{ id: string; duplicateOf: string; similarity: number }>;
+      cappedByDocument: string[];
+    };
     retrievalSteps?: string[];
   };
 }
@@ -51,6 +51,21 @@ export interface NormalizedMeta {
   deleted?: boolean;
 }
 
+/**
+ * Structural metadata captured during extraction of a content block.
+ * Preserves layout information from the source format (pages, headings).
+ */
+export interface BlockMetadata {
+  /** Optional 1-based page number the block was extracted from */
+  page?: number;
+
+  /** Optional heading level (1-6) when the block is a heading */
+  headingLevel?: number;
+
+  /** Optional titles of the enclosing headings, outermost first */
+  headingPath?: string[];
+}
+
 /**
  * Individual content block within a normalized document.
  * Supports various content types with optional text and HTML representations.
@@ -64,6 +79,9 @@ export interface Block {
 
   /** Optional HTML representation of the content */
   html?: string;
+
+  /** Optional structural metadata from the source document */
+  metadata?: BlockMetadata;
 }
 
 /**
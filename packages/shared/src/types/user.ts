@@ -9,10 +9,26 @@ export interface GroupHierarchy {
   };
 }
 
+export type UserAttributeValue = string | number | Array<string | number>;
+
+/**
+ * Restricts documents by comparing a payload field with a user attribute.
+ * Documents without the field are not restricted by the rule.
+ * - `lte`: the field must be at most the attribute (e.g. classification level vs. clearance)
+ * - `in`: the field must match one of the attribute's values (e.g. region)
+ */
+export interface AttributeAccessRule {
+  field: string; // Document payload field
+  op: 'lte' | 'in';
+  userAttribute: string; // Key in UserContext.attributes
+}
+
 export interface UserContext {
   id: UserId;
   groupIds: GroupId[];
   tenantId: string;
   language?: LanguageCode; // User's preferred language for content relevance
   groupHierarchy?: GroupHierarchy; // Group hierarchy information for enhanced RBAC
+  attributes?: Record<string, UserAttributeValue>; // User attributes checked by access rules (e.g. clearance, region)
+  accessRules?: AttributeAccessRule[]; // Attribute rules of the user's tenant
 }
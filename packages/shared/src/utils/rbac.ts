@@ -1,5 +1,11 @@
 import { DocumentMetadata } from '../types/document.js';
-import { UserContext } from '../types/user.js';
+import { AttributeAccessRule, UserContext } from '../types/user.js';
+
+/**
+ * ACL entries starting with this prefix deny the user or group that follows
+ * (e.g. `!contractors`). Deny entries override allow entries.
+ */
+export const ACL_DENY_PREFIX = '!';
 
 // Performance optimization: Cache for effective group IDs
 const effectiveGroupsCache = new Map<string, {
@@ -133,9 +139,89 @@ export function getUserPrivilegeLevel(userContext: UserContext): number {
   return maxLevel || 1;
 }
 
+/**
+ * Deny entries that apply to the user: the user's ID and effective groups, prefixed
+ * @param userContext The user's context
+ * @returns Array of ACL entries that exclude the user
+ */
+export function getUserDenyEntries(userContext: UserContext): string[] {
+  return getUserACLEntries(userContext).map(entry => `${ACL_DENY_PREFIX}${entry}`);
+}
+
+function getAttributeValues(userContext: UserContext, rule: AttributeAccessRule): Array<string | number> {
+  const value = userContext.attributes?.[rule.userAttribute];
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+// Highest numeric value of the rule's attribute, e.g. the user's clearance
+function getAttributeLimit(userContext: UserContext, rule: AttributeAccessRule): number | undefined {
+  const limits = getAttributeValues(userContext, rule)
+    .map(value => Number(value))
+    .filter(value => Number.isFinite(value));
+  return limits.length > 0 ? Math.max(...limits) : undefined;
+}
+
+/**
+ * Checks a document against one attribute access rule.
+ * Documents without the rule's field are not restricted.
+ * @param userContext The user's context, including attributes
+ * @param rule The access rule
+ * @param docMetadata The document's metadata
+ * @returns True if the rule allows access
+ */
+export function matchesAccessRule(
+  userContext: UserContext,
+  rule: AttributeAccessRule,
+  docMetadata: DocumentMetadata
+): boolean {
+  const field = docMetadata[rule.field];
+  if (field === undefined || field === null || (Array.isArray(field) && field.length === 0)) {
+    return true;
+  }
+
+  // Like Qdrant, a document with several values matches when any of them does
+  const docValues: unknown[] = Array.isArray(field) ? field : [field];
+  if (rule.op === 'lte') {
+    const limit = getAttributeLimit(userContext, rule);
+    return limit !== undefined && docValues.some(value => typeof value === 'number' && value <= limit);
+  }
+
+  const allowed = getAttributeValues(userContext, rule);
+  return docValues.some(value => allowed.includes(value as string | number));
+}
+
+/**
+ * Builds Qdrant conditions for the user's attribute access rules, one per rule.
+ * Each matches documents without the field or with a value the user's attribute allows.
+ * @param userContext The user's context
+ * @returns Array of Qdrant conditions for the "must" clause
+ */
+export function buildAccessRuleConditions(userContext: UserContext): any[] {
+  return (userContext.accessRules || []).map(rule => {
+    const conditions: any[] = [{ is_empty: { key: rule.field } }];
+
+    if (rule.op === 'lte') {
+      const limit = getAttributeLimit(userContext, rule);
+      if (limit !== undefined) {
+        conditions.push({ key: rule.field, range: { lte: limit } });
+      }
+    } else {
+      const allowed = getAttributeValues(userContext, rule);
+      if (allowed.length > 0) {
+        conditions.push({ key: rule.field, match: { any: allowed } });
+      }
+    }
+
+    return { should: conditions };
+  });
+}
+
 /**
  * Checks if a user has access to a document based on ACL and tenantId.
- * Enhanced with group hierarchy support.
+ * Enhanced with group hierarchy support, deny entries and attribute access rules.
  * @param userContext The user's context, including ID, group IDs, and tenant ID.
  * @param docMetadata The document's metadata, including ACL and tenant ID.
  * @returns True if the user has access, false otherwise.
@@ -152,6 +238,12 @@ export function hasDocumentAccess(
   // Get effective group IDs including inherited ones
   const effectiveGroupIds = getEffectiveGroupIds(userContext);
 
+  // Deny entries for the user or any of their effective groups override allow entries
+  const denyEntries = getUserDenyEntries(userContext);
+  if (docMetadata.acl.some((aclEntry: string) => denyEntries.includes(aclEntry))) {
+    return false;
+  }
+
   // RBAC Check: User must match at least one entry in the document's ACL
   // The ACL can contain user IDs, group IDs, or "public" for general access.
   const userHasAccess = docMetadata.acl.some((aclEntry: string) => {
@@ -170,7 +262,12 @@ export function hasDocumentAccess(
     return false;
   });
 
-  return userHasAccess;
+  if (!userHasAccess) {
+    return false;
+  }
+
+  // Attribute Check: every access rule of the tenant must allow the document
+  return (userContext.accessRules || []).every(rule => matchesAccessRule(userContext, rule, docMetadata));
 }
 
 /**
@@ -194,9 +291,10 @@ export function calculateLanguageRelevance(userLanguage?: string, docLanguage?:
 }
 
 /**
- * Builds comprehensive RBAC filters for Qdrant queries
+ * Builds comprehensive RBAC filters for Qdrant queries.
+ * Deny entries and attribute access rules are enforced in the query, not by post-filtering.
  * @param userContext The user's context
- * @returns Qdrant filter object with must and should conditions
+ * @returns Qdrant filter object with must, must_not and should conditions
  */
 export function buildQdrantRBACFilter(userContext: UserContext): any {
   const effectiveGroupIds = getEffectiveGroupIds(userContext);
@@ -216,6 +314,15 @@ export function buildQdrantRBACFilter(userContext: UserContext): any {
         match: {
           any: allAclEntries
         }
+      },
+      ...buildAccessRuleConditions(userContext)
+    ],
+    must_not: [
+      {
+        key: 'acl',
+        match: {
+          any: getUserDenyEntries(userContext)
+        }
       }
     ]
   };
@@ -0,0 +1,89 @@
+/**
+ * Document version validity on chunk payloads.
+ *
+ * Republishing a document keeps the chunks of earlier versions as superseded
+ * points. Every chunk is valid from `validFrom` (the publish that introduced
+ * it) until `validTo` (the publish that replaced or removed it). Chunks of the
+ * current version have no `validTo` and are not marked `superseded`. Chunks
+ * written before versioning existed have neither field and are treated as
+ * valid since the beginning of time.
+ */
+export interface ChunkValidity {
+  validFrom?: string;
+  validTo?: string;
+  superseded?: boolean;
+}
+
+/**
+ * Builds the Qdrant conditions selecting the chunks that make up a document
+ * at a point in time.
+ * @param asOf ISO timestamp; omit to select the current version
+ * @returns Conditions to AND with an existing filter
+ */
+export function buildQdrantVersionFilter(asOf?: string): { must?: any[]; must_not?: any[] } {
+  if (!asOf) {
+    return {
+      must_not: [{ key: 'superseded', match: { value: true } }]
+    };
+  }
+
+  return {
+    must: [
+      {
+        should: [
+          { is_empty: { key: 'validFrom' } },
+          { key: 'validFrom', range: { lte: asOf } }
+        ]
+      },
+      {
+        should: [
+          { is_empty: { key: 'validTo' } },
+          { key: 'validTo', range: { gt: asOf } }
+        ]
+      }
+    ]
+  };
+}
+
+/**
+ * Adds the version conditions for `asOf` to a Qdrant filter in place.
+ * @param filter Filter to extend (e.g. the result of buildQdrantRBACFilter)
+ * @param asOf ISO timestamp; omit to select the current version
+ * @returns The same filter object
+ */
+export function applyQdrantVersionFilter<T extends { must?: any[]; must_not?: any[] }>(
+  filter: T,
+  asOf?: string
+): T {
+  const versionFilter = buildQdrantVersionFilter(asOf);
+
+  if (versionFilter.must) {
+    filter.must = [...(filter.must || []), ...versionFilter.must];
+  }
+  if (versionFilter.must_not) {
+    filter.must_not = [...(filter.must_not || []), ...versionFilter.must_not];
+  }
+
+  return filter;
+}
+
+/**
+ * Checks whether a chunk payload belongs to the document as of a point in time.
+ * Mirrors buildQdrantVersionFilter for chunks that are already loaded.
+ * @param payload Chunk payload
+ * @param asOf ISO timestamp; omit to check against the current version
+ */
+export function isChunkValidAt(payload: ChunkValidity, asOf?: string): boolean {
+  if (!asOf) {
+    return payload.superseded !== true;
+  }
+
+  const at = new Date(asOf).getTime();
+  if (payload.validFrom && new Date(payload.validFrom).getTime() > at) {
+    return false;
+  }
+  if (payload.validTo && new Date(payload.validTo).getTime() <= at) {
+    return false;
+  }
+  return true;
+}